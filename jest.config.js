@@ -1,4 +1,11 @@
 module.exports = {
   preset: "ts-jest",
   testEnvironment: "node",
+  setupFiles: ["<rootDir>/packages/2d/src/tests/setup.ts"],
+  moduleNameMapper: {
+    // The real inspector needs a browser as soon as it's imported.
+    "^@hex-engine/inspector$":
+      "<rootDir>/packages/2d/src/tests/inspectorStub.ts",
+    "^@hex-engine/(.*)$": "<rootDir>/packages/$1/src",
+  },
 };
@@ -5,14 +5,19 @@ import {
   useStateAccumulator,
   Component,
   useType,
+  useRootEntity,
 } from "@hex-engine/core";
 import { useCanvasDrawOrderSort } from "./DrawOrder";
+import Camera from "../Components/Camera";
+import Viewport from "../Components/Viewport";
+import { Point, TransformMatrix } from "../Models";
 
 const DRAW_CALLBACKS = Symbol("DRAW_CALLBACKS");
 
 type DrawCallback = (
   context: CanvasRenderingContext2D,
-  backstage: CanvasRenderingContext2D
+  backstage: CanvasRenderingContext2D,
+  alpha: number
 ) => void;
 
 /**
@@ -20,6 +25,9 @@ type DrawCallback = (
  *
  * Unlike `useDraw`, `useRawDraw` does *not* transform the context by the current Entity's matrix transform.
  *
+ * The third argument passed to the function is an interpolation alpha from 0 to 1, indicating how far
+ * between simulation steps this frame is. It is always 1 unless the root `Canvas` uses a fixed timestep.
+ *
  * In most cases, you should use `useDraw` instead of `useRawDraw`.
  */
 export function useRawDraw(callback: DrawCallback) {
@@ -32,6 +40,12 @@ export function useRawDraw(callback: DrawCallback) {
  * Iterates over all the descendant Entities, and calls their registered
  * draw callbacks, in the order specified by the Canvas.DrawOrder component
  * on the root Entity, or a default order if there is no such component.
+ *
+ * If there is a `Camera` component on the root Entity, the context will be
+ * transformed by its view transform before any draw callbacks are called.
+ *
+ * If there are `Viewport` components on the root Entity, everything is drawn
+ * once per Viewport instead, clipped to the Viewport and transformed by its Camera.
  */
 export function DrawChildren({
   context,
@@ -44,18 +58,47 @@ export function DrawChildren({
 }) {
   useType(DrawChildren);
 
-  function drawComponent(component: Component) {
+  function drawComponent(component: Component, alpha: number) {
     if (component.isEnabled) {
       const drawCallbacks = component
         .stateAccumulator<DrawCallback>(DRAW_CALLBACKS)
         .all();
       for (const drawCallback of drawCallbacks) {
-        drawCallback(context, backstage);
+        drawCallback(context, backstage, alpha);
       }
     }
   }
 
-  useFrame(() => {
+  function applyMatrix(matrix: TransformMatrix) {
+    context.transform(
+      matrix.a,
+      matrix.b,
+      matrix.c,
+      matrix.d,
+      matrix.e,
+      matrix.f
+    );
+  }
+
+  function drawComponents(
+    components: Array<Component>,
+    alpha: number,
+    viewport: ReturnType<typeof Viewport> | null
+  ) {
+    for (const component of components) {
+      if (viewport && !Viewport.isVisibleIn(component, viewport)) continue;
+
+      backstage.clearRect(
+        0,
+        0,
+        backstage.canvas.width,
+        backstage.canvas.height
+      );
+      drawComponent(component, alpha);
+    }
+  }
+
+  useFrame((_delta, alpha) => {
     // Reset transform
     context.resetTransform();
 
@@ -69,14 +112,48 @@ export function DrawChildren({
     const ents = [ent, ...ent.descendants()];
     const components = sort(ents);
 
-    for (const component of components) {
-      backstage.clearRect(
-        0,
-        0,
-        backstage.canvas.width,
-        backstage.canvas.height
+    const root = useRootEntity();
+    const viewports = Viewport.allOn(root);
+
+    if (viewports.length === 0) {
+      const camera = root.getComponent(Camera);
+      if (camera) {
+        applyMatrix(
+          camera.viewMatrix(
+            new Point(context.canvas.width, context.canvas.height)
+          )
+        );
+      }
+
+      drawComponents(components, alpha, null);
+      return;
+    }
+
+    for (const viewport of viewports) {
+      if (!viewport.isEnabled) continue;
+
+      context.save();
+
+      context.beginPath();
+      context.rect(
+        viewport.position.x,
+        viewport.position.y,
+        viewport.size.x,
+        viewport.size.y
       );
-      drawComponent(component);
+      context.clip();
+
+      applyMatrix(viewport.screenMatrix());
+      applyMatrix(viewport.camera.viewMatrix(viewport.size));
+
+      Viewport.setCurrent(viewport);
+      try {
+        drawComponents(components, alpha, viewport);
+      } finally {
+        Viewport.setCurrent(null);
+      }
+
+      context.restore();
     }
   });
 }
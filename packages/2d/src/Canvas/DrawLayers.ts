@@ -0,0 +1,193 @@
+import { useType, useEntity, useRootEntity, Entity } from "@hex-engine/core";
+
+const DRAW_LAYER = Symbol("DRAW_LAYER");
+
+/** A named group of things to draw. Layers are drawn in the order they appear in `Canvas.DrawLayers`. */
+export type DrawLayer = {
+  /** The name of this layer, as passed to `useDrawLayer`. */
+  name: string;
+
+  /**
+   * Whether Entities in this layer that have the same z-index should be sorted by the
+   * y-coordinate of their `Geometry`'s world position, so that things lower on the
+   * screen are drawn on top of things higher up on the screen.
+   */
+  ySort: boolean;
+};
+
+/**
+ * A layer to pass to `Canvas.DrawLayers` (or the `Canvas`'s `layers` option); either
+ * the name of the layer, or its name and options.
+ */
+export type DrawLayerOptions = string | { name: string; ySort?: boolean };
+
+/** The layers used when no others are specified. Entities are put in the "world" layer by default. */
+const defaultLayers: ReadonlyArray<string> = [
+  "background",
+  "world",
+  "foreground",
+  "ui",
+  "debug",
+];
+
+/** The layer that Entities are drawn in if they haven't called `useDrawLayer`. */
+const DEFAULT_LAYER = "world";
+
+/** The layer that Components that called `useDebugOverlayDrawTime` are drawn in. */
+const DEBUG_LAYER = "debug";
+
+// Incremented whenever `useDrawLayer` is called, to invalidate `layerCache`.
+let assignmentsVersion = 0;
+const layerCache: WeakMap<
+  Entity,
+  { assignment: { layer: string; zIndex: number }; version: number }
+> = new WeakMap();
+
+/**
+ * The registry of draw layers used by the default draw order.
+ * The `Canvas` Component places one of these on the root Entity.
+ *
+ * @param layers The layers to start with, from the bottom to the top. Each one is either the name
+ * of the layer, or an object with its name and options, like `{ name: "world", ySort: true }`.
+ * Defaults to "background", "world", "foreground", "ui", and "debug". The list must include
+ * the "world" and "debug" layers, because Entities and debug overlays are drawn in them by default.
+ */
+function DrawLayers(layers: ReadonlyArray<DrawLayerOptions> = defaultLayers) {
+  useType(DrawLayers);
+
+  const allLayers: Array<DrawLayer> = [];
+  for (const layer of layers) {
+    const { name, ySort = false } =
+      typeof layer === "string" ? { name: layer } : layer;
+    if (allLayers.some((existing) => existing.name === name)) {
+      throw new Error(`There is already a draw layer named "${name}"`);
+    }
+    allLayers.push({ name, ySort });
+  }
+
+  for (const required of [DEFAULT_LAYER, DEBUG_LAYER]) {
+    if (!allLayers.some((layer) => layer.name === required)) {
+      throw new Error(
+        `The draw layers must include a layer named "${required}". Got: ${allLayers
+          .map((layer) => `"${layer.name}"`)
+          .join(", ")}`
+      );
+    }
+  }
+
+  return {
+    /** All the layers, from the bottom to the top. */
+    get layers(): ReadonlyArray<DrawLayer> {
+      return allLayers;
+    },
+
+    /** Get the layer with the specified name, or null if there is no such layer. */
+    get(name: string): DrawLayer | null {
+      return allLayers.find((layer) => layer.name === name) || null;
+    },
+
+    /** Get the position of the specified layer, from the bottom (0) to the top. Returns -1 if there is no such layer. */
+    indexOf(name: string): number {
+      return allLayers.findIndex((layer) => layer.name === name);
+    },
+
+    /**
+     * Add a new layer.
+     *
+     * @param name The name of the new layer.
+     * @param options.above The name of the layer the new layer should be drawn directly above. If unspecified, the new layer is added at the top.
+     * @param options.ySort Whether Entities in the new layer should be sorted by their y-coordinate. Defaults to false.
+     */
+    add(
+      name: string,
+      { above, ySort = false }: { above?: string; ySort?: boolean } = {}
+    ): DrawLayer {
+      if (allLayers.some((layer) => layer.name === name)) {
+        throw new Error(`There is already a draw layer named "${name}"`);
+      }
+
+      const layer = { name, ySort };
+      if (above == null) {
+        allLayers.push(layer);
+      } else {
+        const index = allLayers.findIndex((layer) => layer.name === above);
+        if (index === -1) {
+          throw new Error(
+            `Cannot add draw layer "${name}" above "${above}", because there is no layer named "${above}"`
+          );
+        }
+        allLayers.splice(index + 1, 0, layer);
+      }
+      return layer;
+    },
+  };
+}
+
+/**
+ * Specify which draw layer the current Entity and its descendants should be drawn in,
+ * and their z-index within that layer. Higher z-indexes are drawn on top of lower ones.
+ *
+ * Entities that don't call this hook (and whose ancestors haven't called it) are drawn in
+ * the "world" layer, with a z-index of 0. Within the same layer and z-index, Entities are drawn
+ * in the order they were created, unless the layer sorts by y-coordinate.
+ *
+ * This only has an effect when using the default draw order (or a custom one that uses it).
+ *
+ * @param layerName The name of a layer registered in the root Entity's `Canvas.DrawLayers`.
+ * @param zIndex The z-index within the layer. Defaults to 0.
+ */
+export function useDrawLayer(layerName: string, zIndex: number = 0) {
+  const drawLayers = useRootEntity().getComponent(DrawLayers);
+  if (drawLayers && drawLayers.indexOf(layerName) === -1) {
+    throw new Error(
+      `Unknown draw layer "${layerName}". Add it with the Canvas's \`layers.add\` first`
+    );
+  }
+
+  useEntity()
+    .stateAccumulator<{ layer: string; zIndex: number }>(DRAW_LAYER)
+    .add({ layer: layerName, zIndex });
+
+  // This could change the layer of any of the Entity's descendants, too.
+  assignmentsVersion++;
+}
+
+/**
+ * Returns the layer name and z-index that the specified Entity was assigned using `useDrawLayer`,
+ * either directly or through one of its ancestors.
+ *
+ * The default draw order calls this for every Entity every frame, so the result is cached
+ * until `useDrawLayer` is next called. (Entities can't change parents, so that's the only
+ * thing that can change it.)
+ */
+function layerForEntity(entity: Entity): { layer: string; zIndex: number } {
+  const cached = layerCache.get(entity);
+  if (cached && cached.version === assignmentsVersion) {
+    return cached.assignment;
+  }
+
+  let assignment = { layer: DEFAULT_LAYER, zIndex: 0 };
+  for (const ent of [entity, ...entity.ancestors().reverse()]) {
+    const assignments = ent
+      .stateAccumulator<{ layer: string; zIndex: number }>(DRAW_LAYER)
+      .all();
+    if (assignments.length > 0) {
+      assignment = assignments[assignments.length - 1];
+      break;
+    }
+  }
+
+  layerCache.set(entity, { assignment, version: assignmentsVersion });
+  return assignment;
+}
+
+/**
+ * The registry of draw layers used by the default draw order.
+ * The `Canvas` Component places one of these on the root Entity.
+ */
+export default Object.assign(DrawLayers, {
+  defaultLayers,
+  layerForEntity,
+  DEFAULT_LAYER,
+  DEBUG_LAYER,
+});
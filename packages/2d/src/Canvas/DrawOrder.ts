@@ -5,14 +5,15 @@ import {
   useStateAccumulator,
   useRootEntity,
 } from "@hex-engine/core";
+import DrawLayers from "./DrawLayers";
+import Geometry from "../Components/Geometry";
 
 const DEBUG_OVERLAY = Symbol("DRAW_ORDER_OVERLAY");
 
 /**
  * This hook specifies to the default draw order sort function
- * that this Component's draw callbacks should be drawn last,
- * after everything else, because this component renders debug overlay(s)
- * that should be drawn on top of everything else.
+ * that this Component's draw callbacks should be drawn in the "debug" layer,
+ * on top of everything else, because this component renders debug overlay(s).
  *
  * If you are using a custom draw order sort and want to preserve this functionality,
  * you can use the `Canvas.DrawOrder.isDebugOverlay` function to identify Components
@@ -30,27 +31,70 @@ function isDebugOverlay(component: Component) {
   return component.stateAccumulator(DEBUG_OVERLAY).all().length > 0;
 }
 
-/** The default draw order. If you are implementing a custom draw order, you may want to call this as your starting point. */
+/**
+ * The default draw order. If you are implementing a custom draw order, you may want to call this as your starting point.
+ *
+ * Components are drawn layer by layer, in the order of the layers in the root Entity's `Canvas.DrawLayers`.
+ * Within a layer, they are sorted by the z-index specified with `useDrawLayer`, then by y-coordinate
+ * if the layer sorts by y-coordinate, and finally by Entity id (so that later-created entities
+ * are drawn above earlier-created entities).
+ *
+ * Components that called `useDebugOverlayDrawTime` are drawn in the "debug" layer.
+ */
 const defaultSort = (entities: Array<Entity>): Array<Component> => {
-  let nonDebugOverlayComponents: Array<Component> = [];
-  let debugOverlayComponents: Array<Component> = [];
+  if (entities.length === 0) return [];
+
+  let root = entities[0];
+  while (root.parent) {
+    root = root.parent;
+  }
+  const drawLayers = root.getComponent(DrawLayers);
+  const layerNames = drawLayers
+    ? drawLayers.layers.map((layer) => layer.name)
+    : DrawLayers.defaultLayers;
+
+  function layerIndex(name: string) {
+    const index = layerNames.indexOf(name);
+    return index === -1 ? layerNames.indexOf(DrawLayers.DEFAULT_LAYER) : index;
+  }
 
-  // Draw all entities, sorted by id (so that later-created entities are drawn above earlier-created entities)
-  for (const ent of [...entities].sort((entA, entB) => entA.id - entB.id)) {
-    const myDebugOverlayComponents = [...ent.components].filter(isDebugOverlay);
-    const myNonDebugOverlayComponents = [...ent.components].filter(
-      (comp) => !isDebugOverlay(comp)
-    );
+  const entries: Array<{
+    component: Component;
+    layer: number;
+    zIndex: number;
+    y: number;
+    id: number;
+    order: number;
+  }> = [];
 
-    debugOverlayComponents = debugOverlayComponents.concat(
-      myDebugOverlayComponents
-    );
-    nonDebugOverlayComponents = nonDebugOverlayComponents.concat(
-      myNonDebugOverlayComponents
-    );
+  for (const ent of entities) {
+    const { layer, zIndex } = DrawLayers.layerForEntity(ent);
+    const ySort = Boolean(drawLayers?.get(layer)?.ySort);
+    const y = ySort ? ent.getComponent(Geometry)?.worldPosition().y ?? 0 : 0;
+
+    for (const component of ent.components) {
+      const debug = isDebugOverlay(component);
+      entries.push({
+        component,
+        layer: layerIndex(debug ? DrawLayers.DEBUG_LAYER : layer),
+        zIndex: debug ? 0 : zIndex,
+        y: debug ? 0 : y,
+        id: ent.id,
+        order: entries.length,
+      });
+    }
   }
 
-  return [...nonDebugOverlayComponents, ...debugOverlayComponents];
+  entries.sort(
+    (a, b) =>
+      a.layer - b.layer ||
+      a.zIndex - b.zIndex ||
+      a.y - b.y ||
+      a.id - b.id ||
+      a.order - b.order
+  );
+
+  return entries.map((entry) => entry.component);
 };
 
 /**
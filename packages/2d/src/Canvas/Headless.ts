@@ -0,0 +1,58 @@
+import { useNewComponent, useType, RunLoop } from "@hex-engine/core";
+import { UpdateChildren } from "./UpdateChildren";
+
+/**
+ * A Component that can be placed on your root Entity instead of `Canvas`, in order
+ * to run your game without rendering it; for instance, in tests or on a Node server.
+ *
+ * It runs all the functions registered with `useUpdate`, but never runs any draw
+ * functions, and does not create any DOM elements. Components that need the
+ * Canvas element (such as `Mouse` or `LowLevelMouse`) cannot be used with it,
+ * unless an `InputPlayer` on the root Entity is playing back recorded input for them.
+ *
+ * Unless you pass a different `scheduler` in the `runLoop` options, frames will
+ * only run when you call `runFrames`.
+ */
+function HeadlessCanvas({
+  runLoop = {},
+}: {
+  /** Options for the `RunLoop` on the root Entity. */
+  runLoop?: Parameters<typeof RunLoop>[0];
+} = {}) {
+  useType(HeadlessCanvas);
+
+  const manualScheduler = runLoop.scheduler
+    ? null
+    : RunLoop.makeManualScheduler();
+
+  useNewComponent(() =>
+    RunLoop({
+      ...runLoop,
+      scheduler: runLoop.scheduler ?? manualScheduler!,
+    })
+  );
+  useNewComponent(UpdateChildren);
+
+  return {
+    /**
+     * Run the specified number of frames immediately, moving time forward
+     * by `delta` milliseconds for each one.
+     *
+     * This only works when the default (manual) scheduler is being used.
+     * @param count How many frames to run.
+     * @param delta How much time should pass each frame. Defaults to 1/60th of a second.
+     */
+    runFrames(count: number, delta?: number) {
+      if (!manualScheduler) {
+        throw new Error(
+          "Cannot run frames manually on a Canvas.Headless that was given a custom scheduler"
+        );
+      }
+      manualScheduler.runFrames(count, delta);
+    },
+  };
+}
+
+Object.defineProperty(HeadlessCanvas, "name", { value: "Canvas.Headless" });
+
+export default HeadlessCanvas;
@@ -1,12 +1,14 @@
 import {
   useCallbackAsCurrent,
-  useFrame,
+  useSimulationFrame,
   useStateAccumulator,
   useType,
   useEntity,
+  Entity,
 } from "@hex-engine/core";
 
 const UPDATE_CALLBACKS = Symbol("UPDATE_CALLBACKS");
+const LATE_UPDATE_CALLBACKS = Symbol("LATE_UPDATE_CALLBACKS");
 
 type UpdateCallback = (delta: number) => void;
 
@@ -15,6 +17,9 @@ type UpdateCallback = (delta: number) => void;
  *
  * The function will receive a single argument, `delta`, which is the number of milliseconds
  * that have passed since the last frame was rendered.
+ *
+ * If the root `Canvas` was configured with a fixed timestep, the function will instead be called
+ * once per simulation step, and `delta` will always be the same value.
  */
 export function useUpdate(callback: UpdateCallback) {
   useStateAccumulator<UpdateCallback>(UPDATE_CALLBACKS).add(
@@ -23,26 +28,46 @@ export function useUpdate(callback: UpdateCallback) {
 }
 
 /**
- * Once a frame, iterates over all of the current Entity's descendant Entities, calling
- * any update functions registered by their Components.
+ * Registers a function to be called once every frame, after all of the functions
+ * registered with `useUpdate` have been called.
+ *
+ * This is useful for resetting per-frame state, such as which keys were pressed
+ * this frame, so that every `useUpdate` function gets a chance to see it first.
+ *
+ * Like `useUpdate`, the function will receive the number of milliseconds that
+ * have passed since the last frame (or the fixed timestep, if one is configured).
+ */
+export function useLateUpdate(callback: UpdateCallback) {
+  useStateAccumulator<UpdateCallback>(LATE_UPDATE_CALLBACKS).add(
+    useCallbackAsCurrent(callback)
+  );
+}
+
+function runCallbacks(ents: Array<Entity>, key: symbol, delta: number) {
+  for (const ent of ents) {
+    for (const component of ent.components) {
+      if (component.isEnabled) {
+        const callbacks = component.stateAccumulator<UpdateCallback>(key).all();
+        for (const callback of callbacks) {
+          callback(delta);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Once a simulation step (usually once a frame), iterates over all of the current Entity's
+ * descendant Entities, calling any update functions registered by their Components,
+ * and then any late update functions.
  */
 export function UpdateChildren() {
   useType(UpdateChildren);
 
-  useFrame((delta) => {
+  useSimulationFrame((delta) => {
     const ent = useEntity();
     const ents = [ent, ...ent.descendants()];
-    for (const ent of ents) {
-      for (const component of ent.components) {
-        if (component.isEnabled) {
-          const updateCallbacks = component
-            .stateAccumulator<UpdateCallback>(UPDATE_CALLBACKS)
-            .all();
-          for (const updateCallback of updateCallbacks) {
-            updateCallback(delta);
-          }
-        }
-      }
-    }
+    runCallbacks(ents, UPDATE_CALLBACKS, delta);
+    runCallbacks(ents, LATE_UPDATE_CALLBACKS, delta);
   });
 }
@@ -1,12 +1,18 @@
 import { useNewComponent, useType, RunLoop } from "@hex-engine/core";
 import Inspector from "@hex-engine/inspector";
-import { UpdateChildren, useUpdate } from "./UpdateChildren";
+import { UpdateChildren, useUpdate, useLateUpdate } from "./UpdateChildren";
 import { DrawChildren, useRawDraw } from "./DrawChildren";
 import DrawOrder, {
   useDebugOverlayDrawTime,
   useCanvasDrawOrderSort,
 } from "./DrawOrder";
+import DrawLayers, {
+  useDrawLayer,
+  DrawLayer /* @babel-remove-prev-node */,
+  DrawLayerOptions /* @babel-remove-prev-node */,
+} from "./DrawLayers";
 import polyfillContext from "./polyfillContext";
+import Headless from "./Headless";
 
 /** The built-in Canvas component that should be placed on your root Entity in order to render everything in your game. */
 export default Object.assign(
@@ -16,6 +22,26 @@ export default Object.assign(
 
     /** The background color to set the canvas to prior to drawing each frame. */
     backgroundColor: string;
+
+    /**
+     * Options for the `RunLoop` on the root Entity. Pass a `fixedTimestep` here to run
+     * `useUpdate` functions at a fixed rate, independent of the monitor's refresh rate.
+     */
+    runLoop?: Parameters<typeof RunLoop>[0];
+
+    /**
+     * The draw layers to use with `useDrawLayer`, from the bottom to the top. Each one is either
+     * the name of the layer, or an object with its name and options; for instance, to sort the
+     * default "world" layer by y-coordinate:
+     *
+     * ```ts
+     * ["background", { name: "world", ySort: true }, "foreground", "ui", "debug"]
+     * ```
+     *
+     * Defaults to "background", "world", "foreground", "ui", and "debug".
+     * The "world" and "debug" layers are required.
+     */
+    layers?: ReadonlyArray<DrawLayerOptions>;
   }) {
     useType(Canvas);
 
@@ -49,7 +75,8 @@ export default Object.assign(
     }
     polyfillContext(backstageContext);
 
-    useNewComponent(RunLoop);
+    useNewComponent(() => RunLoop(options.runLoop));
+    const layers = useNewComponent(() => DrawLayers(options.layers));
     useNewComponent(() =>
       DrawChildren({
         context,
@@ -101,6 +128,9 @@ export default Object.assign(
       context,
       backstage: backstageContext,
 
+      /** The registry of draw layers used by `useDrawLayer` and the default draw order. */
+      layers,
+
       setPixelated,
 
       resize({
@@ -145,12 +175,18 @@ export default Object.assign(
   },
   {
     DrawOrder,
+    DrawLayers,
+    Headless,
   }
 );
 
 export {
   useUpdate,
+  useLateUpdate,
   useRawDraw,
   useDebugOverlayDrawTime,
   useCanvasDrawOrderSort,
+  useDrawLayer,
+  DrawLayer /* @babel-remove-prev-node */,
+  DrawLayerOptions /* @babel-remove-prev-node */,
 };
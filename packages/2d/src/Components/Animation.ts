@@ -1,6 +1,13 @@
-import { useNewComponent, useType } from "@hex-engine/core";
+import {
+  useType,
+  useStateAccumulator,
+  useCallbackAsCurrent,
+} from "@hex-engine/core";
 import { useUpdate } from "../Canvas";
-import Timer from "./Timer";
+
+const ON_COMPLETE = Symbol("ON_COMPLETE");
+const ON_LOOP = Symbol("ON_LOOP");
+const ON_EVENT = Symbol("ON_EVENT");
 
 /**
  * A class that represents a single frame in an animation.
@@ -12,16 +19,39 @@ export class AnimationFrame<T> {
   duration: number; // in ms
   onFrame: (() => void) | null;
 
+  /**
+   * Named markers on this frame, such as "footstep" or "hitbox-active".
+   * Functions registered with an Animation's `onEvent` are called when a frame with a matching marker is reached.
+   */
+  events: Array<string>;
+
   constructor(
     data: T,
-    { duration, onFrame }: { duration: number; onFrame?: null | (() => void) }
+    {
+      duration,
+      onFrame,
+      events,
+    }: {
+      duration: number;
+      onFrame?: null | (() => void);
+      events?: Array<string>;
+    }
   ) {
     this.data = data;
     this.duration = duration;
     this.onFrame = onFrame || null;
+    this.events = events || [];
   }
 }
 
+/**
+ * Which direction an animation plays in:
+ * - "forward" plays from the first frame to the last.
+ * - "reverse" plays from the last frame to the first.
+ * - "ping-pong" plays from the first frame to the last, and then back to the first.
+ */
+export type AnimationDirection = "forward" | "reverse" | "ping-pong";
+
 export type AnimationAPI<T> = {
   /** The frames in the animation (as passed in). */
   readonly frames: Array<AnimationFrame<T>>;
@@ -29,6 +59,18 @@ export type AnimationAPI<T> = {
   /** Whether to loop the animation. */
   loop: boolean;
 
+  /** How fast to play the animation; 1 is normal speed, 2 is twice as fast, and 0.5 is half as fast. */
+  playbackRate: number;
+
+  /** Which direction to play the animation in. */
+  direction: AnimationDirection;
+
+  /**
+   * When playing in "ping-pong" direction, whether the animation is on its way from the first
+   * frame to the last ("forward") or back again ("backward"). Always "forward" for other directions.
+   */
+  readonly pingPongPhase: "forward" | "backward";
+
   /** The index of the current frame within the frame array. */
   readonly currentFrameIndex: number;
 
@@ -47,11 +89,20 @@ export type AnimationAPI<T> = {
   /** Begin playback of this animation. */
   play(): void;
 
-  /** Restart playback of this animation from the first frame. */
+  /** Restart playback of this animation from the first frame (or the last frame, if playing in reverse). */
   restart(): void;
 
   /** Go to a specific frame. */
   goToFrame(frameNumber: number): void;
+
+  /** Registers a function to be called when the animation reaches its end, if it isn't looping. */
+  onComplete(callback: () => void): void;
+
+  /** Registers a function to be called each time the animation starts over, if it's looping. */
+  onLoop(callback: () => void): void;
+
+  /** Registers a function to be called whenever a frame with the specified event marker is reached. */
+  onEvent(name: string, callback: (frame: AnimationFrame<T>) => void): void;
 };
 
 /**
@@ -59,52 +110,125 @@ export type AnimationAPI<T> = {
  */
 export default function Animation<T>(
   frames: Array<AnimationFrame<T>>,
-  { loop = true }: { loop?: boolean | undefined } = {}
+  {
+    loop = true,
+    playbackRate = 1,
+    direction = "forward",
+  }: {
+    loop?: boolean | undefined;
+    playbackRate?: number | undefined;
+    direction?: AnimationDirection | undefined;
+  } = {}
 ): AnimationAPI<T> {
   useType(Animation);
 
-  const timer = useNewComponent(Timer);
-  timer.disable();
-  let currentFrameIndex = 0;
+  const onCompleteState = useStateAccumulator<() => void>(ON_COMPLETE);
+  const onLoopState = useStateAccumulator<() => void>(ON_LOOP);
+  const onEventState = useStateAccumulator<{
+    name: string;
+    callback: (frame: AnimationFrame<T>) => void;
+  }>(ON_EVENT);
+
+  const state = {
+    loop,
+    playbackRate,
+    direction,
+  };
+
+  let currentFrameIndex = direction === "reverse" ? frames.length - 1 : 0;
+  // How much of the current frame's duration is left, in ms.
+  let remaining = 0;
+  let isPlaying = false;
+  let hasCompleted = false;
+  // Which way ping-pong playback is currently going; 1 for forward, -1 for backward.
+  let pingPongStep = 1;
 
   function getCurrentFrame() {
     return frames[currentFrameIndex];
   }
 
-  const state = {
-    loop,
-  };
+  function enterFrame(frameNumber: number) {
+    currentFrameIndex = frameNumber;
+    const currentFrame = getCurrentFrame();
+    remaining = currentFrame.duration;
+
+    if (currentFrame.onFrame) {
+      currentFrame.onFrame();
+    }
 
-  useUpdate(() => {
-    if (timer.hasReachedSetTime()) {
-      if (currentFrameIndex === frames.length - 1) {
-        if (state.loop) {
-          currentFrameIndex = 0;
-        } else {
-          // Do nothing (stay on the last frame)
-          return;
+    if (currentFrame.events.length > 0) {
+      onEventState.all().forEach(({ name, callback }) => {
+        if (currentFrame.events.includes(name)) {
+          callback(currentFrame);
         }
-      } else {
-        currentFrameIndex++;
+      });
+    }
+  }
+
+  /** Returns the index of the frame after the current one, or null if the animation has reached its end. */
+  function nextFrameIndex(): number | null {
+    const lastIndex = frames.length - 1;
+
+    let next: number;
+    let isStartingOver = false;
+    if (state.direction === "ping-pong" && frames.length > 1) {
+      next = currentFrameIndex + pingPongStep;
+      if (next > lastIndex) {
+        pingPongStep = -1;
+        next = lastIndex - 1;
+      } else if (next < 0) {
+        pingPongStep = 1;
+        next = 1;
+        isStartingOver = true;
       }
+    } else if (state.direction === "reverse") {
+      next = currentFrameIndex - 1;
+      if (next < 0) {
+        next = lastIndex;
+        isStartingOver = true;
+      }
+    } else {
+      next = currentFrameIndex + 1;
+      if (next > lastIndex) {
+        next = 0;
+        isStartingOver = true;
+      }
+    }
 
-      const currentFrame = getCurrentFrame();
-      timer.setToTimeFromNow(currentFrame.duration);
+    if (isStartingOver) {
+      if (!state.loop) {
+        return null;
+      }
+      onLoopState.all().forEach((callback) => callback());
+    }
+
+    return next;
+  }
 
-      if (currentFrame.onFrame) {
-        currentFrame.onFrame();
+  useUpdate((delta) => {
+    if (!isPlaying || hasCompleted) return;
+
+    remaining -= delta * state.playbackRate;
+
+    // Frames with no duration are skipped, but never more than one lap's worth per update.
+    for (let i = 0; i < frames.length && remaining < 0; i++) {
+      const next = nextFrameIndex();
+      if (next == null) {
+        // Stay on the last frame
+        hasCompleted = true;
+        onCompleteState.all().forEach((callback) => callback());
+        return;
       }
+
+      const overshoot = remaining;
+      enterFrame(next);
+      remaining += overshoot;
     }
   });
 
   function goToFrame(frameNumber: number) {
-    currentFrameIndex = frameNumber;
-    const currentFrame = getCurrentFrame();
-    timer.setToTimeFromNow(currentFrame.duration);
-
-    if (currentFrame.onFrame) {
-      currentFrame.onFrame();
-    }
+    hasCompleted = false;
+    enterFrame(frameNumber);
   }
 
   return {
@@ -118,6 +242,29 @@ export default function Animation<T>(
       state.loop = nextValue;
     },
 
+    get playbackRate() {
+      return state.playbackRate;
+    },
+
+    set playbackRate(nextValue: number) {
+      state.playbackRate = nextValue;
+    },
+
+    get direction() {
+      return state.direction;
+    },
+
+    set direction(nextValue: AnimationDirection) {
+      state.direction = nextValue;
+      pingPongStep = 1;
+    },
+
+    get pingPongPhase() {
+      return state.direction === "ping-pong" && pingPongStep === -1
+        ? "backward"
+        : "forward";
+    },
+
     get currentFrameIndex() {
       return currentFrameIndex;
     },
@@ -132,32 +279,40 @@ export default function Animation<T>(
         return 1;
       }
 
-      return 1 - timer.distanceFromSetTime() / getCurrentFrame().duration;
+      return 1 - remaining / currentFrame.duration;
     },
 
     pause() {
-      timer.disable();
+      isPlaying = false;
     },
 
     resume() {
-      timer.enable();
+      isPlaying = true;
     },
 
     play() {
-      timer.enable();
-      const currentFrame = getCurrentFrame();
-      timer.setToTimeFromNow(currentFrame.duration);
-
-      if (currentFrame.onFrame) {
-        currentFrame.onFrame();
-      }
+      isPlaying = true;
+      goToFrame(currentFrameIndex);
     },
 
     restart() {
-      timer.enable();
-      goToFrame(0);
+      isPlaying = true;
+      pingPongStep = 1;
+      goToFrame(state.direction === "reverse" ? frames.length - 1 : 0);
     },
 
     goToFrame,
+
+    onComplete(callback: () => void) {
+      onCompleteState.add(useCallbackAsCurrent(callback));
+    },
+
+    onLoop(callback: () => void) {
+      onLoopState.add(useCallbackAsCurrent(callback));
+    },
+
+    onEvent(name: string, callback: (frame: AnimationFrame<T>) => void) {
+      onEventState.add({ name, callback: useCallbackAsCurrent(callback) });
+    },
   };
 }
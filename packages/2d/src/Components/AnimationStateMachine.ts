@@ -0,0 +1,382 @@
+import {
+  useType,
+  useStateAccumulator,
+  useCallbackAsCurrent,
+} from "@hex-engine/core";
+import { useUpdate } from "../Canvas";
+import { AnimationAPI } from "./Animation";
+
+const ON_TRANSITION = Symbol("ON_TRANSITION");
+
+/**
+ * A condition that must be met for an `AnimationTransition` to happen.
+ *
+ * - `{ parameter, equals }` checks a boolean parameter.
+ * - `{ parameter, greaterThan }` and `{ parameter, lessThan }` check a float parameter.
+ * - `{ parameter }` checks that a trigger parameter has been set. The trigger is reset when the transition happens.
+ */
+export type AnimationCondition =
+  | { parameter: string; equals: boolean }
+  | { parameter: string; greaterThan: number }
+  | { parameter: string; lessThan: number }
+  | { parameter: string };
+
+/** A state in an `AnimationStateMachine`. */
+export type AnimationState<T> = {
+  /** The animation to play while in this state. It will be restarted whenever this state is entered. */
+  animation: AnimationAPI<T>;
+
+  /** If specified, the animation's `loop` property will be set to this value whenever this state is entered. */
+  loop?: boolean;
+};
+
+/** A transition from one state to another in an `AnimationStateMachine`. */
+export type AnimationTransition = {
+  /** The name of the state this transition starts from, or "*" to allow it to start from any other state. */
+  from: string;
+
+  /** The name of the state this transition goes to. */
+  to: string;
+
+  /** Conditions that must all be met for this transition to happen. */
+  conditions?: Array<AnimationCondition>;
+
+  /**
+   * How much of the current state's animation must have played before this transition can happen,
+   * as a number from 0 to 1. Use 1 to let the animation finish before switching.
+   *
+   * If unspecified, the transition can happen immediately.
+   */
+  exitTime?: number;
+
+  /** A function to call when this transition happens. */
+  onTransition?: () => void;
+};
+
+/**
+ * A Component that decides which animation should be playing, using a set of states and transitions between them,
+ * like the animation state machines found in many other engines.
+ *
+ * Each state plays an `AnimationAPI`, such as one of the `animations` from an `Aseprite` Component, or an
+ * `Animation` made from hand-built `AnimationFrame`s. Transitions happen when their conditions, which
+ * are based on the parameters you set on the state machine, are met.
+ *
+ * ```ts
+ * const aseprite = useNewComponent(() => Aseprite(playerSprite));
+ * const stateMachine = useNewComponent(() =>
+ *   AnimationStateMachine({
+ *     target: aseprite,
+ *     initialState: "idle",
+ *     parameters: { speed: 0, grounded: true, attack: "trigger" },
+ *     states: {
+ *       idle: { animation: aseprite.animations.idle },
+ *       run: { animation: aseprite.animations.run },
+ *       attack: { animation: aseprite.animations.attack, loop: false },
+ *     },
+ *     transitions: [
+ *       { from: "idle", to: "run", conditions: [{ parameter: "speed", greaterThan: 0.1 }] },
+ *       { from: "run", to: "idle", conditions: [{ parameter: "speed", lessThan: 0.1 }] },
+ *       { from: "*", to: "attack", conditions: [{ parameter: "attack" }] },
+ *       { from: "attack", to: "idle", exitTime: 1 },
+ *     ],
+ *   })
+ * );
+ *
+ * // later...
+ * stateMachine.setFloat("speed", velocity.magnitude);
+ * ```
+ */
+export default function AnimationStateMachine<T>({
+  states,
+  transitions,
+  initialState,
+  parameters = {},
+  target,
+}: {
+  /** The states in the state machine, by name. */
+  states: { [name: string]: AnimationState<T> };
+
+  /**
+   * The transitions between states. When more than one transition could happen, the
+   * first one in this Array is used. At most one transition happens per frame.
+   */
+  transitions: Array<AnimationTransition>;
+
+  /** The name of the state to start in. */
+  initialState: string;
+
+  /**
+   * The parameters that transition conditions can check, and their initial values. Booleans
+   * and numbers declare boolean and float parameters, and the string "trigger" declares a trigger.
+   */
+  parameters?: { [name: string]: boolean | number | "trigger" };
+
+  /**
+   * An object whose `currentAnim` should be set to the current state's animation, such as
+   * an `Aseprite` or `AnimationSheet` Component.
+   */
+  target?: { currentAnim: AnimationAPI<T> };
+}) {
+  useType(AnimationStateMachine);
+
+  const onTransitionState = useStateAccumulator<
+    (from: string, to: string) => void
+  >(ON_TRANSITION);
+
+  const bools: Map<string, boolean> = new Map();
+  const floats: Map<string, number> = new Map();
+  const triggers: Map<string, boolean> = new Map();
+  for (const [name, value] of Object.entries(parameters)) {
+    if (typeof value === "boolean") {
+      bools.set(name, value);
+    } else if (typeof value === "number") {
+      floats.set(name, value);
+    } else {
+      triggers.set(name, false);
+    }
+  }
+
+  function assertState(name: string, description: string) {
+    if (!states[name]) {
+      throw new Error(
+        `AnimationStateMachine ${description} refers to unknown state '${name}'`
+      );
+    }
+  }
+
+  assertState(initialState, "initialState");
+  for (const transition of transitions) {
+    if (transition.from !== "*") {
+      assertState(transition.from, "transition");
+    }
+    assertState(transition.to, "transition");
+
+    for (const condition of transition.conditions || []) {
+      const { parameter } = condition;
+      const isValid =
+        "equals" in condition
+          ? bools.has(parameter)
+          : "greaterThan" in condition || "lessThan" in condition
+          ? floats.has(parameter)
+          : triggers.has(parameter);
+      if (!isValid) {
+        throw new Error(
+          `AnimationStateMachine transition from '${transition.from}' to '${transition.to}' has a condition that refers to '${parameter}', which is not a parameter of the right type`
+        );
+      }
+    }
+  }
+
+  // Each transition's `onTransition` callback, wrapped so that it runs with this Component as current.
+  const onTransitionCallbacks: Map<AnimationTransition, () => void> = new Map();
+  for (const transition of transitions) {
+    if (transition.onTransition) {
+      onTransitionCallbacks.set(
+        transition,
+        useCallbackAsCurrent(transition.onTransition)
+      );
+    }
+  }
+
+  function getParameterMap<V>(
+    map: Map<string, V>,
+    name: string,
+    type: string
+  ): Map<string, V> {
+    if (!map.has(name)) {
+      throw new Error(
+        `AnimationStateMachine does not have a ${type} parameter named '${name}'`
+      );
+    }
+    return map;
+  }
+
+  let currentState = initialState;
+  let currentAnimation = states[initialState].animation;
+
+  // Whether the current animation has played all the way through since the state was entered.
+  let hasFinished = false;
+
+  const animations = new Set(
+    Object.values(states).map((state) => state.animation)
+  );
+  for (const animation of animations) {
+    const onFinish = () => {
+      if (animation === currentAnimation) {
+        hasFinished = true;
+      }
+    };
+    animation.onLoop(onFinish);
+    animation.onComplete(onFinish);
+  }
+
+  function enterState(name: string) {
+    const state = states[name];
+
+    if (state.animation !== currentAnimation) {
+      currentAnimation.pause();
+    }
+
+    currentState = name;
+    currentAnimation = state.animation;
+    if (state.loop != null) {
+      currentAnimation.loop = state.loop;
+    }
+    currentAnimation.restart();
+
+    if (target) {
+      target.currentAnim = currentAnimation;
+    }
+
+    hasFinished = false;
+  }
+
+  function sumDurations(frames: Array<{ duration: number }>): number {
+    return frames.reduce((total, frame) => total + frame.duration, 0);
+  }
+
+  /**
+   * How much of the current animation has played, from 0 to 1.
+   *
+   * For ping-pong animations, this covers the whole trip from the first frame to the last and back again.
+   */
+  function animationProgress(): number {
+    const { frames, currentFrameIndex, direction } = currentAnimation;
+    const lastIndex = frames.length - 1;
+    const isPingPong = direction === "ping-pong" && frames.length > 1;
+
+    // The trip back plays every frame except the last one again.
+    const totalDuration = isPingPong
+      ? sumDurations(frames) + sumDurations(frames.slice(0, lastIndex))
+      : sumDurations(frames);
+    if (totalDuration === 0) return 1;
+
+    let elapsedBeforeFrame: number;
+    if (isPingPong && currentAnimation.pingPongPhase === "backward") {
+      elapsedBeforeFrame =
+        sumDurations(frames) +
+        sumDurations(frames.slice(currentFrameIndex + 1, lastIndex));
+    } else if (direction === "reverse") {
+      elapsedBeforeFrame = sumDurations(frames.slice(currentFrameIndex + 1));
+    } else {
+      elapsedBeforeFrame = sumDurations(frames.slice(0, currentFrameIndex));
+    }
+
+    const elapsedInFrame =
+      Math.min(currentAnimation.currentFrameCompletion, 1) *
+      frames[currentFrameIndex].duration;
+
+    return (elapsedBeforeFrame + elapsedInFrame) / totalDuration;
+  }
+
+  function conditionIsMet(condition: AnimationCondition): boolean {
+    if ("equals" in condition) {
+      return bools.get(condition.parameter) === condition.equals;
+    }
+    if ("greaterThan" in condition) {
+      return floats.get(condition.parameter)! > condition.greaterThan;
+    }
+    if ("lessThan" in condition) {
+      return floats.get(condition.parameter)! < condition.lessThan;
+    }
+    return triggers.get(condition.parameter) === true;
+  }
+
+  function canTransition(transition: AnimationTransition): boolean {
+    if (transition.from === "*") {
+      if (transition.to === currentState) return false;
+    } else if (transition.from !== currentState) {
+      return false;
+    }
+
+    if (
+      transition.exitTime != null &&
+      !hasFinished &&
+      animationProgress() < transition.exitTime
+    ) {
+      return false;
+    }
+
+    return (transition.conditions || []).every(conditionIsMet);
+  }
+
+  function transitionTo(to: string, transition?: AnimationTransition) {
+    const from = currentState;
+    enterState(to);
+
+    if (transition) {
+      for (const condition of transition.conditions || []) {
+        if (triggers.has(condition.parameter)) {
+          triggers.set(condition.parameter, false);
+        }
+      }
+      const onTransition = onTransitionCallbacks.get(transition);
+      if (onTransition) {
+        onTransition();
+      }
+    }
+
+    onTransitionState.all().forEach((callback) => callback(from, to));
+  }
+
+  enterState(initialState);
+
+  useUpdate(() => {
+    const transition = transitions.find(canTransition);
+    if (transition) {
+      transitionTo(transition.to, transition);
+    }
+  });
+
+  return {
+    /** The name of the current state. */
+    get currentState() {
+      return currentState;
+    },
+
+    /** The animation for the current state. */
+    get currentAnimation() {
+      return currentAnimation;
+    },
+
+    /** The current values of all the parameters. Triggers are `true` while they are set. */
+    get parameters(): { [name: string]: boolean | number } {
+      return {
+        ...Object.fromEntries(bools),
+        ...Object.fromEntries(floats),
+        ...Object.fromEntries(triggers),
+      };
+    },
+
+    /** Sets the value of a boolean parameter. */
+    setBool(name: string, value: boolean) {
+      getParameterMap(bools, name, "boolean").set(name, value);
+    },
+
+    /** Sets the value of a float parameter. */
+    setFloat(name: string, value: number) {
+      getParameterMap(floats, name, "float").set(name, value);
+    },
+
+    /** Sets a trigger parameter. It stays set until a transition that checks it happens, or until `resetTrigger` is called. */
+    setTrigger(name: string) {
+      getParameterMap(triggers, name, "trigger").set(name, true);
+    },
+
+    /** Unsets a trigger parameter. */
+    resetTrigger(name: string) {
+      getParameterMap(triggers, name, "trigger").set(name, false);
+    },
+
+    /** Immediately switches to the specified state, ignoring transitions. */
+    goToState(name: string) {
+      assertState(name, "goToState");
+      transitionTo(name);
+    },
+
+    /** Registers a function to be called whenever the state machine changes state. */
+    onTransition(callback: (from: string, to: string) => void) {
+      onTransitionState.add(useCallbackAsCurrent(callback));
+    },
+  };
+}
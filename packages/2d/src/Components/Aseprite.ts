@@ -4,7 +4,11 @@ import {
   useEnableDisable,
   Component,
 } from "@hex-engine/core";
-import Animation, { AnimationFrame, AnimationAPI } from "./Animation";
+import Animation, {
+  AnimationFrame,
+  AnimationAPI,
+  AnimationDirection,
+} from "./Animation";
 import { Point } from "../Models";
 
 const LAYER_BLEND_MODES: { [mode: number]: string } = {
@@ -47,14 +51,56 @@ const CANVAS_COMPOSITE_OPERATIONS_BY_BLEND_MODE: { [mode: number]: string } = {
   14: "color",
   15: "luminosity",
 
-  // There's no cooresponding globalCompositeOperation for these. We'd have to
-  // implement them using getImageData/putImageData.
-  // 16: "Addition",
-  // 17: "Subtract",
-  // 18: "Divide",
+  // There's no cooresponding globalCompositeOperation for 16 (Addition),
+  // 17 (Subtract), or 18 (Divide); those are done using getImageData/putImageData.
 };
 
-const frameCache = new WeakMap();
+const PIXEL_BLEND_FUNCTIONS_BY_BLEND_MODE: {
+  [mode: number]: (backdrop: number, source: number) => number;
+} = {
+  16: (backdrop, source) => Math.min(backdrop + source, 255),
+  17: (backdrop, source) => Math.max(backdrop - source, 0),
+  18: (backdrop, source) => {
+    if (backdrop === 0) return 0;
+    if (backdrop >= source) return 255;
+    return (255 * backdrop) / source;
+  },
+};
+
+const LAYER_FLAG_VISIBLE = 1;
+const LAYER_FLAG_REFERENCE = 64;
+
+const LAYER_TYPE_GROUP = 1;
+
+// The pixels of each cel, drawn into their own canvas.
+const celCache: WeakMap<AsepriteLoader.Cel, HTMLCanvasElement> = new WeakMap();
+
+// Composited frames, by frame and then by which layers were visible when they were composited.
+// Each frame only keeps the most recently used few, since toggling layers back and forth
+// is common, but there are too many combinations of visible layers to keep all of them.
+const frameCache: WeakMap<
+  AsepriteLoader.Frame,
+  Map<string, HTMLCanvasElement>
+> = new WeakMap();
+const MAX_CACHED_IMAGES_PER_FRAME = 4;
+
+/** A named region of an Aseprite sprite, as it is on a specific frame. */
+export type AsepriteSlice = {
+  /** The name of the slice. */
+  name: string;
+
+  /** The top-left corner of the slice, relative to the top-left corner of the frame. */
+  position: Point;
+
+  /** The width and height of the slice. */
+  size: Point;
+
+  /** For 9-patch slices, the center region of the slice, relative to the slice's `position`. */
+  center: null | { position: Point; size: Point };
+
+  /** If the slice has a pivot point, the pivot point, relative to the slice's `position`. */
+  pivot: null | Point;
+};
 
 /** A Component which loads and draws Aseprites sprites and animations. */
 export default function Aseprite(data: AsepriteLoader.Data) {
@@ -97,7 +143,7 @@ export default function Aseprite(data: AsepriteLoader.Data) {
       const b = cel.rawCelData[offset + 2];
       const a = cel.rawCelData[offset + 3];
 
-      return `rgba(${r}, ${g}, ${b}, ${a})`;
+      return `rgba(${r}, ${g}, ${b}, ${a / 255})`;
     } else if (data.colorDepth === 8) {
       // indexed color. one byte for each pixel, referencing colors from palette
       const offset = x + cel.w * y;
@@ -110,10 +156,9 @@ export default function Aseprite(data: AsepriteLoader.Data) {
       }
       const color = data.palette.colors[index];
 
-      // TODO: ase-parser doesn't give us the palette entry that represents transparent from the header
-      // as described here: https://github.com/aseprite/aseprite/blob/master/docs/ase-file-specs.md#header
-      // so we have to assume it's index 0 (which is the default, but the user can change it)
-      if (index === 0) {
+      // ase-parser doesn't read the transparent palette entry from the header, so hex-engine-scripts
+      // adds it. Without it, assume it's index 0 (which is the default, but the user can change it).
+      if (index === (data.transparentIndex ?? 0)) {
         return `rgba(0, 0, 0, 0)`;
       }
 
@@ -125,15 +170,157 @@ export default function Aseprite(data: AsepriteLoader.Data) {
       const value = cel.rawCelData[offset + 0];
       const alpha = cel.rawCelData[offset + 1];
 
-      return `rgba(${value}, ${value}, ${value}, ${alpha})`;
+      return `rgba(${value}, ${value}, ${value}, ${alpha / 255})`;
     } else {
       throw new Error(`Unsupported Aseprite color depth: ${data.colorDepth}`);
     }
   }
 
+  const layerVisibility = data.layers.map(
+    (layer) =>
+      (layer.flags & LAYER_FLAG_VISIBLE) !== 0 &&
+      (layer.flags & LAYER_FLAG_REFERENCE) === 0
+  );
+
+  function findLayerIndex(name: string): number {
+    const index = data.layers.findIndex((layer) => layer.name === name);
+    if (index === -1) {
+      throw new Error(`Aseprite file does not have a layer named '${name}'`);
+    }
+    return index;
+  }
+
+  /** The indices of the group layers that a layer is inside of, from the innermost outwards. */
+  function enclosingGroups(layerIndex: number): Array<number> {
+    const groups: Array<number> = [];
+
+    let childLevel = data.layers[layerIndex].layerChildLevel;
+    for (let i = layerIndex - 1; i >= 0 && childLevel > 0; i--) {
+      const layer = data.layers[i];
+      if (
+        layer.type === LAYER_TYPE_GROUP &&
+        layer.layerChildLevel === childLevel - 1
+      ) {
+        groups.push(i);
+        childLevel = layer.layerChildLevel;
+      }
+    }
+    return groups;
+  }
+
+  /** Whether a layer, and every group it's inside of, is visible. */
+  function layerIsDrawn(layerIndex: number): boolean {
+    return (
+      layerVisibility[layerIndex] &&
+      enclosingGroups(layerIndex).every((index) => layerVisibility[index])
+    );
+  }
+
+  /** The opacity of a layer, from 0 to 1, including the opacity of every group it's inside of. */
+  function layerOpacity(layerIndex: number): number {
+    return enclosingGroups(layerIndex).reduce(
+      (opacity, index) => opacity * (data.layers[index].opacity / 255),
+      data.layers[layerIndex].opacity / 255
+    );
+  }
+
+  function convertCelToImage(cel: AsepriteLoader.Cel): HTMLCanvasElement {
+    const cached = celCache.get(cel);
+    if (cached) {
+      return cached;
+    }
+
+    if (cel.celType !== 0 && cel.celType !== 2) {
+      throw new Error(`Unsupported cel type: ${cel.celType}`);
+    }
+
+    const canvas = document.createElement("canvas");
+    canvas.width = cel.w;
+    canvas.height = cel.h;
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Couldn't get 2d context for canvas");
+    }
+
+    for (let i = 0; i < cel.w; i++) {
+      for (let j = 0; j < cel.h; j++) {
+        context.fillStyle = colorAtPixel(cel, i, j);
+        context.fillRect(i, j, 1, 1);
+      }
+    }
+
+    celCache.set(cel, canvas);
+    return canvas;
+  }
+
+  /**
+   * Draws an image onto the context using one of the blend modes that canvas doesn't
+   * have a globalCompositeOperation for, by working with the pixels directly.
+   */
+  function drawWithPixelBlending(
+    context: CanvasRenderingContext2D,
+    image: HTMLCanvasElement,
+    x: number,
+    y: number,
+    alpha: number,
+    blend: (backdrop: number, source: number) => number
+  ) {
+    const imageContext = image.getContext("2d");
+    if (!imageContext) return;
+
+    const source = imageContext.getImageData(0, 0, image.width, image.height)
+      .data;
+    const backdropImageData = context.getImageData(
+      x,
+      y,
+      image.width,
+      image.height
+    );
+    const backdrop = backdropImageData.data;
+
+    for (let offset = 0; offset < source.length; offset += 4) {
+      const sourceAlpha = (source[offset + 3] / 255) * alpha;
+      if (sourceAlpha === 0) continue;
+
+      const backdropAlpha = backdrop[offset + 3] / 255;
+      const resultAlpha = sourceAlpha + backdropAlpha * (1 - sourceAlpha);
+
+      for (let channel = 0; channel < 3; channel++) {
+        const backdropValue = backdrop[offset + channel];
+        const sourceValue = source[offset + channel];
+
+        // The blended color only applies where there's something to blend with.
+        const blended =
+          (1 - backdropAlpha) * sourceValue +
+          backdropAlpha * blend(backdropValue, sourceValue);
+
+        backdrop[offset + channel] =
+          (sourceAlpha * blended +
+            backdropAlpha * (1 - sourceAlpha) * backdropValue) /
+          resultAlpha;
+      }
+      backdrop[offset + 3] = resultAlpha * 255;
+    }
+
+    context.putImageData(backdropImageData, x, y);
+  }
+
   function convertFrameToImage(frame: AsepriteLoader.Frame): HTMLCanvasElement {
-    if (frameCache.has(frame)) {
-      return frameCache.get(frame);
+    const visibilityKey = data.layers
+      .map((_layer, index) => (layerIsDrawn(index) ? "1" : "0"))
+      .join("");
+
+    let cacheForFrame = frameCache.get(frame);
+    if (!cacheForFrame) {
+      cacheForFrame = new Map();
+      frameCache.set(frame, cacheForFrame);
+    }
+    const cached = cacheForFrame.get(visibilityKey);
+    if (cached) {
+      // Maps iterate in insertion order, so move it to the end to mark it as the most recently used.
+      cacheForFrame.delete(visibilityKey);
+      cacheForFrame.set(visibilityKey, cached);
+      return cached;
     }
 
     const canvas = document.createElement("canvas");
@@ -144,87 +331,111 @@ export default function Aseprite(data: AsepriteLoader.Data) {
       throw new Error("Couldn't get 2d context for canvas");
     }
 
-    const celsSortedByLayerIndex = frame.cels.sort(
-      (celA, celB) => celA.layerIndex - celB.layerIndex
-    );
+    const celsSortedByLayerIndex = frame.cels
+      .slice()
+      .sort((celA, celB) => celA.layerIndex - celB.layerIndex);
 
     for (const cel of celsSortedByLayerIndex) {
-      if (cel.celType !== 0 && cel.celType !== 2) {
-        throw new Error(`Unsupported cel type: ${cel.celType}`);
-      }
+      const layer = data.layers[cel.layerIndex];
+      if (layer && !layerIsDrawn(cel.layerIndex)) continue;
+      // Canvases can't draw images that have no size.
+      if (cel.w === 0 || cel.h === 0) continue;
 
-      context.save();
+      const image = convertCelToImage(cel);
 
       let alpha = cel.opacity / 255;
-
-      const layer = data.layers[cel.layerIndex];
+      let blendMode = 0;
       if (layer) {
-        alpha = alpha * (layer.opacity / 255);
-
-        const blendMode = layer.blendMode;
-        const compositeOperation =
-          CANVAS_COMPOSITE_OPERATIONS_BY_BLEND_MODE[blendMode];
-        if (compositeOperation) {
-          context.globalCompositeOperation = compositeOperation;
-        } else {
-          const blendModeNiceName = LAYER_BLEND_MODES[blendMode];
-          throw new Error(
-            `Unsupported Aseprite layer blending mode: ${blendModeNiceName ||
-              blendMode}`
-          );
-        }
+        alpha = alpha * layerOpacity(cel.layerIndex);
+        blendMode = layer.blendMode;
+      }
+
+      const compositeOperation =
+        CANVAS_COMPOSITE_OPERATIONS_BY_BLEND_MODE[blendMode];
+      const pixelBlendFunction = PIXEL_BLEND_FUNCTIONS_BY_BLEND_MODE[blendMode];
+      if (compositeOperation) {
+        context.save();
+        context.globalCompositeOperation = compositeOperation;
+        context.globalAlpha = alpha;
+        context.drawImage(image, cel.xpos, cel.ypos);
+        context.restore();
+      } else if (pixelBlendFunction) {
+        drawWithPixelBlending(
+          context,
+          image,
+          cel.xpos,
+          cel.ypos,
+          alpha,
+          pixelBlendFunction
+        );
+      } else {
+        const blendModeNiceName = LAYER_BLEND_MODES[blendMode];
+        throw new Error(
+          `Unsupported Aseprite layer blending mode: ${blendModeNiceName ||
+            blendMode}`
+        );
       }
+    }
 
-      context.translate(cel.xpos, cel.ypos);
-      context.globalAlpha = alpha;
+    cacheForFrame.set(visibilityKey, canvas);
+    if (cacheForFrame.size > MAX_CACHED_IMAGES_PER_FRAME) {
+      cacheForFrame.delete(cacheForFrame.keys().next().value);
+    }
+    return canvas;
+  }
 
-      for (let i = 0; i < cel.w; i++) {
-        for (let j = 0; j < cel.h; j++) {
-          context.fillStyle = colorAtPixel(cel, i, j);
-          context.fillRect(i, j, 1, 1);
+  /**
+   * Text in the user data of a frame's cels is used as event markers for that frame.
+   * Multiple markers can be separated with commas, eg "footstep, dust".
+   */
+  function eventsForFrame(frame: AsepriteLoader.Frame): Array<string> {
+    const events: Array<string> = [];
+    for (const cel of frame.cels) {
+      const text = cel.userData && cel.userData.text;
+      if (!text) continue;
+
+      for (const event of text.split(",")) {
+        const trimmed = event.trim();
+        if (trimmed && !events.includes(trimmed)) {
+          events.push(trimmed);
         }
       }
-
-      context.restore();
     }
+    return events;
+  }
 
-    frameCache.set(frame, canvas);
-    return canvas;
+  // Which frame from the file each AnimationFrame was made from.
+  const sourceFrames: Map<
+    AnimationFrame<HTMLCanvasElement>,
+    AsepriteLoader.Frame
+  > = new Map();
+
+  function makeAnimationFrames(frames: Array<AsepriteLoader.Frame>) {
+    return frames.map((frame) => {
+      const animationFrame = new AnimationFrame(convertFrameToImage(frame), {
+        duration: frame.frameDuration,
+        events: eventsForFrame(frame),
+      });
+      sourceFrames.set(animationFrame, frame);
+      return animationFrame;
+    });
   }
 
   animations.default = useNewComponent(() =>
-    Animation(
-      data.frames.map(
-        (frame) =>
-          new AnimationFrame(convertFrameToImage(frame), {
-            duration: frame.frameDuration,
-          })
-      )
-    )
+    Animation(makeAnimationFrames(data.frames))
   );
 
   for (const tag of data.tags) {
-    let frames = data.frames.slice(tag.from, tag.to + 1);
-    if (tag.animDirection === "Reverse") {
-      frames.reverse();
-    } else if (tag.animDirection === "Ping-pong") {
-      frames = frames.concat(
-        frames
-          .slice(1)
-          .reverse()
-          .slice(1)
-      );
-    }
+    const frames = data.frames.slice(tag.from, tag.to + 1);
+    const direction: AnimationDirection =
+      tag.animDirection === "Reverse"
+        ? "reverse"
+        : tag.animDirection === "Ping-pong"
+        ? "ping-pong"
+        : "forward";
 
     animations[tag.name] = useNewComponent(() =>
-      Animation(
-        frames.map(
-          (frame) =>
-            new AnimationFrame(convertFrameToImage(frame), {
-              duration: frame.frameDuration,
-            })
-        )
-      )
+      Animation(makeAnimationFrames(frames), { direction })
     );
   }
 
@@ -240,6 +451,56 @@ export default function Aseprite(data: AsepriteLoader.Data) {
     Object.values(animations).forEach((animation) => animation.disable());
   });
 
+  function setLayerVisible(name: string, visible: boolean) {
+    const layerIndex = findLayerIndex(name);
+    if (layerVisibility[layerIndex] === visible) return;
+
+    layerVisibility[layerIndex] = visible;
+    sourceFrames.forEach((frame, animationFrame) => {
+      animationFrame.data = convertFrameToImage(frame);
+    });
+  }
+
+  function getSlice(
+    name: string,
+    frameIndex: number = data.frames.indexOf(
+      sourceFrames.get(currentAnim.currentFrame)!
+    )
+  ): AsepriteSlice | null {
+    const slice = (data.slices || []).find((slice) => slice.name === name);
+    if (!slice) {
+      throw new Error(`Aseprite file does not have a slice named '${name}'`);
+    }
+
+    // Each key applies from its frame until the next key.
+    let key: AsepriteLoader.SliceKey | null = null;
+    for (const sliceKey of slice.keys) {
+      if (
+        sliceKey.frame <= frameIndex &&
+        (key == null || sliceKey.frame > key.frame)
+      ) {
+        key = sliceKey;
+      }
+    }
+    // A key with no size means the slice isn't present on those frames.
+    if (key == null || (key.width === 0 && key.height === 0)) {
+      return null;
+    }
+
+    return {
+      name,
+      position: new Point(key.x, key.y),
+      size: new Point(key.width, key.height),
+      center: key.center
+        ? {
+            position: new Point(key.center.x, key.center.y),
+            size: new Point(key.center.width, key.center.height),
+          }
+        : null,
+      pivot: key.pivot ? new Point(key.pivot.x, key.pivot.y) : null,
+    };
+  }
+
   /** Draw the current animation frame into the provided canvas context. */
   function draw(
     context: CanvasRenderingContext2D,
@@ -280,5 +541,34 @@ export default function Aseprite(data: AsepriteLoader.Data) {
 
     /** The maximum size of the frames in this Aseprite file. */
     size,
+
+    /** The names of the layers in the Aseprite file, from bottom to top. */
+    layerNames: data.layers.map((layer) => layer.name),
+
+    /**
+     * Whether the layer with the specified name is visible. Layers start out
+     * visible or hidden according to their visibility in the Aseprite file.
+     */
+    isLayerVisible(name: string): boolean {
+      return layerVisibility[findLayerIndex(name)];
+    },
+
+    /**
+     * Show or hide the layer with the specified name, in every animation.
+     * Hiding a group layer hides all the layers inside of it.
+     */
+    setLayerVisible,
+
+    /** The names of the slices in the Aseprite file. */
+    sliceNames: (data.slices || []).map((slice) => slice.name),
+
+    /**
+     * Get the bounds, 9-patch center, and pivot of the slice with the specified name,
+     * as they are on the specified frame index within the file. If no frame index is
+     * specified, the frame that the current animation is on is used.
+     *
+     * Returns null if the slice isn't present on that frame.
+     */
+    getSlice,
   };
 }
@@ -0,0 +1,101 @@
+import { useNewComponent, useType } from "@hex-engine/core";
+import Image from "./Image";
+import { Point } from "../Models";
+
+/**
+ * A Component that draws images out of a texture atlas; a single texture with many
+ * images packed into it. Drawing everything from one texture means fewer images
+ * need to be downloaded, and the browser doesn't have to switch between textures as often.
+ *
+ * Atlases are made at build time by `import`ing a `.atlas` file, which lists the images
+ * (and Aseprite files) to put into the atlas:
+ *
+ * ```json
+ * {
+ *   "images": ["./sprites/*.png", "./player.aseprite"]
+ * }
+ * ```
+ *
+ * Each image is named by its path relative to the `.atlas` file, without its extension
+ * (eg "sprites/coin"), and each frame of an Aseprite file is named by its path and frame
+ * index (eg "player/0").
+ *
+ * If the `.atlas` file has `"types": true`, running `hex-engine-scripts atlas-types` writes a
+ * `.d.ts` file listing the frame names next to it, so that TypeScript can check the frame names
+ * you pass to `draw`. Run it again whenever the images in the atlas change.
+ *
+ * ```ts
+ * import spritesAtlas from "./sprites.atlas";
+ *
+ * const atlas = useNewComponent(() => Atlas(spritesAtlas));
+ *
+ * useDraw((context) => {
+ *   atlas.draw(context, { frame: "sprites/coin" });
+ * });
+ * ```
+ */
+export default function Atlas<FrameName extends string>(
+  data: AtlasLoader.Data<FrameName>
+) {
+  useType(Atlas);
+
+  const image = useNewComponent(() => Image({ url: data.url }));
+
+  function getFrame(frame: FrameName): AtlasLoader.Frame {
+    const frameData = data.frames[frame];
+    if (!frameData) {
+      throw new Error(`Atlas does not have a frame named '${frame}'`);
+    }
+    return frameData;
+  }
+
+  return {
+    /** The data that was passed into this function. */
+    data,
+
+    /** The names of all the frames in the atlas. */
+    frameNames: Object.keys(data.frames) as Array<FrameName>,
+
+    /** Whether the atlas texture has finished loading. Nothing will be drawn until it has. */
+    get loaded() {
+      return image.loaded;
+    },
+
+    /** Returns the size of the frame with the specified name. */
+    sizeOf(frame: FrameName): Point {
+      const { width, height } = getFrame(frame);
+      return new Point(width, height);
+    },
+
+    /** Draw the frame with the specified name into the canvas. */
+    draw(
+      context: CanvasRenderingContext2D,
+      {
+        x = 0,
+        y = 0,
+        frame,
+        width,
+        height,
+      }: {
+        x?: number | void;
+        y?: number | void;
+        frame: FrameName;
+        width?: void | number;
+        height?: void | number;
+      }
+    ) {
+      const frameData = getFrame(frame);
+
+      image.draw(context, {
+        x,
+        y,
+        sourceX: frameData.x,
+        sourceY: frameData.y,
+        sourceWidth: frameData.width,
+        sourceHeight: frameData.height,
+        targetWidth: width == null ? frameData.width : width,
+        targetHeight: height == null ? frameData.height : height,
+      });
+    },
+  };
+}
@@ -0,0 +1,487 @@
+import {
+  useType,
+  useRootEntity,
+  useEntity,
+  Entity,
+  ErrorBoundary,
+} from "@hex-engine/core";
+import Canvas, { useUpdate } from "../Canvas";
+import Preloader from "../Preloader";
+import AudioContextComponent from "./AudioContext";
+import Camera from "./Camera";
+import Geometry from "./Geometry";
+
+/** A sound that is playing (or waiting to play) through an `AudioMixer`. */
+export type AudioVoice = {
+  /** The URL of the clip this voice is playing. */
+  readonly url: string;
+
+  /** Whether this voice is still playing, or waiting for its clip to load so it can play. */
+  readonly isPlaying: boolean;
+
+  /**
+   * Stop this voice.
+   * @param fadeOut How long to fade the voice out for before it stops, in milliseconds. Defaults to 0.
+   */
+  stop(fadeOut?: number): void;
+
+  /**
+   * Change this voice's volume.
+   * @param volume The new volume, from 0 to 1.
+   * @param fadeDuration How long to take to change to the new volume, in milliseconds. Defaults to 0.
+   */
+  setVolume(volume: number, fadeDuration?: number): void;
+};
+
+/** A named group of sounds whose volume can be controlled together. */
+export type AudioBus = {
+  /** The name of this bus, eg "music". */
+  readonly name: string;
+
+  /** The volume of everything played through this bus, from 0 to 1. */
+  volume: number;
+
+  /** Whether everything played through this bus is muted. */
+  muted: boolean;
+};
+
+type VoiceState = {
+  url: string;
+  bus: string;
+  volume: number;
+  loop: boolean;
+  playbackRate: number;
+  entity: Entity | null;
+  stopped: boolean;
+  source: AudioBufferSourceNode | null;
+  gain: GainNode | null;
+  panner: StereoPannerNode | null;
+};
+
+/**
+ * A Component that plays sound clips through the Web Audio API, so that clips can overlap,
+ * loop, and fade in and out. Sounds are played through named buses (by default, "music",
+ * "sfx", and "ui"), whose volume can be changed and which can be muted independently.
+ *
+ * It uses the `AudioContext` Component on the root Entity, so make sure there is one.
+ * Because browsers don't allow audio to play until the user has interacted with the page,
+ * sounds that are played before the first click or keypress are silently skipped
+ * (except for music, which starts once it's allowed to).
+ *
+ * Sounds can optionally be panned left or right based on where an Entity is on the
+ * screen, relative to the root Entity's `Camera`, if there is one.
+ */
+export default function AudioMixer({
+  buses = ["music", "sfx", "ui"],
+}: {
+  /** The names of the buses to create. Defaults to "music", "sfx", and "ui". */
+  buses?: Array<string>;
+} = {}) {
+  useType(AudioMixer);
+
+  const ent = useEntity();
+  const rootEnt = useRootEntity();
+
+  const busStates: Map<string, { volume: number; muted: boolean }> = new Map(
+    buses.map((name) => [name, { volume: 1, muted: false }])
+  );
+  const master = { volume: 1, muted: false };
+
+  // The nodes can't be created until there's an AudioContext,
+  // which doesn't happen until the user interacts with the page.
+  let graph: {
+    context: AudioContext;
+    master: GainNode;
+    buses: Map<string, GainNode>;
+  } | null = null;
+
+  function getGraph() {
+    if (graph) return graph;
+
+    const context = rootEnt.getComponent(AudioContextComponent)?.audioContext;
+    if (!context) return null;
+
+    const masterNode = context.createGain();
+    masterNode.connect(context.destination);
+
+    const busNodes: Map<string, GainNode> = new Map();
+    for (const name of busStates.keys()) {
+      const node = context.createGain();
+      node.connect(masterNode);
+      busNodes.set(name, node);
+    }
+
+    graph = { context, master: masterNode, buses: busNodes };
+    applyGains();
+    return graph;
+  }
+
+  function applyGains() {
+    if (!graph) return;
+
+    graph.master.gain.value = master.muted ? 0 : master.volume;
+    for (const [name, state] of busStates) {
+      graph.buses.get(name)!.gain.value = state.muted ? 0 : state.volume;
+    }
+  }
+
+  function checkBus(name: string) {
+    if (!busStates.has(name)) {
+      throw new Error(
+        `Unknown audio bus "${name}". Add it to the AudioMixer's \`buses\` option`
+      );
+    }
+  }
+
+  // Clips are downloaded right away, but can't be decoded until there's an AudioContext.
+  // A clip whose download failed has null data; the failure has already been reported.
+  const clips: Map<
+    string,
+    {
+      data: Promise<ArrayBuffer | null>;
+      buffer: Promise<AudioBuffer | null> | null;
+    }
+  > = new Map();
+
+  function getClip(url: string) {
+    let clip = clips.get(url);
+    if (!clip) {
+      const data = fetch(url)
+        .then((response) => {
+          if (!response.ok) {
+            throw new Error(
+              `Failed to load audio clip ${url}: ${response.status} ${response.statusText}`
+            );
+          }
+          return response.arrayBuffer();
+        })
+        .catch((err) => {
+          ErrorBoundary.runHandlers(ent, err);
+          return null;
+        });
+      clip = { data, buffer: null };
+      clips.set(url, clip);
+      Preloader.addTask(() => data);
+    }
+    return clip;
+  }
+
+  function load(url: string): Promise<void> {
+    return getClip(url).data.then(() => {});
+  }
+
+  function getBuffer(url: string, context: AudioContext) {
+    const clip = getClip(url);
+    if (!clip.buffer) {
+      clip.buffer = clip.data.then((data) =>
+        // decodeAudioData detaches the buffer it's given, so give it a copy.
+        data ? context.decodeAudioData(data.slice(0)) : null
+      );
+    }
+    return clip.buffer;
+  }
+
+  function rampGain(gain: GainNode, target: number, duration: number) {
+    const now = gain.context.currentTime;
+    gain.gain.cancelScheduledValues(now);
+    gain.gain.setValueAtTime(gain.gain.value, now);
+    if (duration > 0) {
+      gain.gain.linearRampToValueAtTime(target, now + duration / 1000);
+    } else {
+      gain.gain.setValueAtTime(target, now);
+    }
+  }
+
+  const voices: Set<VoiceState> = new Set();
+
+  function panFor(entity: Entity): number {
+    const geometry = entity.getComponent(Geometry);
+    if (!geometry) return 0;
+
+    const camera = rootEnt.getComponent(Camera);
+    const worldPos = geometry.worldPosition();
+    const screenPos = camera ? camera.worldToScreen(worldPos) : worldPos;
+    const width =
+      camera?.viewSize?.x ?? rootEnt.getComponent(Canvas)?.element.width ?? 0;
+    if (width <= 0) return 0;
+
+    return Math.min(1, Math.max(-1, (screenPos.x / width) * 2 - 1));
+  }
+
+  function startVoice(voice: VoiceState, fadeIn: number) {
+    const currentGraph = getGraph();
+    if (!currentGraph) {
+      voice.stopped = true;
+      return;
+    }
+    const { context } = currentGraph;
+
+    voices.add(voice);
+    getBuffer(voice.url, context).then(
+      (buffer) => {
+        if (!buffer) {
+          // The clip failed to download, which has already been reported.
+          voice.stopped = true;
+          voices.delete(voice);
+          return;
+        }
+        if (voice.stopped) return;
+
+        const source = context.createBufferSource();
+        source.buffer = buffer;
+        source.loop = voice.loop;
+        source.playbackRate.value = voice.playbackRate;
+
+        const gain = context.createGain();
+        gain.gain.value = fadeIn > 0 ? 0 : voice.volume;
+        if (fadeIn > 0) {
+          rampGain(gain, voice.volume, fadeIn);
+        }
+
+        let output: AudioNode = gain;
+        source.connect(gain);
+        if (voice.entity && context.createStereoPanner) {
+          const panner = context.createStereoPanner();
+          panner.pan.value = panFor(voice.entity);
+          gain.connect(panner);
+          output = panner;
+          voice.panner = panner;
+        }
+        output.connect(currentGraph.buses.get(voice.bus)!);
+
+        source.onended = () => {
+          voice.stopped = true;
+          voices.delete(voice);
+          output.disconnect();
+        };
+        source.start();
+
+        voice.source = source;
+        voice.gain = gain;
+      },
+      (err) => {
+        voice.stopped = true;
+        voices.delete(voice);
+        ErrorBoundary.runHandlers(voice.entity || ent, err);
+      }
+    );
+  }
+
+  function makeVoiceApi(voice: VoiceState): AudioVoice {
+    return {
+      url: voice.url,
+      get isPlaying() {
+        return !voice.stopped;
+      },
+      stop(fadeOut: number = 0) {
+        if (voice.stopped) return;
+        voice.stopped = true;
+
+        const { source, gain } = voice;
+        if (!source || !gain) {
+          voices.delete(voice);
+          return;
+        }
+        if (fadeOut > 0) {
+          rampGain(gain, 0, fadeOut);
+          source.stop(gain.context.currentTime + fadeOut / 1000);
+        } else {
+          source.stop();
+        }
+      },
+      setVolume(volume: number, fadeDuration: number = 0) {
+        voice.volume = volume;
+        if (voice.gain && !voice.stopped) {
+          rampGain(voice.gain, volume, fadeDuration);
+        }
+      },
+    };
+  }
+
+  function play(
+    url: string,
+    {
+      bus = "sfx",
+      volume = 1,
+      loop = false,
+      playbackRate = 1,
+      entity = null,
+      fadeIn = 0,
+    }: {
+      /** The bus to play the sound through. Defaults to "sfx". */
+      bus?: string;
+      /** The volume to play the sound at, from 0 to 1. Defaults to 1. */
+      volume?: number;
+      /** Whether the sound should loop until it's stopped. Defaults to false. */
+      loop?: boolean;
+      /** How fast to play the sound; 2 is twice as fast (and an octave higher). Defaults to 1. */
+      playbackRate?: number;
+      /** An Entity to pan the sound towards, based on where it is on the screen. It must have a `Geometry`. */
+      entity?: Entity | null;
+      /** How long to fade the sound in for, in milliseconds. Defaults to 0. */
+      fadeIn?: number;
+    } = {}
+  ): AudioVoice {
+    checkBus(bus);
+
+    const voice: VoiceState = {
+      url,
+      bus,
+      volume,
+      loop,
+      playbackRate,
+      entity,
+      stopped: false,
+      source: null,
+      gain: null,
+      panner: null,
+    };
+    startVoice(voice, fadeIn);
+    return makeVoiceApi(voice);
+  }
+
+  let music: AudioVoice | null = null;
+  let pendingMusic: {
+    url: string;
+    volume: number;
+    crossfade: number;
+  } | null = null;
+
+  function startPendingMusic() {
+    if (!pendingMusic || !getGraph()) return;
+
+    const { url, volume, crossfade } = pendingMusic;
+    pendingMusic = null;
+    music = play(url, { bus: "music", volume, loop: true, fadeIn: crossfade });
+  }
+
+  useUpdate(() => {
+    startPendingMusic();
+
+    for (const voice of voices) {
+      if (voice.panner && voice.entity) {
+        voice.panner.pan.value = panFor(voice.entity);
+      }
+    }
+  });
+
+  const busApis: { [name: string]: AudioBus } = {};
+  for (const [name, state] of busStates) {
+    busApis[name] = {
+      name,
+      get volume() {
+        return state.volume;
+      },
+      set volume(nextValue: number) {
+        state.volume = nextValue;
+        applyGains();
+      },
+      get muted() {
+        return state.muted;
+      },
+      set muted(nextValue: boolean) {
+        state.muted = nextValue;
+        applyGains();
+      },
+    };
+  }
+
+  return {
+    /** The buses that sounds can be played through, by name. */
+    buses: busApis as { readonly [name: string]: AudioBus },
+
+    /** The volume of everything played through this mixer, from 0 to 1. */
+    get volume() {
+      return master.volume;
+    },
+    set volume(nextValue: number) {
+      master.volume = nextValue;
+      applyGains();
+    },
+
+    /** Whether everything played through this mixer is muted. */
+    get muted() {
+      return master.muted;
+    },
+    set muted(nextValue: boolean) {
+      master.muted = nextValue;
+      applyGains();
+    },
+
+    /**
+     * Start downloading the sound clip at the specified URL, so that it's ready when it is played.
+     * The download is registered with the `Preloader`.
+     *
+     * If the download fails, the error is passed to the nearest `ErrorBoundary`,
+     * and the returned Promise (and the `Preloader`) still resolves.
+     */
+    load,
+
+    /**
+     * Play the sound clip at the specified URL. Several sounds, including several copies
+     * of the same sound, can play at once.
+     *
+     * If the clip hasn't finished loading yet, it will start playing once it has.
+     */
+    play,
+
+    /**
+     * Play the sound clip at the specified URL as looping music, through the "music" bus.
+     * If music is already playing, it will be crossfaded into the new music.
+     *
+     * If the user hasn't interacted with the page yet, the music will start once they do.
+     */
+    playMusic(
+      url: string,
+      {
+        volume = 1,
+        crossfade = 1000,
+      }: {
+        /** The volume to play the music at, from 0 to 1. Defaults to 1. */
+        volume?: number;
+        /** How long to crossfade from the current music to the new music, in milliseconds. Defaults to 1000. */
+        crossfade?: number;
+      } = {}
+    ) {
+      checkBus("music");
+
+      if (music) {
+        music.stop(crossfade);
+        music = null;
+      }
+      pendingMusic = { url, volume, crossfade };
+      startPendingMusic();
+    },
+
+    /**
+     * Stop the music that was started with `playMusic`.
+     * @param fadeOut How long to fade the music out for, in milliseconds. Defaults to 1000.
+     */
+    stopMusic(fadeOut: number = 1000) {
+      pendingMusic = null;
+      if (music) {
+        music.stop(fadeOut);
+        music = null;
+      }
+    },
+
+    /** Stop every sound that is playing through this mixer, including music. */
+    stopAll() {
+      pendingMusic = null;
+      music = null;
+      for (const voice of [...voices]) {
+        makeVoiceApi(voice).stop();
+      }
+    },
+
+    /**
+     * Returns the Web Audio node for the specified bus, so that other sound sources (like `ProceduralSfx`)
+     * can be played through it. Returns null if the user hasn't interacted with the page yet.
+     */
+    busNode(name: string): AudioNode | null {
+      checkBus(name);
+      const currentGraph = getGraph();
+      return currentGraph ? currentGraph.buses.get(name)! : null;
+    },
+  };
+}
@@ -0,0 +1,223 @@
+import { useType, useRootEntity, Entity } from "@hex-engine/core";
+import Canvas, { useUpdate } from "../Canvas";
+import { Angle, Point, TransformMatrix } from "../Models";
+import Geometry from "./Geometry";
+
+/**
+ * A Component that controls which part of the world is visible on the `Canvas`.
+ *
+ * Place it on your root Entity, and `DrawChildren` will transform the context by the
+ * camera's view transform before running any draw functions, and mouse positions will
+ * be converted from screen space to world space using the same transform.
+ *
+ * `useRawDraw` functions that reset the context's transform will draw in screen space,
+ * which is useful for HUDs. If you are using `Viewport`s, reset it with `Viewport.resetTransform`
+ * instead, so that the HUD is drawn inside each Viewport.
+ */
+function Camera({
+  position = new Point(0, 0),
+  rotation = new Angle(0),
+  zoom = 1,
+  shake: { maxOffset = 10, maxAngle = 0.1, traumaDecayPerSecond = 1 } = {},
+}: {
+  /** The world position that should be in the center of the view. Defaults to 0, 0. */
+  position?: Point | undefined;
+
+  /** The rotation of the camera. Defaults to no rotation. */
+  rotation?: Angle | undefined;
+
+  /** How much to magnify the world by. Values above 1 zoom in, and values below 1 zoom out. Defaults to 1. */
+  zoom?: number | undefined;
+
+  /** Options for screen shake. See `addTrauma`. */
+  shake?: {
+    /** How far, in world units, the camera can move when shaking with full trauma. Defaults to 10. */
+    maxOffset?: number | undefined;
+
+    /** How far, in radians, the camera can rotate when shaking with full trauma. Defaults to 0.1. */
+    maxAngle?: number | undefined;
+
+    /** How much trauma is removed every second. Defaults to 1. */
+    traumaDecayPerSecond?: number | undefined;
+  };
+} = {}) {
+  useType(Camera);
+
+  const rootEnt = useRootEntity();
+
+  let followTarget: Entity | null = null;
+  let followDamping = 0;
+  let deadzone = new Point(0, 0);
+
+  let bounds: { topLeft: Point; size: Point } | null = null;
+
+  let trauma = 0;
+  const shakeOffset = new Point(0, 0);
+  let shakeAngle = 0;
+
+  function defaultViewSize(): Point {
+    if (camera.viewSize) return camera.viewSize.clone();
+
+    const canvas = rootEnt.getComponent(Canvas);
+    if (!canvas) return new Point(0, 0);
+    return new Point(canvas.element.width, canvas.element.height);
+  }
+
+  function followPosition(delta: number) {
+    if (!followTarget) return;
+
+    const geometry = followTarget.getComponent(Geometry);
+    if (!geometry) return;
+    const targetPos = geometry.worldPosition();
+
+    // Move just far enough that the target is within the deadzone,
+    // which is centered on the camera's position.
+    const desired = camera.position.clone();
+    const halfDeadzone = deadzone.divide(2);
+    const offset = targetPos.subtract(camera.position);
+    if (offset.x > halfDeadzone.x) {
+      desired.x = targetPos.x - halfDeadzone.x;
+    } else if (offset.x < -halfDeadzone.x) {
+      desired.x = targetPos.x + halfDeadzone.x;
+    }
+    if (offset.y > halfDeadzone.y) {
+      desired.y = targetPos.y - halfDeadzone.y;
+    } else if (offset.y < -halfDeadzone.y) {
+      desired.y = targetPos.y + halfDeadzone.y;
+    }
+
+    // Damping is the fraction of the remaining distance that is *not*
+    // covered every 60th of a second, so it's independent of frame rate.
+    const amount = 1 - Math.pow(followDamping, delta / (1000 / 60));
+    camera.position.addMutate(
+      desired.subtractMutate(camera.position).multiplyMutate(amount)
+    );
+  }
+
+  function clampToBounds() {
+    if (!bounds) return;
+
+    const halfView = defaultViewSize().divideMutate(camera.zoom * 2);
+    const min = bounds.topLeft.add(halfView);
+    const max = bounds.topLeft.add(bounds.size).subtractMutate(halfView);
+
+    // If the view is bigger than the bounds, center it on the bounds instead.
+    camera.position.x =
+      min.x > max.x
+        ? bounds.topLeft.x + bounds.size.x / 2
+        : Math.min(Math.max(camera.position.x, min.x), max.x);
+    camera.position.y =
+      min.y > max.y
+        ? bounds.topLeft.y + bounds.size.y / 2
+        : Math.min(Math.max(camera.position.y, min.y), max.y);
+  }
+
+  function updateShake(delta: number) {
+    trauma = Math.max(0, trauma - (traumaDecayPerSecond * delta) / 1000);
+
+    // Squaring the trauma makes small amounts of trauma subtle, and large amounts violent.
+    const shake = trauma * trauma;
+    shakeOffset.x = maxOffset * shake * (Math.random() * 2 - 1);
+    shakeOffset.y = maxOffset * shake * (Math.random() * 2 - 1);
+    shakeAngle = maxAngle * shake * (Math.random() * 2 - 1);
+  }
+
+  useUpdate((delta) => {
+    followPosition(delta);
+    clampToBounds();
+    updateShake(delta);
+  });
+
+  const camera = {
+    /** The world position that is in the center of the view. */
+    position,
+
+    /** The rotation of the camera. */
+    rotation,
+
+    /** How much the world is magnified by. Values above 1 zoom in, and values below 1 zoom out. */
+    zoom,
+
+    /**
+     * The size of the area this camera draws into. If null, the size of the Canvas is used.
+     * A `Viewport` sets this to its own size.
+     */
+    viewSize: null as Point | null,
+
+    /** How much trauma the camera currently has, from 0 to 1. */
+    get trauma() {
+      return trauma;
+    },
+
+    /**
+     * Make the camera follow an Entity's `Geometry` every frame.
+     *
+     * @param target The Entity to follow, or null to stop following.
+     * @param options.damping How slowly the camera catches up with the target, from 0 (immediately) to just under 1 (very slowly). Defaults to 0.
+     * @param options.deadzone The size of a rectangle in the center of the view that the target can move around in without moving the camera. Defaults to 0, 0.
+     */
+    follow(
+      target: Entity | null,
+      {
+        damping = 0,
+        deadzone: newDeadzone = new Point(0, 0),
+      }: { damping?: number; deadzone?: Point } = {}
+    ) {
+      followTarget = target;
+      followDamping = damping;
+      deadzone = newDeadzone;
+    },
+
+    /**
+     * Prevent the camera from showing anything outside of the specified rectangle in the world;
+     * for instance, the `sizeInPixels` of a `Tiled` map. Pass `null` to remove the bounds.
+     *
+     * @param size The size of the rectangle, or null.
+     * @param topLeft The position of the rectangle's upper-left corner. Defaults to 0, 0.
+     */
+    setBounds(size: Point | null, topLeft: Point = new Point(0, 0)) {
+      bounds = size ? { size, topLeft } : null;
+      clampToBounds();
+    },
+
+    /**
+     * Shake the camera. Trauma is a value from 0 to 1 that decays over time;
+     * the more trauma the camera has, the more it shakes.
+     * @param amount How much trauma to add.
+     */
+    addTrauma(amount: number) {
+      trauma = Math.min(1, Math.max(0, trauma + amount));
+    },
+
+    /**
+     * Returns a transformation matrix that turns a world position
+     * into a position on the screen.
+     *
+     * @param viewSize The size of the area the camera is drawing into. Defaults to `viewSize`, or the size of the Canvas.
+     */
+    viewMatrix(viewSize: Point = defaultViewSize()): TransformMatrix {
+      return new TransformMatrix()
+        .translateMutate(viewSize.divide(2))
+        .rotateMutate(-camera.rotation.radians - shakeAngle)
+        .scaleMutate(new Point(camera.zoom, camera.zoom), new Point(0, 0))
+        .translateMutate(camera.position.add(shakeOffset).oppositeMutate());
+    },
+
+    /** Convert a position on the screen (for instance, the mouse cursor) into a position in the world. */
+    screenToWorld(screenPos: Point, viewSize?: Point): Point {
+      return camera
+        .viewMatrix(viewSize)
+        .inverseMutate()
+        .transformPoint(screenPos);
+    },
+
+    /** Convert a position in the world into a position on the screen. */
+    worldToScreen(worldPos: Point, viewSize?: Point): Point {
+      return camera.viewMatrix(viewSize).transformPoint(worldPos);
+    },
+  };
+
+  return camera;
+}
+
+export default Camera;
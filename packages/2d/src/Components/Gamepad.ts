@@ -1,6 +1,9 @@
-import { useType } from "@hex-engine/core";
+import { useType, useRootEntity } from "@hex-engine/core";
 import { useUpdate } from "../Canvas";
 import { Vector, Point, Angle } from "../Models";
+import { useButtonState } from "../Hooks";
+import InputRecorder, { snapshotGamepads } from "./InputRecorder";
+import InputPlayer from "./InputPlayer";
 
 const origin = new Point(0, 0);
 
@@ -32,6 +35,8 @@ export default function Gamepad(
 ) {
   useType(Gamepad);
 
+  const buttonState = useButtonState();
+
   const state = {
     /** A `Vector` indicating which direction the left stick is being pressed in, and how far it's being pressed. */
     leftStick: new Vector(new Angle(0), 0),
@@ -78,6 +83,45 @@ export default function Gamepad(
       "right",
       "home",
     ],
+
+    /**
+     * Returns whether the specified button started being pressed this frame.
+     *
+     * Gamepads are read during `useUpdate`, so this is visible to `useUpdate` functions on
+     * Components created after this one (or on Entities updated after this one's) until the end of the frame.
+     */
+    justPressed(button: string): boolean {
+      return buttonState.justPressed(button);
+    },
+
+    /** Returns whether the specified button stopped being pressed this frame. */
+    justReleased(button: string): boolean {
+      return buttonState.justReleased(button);
+    },
+
+    /**
+     * Returns how long the specified button has been held, in milliseconds, as of the
+     * start of this frame. Returns 0 if the button isn't held.
+     */
+    heldDuration(button: string): number {
+      return buttonState.heldDuration(button);
+    },
+
+    /**
+     * Returns whether the specified button was pressed this frame, or has been held long
+     * enough that it should repeat this frame. This is useful for moving through menus with the d-pad.
+     *
+     * @param button The button to check.
+     * @param delay How long the button must be held before it starts repeating, in milliseconds. Defaults to 500.
+     * @param interval How long to wait between repeats, in milliseconds. Defaults to 50.
+     */
+    justPressedOrRepeated(
+      button: string,
+      delay: number = 500,
+      interval: number = 50
+    ): boolean {
+      return buttonState.justPressedOrRepeated(button, delay, interval);
+    },
   };
 
   /** Convert an analog stick's x and y positions to a Vector in Canvas-space. */
@@ -98,10 +142,19 @@ export default function Gamepad(
     return state.buttonNames[index] || "unknown button";
   }
 
+  const rootEnt = useRootEntity();
+
   useUpdate(() => {
-    const gamepad = navigator.getGamepads()[options.gamepadIndex ?? 0];
+    // If input is being recorded or played back, use the same gamepad state that gets recorded.
+    const inputSource =
+      rootEnt.getComponent(InputPlayer) || rootEnt.getComponent(InputRecorder);
+    const gamepads = inputSource ? inputSource.gamepads : snapshotGamepads();
+
+    const gamepad = gamepads[options.gamepadIndex ?? 0];
     if (gamepad == null) {
       state.present = false;
+      state.pressed.clear();
+      buttonState.releaseAll();
       return;
     }
     state.present = true;
@@ -109,12 +162,14 @@ export default function Gamepad(
     state.leftStick = stickToVector(gamepad.axes[0], gamepad.axes[1]);
     state.rightStick = stickToVector(gamepad.axes[2], gamepad.axes[3]);
 
-    gamepad.buttons.forEach((button, index) => {
+    gamepad.buttons.forEach((pressed, index) => {
       const name = buttonName(index);
-      if (button.pressed) {
+      if (pressed) {
         state.pressed.add(name);
+        buttonState.press(name);
       } else {
         state.pressed.delete(name);
+        buttonState.release(name);
       }
     });
   });
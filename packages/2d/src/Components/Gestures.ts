@@ -0,0 +1,338 @@
+import {
+  useType,
+  useNewComponent,
+  useStateAccumulator,
+  useCallbackAsCurrent,
+  useEntity,
+  Entity,
+} from "@hex-engine/core";
+import { useUpdate } from "../Canvas";
+import { useEntitiesAtPoint } from "../Hooks";
+import { Angle, Point } from "../Models";
+import Pointer, { HexPointerEvent } from "./Pointer";
+import Geometry from "./Geometry";
+
+const ON_TAP = Symbol("ON_TAP");
+const ON_DOUBLE_TAP = Symbol("ON_DOUBLE_TAP");
+const ON_LONG_PRESS = Symbol("ON_LONG_PRESS");
+const ON_SWIPE = Symbol("ON_SWIPE");
+const ON_PINCH = Symbol("ON_PINCH");
+const ON_ROTATE = Symbol("ON_ROTATE");
+
+/** Information about a tap, double-tap, or long-press gesture. */
+export type TapGesture = {
+  /** Where the gesture happened, relative to the current Entity. */
+  pos: Point;
+
+  /** The pointer that performed the gesture. */
+  pointer: HexPointerEvent;
+};
+
+/** Information about a swipe gesture. */
+export type SwipeGesture = {
+  /** Which way the pointer moved the most. */
+  direction: "left" | "right" | "up" | "down";
+
+  /** Where the swipe started, relative to the current Entity. */
+  start: Point;
+
+  /** Where the swipe ended, relative to the current Entity. */
+  end: Point;
+
+  /** How fast the pointer was moving, in pixels per millisecond. */
+  velocity: Point;
+
+  /** The pointer that performed the gesture. */
+  pointer: HexPointerEvent;
+};
+
+/** Information about an in-progress two-finger pinch gesture. */
+export type PinchGesture = {
+  /** The distance between the fingers, relative to when the gesture started. Values above 1 mean the fingers have moved apart. */
+  scale: number;
+
+  /** The change in `scale` since the last pinch event. */
+  scaleDelta: number;
+
+  /** The point halfway between the fingers, relative to the current Entity. */
+  center: Point;
+};
+
+/** Information about an in-progress two-finger rotate gesture. */
+export type RotateGesture = {
+  /** How far the fingers have rotated (clockwise) since the gesture started. */
+  angle: Angle;
+
+  /** How far the fingers have rotated since the last rotate event, in radians. */
+  angleDelta: number;
+
+  /** The point halfway between the fingers, relative to the current Entity. */
+  center: Point;
+};
+
+type Callback<T> = (gesture: T) => void;
+
+type TrackedPointer = {
+  pointer: HexPointerEvent;
+  startPos: Point;
+  startTime: number;
+  movedTooFar: boolean;
+  longPressed: boolean;
+};
+
+/**
+ * A Component that recognizes touch gestures (tap, double-tap, long-press, swipe,
+ * pinch, and two-finger rotate) performed on the current Entity, using a `Pointer`.
+ *
+ * If the Entity has a `Geometry`, gestures only count if they start inside it (and it is
+ * the topmost Entity at that position). Otherwise, gestures anywhere on the Canvas count.
+ */
+export default function Gestures({
+  entity = useEntity(),
+  geometry = entity.getComponent(Geometry),
+  tapMaxDistance = 10,
+  tapMaxDuration = 300,
+  doubleTapInterval = 300,
+  longPressDuration = 500,
+  swipeMinDistance = 50,
+  swipeMaxDuration = 500,
+}: {
+  /** The Entity that gestures should be performed on. If not provided, it will use the current Entity. */
+  entity?: Entity | undefined;
+
+  /** The Geometry to check whether gestures start inside of. If not provided, it will use the Entity's Geometry. */
+  geometry?: ReturnType<typeof Geometry> | null;
+
+  /** How far, in pixels, a pointer can move before it no longer counts as a tap or long-press. Defaults to 10. */
+  tapMaxDistance?: number;
+
+  /** How long, in milliseconds, a pointer can be held down and still count as a tap. Defaults to 300. */
+  tapMaxDuration?: number;
+
+  /** The longest time, in milliseconds, between two taps for them to count as a double-tap. Defaults to 300. */
+  doubleTapInterval?: number;
+
+  /** How long, in milliseconds, a pointer must be held down to count as a long-press. Defaults to 500. */
+  longPressDuration?: number;
+
+  /** How far, in pixels, a pointer must move to count as a swipe. Defaults to 50. */
+  swipeMinDistance?: number;
+
+  /** How long, in milliseconds, a swipe can take. Defaults to 500. */
+  swipeMaxDuration?: number;
+} = {}) {
+  useType(Gestures);
+
+  const onTapState = useStateAccumulator<Callback<TapGesture>>(ON_TAP);
+  const onDoubleTapState = useStateAccumulator<Callback<TapGesture>>(
+    ON_DOUBLE_TAP
+  );
+  const onLongPressState = useStateAccumulator<Callback<TapGesture>>(
+    ON_LONG_PRESS
+  );
+  const onSwipeState = useStateAccumulator<Callback<SwipeGesture>>(ON_SWIPE);
+  const onPinchState = useStateAccumulator<Callback<PinchGesture>>(ON_PINCH);
+  const onRotateState = useStateAccumulator<Callback<RotateGesture>>(ON_ROTATE);
+
+  const {
+    onPointerDown,
+    onPointerMove,
+    onPointerUp,
+    onPointerCancel,
+  } = useNewComponent(Pointer);
+
+  const tracking: Map<number, TrackedPointer> = new Map();
+
+  // Time is measured using `useUpdate`, so that long-presses pause with the game.
+  let now = 0;
+  useUpdate((delta) => {
+    now += delta;
+
+    for (const tracked of tracking.values()) {
+      if (
+        tracking.size === 1 &&
+        !tracked.movedTooFar &&
+        !tracked.longPressed &&
+        now - tracked.startTime >= longPressDuration
+      ) {
+        tracked.longPressed = true;
+        const gesture = { pos: tracked.pointer.pos, pointer: tracked.pointer };
+        onLongPressState.all().forEach((callback) => callback(gesture));
+      }
+    }
+  });
+
+  // Set when more than one pointer is down, so that lifting the
+  // fingers after a pinch doesn't also count as a tap or swipe.
+  let multiTouch = false;
+
+  let lastTap: { pos: Point; time: number } | null = null;
+
+  let twoFingerStart: { distance: number; angle: number } | null = null;
+  let lastScale = 1;
+  let lastAngle = 0;
+
+  function pointIsWithinBounds(localPoint: Point) {
+    if (!geometry) return true;
+
+    const worldPoint = geometry.worldPosition().addMutate(localPoint);
+    return useEntitiesAtPoint(worldPoint)[0] === entity;
+  }
+
+  function twoFingerMeasurements() {
+    const [first, second] = [...tracking.values()].map(
+      (tracked) => tracked.pointer.pos
+    );
+    const difference = second.subtract(first);
+    return {
+      distance: first.distanceTo(second),
+      angle: Math.atan2(difference.y, difference.x),
+      center: first.add(second).divideMutate(2),
+    };
+  }
+
+  onPointerDown((pointer) => {
+    if (!pointIsWithinBounds(pointer.pos)) return;
+
+    tracking.set(pointer.id, {
+      pointer,
+      startPos: pointer.pos.clone(),
+      startTime: now,
+      movedTooFar: false,
+      longPressed: false,
+    });
+
+    if (tracking.size > 1) {
+      multiTouch = true;
+    }
+
+    if (tracking.size === 2) {
+      const { distance, angle } = twoFingerMeasurements();
+      twoFingerStart = { distance, angle };
+      lastScale = 1;
+      lastAngle = 0;
+    } else {
+      twoFingerStart = null;
+    }
+  });
+
+  onPointerMove((pointer) => {
+    const tracked = tracking.get(pointer.id);
+    if (!tracked) return;
+
+    if (tracked.startPos.distanceTo(pointer.pos) > tapMaxDistance) {
+      tracked.movedTooFar = true;
+    }
+
+    if (twoFingerStart && tracking.size === 2) {
+      const { distance, angle, center } = twoFingerMeasurements();
+
+      if (twoFingerStart.distance > 0) {
+        const scale = distance / twoFingerStart.distance;
+        if (scale !== lastScale) {
+          const gesture = { scale, scaleDelta: scale - lastScale, center };
+          lastScale = scale;
+          onPinchState.all().forEach((callback) => callback(gesture));
+        }
+      }
+
+      const rotation = angle - twoFingerStart.angle;
+      if (rotation !== lastAngle) {
+        const gesture = {
+          angle: new Angle(rotation),
+          angleDelta: rotation - lastAngle,
+          center,
+        };
+        lastAngle = rotation;
+        onRotateState.all().forEach((callback) => callback(gesture));
+      }
+    }
+  });
+
+  function endPointer(pointer: HexPointerEvent, cancelled: boolean) {
+    const tracked = tracking.get(pointer.id);
+    if (!tracked) return;
+
+    tracking.delete(pointer.id);
+    if (tracking.size < 2) {
+      twoFingerStart = null;
+    }
+
+    const wasMultiTouch = multiTouch;
+    if (tracking.size === 0) {
+      multiTouch = false;
+    }
+    if (cancelled || wasMultiTouch || tracked.longPressed) return;
+
+    const duration = now - tracked.startTime;
+    const displacement = pointer.pos.subtract(tracked.startPos);
+    const distance = tracked.startPos.distanceTo(pointer.pos);
+
+    // The pointer may have moved without any move events; for instance, in a recording.
+    const movedTooFar = tracked.movedTooFar || distance > tapMaxDistance;
+
+    if (!movedTooFar && duration <= tapMaxDuration) {
+      const gesture = { pos: pointer.pos.clone(), pointer };
+      onTapState.all().forEach((callback) => callback(gesture));
+
+      if (
+        lastTap &&
+        now - lastTap.time <= doubleTapInterval &&
+        lastTap.pos.distanceTo(pointer.pos) <= tapMaxDistance
+      ) {
+        lastTap = null;
+        onDoubleTapState.all().forEach((callback) => callback(gesture));
+      } else {
+        lastTap = { pos: pointer.pos.clone(), time: now };
+      }
+    } else if (distance >= swipeMinDistance && duration <= swipeMaxDuration) {
+      const direction =
+        Math.abs(displacement.x) > Math.abs(displacement.y)
+          ? displacement.x > 0
+            ? "right"
+            : "left"
+          : displacement.y > 0
+          ? "down"
+          : "up";
+
+      const gesture = {
+        direction: direction as SwipeGesture["direction"],
+        start: tracked.startPos,
+        end: pointer.pos.clone(),
+        velocity: displacement.divide(Math.max(duration, 1)),
+        pointer,
+      };
+      onSwipeState.all().forEach((callback) => callback(gesture));
+    }
+  }
+
+  onPointerUp((pointer) => endPointer(pointer, false));
+  onPointerCancel((pointer) => endPointer(pointer, true));
+
+  return {
+    /** Registers the provided function to be called when the Entity is tapped. */
+    onTap(callback: Callback<TapGesture>) {
+      onTapState.add(useCallbackAsCurrent(callback));
+    },
+    /** Registers the provided function to be called when the Entity is tapped twice in quick succession. It is called after the second tap's `onTap` functions. */
+    onDoubleTap(callback: Callback<TapGesture>) {
+      onDoubleTapState.add(useCallbackAsCurrent(callback));
+    },
+    /** Registers the provided function to be called when a pointer has been held down on the Entity for a while without moving. */
+    onLongPress(callback: Callback<TapGesture>) {
+      onLongPressState.add(useCallbackAsCurrent(callback));
+    },
+    /** Registers the provided function to be called when a pointer is quickly dragged across the Entity and released. */
+    onSwipe(callback: Callback<SwipeGesture>) {
+      onSwipeState.add(useCallbackAsCurrent(callback));
+    },
+    /** Registers the provided function to be called whenever two fingers on the Entity move closer together or further apart. */
+    onPinch(callback: Callback<PinchGesture>) {
+      onPinchState.add(useCallbackAsCurrent(callback));
+    },
+    /** Registers the provided function to be called whenever two fingers on the Entity rotate around each other. */
+    onRotate(callback: Callback<RotateGesture>) {
+      onRotateState.add(useCallbackAsCurrent(callback));
+    },
+  };
+}
@@ -0,0 +1,568 @@
+import { useType, useNewComponent, useEnableDisable } from "@hex-engine/core";
+import { useUpdate } from "../Canvas";
+import { useContext, useButtonState } from "../Hooks";
+import { Point } from "../Models";
+import Keyboard from "./Keyboard";
+import Gamepad from "./Gamepad";
+import { useInputPlayer } from "./InputPlayer";
+import { RecordedInput } from "./InputRecorder";
+
+type MouseButtonName = "left" | "right" | "middle" | "mouse4" | "mouse5";
+
+// Indexed by `MouseEvent.button`.
+const mouseButtonNames: Array<MouseButtonName> = [
+  "left",
+  "middle",
+  "right",
+  "mouse4",
+  "mouse5",
+];
+
+/** Something that can be pressed and released, which can be bound to an action in an `InputMap`. */
+export type ButtonBinding =
+  | { type: "key"; key: string }
+  | { type: "mouseButton"; button: MouseButtonName }
+  | { type: "gamepadButton"; button: string };
+
+/** Something that has a value from -1 to 1, which can be bound to an axis in an `InputMap`. */
+export type AxisBinding =
+  | { type: "keys"; negative: string; positive: string }
+  | { type: "gamepadButtons"; negative: string; positive: string }
+  | { type: "gamepadStick"; stick: "left" | "right"; axis: "x" | "y" };
+
+/** Create a binding for the specified keyboard key, eg "a", " ", or "ArrowUp". */
+function key(key: string): ButtonBinding {
+  return { type: "key", key };
+}
+
+/** Create a binding for the specified mouse button. */
+function mouseButton(button: MouseButtonName): ButtonBinding {
+  return { type: "mouseButton", button };
+}
+
+/** Create a binding for the specified gamepad button, using the names from the `Gamepad` Component. */
+function gamepadButton(button: string): ButtonBinding {
+  return { type: "gamepadButton", button };
+}
+
+/** Create an axis binding that is -1 while the `negative` key is held, and 1 while the `positive` key is held. */
+function keys(negative: string, positive: string): AxisBinding {
+  return { type: "keys", negative, positive };
+}
+
+/** Create an axis binding that is -1 while the `negative` gamepad button is held, and 1 while the `positive` one is held. */
+function gamepadButtons(negative: string, positive: string): AxisBinding {
+  return { type: "gamepadButtons", negative, positive };
+}
+
+/** Create an axis binding for one direction of a gamepad's analog stick. Like Canvas coordinates, positive y is down. */
+function gamepadStick(stick: "left" | "right", axis: "x" | "y"): AxisBinding {
+  return { type: "gamepadStick", stick, axis };
+}
+
+type StoredBindings = {
+  actions: { [name: string]: Array<ButtonBinding> };
+  axes: { [name: string]: Array<AxisBinding> };
+};
+
+function cloneBindings<T>(bindings: ReadonlyArray<T>): Array<T> {
+  return bindings.map((binding) => ({ ...binding }));
+}
+
+function isString(value: any): value is string {
+  return typeof value === "string";
+}
+
+function isButtonBinding(value: any): value is ButtonBinding {
+  if (value == null || typeof value !== "object") return false;
+
+  switch (value.type) {
+    case "key": {
+      return isString(value.key);
+    }
+    case "mouseButton": {
+      return mouseButtonNames.includes(value.button);
+    }
+    case "gamepadButton": {
+      return isString(value.button);
+    }
+    default: {
+      return false;
+    }
+  }
+}
+
+function isAxisBinding(value: any): value is AxisBinding {
+  if (value == null || typeof value !== "object") return false;
+
+  switch (value.type) {
+    case "keys":
+    case "gamepadButtons": {
+      return isString(value.negative) && isString(value.positive);
+    }
+    case "gamepadStick": {
+      return (
+        (value.stick === "left" || value.stick === "right") &&
+        (value.axis === "x" || value.axis === "y")
+      );
+    }
+    default: {
+      return false;
+    }
+  }
+}
+
+/**
+ * Read the bindings saved under the specified key. Whatever is in `localStorage` could have
+ * been saved by an older version of the game (or edited by hand), so anything that isn't
+ * a valid binding is left out.
+ */
+function loadStoredBindings(storageKey: string | null): StoredBindings | null {
+  if (storageKey == null || typeof localStorage === "undefined") return null;
+
+  let parsed: any;
+  try {
+    const json = localStorage.getItem(storageKey);
+    if (json == null) return null;
+    parsed = JSON.parse(json);
+  } catch (err) {
+    return null;
+  }
+  if (parsed == null || typeof parsed !== "object") return null;
+
+  const stored: StoredBindings = { actions: {}, axes: {} };
+  const { actions, axes } = parsed;
+  if (actions != null && typeof actions === "object") {
+    for (const name of Object.keys(actions)) {
+      if (Array.isArray(actions[name])) {
+        stored.actions[name] = actions[name].filter(isButtonBinding);
+      }
+    }
+  }
+  if (axes != null && typeof axes === "object") {
+    for (const name of Object.keys(axes)) {
+      if (Array.isArray(axes[name])) {
+        stored.axes[name] = axes[name].filter(isAxisBinding);
+      }
+    }
+  }
+  return stored;
+}
+
+/**
+ * A Component that maps keyboard keys, mouse buttons, and gamepad buttons and sticks
+ * to named actions (like "jump") and axes (like "moveX"), so that the rest of your game
+ * doesn't need to care which device the player is using.
+ *
+ * Actions are either held or not; you can also check whether they were pressed or
+ * released this frame, even if they were pressed and released between two frames.
+ * Axes have a value from -1 to 1.
+ *
+ * Bindings can be changed at runtime (eg, from a controls menu). If a `storageKey`
+ * is specified, changed bindings are saved to `localStorage`, and will be loaded
+ * the next time an InputMap with the same `storageKey` is created.
+ */
+function InputMap({
+  actions = {},
+  axes = {},
+  storageKey = null,
+  gamepadIndex = 0,
+}: {
+  /** The default bindings for each action, by name. An action is held while any of its bindings are. */
+  actions?: { [name: string]: Array<ButtonBinding> };
+
+  /** The default bindings for each axis, by name. The axis's value is whichever of its bindings is furthest from 0. */
+  axes?: { [name: string]: Array<AxisBinding> };
+
+  /** The key to save changed bindings under, in `localStorage`. If unspecified, changed bindings are not saved. */
+  storageKey?: string | null;
+
+  /** Which gamepad connected to the computer to read from, starting from 0. */
+  gamepadIndex?: number;
+} = {}) {
+  useType(InputMap);
+
+  const keyboard = useNewComponent(() => Keyboard());
+  const gamepad = useNewComponent(() => Gamepad({ gamepadIndex }));
+
+  const mouseButtonsPressed: Set<MouseButtonName> = new Set();
+  const mouseButtonState = useButtonState<MouseButtonName>();
+  const handleMouseDown = (event: { button: number }) => {
+    const name = mouseButtonNames[event.button];
+    if (!name) return;
+    mouseButtonsPressed.add(name);
+    mouseButtonState.press(name);
+  };
+  const handleMouseUp = (event: { button: number }) => {
+    const name = mouseButtonNames[event.button];
+    if (!name) return;
+    mouseButtonsPressed.delete(name);
+    mouseButtonState.release(name);
+  };
+
+  // When an InputPlayer is playing back a recording, listen to it instead of the real mouse.
+  const player = useInputPlayer();
+  const canvas: HTMLCanvasElement | null = player ? null : useContext().canvas;
+  const handleRecordedInput = (input: RecordedInput) => {
+    if (input.type === "mousedown") {
+      handleMouseDown(input);
+    } else if (input.type === "mouseup") {
+      handleMouseUp(input);
+    }
+  };
+
+  const { onEnabled, onDisabled } = useEnableDisable();
+  onEnabled(() => {
+    if (player) {
+      player.addInputListener(handleRecordedInput);
+    } else if (canvas) {
+      canvas.addEventListener("mousedown", handleMouseDown);
+      // Listen on the window, so that we hear about buttons released outside the canvas.
+      window.addEventListener("mouseup", handleMouseUp);
+    }
+  });
+  onDisabled(() => {
+    if (player) {
+      player.removeInputListener(handleRecordedInput);
+    } else if (canvas) {
+      canvas.removeEventListener("mousedown", handleMouseDown);
+      window.removeEventListener("mouseup", handleMouseUp);
+    }
+    mouseButtonsPressed.clear();
+    mouseButtonState.releaseAll();
+  });
+
+  const defaults: StoredBindings = { actions, axes };
+  const current: StoredBindings = { actions: {}, axes: {} };
+  for (const name of Object.keys(actions)) {
+    current.actions[name] = cloneBindings(actions[name]);
+  }
+  for (const name of Object.keys(axes)) {
+    current.axes[name] = cloneBindings(axes[name]);
+  }
+
+  const stored = loadStoredBindings(storageKey);
+  if (stored) {
+    // Only load bindings for actions and axes that still exist,
+    // in case they were renamed or removed since they were saved.
+    for (const name of Object.keys(stored.actions)) {
+      if (name in current.actions) {
+        current.actions[name] = stored.actions[name];
+      }
+    }
+    for (const name of Object.keys(stored.axes)) {
+      if (name in current.axes) {
+        current.axes[name] = stored.axes[name];
+      }
+    }
+  }
+
+  function save() {
+    if (storageKey == null || typeof localStorage === "undefined") return;
+
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(current));
+    } catch (err) {
+      // Storage can be full or disabled; the bindings still apply for this session.
+    }
+  }
+
+  function checkAction(name: string) {
+    if (!(name in current.actions)) {
+      throw new Error(
+        `Unknown input action "${name}". Declare it in the InputMap's \`actions\` option`
+      );
+    }
+  }
+
+  function checkAxis(name: string) {
+    if (!(name in current.axes)) {
+      throw new Error(
+        `Unknown input axis "${name}". Declare it in the InputMap's \`axes\` option`
+      );
+    }
+  }
+
+  function keyIsPressed(key: string) {
+    return (
+      keyboard.pressed.has(key) ||
+      (key.length === 1 && keyboard.pressed.has(key.toUpperCase()))
+    );
+  }
+
+  function buttonIsPressed(binding: ButtonBinding): boolean {
+    switch (binding.type) {
+      case "key": {
+        return keyIsPressed(binding.key);
+      }
+      case "mouseButton": {
+        return mouseButtonsPressed.has(binding.button);
+      }
+      case "gamepadButton": {
+        return gamepad.present && gamepad.pressed.has(binding.button);
+      }
+    }
+  }
+
+  function buttonWasJustPressed(binding: ButtonBinding): boolean {
+    switch (binding.type) {
+      case "key": {
+        return keyboard.justPressed(binding.key);
+      }
+      case "mouseButton": {
+        return mouseButtonState.justPressed(binding.button);
+      }
+      case "gamepadButton": {
+        return gamepad.justPressed(binding.button);
+      }
+    }
+  }
+
+  function buttonWasJustReleased(binding: ButtonBinding): boolean {
+    switch (binding.type) {
+      case "key": {
+        return keyboard.justReleased(binding.key);
+      }
+      case "mouseButton": {
+        return mouseButtonState.justReleased(binding.button);
+      }
+      case "gamepadButton": {
+        return gamepad.justReleased(binding.button);
+      }
+    }
+  }
+
+  function axisBindingValue(binding: AxisBinding): number {
+    switch (binding.type) {
+      case "keys": {
+        return (
+          (keyIsPressed(binding.positive) ? 1 : 0) -
+          (keyIsPressed(binding.negative) ? 1 : 0)
+        );
+      }
+      case "gamepadButtons": {
+        if (!gamepad.present) return 0;
+        return (
+          (gamepad.pressed.has(binding.positive) ? 1 : 0) -
+          (gamepad.pressed.has(binding.negative) ? 1 : 0)
+        );
+      }
+      case "gamepadStick": {
+        if (!gamepad.present) return 0;
+        const stick =
+          binding.stick === "left" ? gamepad.leftStick : gamepad.rightStick;
+        return stick.toPoint()[binding.axis];
+      }
+    }
+  }
+
+  function axis(name: string): number {
+    checkAxis(name);
+    let value = 0;
+    for (const binding of current.axes[name]) {
+      const bindingValue = axisBindingValue(binding);
+      if (Math.abs(bindingValue) > Math.abs(value)) {
+        value = bindingValue;
+      }
+    }
+    return Math.max(-1, Math.min(1, value));
+  }
+
+  let pendingCapture: {
+    resolve: (binding: ButtonBinding) => void;
+    keys: Set<string>;
+    mouseButtons: Set<MouseButtonName>;
+    gamepadButtons: Set<string>;
+  } | null = null;
+
+  function checkCapture() {
+    if (!pendingCapture) return;
+
+    // Anything that was already held when the capture started doesn't count,
+    // so that the button used to start rebinding isn't immediately captured.
+    let binding: ButtonBinding | null = null;
+    for (const key of keyboard.pressed) {
+      if (!pendingCapture.keys.has(key)) {
+        binding = {
+          type: "key",
+          key: key.length === 1 ? key.toLowerCase() : key,
+        };
+        break;
+      }
+    }
+    if (!binding) {
+      for (const button of mouseButtonsPressed) {
+        if (!pendingCapture.mouseButtons.has(button)) {
+          binding = { type: "mouseButton", button };
+          break;
+        }
+      }
+    }
+    if (!binding && gamepad.present) {
+      for (const button of gamepad.pressed) {
+        if (!pendingCapture.gamepadButtons.has(button)) {
+          binding = { type: "gamepadButton", button };
+          break;
+        }
+      }
+    }
+
+    // Released buttons can be captured again if they're pressed again.
+    for (const key of pendingCapture.keys) {
+      if (!keyboard.pressed.has(key)) pendingCapture.keys.delete(key);
+    }
+    for (const button of pendingCapture.mouseButtons) {
+      if (!mouseButtonsPressed.has(button)) {
+        pendingCapture.mouseButtons.delete(button);
+      }
+    }
+    for (const button of pendingCapture.gamepadButtons) {
+      if (!gamepad.pressed.has(button)) {
+        pendingCapture.gamepadButtons.delete(button);
+      }
+    }
+
+    if (binding) {
+      const { resolve } = pendingCapture;
+      pendingCapture = null;
+      resolve(binding);
+    }
+  }
+
+  useUpdate(checkCapture);
+
+  return {
+    /** Returns whether any of the bindings for the specified action are currently held. */
+    held(action: string): boolean {
+      checkAction(action);
+      return current.actions[action].some(buttonIsPressed);
+    },
+
+    /**
+     * Returns whether the specified action started being held this frame; that is, whether one
+     * of its bindings was pressed this frame, while none of the others were already held.
+     */
+    justPressed(action: string): boolean {
+      checkAction(action);
+      const bindings = current.actions[action];
+      return (
+        bindings.some(buttonWasJustPressed) &&
+        !bindings.some(
+          (binding) =>
+            buttonIsPressed(binding) && !buttonWasJustPressed(binding)
+        )
+      );
+    },
+
+    /**
+     * Returns whether the specified action stopped being held this frame; that is, whether one
+     * of its bindings was released this frame, and none of them are held anymore.
+     */
+    justReleased(action: string): boolean {
+      checkAction(action);
+      const bindings = current.actions[action];
+      return (
+        bindings.some(buttonWasJustReleased) && !bindings.some(buttonIsPressed)
+      );
+    },
+
+    /** Returns the current value of the specified axis, from -1 to 1. */
+    axis,
+
+    /**
+     * Returns a Point whose x and y are the values of the two specified axes.
+     * Its length is limited to 1, so that moving diagonally isn't faster than moving straight.
+     */
+    vector(xAxis: string, yAxis: string): Point {
+      const point = new Point(axis(xAxis), axis(yAxis));
+      const length = Math.sqrt(point.x * point.x + point.y * point.y);
+      if (length > 1) {
+        point.divideMutate(length);
+      }
+      return point;
+    },
+
+    /** The names of all the actions in this InputMap. */
+    get actions(): Array<string> {
+      return Object.keys(current.actions);
+    },
+
+    /** The names of all the axes in this InputMap. */
+    get axes(): Array<string> {
+      return Object.keys(current.axes);
+    },
+
+    /** Returns the current bindings for the specified action. */
+    actionBindings(action: string): ReadonlyArray<ButtonBinding> {
+      checkAction(action);
+      return current.actions[action];
+    },
+
+    /** Returns the current bindings for the specified axis. */
+    axisBindings(axis: string): ReadonlyArray<AxisBinding> {
+      checkAxis(axis);
+      return current.axes[axis];
+    },
+
+    /** Replace the bindings for the specified action, and save them if this InputMap has a `storageKey`. */
+    rebindAction(action: string, bindings: Array<ButtonBinding>) {
+      checkAction(action);
+      current.actions[action] = cloneBindings(bindings);
+      save();
+    },
+
+    /** Replace the bindings for the specified axis, and save them if this InputMap has a `storageKey`. */
+    rebindAxis(axis: string, bindings: Array<AxisBinding>) {
+      checkAxis(axis);
+      current.axes[axis] = cloneBindings(bindings);
+      save();
+    },
+
+    /** Put the bindings for every action and axis back to the defaults this InputMap was created with, and forget any saved bindings. */
+    resetBindings() {
+      for (const name of Object.keys(defaults.actions)) {
+        current.actions[name] = cloneBindings(defaults.actions[name]);
+      }
+      for (const name of Object.keys(defaults.axes)) {
+        current.axes[name] = cloneBindings(defaults.axes[name]);
+      }
+      if (storageKey != null && typeof localStorage !== "undefined") {
+        try {
+          localStorage.removeItem(storageKey);
+        } catch (err) {
+          // Storage can be disabled; the defaults still apply for this session.
+        }
+      }
+    },
+
+    /**
+     * Wait for the player to press a key, mouse button, or gamepad button, and return a binding for it.
+     * This is useful for a "press a button to bind it" controls menu; pass the result to `rebindAction`.
+     *
+     * Only one capture can be pending at a time; starting a new one replaces the old one, whose Promise never resolves.
+     */
+    captureBinding(): Promise<ButtonBinding> {
+      return new Promise((resolve) => {
+        pendingCapture = {
+          resolve,
+          keys: new Set(keyboard.pressed),
+          mouseButtons: new Set(mouseButtonsPressed),
+          gamepadButtons: new Set(gamepad.present ? gamepad.pressed : []),
+        };
+      });
+    },
+  };
+}
+
+/**
+ * A Component that maps keyboard keys, mouse buttons, and gamepad buttons and sticks
+ * to named actions and axes.
+ */
+export default Object.assign(InputMap, {
+  key,
+  mouseButton,
+  gamepadButton,
+  keys,
+  gamepadButtons,
+  gamepadStick,
+});
@@ -0,0 +1,217 @@
+import {
+  useType,
+  useEnableDisable,
+  useStateAccumulator,
+  useCallbackAsCurrent,
+  useRootEntity,
+  Scheduler,
+} from "@hex-engine/core";
+import {
+  InputRecording,
+  RecordedInput,
+  GamepadSnapshot,
+} from "./InputRecorder";
+
+const ON_FINISH = Symbol("ON_FINISH");
+
+/**
+ * A Component that plays back an `InputRecording` made by an `InputRecorder`. While it is
+ * on the root Entity, `Keyboard`, `LowLevelMouse`, `Pointer`, `Gamepad`, and `InputMap` Components
+ * (and the Components built on them, like `Mouse` and `Gestures`) ignore the real keyboard, mouse,
+ * touch screen, and gamepads, and receive the recorded input instead.
+ *
+ * Frame timing is played back too, so the root Entity's `RunLoop` must use this Component's
+ * `scheduler`, and this Component should be placed on the root Entity before the `Canvas`:
+ *
+ * ```ts
+ * const player = useNewComponent(() => InputPlayer(recording));
+ * useNewComponent(() =>
+ *   Canvas({ backgroundColor: "white", runLoop: { scheduler: player.scheduler } })
+ * );
+ * ```
+ *
+ * Where `requestAnimationFrame` is available, the recording is played back at the speed it was
+ * recorded at. To step through it yourself instead (for instance, in a test using `Canvas.Headless`),
+ * pass `autoplay: false` and call `advance` or `playToEnd`.
+ */
+export default function InputPlayer(
+  recording: InputRecording,
+  {
+    autoplay = typeof requestAnimationFrame === "function",
+  }: {
+    /**
+     * Whether to play the recording back automatically, using `requestAnimationFrame`.
+     * Defaults to true where `requestAnimationFrame` is available, and false elsewhere
+     * (such as in Node), where `advance` or `playToEnd` must be called instead.
+     */
+    autoplay?: boolean;
+  } = {}
+) {
+  useType(InputPlayer);
+
+  if (recording.version !== 1) {
+    throw new Error(
+      `Cannot play back input recording with unsupported version ${recording.version}`
+    );
+  }
+
+  const onFinishState = useStateAccumulator<() => void>(ON_FINISH);
+
+  let nextTickIndex = 0;
+  let gamepads: Array<GamepadSnapshot | null> = [];
+  const listeners: Set<(input: RecordedInput) => void> = new Set();
+
+  let nextHandle = 1;
+  const pendingCallbacks: Map<number, (timestamp: number) => void> = new Map();
+
+  const playerScheduler: Scheduler = {
+    requestFrame(callback) {
+      const handle = nextHandle;
+      nextHandle++;
+      pendingCallbacks.set(handle, callback);
+      return handle;
+    },
+    cancelFrame(handle) {
+      pendingCallbacks.delete(handle);
+    },
+  };
+  if (recording.startTime != null) {
+    const startTime = recording.startTime;
+    playerScheduler.now = () => startTime;
+  }
+
+  function playTick() {
+    const tick = recording.ticks[nextTickIndex];
+    nextTickIndex++;
+
+    if (tick.gamepads) {
+      gamepads = tick.gamepads;
+    }
+    if (tick.inputs) {
+      for (const input of tick.inputs) {
+        listeners.forEach((listener) => listener(input));
+      }
+    }
+
+    const callbacks = [...pendingCallbacks.values()];
+    pendingCallbacks.clear();
+    callbacks.forEach((callback) => callback(tick.time));
+
+    if (nextTickIndex === recording.ticks.length) {
+      stopAutoplay();
+      onFinishState.all().forEach((callback) => callback());
+    }
+  }
+
+  function advance(count: number = 1) {
+    for (let i = 0; i < count && nextTickIndex < recording.ticks.length; i++) {
+      playTick();
+    }
+  }
+
+  let animationFrame: number | null = null;
+  let realStartTime: number | null = null;
+
+  function autoplayFrame(realTime: number) {
+    animationFrame = null;
+    if (nextTickIndex >= recording.ticks.length) return;
+
+    const recordedStartTime = recording.ticks[0].time;
+    if (realStartTime == null) {
+      realStartTime = realTime;
+    }
+
+    // Play every tick that would have happened by now in the original session.
+    while (
+      nextTickIndex < recording.ticks.length &&
+      recording.ticks[nextTickIndex].time - recordedStartTime <=
+        realTime - realStartTime
+    ) {
+      playTick();
+    }
+
+    if (nextTickIndex < recording.ticks.length) {
+      animationFrame = requestAnimationFrame(autoplayFrame);
+    }
+  }
+
+  function stopAutoplay() {
+    if (animationFrame != null) {
+      cancelAnimationFrame(animationFrame);
+      animationFrame = null;
+    }
+  }
+
+  const { onEnabled, onDisabled } = useEnableDisable();
+
+  onEnabled(() => {
+    if (autoplay && animationFrame == null) {
+      // Resume from where we left off, rather than skipping ahead.
+      realStartTime = null;
+      animationFrame = requestAnimationFrame(autoplayFrame);
+    }
+  });
+
+  onDisabled(() => {
+    stopAutoplay();
+  });
+
+  return {
+    /** The Scheduler to pass to the root Entity's `RunLoop`, so that frame timing can be played back. */
+    scheduler: playerScheduler,
+
+    /** The state of each gamepad slot as of the current frame. */
+    get gamepads(): ReadonlyArray<GamepadSnapshot | null> {
+      return gamepads;
+    },
+
+    /** How many of the recording's ticks have been played back. */
+    get ticksPlayed() {
+      return nextTickIndex;
+    },
+
+    /** Whether the whole recording has been played back. */
+    get isFinished() {
+      return nextTickIndex >= recording.ticks.length;
+    },
+
+    /**
+     * Play back the specified number of ticks from the recording immediately.
+     * @param count How many ticks to play. Defaults to 1.
+     */
+    advance,
+
+    /** Play back the rest of the recording immediately. */
+    playToEnd() {
+      advance(recording.ticks.length - nextTickIndex);
+    },
+
+    /** Registers the provided function to be called when the whole recording has been played back. */
+    onFinish(callback: () => void) {
+      onFinishState.add(useCallbackAsCurrent(callback));
+    },
+
+    /**
+     * Registers the provided function to be called with each recorded input event, as it is played back.
+     *
+     * This is used by input Components, so they can receive recorded input instead of DOM events.
+     */
+    addInputListener(listener: (input: RecordedInput) => void) {
+      listeners.add(listener);
+    },
+
+    /** Removes a function previously registered with `addInputListener`. */
+    removeInputListener(listener: (input: RecordedInput) => void) {
+      listeners.delete(listener);
+    },
+  };
+}
+
+/**
+ * Returns the `InputPlayer` on the root Entity, if there is one.
+ *
+ * Input Components use this to decide whether to listen to DOM events or to recorded input.
+ */
+export function useInputPlayer(): ReturnType<typeof InputPlayer> | null {
+  return useRootEntity().getComponent(InputPlayer);
+}
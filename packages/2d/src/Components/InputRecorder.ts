@@ -0,0 +1,320 @@
+import {
+  useType,
+  useRootEntity,
+  useEnableDisable,
+  RunLoop,
+  Scheduler,
+} from "@hex-engine/core";
+import Canvas from "../Canvas";
+
+/**
+ * A single input event, as stored in an `InputRecording`.
+ *
+ * Mouse and touch positions are stored in Canvas pixels (not page pixels),
+ * so that a recording plays back the same way even if the Canvas is
+ * somewhere else on the page, or is scaled differently.
+ */
+export type RecordedInput =
+  | { type: "keydown" | "keyup"; key: string; repeat: boolean }
+  | { type: "mousemove"; x: number; y: number; buttons: number }
+  | { type: "mousedown"; x: number; y: number; button: number }
+  | {
+      type: "mouseup";
+      x: number;
+      y: number;
+      button: number;
+      /** Whether the button was released over the Canvas, rather than elsewhere on the page. */
+      onCanvas: boolean;
+    }
+  | { type: "touchstart" | "touchmove" | "touchend"; x: number; y: number }
+  | {
+      type:
+        | "pointerdown"
+        | "pointermove"
+        | "pointerup"
+        | "pointercancel"
+        | "pointerleave";
+      id: number;
+      pointerType: "mouse" | "pen" | "touch";
+      isPrimary: boolean;
+      x: number;
+      y: number;
+      pressure: number;
+    };
+
+/** The state of a gamepad at one point in time, as stored in an `InputRecording`. */
+export type GamepadSnapshot = {
+  /** The position of each of the gamepad's axes, from -1 to 1. */
+  axes: Array<number>;
+
+  /** Whether each of the gamepad's buttons is pressed. */
+  buttons: Array<boolean>;
+};
+
+/** Everything that happened before one call from the `RunLoop`'s Scheduler. */
+export type RecordedTick = {
+  /** The timestamp the Scheduler passed to the `RunLoop`. */
+  time: number;
+
+  /** The input events that happened since the previous tick, if any. */
+  inputs?: Array<RecordedInput>;
+
+  /** The state of each gamepad slot, if it changed since the previous tick. */
+  gamepads?: Array<GamepadSnapshot | null>;
+};
+
+/** A session's input, recorded by an `InputRecorder` so that it can be played back by an `InputPlayer`. */
+export type InputRecording = {
+  /** The version of the recording format. */
+  version: 1;
+
+  /** The value returned by the Scheduler's `now` function when the `RunLoop` started, if the Scheduler has one. */
+  startTime: number | null;
+
+  /** Every call the `RunLoop`'s Scheduler made, in order. */
+  ticks: Array<RecordedTick>;
+};
+
+/** Get the current state of every connected gamepad, from `navigator.getGamepads()`. */
+export function snapshotGamepads(): Array<GamepadSnapshot | null> {
+  if (typeof navigator === "undefined" || !navigator.getGamepads) return [];
+
+  return Array.from(navigator.getGamepads(), (gamepad) =>
+    gamepad
+      ? {
+          axes: Array.from(gamepad.axes),
+          buttons: gamepad.buttons.map((button) => button.pressed),
+        }
+      : null
+  );
+}
+
+/** Convert a position from a DOM event into Canvas pixels, which is how positions are stored in an `InputRecording`. */
+export function clientToCanvas(
+  canvas: HTMLCanvasElement,
+  clientX: number,
+  clientY: number
+): { x: number; y: number } {
+  const rect = canvas.getBoundingClientRect();
+  return {
+    x: ((clientX - rect.left) * canvas.width) / rect.width,
+    y: ((clientY - rect.top) * canvas.height) / rect.height,
+  };
+}
+
+/**
+ * A Component that records all the keyboard, mouse, touch, pointer, and gamepad input your game
+ * receives, along with the timing of every frame, into an `InputRecording`. The recording
+ * is plain JSON, and can be played back with an `InputPlayer` to reproduce the session.
+ *
+ * To record frame timing, the root Entity's `RunLoop` must use this Component's `scheduler`,
+ * so this Component should be placed on the root Entity before the `Canvas`:
+ *
+ * ```ts
+ * const recorder = useNewComponent(() => InputRecorder());
+ * useNewComponent(() =>
+ *   Canvas({ backgroundColor: "white", runLoop: { scheduler: recorder.scheduler } })
+ * );
+ * ```
+ *
+ * For playback to match the original session, your game must not depend on anything
+ * else that changes between runs, like `Math.random` or the current date.
+ */
+export default function InputRecorder({
+  scheduler = RunLoop.animationFrameScheduler,
+}: {
+  /** The Scheduler that actually decides when frames run. Defaults to `RunLoop.animationFrameScheduler`. */
+  scheduler?: Scheduler;
+} = {}) {
+  useType(InputRecorder);
+
+  const rootEnt = useRootEntity();
+
+  const recording: InputRecording = {
+    version: 1,
+    startTime: null,
+    ticks: [],
+  };
+  let isRecording = true;
+
+  let pendingInputs: Array<RecordedInput> = [];
+  let gamepads: Array<GamepadSnapshot | null> = [];
+  let lastGamepadsJson = "[]";
+
+  function record(input: RecordedInput) {
+    if (isRecording) {
+      pendingInputs.push(input);
+    }
+  }
+
+  const handleKeydown = (event: KeyboardEvent) => {
+    record({ type: "keydown", key: event.key, repeat: event.repeat });
+  };
+  const handleKeyup = (event: KeyboardEvent) => {
+    record({ type: "keyup", key: event.key, repeat: event.repeat });
+  };
+
+  let canvas: HTMLCanvasElement | null = null;
+
+  const handleMouseMove = (event: MouseEvent) => {
+    const { x, y } = clientToCanvas(canvas!, event.clientX, event.clientY);
+    record({ type: "mousemove", x, y, buttons: event.buttons });
+  };
+  const handleMouseDown = (event: MouseEvent) => {
+    const { x, y } = clientToCanvas(canvas!, event.clientX, event.clientY);
+    record({ type: "mousedown", x, y, button: event.button });
+  };
+  const handleMouseUp = (event: MouseEvent) => {
+    const { x, y } = clientToCanvas(canvas!, event.clientX, event.clientY);
+    record({
+      type: "mouseup",
+      x,
+      y,
+      button: event.button,
+      onCanvas: event.target === canvas,
+    });
+  };
+  const handleTouch = (event: TouchEvent) => {
+    const touches =
+      event.type === "touchend" ? event.changedTouches : event.touches;
+    if (touches.length < 1) return;
+
+    const { x, y } = clientToCanvas(
+      canvas!,
+      touches[0].clientX,
+      touches[0].clientY
+    );
+    record({ type: event.type as "touchstart", x, y });
+  };
+  const handlePointer = (event: PointerEvent) => {
+    const { x, y } = clientToCanvas(canvas!, event.clientX, event.clientY);
+    record({
+      type: event.type as "pointerdown",
+      id: event.pointerId,
+      pointerType: event.pointerType as "mouse",
+      isPrimary: event.isPrimary,
+      x,
+      y,
+      pressure: event.pressure,
+    });
+  };
+
+  function bindCanvasListeners() {
+    if (canvas) return;
+
+    // The Canvas is created after this Component, so we have to find it later.
+    const canvasComponent = rootEnt.getComponent(Canvas);
+    if (!canvasComponent) return;
+
+    canvas = canvasComponent.element;
+    canvas.addEventListener("mousemove", handleMouseMove);
+    canvas.addEventListener("mousedown", handleMouseDown);
+    window.addEventListener("mouseup", handleMouseUp);
+    canvas.addEventListener("touchstart", handleTouch);
+    canvas.addEventListener("touchmove", handleTouch);
+    canvas.addEventListener("touchend", handleTouch);
+    canvas.addEventListener("pointerdown", handlePointer);
+    canvas.addEventListener("pointermove", handlePointer);
+    canvas.addEventListener("pointerup", handlePointer);
+    canvas.addEventListener("pointercancel", handlePointer);
+    canvas.addEventListener("pointerleave", handlePointer);
+  }
+
+  function unbindCanvasListeners() {
+    if (!canvas) return;
+
+    canvas.removeEventListener("mousemove", handleMouseMove);
+    canvas.removeEventListener("mousedown", handleMouseDown);
+    window.removeEventListener("mouseup", handleMouseUp);
+    canvas.removeEventListener("touchstart", handleTouch);
+    canvas.removeEventListener("touchmove", handleTouch);
+    canvas.removeEventListener("touchend", handleTouch);
+    canvas.removeEventListener("pointerdown", handlePointer);
+    canvas.removeEventListener("pointermove", handlePointer);
+    canvas.removeEventListener("pointerup", handlePointer);
+    canvas.removeEventListener("pointercancel", handlePointer);
+    canvas.removeEventListener("pointerleave", handlePointer);
+    canvas = null;
+  }
+
+  const { onEnabled, onDisabled } = useEnableDisable();
+
+  onEnabled(() => {
+    document.addEventListener("keydown", handleKeydown);
+    document.addEventListener("keyup", handleKeyup);
+  });
+
+  onDisabled(() => {
+    document.removeEventListener("keydown", handleKeydown);
+    document.removeEventListener("keyup", handleKeyup);
+    unbindCanvasListeners();
+  });
+
+  const recordingScheduler: Scheduler = {
+    requestFrame(callback) {
+      return scheduler.requestFrame((timestamp) => {
+        bindCanvasListeners();
+
+        // Gamepads are read once per tick, here, and `Gamepad` Components use this
+        // snapshot, so that what they see is exactly what gets recorded.
+        gamepads = snapshotGamepads();
+
+        if (isRecording) {
+          const tick: RecordedTick = { time: timestamp };
+          if (pendingInputs.length > 0) {
+            tick.inputs = pendingInputs;
+            pendingInputs = [];
+          }
+          const gamepadsJson = JSON.stringify(gamepads);
+          if (gamepadsJson !== lastGamepadsJson) {
+            tick.gamepads = gamepads;
+            lastGamepadsJson = gamepadsJson;
+          }
+          recording.ticks.push(tick);
+        }
+
+        callback(timestamp);
+      });
+    },
+    cancelFrame(handle) {
+      scheduler.cancelFrame(handle);
+    },
+  };
+  if (scheduler.now) {
+    const now = scheduler.now;
+    recordingScheduler.now = () => {
+      const time = now();
+      if (isRecording && recording.ticks.length === 0) {
+        recording.startTime = time;
+      }
+      return time;
+    };
+  }
+
+  return {
+    /** The Scheduler to pass to the root Entity's `RunLoop`, so that frame timing can be recorded. */
+    scheduler: recordingScheduler,
+
+    /** The state of each gamepad slot as of the current frame. */
+    get gamepads(): ReadonlyArray<GamepadSnapshot | null> {
+      return gamepads;
+    },
+
+    /** Whether input is still being recorded. */
+    get isRecording() {
+      return isRecording;
+    },
+
+    /** The input recorded so far. */
+    get recording(): InputRecording {
+      return recording;
+    },
+
+    /** Stop recording input, and return everything that was recorded. */
+    stop(): InputRecording {
+      isRecording = false;
+      pendingInputs = [];
+      return recording;
+    },
+  };
+}
@@ -4,6 +4,46 @@ import {
   useCallbackAsCurrent,
 } from "@hex-engine/core";
 import { Vector, Angle } from "../Models";
+import { useButtonState } from "../Hooks";
+import { useInputPlayer } from "./InputPlayer";
+import { RecordedInput } from "./InputRecorder";
+
+const modifierKeys = ["Control", "Shift", "Alt", "Meta"];
+
+const keyAliases: { [alias: string]: string } = {
+  ctrl: "Control",
+  control: "Control",
+  shift: "Shift",
+  alt: "Alt",
+  option: "Alt",
+  meta: "Meta",
+  cmd: "Meta",
+  command: "Meta",
+  space: " ",
+};
+
+/**
+ * Split a chord like "Ctrl+Shift+z" into the keys in it, eg ["Control", "Shift", "z"].
+ * A "+" at the end is treated as the plus key, so "Ctrl++" is Control and "+".
+ */
+function parseChord(chord: string): Array<string> {
+  const parts = chord.split("+");
+  if (chord.endsWith("+")) {
+    // "Ctrl++" splits into ["Ctrl", "", ""]; the two empty strings are the "+" key.
+    parts.splice(-2, 2, "+");
+  }
+
+  return parts.map((part) => {
+    const trimmed = part === " " ? part : part.trim();
+    return keyAliases[trimmed.toLowerCase()] || trimmed;
+  });
+}
+
+/** The values of `event.key` that should be treated as the specified key; single characters match either case. */
+function keyVariants(key: string): Array<string> {
+  if (key.length !== 1) return [key];
+  return [key.toLowerCase(), key.toUpperCase()];
+}
 
 let firstKeyHasHappened = false;
 let pendingFirstKeyHandlers: Array<() => void> = [];
@@ -27,7 +67,11 @@ export function useFirstKey(handler: () => void) {
 
 /**
  * This Component provides information about which keys on the user's
- * Keyboard are currently pressed.
+ * Keyboard are currently pressed, which were pressed or released this frame,
+ * and how long they've been held.
+ *
+ * Key presses and releases are visible to every `useUpdate` function during
+ * the frame after they happen, and are reset at the end of that frame.
  */
 export default function Keyboard({
   preventDefault = false,
@@ -41,12 +85,9 @@ export default function Keyboard({
   useType(Keyboard);
 
   const pressed: Set<string> = new Set();
+  const buttonState = useButtonState();
 
-  const processKeydown = (event: KeyboardEvent) => {
-    if (preventDefault) {
-      event.preventDefault();
-    }
-
+  const processKeydown = (event: { key: string; repeat: boolean }) => {
     if (!firstKeyHasHappened) {
       firstKeyHasHappened = true;
       pendingFirstKeyHandlers.forEach((cb) => cb());
@@ -57,29 +98,82 @@ export default function Keyboard({
       return;
     }
     pressed.add(event.key);
+    buttonState.press(event.key);
   };
 
-  const processKeyup = (event: KeyboardEvent) => {
-    event.preventDefault();
-
+  const processKeyup = (event: { key: string; repeat: boolean }) => {
     if (event.repeat) {
       return;
     }
-    pressed.delete(event.key);
+    // Holding Shift can change the case of a key between when it's pressed and
+    // when it's released (eg, "z" then "Z"), so release both cases.
+    for (const key of keyVariants(event.key)) {
+      pressed.delete(key);
+      buttonState.release(key);
+    }
+  };
+
+  const handleKeydown = (event: KeyboardEvent) => {
+    if (preventDefault) {
+      event.preventDefault();
+    }
+    processKeydown(event);
+  };
+
+  const handleKeyup = (event: KeyboardEvent) => {
+    event.preventDefault();
+    processKeyup(event);
+  };
+
+  // When an InputPlayer is playing back a recording, listen to it instead of the real keyboard.
+  const player = useInputPlayer();
+  const handleRecordedInput = (input: RecordedInput) => {
+    if (input.type === "keydown") {
+      processKeydown(input);
+    } else if (input.type === "keyup") {
+      processKeyup(input);
+    }
   };
 
   const { onEnabled, onDisabled } = useEnableDisable();
 
   onEnabled(() => {
-    document.addEventListener("keydown", processKeydown);
-    document.addEventListener("keyup", processKeyup);
+    if (player) {
+      player.addInputListener(handleRecordedInput);
+    } else {
+      document.addEventListener("keydown", handleKeydown);
+      document.addEventListener("keyup", handleKeyup);
+    }
   });
 
   onDisabled(() => {
-    document.removeEventListener("keydown", processKeydown);
-    document.removeEventListener("keyup", processKeyup);
+    if (player) {
+      player.removeInputListener(handleRecordedInput);
+    } else {
+      document.removeEventListener("keydown", handleKeydown);
+      document.removeEventListener("keyup", handleKeyup);
+    }
   });
 
+  function isHeld(key: string) {
+    return keyVariants(key).some((variant) => pressed.has(variant));
+  }
+
+  function justPressed(key: string) {
+    return keyVariants(key).some((variant) => buttonState.justPressed(variant));
+  }
+
+  function chordIsHeld(keys: Array<string>) {
+    // Modifiers that aren't part of the chord must not be held, so that
+    // eg "Ctrl+z" doesn't also match when "Ctrl+Shift+z" is pressed.
+    return (
+      keys.every(isHeld) &&
+      modifierKeys.every(
+        (modifier) => keys.includes(modifier) || !isHeld(modifier)
+      )
+    );
+  }
+
   return {
     /**
      * A Set containing the names of all the keys
@@ -91,6 +185,75 @@ export default function Keyboard({
      */
     pressed,
 
+    /**
+     * Returns whether the specified key started being held this frame.
+     * Single-character keys match regardless of case.
+     */
+    justPressed,
+
+    /**
+     * Returns whether the specified key stopped being held this frame.
+     * Single-character keys match regardless of case.
+     */
+    justReleased(key: string): boolean {
+      return keyVariants(key).some((variant) =>
+        buttonState.justReleased(variant)
+      );
+    },
+
+    /**
+     * Returns how long the specified key has been held, in milliseconds, as of the
+     * start of this frame. Returns 0 if the key isn't held.
+     */
+    heldDuration(key: string): number {
+      return Math.max(
+        ...keyVariants(key).map((variant) => buttonState.heldDuration(variant))
+      );
+    },
+
+    /**
+     * Returns whether the specified key was pressed this frame, or has been held long
+     * enough that it should repeat this frame. This is useful for moving through menus.
+     *
+     * Unlike the operating system's key repeat, this is measured in frames, so that
+     * it behaves the same way when input is played back with an `InputPlayer`.
+     *
+     * @param key The key to check.
+     * @param delay How long the key must be held before it starts repeating, in milliseconds. Defaults to 500.
+     * @param interval How long to wait between repeats, in milliseconds. Defaults to 50.
+     */
+    justPressedOrRepeated(
+      key: string,
+      delay: number = 500,
+      interval: number = 50
+    ): boolean {
+      return keyVariants(key).some((variant) =>
+        buttonState.justPressedOrRepeated(variant, delay, interval)
+      );
+    },
+
+    /**
+     * Returns whether all the keys in the specified chord are held, eg "Ctrl+z" or "Shift+ArrowUp".
+     *
+     * Keys are separated by "+", and "Ctrl", "Cmd", "Option", and "Space" can be used as names
+     * for "Control", "Meta", "Alt", and " ". Modifier keys (Control, Shift, Alt, and Meta) that are
+     * not part of the chord must not be held.
+     */
+    chordHeld(chord: string): boolean {
+      return chordIsHeld(parseChord(chord));
+    },
+
+    /**
+     * Returns whether the specified chord (eg "Ctrl+z") was completed this frame; that is,
+     * whether all of its keys are held, and at least one of them was pressed this frame.
+     *
+     * See `chordHeld` for the chord format.
+     */
+    chordJustPressed(chord: string): boolean {
+      const keys = parseChord(chord);
+      return chordIsHeld(keys) && keys.some(justPressed);
+    },
+
     /**
      * A helper function that creates a `Vector` pointing in the direction indicated by
      * the combined state of the four specified direction keys. This is mainly useful
@@ -3,10 +3,15 @@ import {
   useEnableDisable,
   useStateAccumulator,
   useCallbackAsCurrent,
+  useRootEntity,
 } from "@hex-engine/core";
-import { useUpdate } from "../Canvas";
+import Canvas, { useUpdate } from "../Canvas";
 import { Point } from "../Models";
 import { useContext, useEntityTransforms } from "../Hooks";
+import Camera from "./Camera";
+import Viewport from "./Viewport";
+import { useInputPlayer } from "./InputPlayer";
+import { RecordedInput, clientToCanvas } from "./InputRecorder";
 
 const MOUSE_MOVE = Symbol("MOUSE_MOVE");
 const MOUSE_DOWN = Symbol("MOUSE_DOWN");
@@ -67,35 +72,91 @@ export function useFirstClick(handler: () => void) {
 }
 
 /**
- * A low-level Mouse Component. It supports mousemove, mousedown, and mouseup events.
- * For click events, information about whether the cursor is within an Entity's geometry,
- * and clean separation between left-click, right-click, and middle-click events, use `Mouse` instead.
+ * Runs the functions registered with `useFirstClick`, if they haven't been run already.
+ * Components that listen for clicks or touches should call this when one happens.
  */
-export default function LowLevelMouse() {
-  useType(LowLevelMouse);
-
-  const context = useContext();
-  const canvas: HTMLCanvasElement = context.canvas;
+export function handleFirstClick() {
+  if (firstClickHasHappened) return;
 
-  const transforms = useEntityTransforms();
+  firstClickHasHappened = true;
+  pendingFirstClickHandlers.forEach((handler) => {
+    handler();
+  });
+  pendingFirstClickHandlers = [];
+}
 
-  function translatePos(clientX: number, clientY: number): Point {
-    const rect = canvas.getBoundingClientRect();
-    const scaleX = rect.width / canvas.width;
-    const scaleY = rect.height / canvas.height;
+/**
+ * Returns a function that converts a position in Canvas pixels (for instance, from a DOM event
+ * or an `InputRecording`) into a position in the world, taking into account any `Viewport`s
+ * or `Camera` on the root Entity.
+ *
+ * A position that isn't inside any enabled Viewport is returned unchanged.
+ */
+export function useCanvasToWorld(): (canvasPos: Point) => Point {
+  const rootEnt = useRootEntity();
+
+  return function canvasToWorld(canvasPos: Point): Point {
+    const viewports = Viewport.allOn(rootEnt);
+    const camera = rootEnt.getComponent(Camera);
+    if (viewports.length > 0) {
+      const viewport = viewports.find(
+        (viewport) => viewport.isEnabled && viewport.containsPoint(canvasPos)
+      );
+      if (viewport) {
+        return viewport.canvasToWorld(canvasPos);
+      }
+    } else if (camera) {
+      const canvas = rootEnt.getComponent(Canvas);
+      return camera.screenToWorld(
+        canvasPos,
+        canvas
+          ? new Point(canvas.element.width, canvas.element.height)
+          : undefined
+      );
+    }
 
-    const x = (clientX - rect.left) / scaleX;
-    const y = (clientY - rect.top) / scaleY;
+    return canvasPos.clone();
+  };
+}
 
-    const untransformedPoint = new Point(x, y);
+/**
+ * Returns a function that converts a position in Canvas pixels (for instance, from a DOM event
+ * or an `InputRecording`) into a position relative to the current Entity, taking into account
+ * any `Viewport`s or `Camera` on the root Entity, and the current Entity's transform.
+ *
+ * Unlike `useContext`, this works without a Canvas element, so that recorded input
+ * can be played back under `Canvas.Headless`.
+ */
+export function useCanvasToEntity(): (canvasPos: Point) => Point {
+  const transforms = useEntityTransforms();
+  const canvasToWorld = useCanvasToWorld();
 
+  return function canvasToEntity(canvasPos: Point): Point {
     return transforms
       .matrixForWorldPosition()
       .inverse()
-      .transformPoint(untransformedPoint);
-  }
+      .transformPoint(canvasToWorld(canvasPos));
+  };
+}
+
+/**
+ * A low-level Mouse Component. It supports mousemove, mousedown, and mouseup events.
+ * For click events, information about whether the cursor is within an Entity's geometry,
+ * and clean separation between left-click, right-click, and middle-click events, use `Mouse` instead.
+ */
+export default function LowLevelMouse() {
+  useType(LowLevelMouse);
+
+  // When an InputPlayer is playing back a recording, listen to it instead of the real mouse.
+  // This also means there doesn't need to be a Canvas element, so it works with `Canvas.Headless`.
+  const player = useInputPlayer();
+  const canvas: HTMLCanvasElement | null = player ? null : useContext().canvas;
+
+  const canvasToEntity = useCanvasToEntity();
+  const rootEnt = useRootEntity();
 
   let lastPos = new Point(0, 0);
+  let lastCanvasPos: Point | null = null;
   const event = new HexMouseEvent(new Point(0, 0), new Point(0, 0), {
     left: false,
     right: false,
@@ -104,17 +165,16 @@ export default function LowLevelMouse() {
     mouse5: false,
   });
   function updateEvent({
-    clientX,
-    clientY,
+    canvasPos,
     buttons = 0,
     button,
   }: {
-    clientX: number;
-    clientY: number;
+    canvasPos: Point;
     buttons?: number;
     button?: number;
   }) {
-    event.pos = translatePos(clientX, clientY);
+    lastCanvasPos = canvasPos;
+    event.pos = canvasToEntity(canvasPos);
     event.delta.mutateInto(event.pos);
     event.delta.subtractMutate(lastPos);
     lastPos.mutateInto(event.pos);
@@ -138,99 +198,135 @@ export default function LowLevelMouse() {
   let pendingDown: null | (() => void) = null;
   let pendingUp: null | (() => void) = null;
 
-  const handleMouseMove = ({ clientX, clientY, buttons }: MouseEvent) => {
+  function mouseMove(canvasPos: Point, buttons: number) {
     pendingMove = () => {
       pendingMove = null;
-      updateEvent({ clientX, clientY, buttons });
+      updateEvent({ canvasPos, buttons });
       moveState.all().forEach((callback) => callback(event));
     };
-  };
-  const handleMouseDown = ({ clientX, clientY, button }: MouseEvent) => {
-    if (!firstClickHasHappened) {
-      firstClickHasHappened = true;
-      pendingFirstClickHandlers.forEach((handler) => {
-        handler();
-      });
-      pendingFirstClickHandlers = [];
-    }
+  }
+  function mouseDown(canvasPos: Point, button: number) {
+    handleFirstClick();
 
     pendingDown = () => {
       pendingDown = null;
-      updateEvent({ clientX, clientY, button });
+      updateEvent({ canvasPos, button });
       downState.all().forEach((callback) => callback(event));
     };
-  };
-  const handleMouseUp = ({ clientX, clientY, button }: MouseEvent) => {
+  }
+  function mouseUp(canvasPos: Point, button: number) {
     pendingUp = () => {
       pendingUp = null;
-      updateEvent({ clientX, clientY, button });
+      updateEvent({ canvasPos, button });
       upState.all().forEach((callback) => callback(event));
     };
+  }
+
+  function toCanvasPos(clientX: number, clientY: number): Point {
+    const { x, y } = clientToCanvas(canvas!, clientX, clientY);
+    return new Point(x, y);
+  }
+
+  const handleMouseMove = ({ clientX, clientY, buttons }: MouseEvent) => {
+    mouseMove(toCanvasPos(clientX, clientY), buttons);
+  };
+  const handleMouseDown = ({ clientX, clientY, button }: MouseEvent) => {
+    mouseDown(toCanvasPos(clientX, clientY), button);
+  };
+  const handleMouseUp = ({ clientX, clientY, button }: MouseEvent) => {
+    mouseUp(toCanvasPos(clientX, clientY), button);
   };
 
   let isTouching = false;
-  const handleTouchStart = (ev: TouchEvent) => {
-    ev.preventDefault();
-
+  function touchStart(canvasPos: Point) {
     if (isTouching) return;
 
-    if (!firstClickHasHappened) {
-      firstClickHasHappened = true;
-      pendingFirstClickHandlers.forEach((handler) => {
-        handler();
-      });
-      pendingFirstClickHandlers = [];
-    }
+    mouseDown(canvasPos, 0);
+    isTouching = true;
+  }
+  function touchMove(canvasPos: Point) {
+    pendingMove = () => {
+      pendingMove = null;
+      updateEvent({ canvasPos, button: 0 });
+      moveState.all().forEach((callback) => callback(event));
+    };
+  }
+  function touchEnd(canvasPos: Point) {
+    if (!isTouching) return;
 
-    const touches = ev.touches;
-    if (touches.length < 1) return;
-    const { clientX, clientY } = touches[0];
-    const button = 0;
+    mouseUp(canvasPos, 0);
+    isTouching = false;
+  }
 
-    pendingDown = () => {
-      pendingDown = null;
-      updateEvent({ clientX, clientY, button });
-      downState.all().forEach((callback) => callback(event));
-    };
+  const handleTouchStart = (ev: TouchEvent) => {
+    ev.preventDefault();
 
-    isTouching = true;
+    const touches = ev.touches;
+    if (touches.length < 1) return;
+    touchStart(toCanvasPos(touches[0].clientX, touches[0].clientY));
   };
   const handleTouchMove = (ev: TouchEvent) => {
     ev.preventDefault();
 
     const touches = ev.touches;
     if (touches.length < 1) return;
-    const { clientX, clientY } = touches[0];
-    const button = 0;
-
-    pendingMove = () => {
-      pendingMove = null;
-      updateEvent({ clientX, clientY, button });
-      moveState.all().forEach((callback) => callback(event));
-    };
+    touchMove(toCanvasPos(touches[0].clientX, touches[0].clientY));
   };
   const handleTouchEnd = (ev: TouchEvent) => {
     ev.preventDefault();
 
-    if (!isTouching) return;
-
     const touches = ev.changedTouches;
     if (touches.length < 1) return;
-    const { clientX, clientY } = touches[0];
-    const button = 0;
-
-    pendingUp = () => {
-      pendingUp = null;
-      updateEvent({ clientX, clientY, button });
-      upState.all().forEach((callback) => callback(event));
-    };
+    touchEnd(toCanvasPos(touches[0].clientX, touches[0].clientY));
+  };
 
-    isTouching = false;
+  const handleRecordedInput = (input: RecordedInput) => {
+    switch (input.type) {
+      case "mousemove": {
+        mouseMove(new Point(input.x, input.y), input.buttons);
+        break;
+      }
+      case "mousedown": {
+        mouseDown(new Point(input.x, input.y), input.button);
+        break;
+      }
+      case "mouseup": {
+        if (input.onCanvas) {
+          mouseUp(new Point(input.x, input.y), input.button);
+        }
+        break;
+      }
+      case "touchstart": {
+        touchStart(new Point(input.x, input.y));
+        break;
+      }
+      case "touchmove": {
+        touchMove(new Point(input.x, input.y));
+        break;
+      }
+      case "touchend": {
+        touchEnd(new Point(input.x, input.y));
+        break;
+      }
+    }
   };
 
   useUpdate(() => {
     // Very important that we process move before down/up, so that touch screens work
-    if (pendingMove) pendingMove();
+    if (pendingMove) {
+      pendingMove();
+    } else if (lastCanvasPos && rootEnt.getComponent(Camera)) {
+      // The cursor can end up over a different part of the world
+      // without moving, if the camera moves underneath it.
+      const pos = canvasToEntity(lastCanvasPos);
+      if (!pos.equals(event.pos)) {
+        event.pos = pos;
+        event.delta.mutateInto(pos);
+        event.delta.subtractMutate(lastPos);
+        lastPos.mutateInto(pos);
+        moveState.all().forEach((callback) => callback(event));
+      }
+    }
     if (pendingDown) pendingDown();
     if (pendingUp) pendingUp();
   });
@@ -264,11 +360,19 @@ export default function LowLevelMouse() {
   const { onEnabled, onDisabled } = useEnableDisable();
 
   onEnabled(() => {
-    if (canvas) bindListeners(canvas);
+    if (player) {
+      player.addInputListener(handleRecordedInput);
+    } else if (canvas) {
+      bindListeners(canvas);
+    }
   });
 
   onDisabled(() => {
-    if (canvas) unbindListeners(canvas);
+    if (player) {
+      player.removeInputListener(handleRecordedInput);
+    } else if (canvas) {
+      unbindListeners(canvas);
+    }
   });
 
   return {
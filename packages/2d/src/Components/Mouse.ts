@@ -6,6 +6,7 @@ import {
   useEntity,
   Entity,
 } from "@hex-engine/core";
+import { useButtonState } from "../Hooks";
 import LowLevelMouse, { HexMouseEvent } from "./LowLevelMouse";
 import MousePosition from "./MousePosition";
 import Geometry from "./Geometry";
@@ -16,10 +17,15 @@ const ON_CLICK = Symbol("ON_CLICK");
 const ON_RIGHT_CLICK = Symbol("ON_RIGHT_CLICK");
 const ON_MIDDLE_CLICK = Symbol("ON_MIDDLE_CLICK");
 type Callback = (event: HexMouseEvent) => void;
+type ButtonName = "left" | "right" | "middle";
 
 /**
  * A Component that gives you information about where the Mouse is, relative to the current Entity,
  * and lets you register functions to be called when the mouse cursor interacts with the current Entity.
+ *
+ * It also keeps track of which buttons were pressed within the Entity's bounds, or released, this frame.
+ * Because mouse events are processed during `useUpdate`, these are visible to `useUpdate` functions
+ * on Components created after this one (or on Entities updated after this one's) until the end of the frame.
  */
 export default function Mouse({
   entity = useEntity(),
@@ -53,6 +59,7 @@ export default function Mouse({
   let pressingLeft = false;
   let pressingRight = false;
   let pressingMiddle = false;
+  const buttonState = useButtonState<ButtonName>();
 
   onMouseDown((event) => {
     if (!mousePosition.isInsideBounds) return;
@@ -60,13 +67,16 @@ export default function Mouse({
 
     if (buttons.left) {
       pressingLeft = true;
+      buttonState.press("left");
       onDownState.all().forEach((callback) => callback(event));
     }
     if (buttons.right) {
       pressingRight = true;
+      buttonState.press("right");
     }
     if (buttons.middle) {
       pressingMiddle = true;
+      buttonState.press("middle");
     }
   });
 
@@ -87,13 +97,16 @@ export default function Mouse({
 
     if (buttons.left) {
       pressingLeft = false;
+      buttonState.release("left");
       onUpState.all().forEach((callback) => callback(event));
     }
     if (buttons.right) {
       pressingRight = false;
+      buttonState.release("right");
     }
     if (buttons.middle) {
       pressingMiddle = false;
+      buttonState.release("middle");
     }
   });
 
@@ -143,6 +156,27 @@ export default function Mouse({
       return pressingMiddle;
     },
 
+    /**
+     * Returns whether the specified mouse button was pressed within the Entity's bounds this frame.
+     */
+    justPressed(button: ButtonName): boolean {
+      return buttonState.justPressed(button);
+    },
+    /**
+     * Returns whether the specified mouse button was released this frame, after being
+     * pressed within the Entity's bounds.
+     */
+    justReleased(button: ButtonName): boolean {
+      return buttonState.justReleased(button);
+    },
+    /**
+     * Returns how long the specified mouse button has been held, in milliseconds, as of the
+     * start of this frame. Returns 0 if it isn't being held, or wasn't pressed within the Entity's bounds.
+     */
+    heldDuration(button: ButtonName): number {
+      return buttonState.heldDuration(button);
+    },
+
     /**
      * The current position of the mouse cursor, relative to the Entity this Component has been
      * configured to use.
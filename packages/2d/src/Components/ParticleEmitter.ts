@@ -0,0 +1,443 @@
+import { useType } from "@hex-engine/core";
+import { useUpdate, useRawDraw } from "../Canvas";
+import { useEntityTransforms } from "../Hooks";
+import { Point } from "../Models";
+import SpriteSheet from "./SpriteSheet";
+import Aseprite from "./Aseprite";
+
+/** A number that is picked randomly for each particle; either a constant, or a `[min, max]` range. */
+export type ParticleRange = number | [number, number];
+
+/**
+ * A value that changes over each particle's life; either a constant, or a list of keyframes
+ * that are linearly interpolated between. `at` goes from 0 (when the particle is emitted) to 1
+ * (when it dies).
+ */
+export type ParticleCurve<T> = T | Array<{ at: number; value: T }>;
+
+// Curves are sampled into lookup tables ahead of time, so that
+// drawing thousands of particles doesn't mean thousands of interpolations.
+const CURVE_SAMPLES = 64;
+
+function pick(range: ParticleRange): number {
+  if (typeof range === "number") return range;
+  const [min, max] = range;
+  return min + Math.random() * (max - min);
+}
+
+function sampleCurve<T>(
+  curve: ParticleCurve<T>,
+  interpolate: (from: T, to: T, amount: number) => T
+): Array<T> {
+  const samples: Array<T> = [];
+  if (!Array.isArray(curve)) {
+    for (let i = 0; i < CURVE_SAMPLES; i++) {
+      samples.push(curve);
+    }
+    return samples;
+  }
+
+  if (curve.length === 0) {
+    throw new Error("Particle curves must have at least one keyframe");
+  }
+  const keyframes = [...curve].sort((a, b) => a.at - b.at);
+
+  for (let i = 0; i < CURVE_SAMPLES; i++) {
+    const at = i / (CURVE_SAMPLES - 1);
+    const nextIndex = keyframes.findIndex((keyframe) => keyframe.at >= at);
+    if (nextIndex === -1) {
+      samples.push(keyframes[keyframes.length - 1].value);
+    } else if (nextIndex === 0) {
+      samples.push(keyframes[0].value);
+    } else {
+      const from = keyframes[nextIndex - 1];
+      const to = keyframes[nextIndex];
+      samples.push(
+        interpolate(from.value, to.value, (at - from.at) / (to.at - from.at))
+      );
+    }
+  }
+  return samples;
+}
+
+function lerp(from: number, to: number, amount: number) {
+  return from + (to - from) * amount;
+}
+
+function parseColor(color: string): [number, number, number] {
+  const short = color.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/i);
+  if (short) {
+    return [
+      parseInt(short[1] + short[1], 16),
+      parseInt(short[2] + short[2], 16),
+      parseInt(short[3] + short[3], 16),
+    ];
+  }
+
+  const long = color.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (long) {
+    return [
+      parseInt(long[1], 16),
+      parseInt(long[2], 16),
+      parseInt(long[3], 16),
+    ];
+  }
+
+  throw new Error(
+    `Unsupported particle color: "${color}". Particle colors must be hex colors, like "#ff8800" or "#f80"`
+  );
+}
+
+/**
+ * A Component that emits and draws lots of small, short-lived particles, for effects like
+ * sparks, smoke, or explosions. This is much cheaper than creating an Entity for each particle:
+ * particles are stored in typed arrays, and can't have Components of their own.
+ *
+ * Particles are emitted from the current Entity's origin. By default, they are emitted in
+ * world space, so they stay where they were emitted when the Entity moves; pass `space: "local"`
+ * to have them move along with the Entity instead.
+ *
+ * Each particle is drawn as a square of the specified `color`, or as a frame from a `SpriteSheet`
+ * or `Aseprite`, if one is specified. Sprites are not tinted by `color`, but do use `alpha`.
+ */
+export default function ParticleEmitter({
+  maxParticles = 1000,
+  emissionRate = 10,
+  bursts = [],
+  duration = Infinity,
+  emitting = true,
+  lifetime = 1000,
+  speed = [50, 100],
+  angle = [0, Math.PI * 2],
+  gravity = new Point(0, 0),
+  size = 4,
+  scale = 1,
+  color = "#ffffff",
+  alpha = 1,
+  spriteSheet,
+  tiles = [0],
+  aseprite,
+  animation = "default",
+  spriteFrames = "overLife",
+  space = "world",
+}: {
+  /** The most particles that can be alive at once. Particles emitted past this limit are dropped. Defaults to 1000. */
+  maxParticles?: number;
+
+  /** How many particles to emit per second, continuously. Defaults to 10. */
+  emissionRate?: number;
+
+  /**
+   * Groups of particles to emit all at once, at the specified number of
+   * milliseconds after the emitter starts emitting.
+   */
+  bursts?: Array<{ time: number; count: number }>;
+
+  /** How long to emit particles for, in milliseconds, before stopping automatically. Defaults to forever. */
+  duration?: number;
+
+  /** Whether to start emitting particles right away. Defaults to true. */
+  emitting?: boolean;
+
+  /** How long each particle lives, in milliseconds. Defaults to 1000. */
+  lifetime?: ParticleRange;
+
+  /** How fast each particle moves when emitted, in pixels per second. Defaults to between 50 and 100. */
+  speed?: ParticleRange;
+
+  /** Which direction each particle moves in when emitted, in radians clockwise from the right. Defaults to any direction. */
+  angle?: ParticleRange;
+
+  /** A constant acceleration applied to every particle, in pixels per second per second. */
+  gravity?: Point;
+
+  /** The width and height of each particle, in pixels, when not using a sprite. Defaults to 4. */
+  size?: number;
+
+  /** How much to scale each particle by, over its life. Defaults to 1. */
+  scale?: ParticleCurve<number>;
+
+  /** The color of each particle over its life, as a hex color. Not used for sprites. Defaults to "#ffffff". */
+  color?: ParticleCurve<string>;
+
+  /** The opacity of each particle over its life, from 0 to 1. Defaults to 1. */
+  alpha?: ParticleCurve<number>;
+
+  /** A SpriteSheet to draw particles from, instead of drawing squares. */
+  spriteSheet?: ReturnType<typeof SpriteSheet>;
+
+  /** When using a `spriteSheet`, which of its tiles to use as particle frames. Defaults to `[0]`. */
+  tiles?: Array<number>;
+
+  /** An Aseprite to draw particles from, instead of drawing squares. */
+  aseprite?: ReturnType<typeof Aseprite>;
+
+  /** When using an `aseprite`, the name of the animation whose frames should be used as particle frames. Defaults to "default". */
+  animation?: string;
+
+  /**
+   * When using a sprite, how each particle chooses which frame to show: "overLife" plays
+   * through the frames over the particle's life, and "random" picks one frame per particle.
+   */
+  spriteFrames?: "overLife" | "random";
+
+  /**
+   * "world" to emit particles into the world, so that they stay where they are when the
+   * Entity moves, or "local" to have them move with the Entity. Defaults to "world".
+   */
+  space?: "world" | "local";
+} = {}) {
+  useType(ParticleEmitter);
+
+  const transforms = useEntityTransforms();
+
+  const scaleSamples = sampleCurve(scale, lerp);
+  const alphaSamples = sampleCurve(alpha, lerp);
+  // A constant color is passed as a keyframe, since parsed colors are arrays, like curves.
+  const colorSamples = sampleCurve(
+    Array.isArray(color)
+      ? color.map(({ at, value }) => ({ at, value: parseColor(value) }))
+      : [{ at: 0, value: parseColor(color) }],
+    (from, to, amount) =>
+      from.map((channel, index) =>
+        lerp(channel, to[index], amount)
+      ) as typeof from
+  ).map(
+    ([r, g, b]) => `rgb(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)})`
+  );
+
+  let frameCount = 1;
+  let drawFrame: (
+    context: CanvasRenderingContext2D,
+    frame: number,
+    x: number,
+    y: number,
+    scale: number
+  ) => void;
+  if (spriteSheet) {
+    frameCount = tiles.length;
+    drawFrame = (context, frame, x, y, scale) => {
+      const width = spriteSheet.tileSize.x * scale;
+      const height = spriteSheet.tileSize.y * scale;
+      spriteSheet.draw(context, {
+        x: x - width / 2,
+        y: y - height / 2,
+        tileIndex: tiles[frame],
+        width,
+        height,
+      });
+    };
+  } else if (aseprite) {
+    const anim = aseprite.animations[animation];
+    if (!anim) {
+      throw new Error(
+        `Cannot use Aseprite animation "${animation}" for particles, because there is no animation with that name`
+      );
+    }
+    // Frames' images are read when they're drawn, because Aseprite replaces them when its layers are toggled.
+    const frames = [...anim.frames];
+    if (anim.direction === "reverse") {
+      frames.reverse();
+    } else if (anim.direction === "ping-pong") {
+      frames.push(...frames.slice(1, -1).reverse());
+    }
+    frameCount = frames.length;
+    drawFrame = (context, frame, x, y, scale) => {
+      const width = aseprite.size.x * scale;
+      const height = aseprite.size.y * scale;
+      context.drawImage(
+        frames[frame].data,
+        x - width / 2,
+        y - height / 2,
+        width,
+        height
+      );
+    };
+  } else {
+    drawFrame = (context, _frame, x, y, scale) => {
+      const particleSize = size * scale;
+      context.fillRect(
+        x - particleSize / 2,
+        y - particleSize / 2,
+        particleSize,
+        particleSize
+      );
+    };
+  }
+
+  // Each particle's state is stored at the same index in each of these arrays.
+  // When a particle dies, the last particle is moved into its place.
+  const posX = new Float32Array(maxParticles);
+  const posY = new Float32Array(maxParticles);
+  const velX = new Float32Array(maxParticles);
+  const velY = new Float32Array(maxParticles);
+  const ages = new Float32Array(maxParticles);
+  const lifetimes = new Float32Array(maxParticles);
+  const frames = new Uint16Array(maxParticles);
+  let count = 0;
+
+  let isEmitting = emitting;
+  let elapsed = 0;
+  let pendingEmission = 0;
+  let nextBurstIndex = 0;
+  const sortedBursts = [...bursts].sort((a, b) => a.time - b.time);
+
+  function emit(amount: number) {
+    const matrix = transforms.matrixForWorldPosition();
+    // In world space, particles start at the Entity's world position, and are
+    // emitted in the direction it's facing. In local space, that's already
+    // accounted for when drawing.
+    const originX = space === "world" ? matrix.e : 0;
+    const originY = space === "world" ? matrix.f : 0;
+    const rotation = space === "world" ? Math.atan2(matrix.b, matrix.a) : 0;
+
+    for (let i = 0; i < amount && count < maxParticles; i++) {
+      const particleSpeed = pick(speed);
+      const particleAngle = pick(angle) + rotation;
+
+      posX[count] = originX;
+      posY[count] = originY;
+      velX[count] = Math.cos(particleAngle) * particleSpeed;
+      velY[count] = Math.sin(particleAngle) * particleSpeed;
+      ages[count] = 0;
+      lifetimes[count] = Math.max(pick(lifetime), 1);
+      frames[count] =
+        spriteFrames === "random" ? Math.floor(Math.random() * frameCount) : 0;
+      count++;
+    }
+  }
+
+  function removeParticle(index: number) {
+    const last = count - 1;
+    posX[index] = posX[last];
+    posY[index] = posY[last];
+    velX[index] = velX[last];
+    velY[index] = velY[last];
+    ages[index] = ages[last];
+    lifetimes[index] = lifetimes[last];
+    frames[index] = frames[last];
+    count--;
+  }
+
+  useUpdate((delta) => {
+    const seconds = delta / 1000;
+
+    if (isEmitting) {
+      elapsed += delta;
+
+      while (
+        nextBurstIndex < sortedBursts.length &&
+        sortedBursts[nextBurstIndex].time <= elapsed
+      ) {
+        emit(sortedBursts[nextBurstIndex].count);
+        nextBurstIndex++;
+      }
+
+      pendingEmission += emissionRate * seconds;
+      const toEmit = Math.floor(pendingEmission);
+      pendingEmission -= toEmit;
+      emit(toEmit);
+
+      if (elapsed >= duration) {
+        isEmitting = false;
+      }
+    }
+
+    // Iterate backwards, so that moving the last particle into
+    // a dead particle's place doesn't skip over anything.
+    for (let i = count - 1; i >= 0; i--) {
+      ages[i] += delta;
+      if (ages[i] >= lifetimes[i]) {
+        removeParticle(i);
+        continue;
+      }
+
+      velX[i] += gravity.x * seconds;
+      velY[i] += gravity.y * seconds;
+      posX[i] += velX[i] * seconds;
+      posY[i] += velY[i] * seconds;
+    }
+  });
+
+  useRawDraw((context) => {
+    if (count === 0) return;
+
+    context.save();
+    if (space === "local") {
+      const matrix = transforms.matrixForWorldPosition();
+      context.transform(
+        matrix.a,
+        matrix.b,
+        matrix.c,
+        matrix.d,
+        matrix.e,
+        matrix.f
+      );
+    }
+
+    for (let i = 0; i < count; i++) {
+      const life = ages[i] / lifetimes[i];
+      const sample = Math.min(
+        Math.floor(life * CURVE_SAMPLES),
+        CURVE_SAMPLES - 1
+      );
+
+      const frame =
+        spriteFrames === "overLife"
+          ? Math.min(Math.floor(life * frameCount), frameCount - 1)
+          : frames[i];
+
+      context.globalAlpha = alphaSamples[sample];
+      context.fillStyle = colorSamples[sample];
+      drawFrame(context, frame, posX[i], posY[i], scaleSamples[sample]);
+    }
+
+    context.restore();
+  });
+
+  return {
+    /** How many particles are currently alive. */
+    get particleCount() {
+      return count;
+    },
+
+    /** Whether particles are currently being emitted over time (and `bursts` are being triggered). */
+    get isEmitting() {
+      return isEmitting;
+    },
+
+    /** How many particles are emitted per second, while emitting. */
+    get emissionRate() {
+      return emissionRate;
+    },
+    set emissionRate(nextValue: number) {
+      emissionRate = nextValue;
+    },
+
+    /** A constant acceleration applied to every particle, in pixels per second per second. Mutate it to change it. */
+    gravity,
+
+    /** Start emitting particles over time, from the beginning; `bursts` and `duration` are measured from when this is called. */
+    start() {
+      isEmitting = true;
+      elapsed = 0;
+      pendingEmission = 0;
+      nextBurstIndex = 0;
+    },
+
+    /** Stop emitting particles over time. Particles that are already alive keep going until they die. */
+    stop() {
+      isEmitting = false;
+    },
+
+    /** Emit the specified number of particles immediately. */
+    burst(amount: number) {
+      emit(amount);
+    },
+
+    /** Remove every particle immediately. */
+    clear() {
+      count = 0;
+    },
+  };
+}
@@ -26,6 +26,135 @@ type CollisionListener = (other: {
   entity: null | Entity;
 }) => void;
 
+/**
+ * Which bodies a physics query can find. The category, mask, and group work the same way
+ * as they do in a Physics.Body's `collisionFilter`: the query finds the bodies that a body
+ * with this collision filter would collide with.
+ */
+export type PhysicsQueryFilter = Partial<{
+  /** Defaults to 1, like a Physics.Body's. */
+  category: number;
+
+  /** Defaults to 0xFFFFFFFF (every category), like a Physics.Body's. */
+  mask: number;
+
+  /** Defaults to 0, like a Physics.Body's. */
+  group: number;
+
+  /** Whether sensor bodies can be found. Defaults to false. */
+  includeSensors: boolean;
+}>;
+
+/** A body found by a physics query. */
+export type PhysicsQueryResult = {
+  /** The Matter.js body that was found. */
+  body: Matter.Body;
+
+  /** The Entity that the body belongs to, if any. */
+  entity: null | Entity;
+};
+
+/** A body hit by a raycast or shape cast. */
+export type PhysicsHit = PhysicsQueryResult & {
+  /** The world position where the body was hit. */
+  point: Point;
+
+  /** The unit-length surface normal of the body where it was hit, facing back towards where the cast came from. */
+  normal: Point;
+
+  /** How far along the cast the hit happened. */
+  distance: number;
+};
+
+function canCollide(
+  filterA: Matter.ICollisionFilter,
+  filterB: Matter.ICollisionFilter
+): boolean {
+  // This is the same logic Matter uses in Matter.Detector.canCollide
+  if (filterA.group === filterB.group && filterA.group !== 0) {
+    return filterA.group! > 0;
+  }
+  return (
+    (filterA.mask! & filterB.category!) !== 0 &&
+    (filterB.mask! & filterA.category!) !== 0
+  );
+}
+
+/** The convex parts of a body; compound bodies have their convex hull as the first part. */
+function convexParts(body: Matter.Body): Array<Matter.Body> {
+  return body.parts.length === 1 ? body.parts : body.parts.slice(1);
+}
+
+function entityForBody(body: Matter.Body): null | Entity {
+  // @ts-ignore
+  return body.entity || null;
+}
+
+/** Makes a body with the specified shape, that isn't part of the world, to use in queries. */
+function makeQueryBody(shape: Polygon | Circle, position: Point): Matter.Body {
+  if ((shape as Circle).radius != null) {
+    return Matter.Bodies.circle(
+      position.x,
+      position.y,
+      (shape as Circle).radius
+    );
+  }
+
+  const points = (shape as Polygon).points;
+  const body = Matter.Bodies.fromVertices(0, 0, [points]);
+
+  // Matter recenters the vertices around their center of mass, so move them back
+  // to where the polygon's points say they should be.
+  const minX = Math.min(...points.map((point) => point.x));
+  const minY = Math.min(...points.map((point) => point.y));
+  Matter.Body.translate(body, {
+    x: position.x + minX - body.bounds.min.x,
+    y: position.y + minY - body.bounds.min.y,
+  });
+
+  return body;
+}
+
+/** The parts of a collision found by `Matter.Query.collides` that physics queries use. */
+type QueryCollision = {
+  /** The unit-length direction to push the bodies apart along. */
+  normal: Matter.Vector;
+
+  /** The points where the bodies touch. */
+  supports: Array<Matter.Vector>;
+
+  /** The part of the other body that was collided with. */
+  bodyA: Matter.Body;
+};
+
+// Matter's type definitions don't include Query.collides.
+const MatterQuery = Matter.Query as typeof Matter.Query & {
+  collides(
+    body: Matter.Body,
+    bodies: Array<Matter.Body>
+  ): Array<QueryCollision>;
+};
+
+/** Returns the first collision between the parts of the query body and the parts of the other body, if any. */
+function collide(
+  queryBody: Matter.Body,
+  body: Matter.Body
+): QueryCollision | null {
+  if (!Matter.Bounds.overlaps(queryBody.bounds, body.bounds)) return null;
+
+  for (const queryPart of convexParts(queryBody)) {
+    const collisions = MatterQuery.collides(queryPart, [body]);
+    if (collisions.length > 0) {
+      return collisions[0];
+    }
+  }
+  return null;
+}
+
+function cross(a: Matter.Vector, b: Matter.Vector): number {
+  return a.x * b.y - a.y * b.x;
+}
+
 /**
  * A Component that should be placed on the root Entity if you want to use physics in your game.
  *
@@ -124,6 +253,201 @@ function PhysicsEngine({
     }
   });
 
+  function queryBodies(filter: PhysicsQueryFilter): Array<Matter.Body> {
+    const {
+      category = 1,
+      mask = 0xffffffff,
+      group = 0,
+      includeSensors = false,
+    } = filter;
+
+    return Matter.Composite.allBodies(engine.world).filter(
+      (body) =>
+        (includeSensors || !body.isSensor) &&
+        canCollide({ category, mask, group }, body.collisionFilter)
+    );
+  }
+
+  function raycast(
+    from: Point,
+    to: Point,
+    filter: PhysicsQueryFilter = {}
+  ): Array<PhysicsHit> {
+    const direction = to.subtract(from);
+    const length = from.distanceTo(to);
+    const rayBounds = Matter.Bounds.create([from, to]);
+
+    const hits: Array<PhysicsHit> = [];
+    for (const body of queryBodies(filter)) {
+      if (!Matter.Bounds.overlaps(body.bounds, rayBounds)) continue;
+
+      let closest: PhysicsHit | null = null;
+      for (const part of convexParts(body)) {
+        if (Matter.Vertices.contains(part.vertices, from)) {
+          // The ray starts inside this body
+          closest = {
+            body,
+            entity: entityForBody(body),
+            point: from.clone(),
+            normal: length === 0 ? new Point(0, 0) : direction.divide(-length),
+            distance: 0,
+          };
+          break;
+        }
+
+        const { vertices } = part;
+        for (let i = 0; i < vertices.length; i++) {
+          const start = vertices[i];
+          const end = vertices[(i + 1) % vertices.length];
+          const edge = Matter.Vector.sub(end, start);
+
+          const denominator = cross(direction, edge);
+          if (denominator === 0) continue;
+
+          const toStart = Matter.Vector.sub(start, from);
+          const alongRay = cross(toStart, edge) / denominator;
+          const alongEdge = cross(toStart, direction) / denominator;
+          if (alongRay < 0 || alongRay > 1 || alongEdge < 0 || alongEdge > 1) {
+            continue;
+          }
+
+          const distance = alongRay * length;
+          if (closest && closest.distance <= distance) continue;
+
+          const normal = new Point(edge.y, -edge.x).divideMutate(
+            Matter.Vector.magnitude(edge)
+          );
+          if (normal.x * direction.x + normal.y * direction.y > 0) {
+            normal.oppositeMutate();
+          }
+
+          closest = {
+            body,
+            entity: entityForBody(body),
+            point: from.add(direction.multiply(alongRay)),
+            normal,
+            distance,
+          };
+        }
+      }
+
+      if (closest) {
+        hits.push(closest);
+      }
+    }
+
+    return hits.sort((a, b) => a.distance - b.distance);
+  }
+
+  function queryPoint(
+    point: Point,
+    filter: PhysicsQueryFilter = {}
+  ): Array<PhysicsQueryResult> {
+    return Matter.Query.point(queryBodies(filter), point).map((body) => ({
+      body,
+      entity: entityForBody(body),
+    }));
+  }
+
+  function queryRegion(
+    polygon: Polygon,
+    position: Point,
+    filter: PhysicsQueryFilter = {}
+  ): Array<PhysicsQueryResult> {
+    const queryBody = makeQueryBody(polygon, position);
+
+    return queryBodies(filter)
+      .filter((body) => collide(queryBody, body) != null)
+      .map((body) => ({ body, entity: entityForBody(body) }));
+  }
+
+  function shapeCast(
+    shape: Polygon | Circle,
+    from: Point,
+    to: Point,
+    filter: PhysicsQueryFilter = {}
+  ): Array<PhysicsHit> {
+    const queryBody = makeQueryBody(shape, from);
+    const direction = to.subtract(from);
+    const length = from.distanceTo(to);
+
+    const castBounds = Matter.Bounds.create([
+      queryBody.bounds.min,
+      queryBody.bounds.max,
+      Matter.Vector.add(queryBody.bounds.min, direction),
+      Matter.Vector.add(queryBody.bounds.max, direction),
+    ]);
+
+    // Move along the cast in steps small enough that the shape can't skip over
+    // anything as big as itself, then narrow down where the first overlap happens.
+    const stepSize =
+      Math.min(
+        queryBody.bounds.max.x - queryBody.bounds.min.x,
+        queryBody.bounds.max.y - queryBody.bounds.min.y
+      ) / 2;
+    const steps = stepSize > 0 ? Math.max(1, Math.ceil(length / stepSize)) : 1;
+
+    let currentProgress = 0;
+    const moveToProgress = (progress: number) => {
+      Matter.Body.translate(
+        queryBody,
+        Matter.Vector.mult(direction, progress - currentProgress)
+      );
+      currentProgress = progress;
+    };
+
+    const hits: Array<PhysicsHit> = [];
+    for (const body of queryBodies(filter)) {
+      if (!Matter.Bounds.overlaps(body.bounds, castBounds)) continue;
+
+      let hitProgress: number | null = null;
+      moveToProgress(0);
+      if (collide(queryBody, body)) {
+        hitProgress = 0;
+      } else {
+        for (let step = 1; step <= steps; step++) {
+          moveToProgress(step / steps);
+          if (collide(queryBody, body)) {
+            let clear = (step - 1) / steps;
+            let hit = step / steps;
+            for (let i = 0; i < 10; i++) {
+              const middle = (clear + hit) / 2;
+              moveToProgress(middle);
+              if (collide(queryBody, body)) {
+                hit = middle;
+              } else {
+                clear = middle;
+              }
+            }
+            hitProgress = hit;
+            break;
+          }
+        }
+      }
+      if (hitProgress == null) continue;
+
+      moveToProgress(hitProgress);
+      const collision = collide(queryBody, body);
+      if (!collision) continue;
+
+      const normal = Point.from(collision.normal);
+      if (normal.x * direction.x + normal.y * direction.y > 0) {
+        normal.oppositeMutate();
+      }
+      const support = collision.supports[0] || collision.bodyA.position;
+
+      hits.push({
+        body,
+        entity: entityForBody(body),
+        point: Point.from(support),
+        normal,
+        distance: hitProgress * length,
+      });
+    }
+
+    return hits.sort((a, b) => a.distance - b.distance);
+  }
+
   const state = {
     /** The Matter.js Engine object. */
     engine,
@@ -140,6 +464,28 @@ function PhysicsEngine({
      * into the canvas, for debugging purposes.
      */
     debugDraw,
+
+    /**
+     * Finds the bodies that a line segment between two world positions passes through,
+     * closest first. Useful for line-of-sight checks.
+     *
+     * Each hit has the point where the line first hits the body, and the body's surface normal there.
+     */
+    raycast,
+
+    /** Finds the bodies that contain the specified world position. */
+    queryPoint,
+
+    /** Finds the bodies that overlap with the specified Polygon, when it's centered at the specified world position. */
+    queryRegion,
+
+    /**
+     * Finds the bodies that the specified shape would hit if it was moved in a straight
+     * line between two world positions, closest first. The shape is centered on the positions.
+     *
+     * Each hit has the point where the shape first touches the body, and the body's surface normal there.
+     */
+    shapeCast,
   };
 
   function drawComposite(
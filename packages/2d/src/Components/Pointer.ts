@@ -0,0 +1,299 @@
+import {
+  useType,
+  useEnableDisable,
+  useStateAccumulator,
+  useCallbackAsCurrent,
+} from "@hex-engine/core";
+import { useUpdate } from "../Canvas";
+import { Point } from "../Models";
+import { useContext } from "../Hooks";
+import { useCanvasToEntity, handleFirstClick } from "./LowLevelMouse";
+import { useInputPlayer } from "./InputPlayer";
+import { RecordedInput, clientToCanvas } from "./InputRecorder";
+
+const POINTER_DOWN = Symbol("POINTER_DOWN");
+const POINTER_MOVE = Symbol("POINTER_MOVE");
+const POINTER_UP = Symbol("POINTER_UP");
+const POINTER_CANCEL = Symbol("POINTER_CANCEL");
+
+/** A Pointer event in Hex Engine. One of these is created for each pointer (mouse, pen, or finger) that is on the Canvas. */
+export class HexPointerEvent {
+  /** A number that identifies this pointer, for as long as it's touching the Canvas. */
+  id: number;
+
+  /** What kind of device this pointer is. */
+  pointerType: "mouse" | "pen" | "touch";
+
+  /** Whether this is the primary pointer; for instance, the first finger to touch the screen. */
+  isPrimary: boolean;
+
+  /** The position of the pointer, relative to the current Entity's origin. */
+  pos: Point;
+
+  /** The amount that the pointer has moved since its last event. */
+  delta: Point;
+
+  /** How hard the pointer is being pressed, from 0 to 1. Devices that can't detect pressure report 0.5 while pressed. */
+  pressure: number;
+
+  /** Whether the pointer is currently pressed (touching the screen, or with a mouse button held down). */
+  isDown: boolean;
+
+  constructor(
+    id: number,
+    pointerType: "mouse" | "pen" | "touch",
+    isPrimary: boolean,
+    pos: Point
+  ) {
+    this.id = id;
+    this.pointerType = pointerType;
+    this.isPrimary = isPrimary;
+    this.pos = pos;
+    this.delta = new Point(0, 0);
+    this.pressure = 0;
+    this.isDown = false;
+  }
+}
+
+type Callback = (event: HexPointerEvent) => void;
+
+type PointerInput = Extract<RecordedInput, { id: number }>;
+
+// Every Pointer Component on a canvas turns off the browser's touch scrolling and zooming,
+// so we keep count of them, and only put `touch-action` back once the last one is disabled.
+const touchActionOverrides: WeakMap<
+  HTMLCanvasElement,
+  { count: number; previous: string }
+> = new WeakMap();
+
+function overrideTouchAction(canvas: HTMLCanvasElement) {
+  const override = touchActionOverrides.get(canvas);
+  if (override) {
+    override.count++;
+    return;
+  }
+
+  touchActionOverrides.set(canvas, {
+    count: 1,
+    previous: canvas.style.touchAction,
+  });
+  canvas.style.touchAction = "none";
+}
+
+function restoreTouchAction(canvas: HTMLCanvasElement) {
+  const override = touchActionOverrides.get(canvas);
+  if (!override) return;
+
+  override.count--;
+  if (override.count === 0) {
+    canvas.style.touchAction = override.previous;
+    touchActionOverrides.delete(canvas);
+  }
+}
+
+/**
+ * A Component that tracks mice, pens, and fingers on the Canvas using Pointer Events,
+ * including several fingers at once on a touch screen.
+ *
+ * Each pointer gets its own `HexPointerEvent`, identified by its `id`, whose position is
+ * relative to the current Entity. For tap, swipe, pinch, and rotate gestures, use `Gestures`.
+ */
+export default function Pointer() {
+  useType(Pointer);
+
+  // When an InputPlayer is playing back a recording, listen to it instead of the real pointers.
+  // This also means there doesn't need to be a Canvas element, so it works with `Canvas.Headless`.
+  const player = useInputPlayer();
+  const canvas: HTMLCanvasElement | null = player ? null : useContext().canvas;
+  const canvasToEntity = useCanvasToEntity();
+
+  const pointers: Map<number, HexPointerEvent> = new Map();
+
+  const downState = useStateAccumulator<Callback>(POINTER_DOWN);
+  const moveState = useStateAccumulator<Callback>(POINTER_MOVE);
+  const upState = useStateAccumulator<Callback>(POINTER_UP);
+  const cancelState = useStateAccumulator<Callback>(POINTER_CANCEL);
+
+  // Events are queued up and processed during `useUpdate`,
+  // so that they are handled at a consistent point in the frame.
+  // They're stored in the same form as in an `InputRecording`.
+  let pendingEvents: Array<PointerInput> = [];
+
+  function processEvent(input: PointerInput) {
+    if (input.type === "pointerleave") {
+      // Mice and pens that leave the canvas without being pressed aren't on it any more.
+      // Pressed pointers are captured, so they stay until they're released.
+      const existing = pointers.get(input.id);
+      if (existing && !existing.isDown) {
+        pointers.delete(input.id);
+      }
+      return;
+    }
+
+    const pos = canvasToEntity(new Point(input.x, input.y));
+
+    let event = pointers.get(input.id);
+    if (!event) {
+      event = new HexPointerEvent(
+        input.id,
+        input.pointerType,
+        input.isPrimary,
+        pos.clone()
+      );
+      pointers.set(input.id, event);
+    }
+
+    event.delta.mutateInto(pos);
+    event.delta.subtractMutate(event.pos);
+    event.pos = pos;
+    event.pressure = input.pressure;
+
+    switch (input.type) {
+      case "pointerdown": {
+        event.isDown = true;
+        downState.all().forEach((callback) => callback(event!));
+        break;
+      }
+      case "pointermove": {
+        moveState.all().forEach((callback) => callback(event!));
+        break;
+      }
+      case "pointerup": {
+        event.isDown = false;
+        upState.all().forEach((callback) => callback(event!));
+        break;
+      }
+      case "pointercancel": {
+        event.isDown = false;
+        cancelState.all().forEach((callback) => callback(event!));
+        break;
+      }
+    }
+
+    // Mice and pens that aren't pressed stay around while they hover over the canvas
+    // (until they leave it), but fingers go away as soon as they're lifted.
+    if (
+      input.type === "pointercancel" ||
+      (input.type === "pointerup" && input.pointerType === "touch")
+    ) {
+      pointers.delete(input.id);
+    }
+  }
+
+  useUpdate(() => {
+    const events = pendingEvents;
+    pendingEvents = [];
+    for (const input of events) {
+      processEvent(input);
+    }
+  });
+
+  const handlePointerEvent = (domEvent: PointerEvent) => {
+    if (domEvent.type === "pointerdown") {
+      handleFirstClick();
+      if (canvas!.setPointerCapture) {
+        canvas!.setPointerCapture(domEvent.pointerId);
+      }
+    }
+
+    const { x, y } = clientToCanvas(
+      canvas!,
+      domEvent.clientX,
+      domEvent.clientY
+    );
+    pendingEvents.push({
+      type: domEvent.type as PointerInput["type"],
+      id: domEvent.pointerId,
+      pointerType: domEvent.pointerType as PointerInput["pointerType"],
+      isPrimary: domEvent.isPrimary,
+      x,
+      y,
+      pressure: domEvent.pressure,
+    });
+  };
+
+  const handleRecordedInput = (input: RecordedInput) => {
+    switch (input.type) {
+      case "pointerdown": {
+        handleFirstClick();
+        pendingEvents.push(input);
+        break;
+      }
+      case "pointermove":
+      case "pointerup":
+      case "pointercancel":
+      case "pointerleave": {
+        pendingEvents.push(input);
+        break;
+      }
+    }
+  };
+
+  let bound = false;
+
+  const { onEnabled, onDisabled } = useEnableDisable();
+
+  onEnabled(() => {
+    if (bound) return;
+    bound = true;
+
+    if (player) {
+      player.addInputListener(handleRecordedInput);
+    } else if (canvas) {
+      canvas.addEventListener("pointerdown", handlePointerEvent);
+      canvas.addEventListener("pointermove", handlePointerEvent);
+      canvas.addEventListener("pointerup", handlePointerEvent);
+      canvas.addEventListener("pointercancel", handlePointerEvent);
+      canvas.addEventListener("pointerleave", handlePointerEvent);
+
+      // Prevent the browser from scrolling or zooming the page when touching the canvas,
+      // so that we receive all the pointer events instead.
+      overrideTouchAction(canvas);
+    }
+  });
+
+  onDisabled(() => {
+    if (!bound) return;
+    bound = false;
+    pendingEvents = [];
+    pointers.clear();
+
+    if (player) {
+      player.removeInputListener(handleRecordedInput);
+    } else if (canvas) {
+      canvas.removeEventListener("pointerdown", handlePointerEvent);
+      canvas.removeEventListener("pointermove", handlePointerEvent);
+      canvas.removeEventListener("pointerup", handlePointerEvent);
+      canvas.removeEventListener("pointercancel", handlePointerEvent);
+      canvas.removeEventListener("pointerleave", handlePointerEvent);
+      restoreTouchAction(canvas);
+    }
+  });
+
+  return {
+    /** All of the pointers that are currently on the Canvas, by id. */
+    get pointers(): ReadonlyMap<number, HexPointerEvent> {
+      return pointers;
+    },
+
+    /** Registers the provided function to be called when a pointer is pressed down. */
+    onPointerDown: (callback: Callback) => {
+      downState.add(useCallbackAsCurrent(callback));
+    },
+    /** Registers the provided function to be called when a pointer moves. */
+    onPointerMove: (callback: Callback) => {
+      moveState.add(useCallbackAsCurrent(callback));
+    },
+    /** Registers the provided function to be called when a pointer is released. */
+    onPointerUp: (callback: Callback) => {
+      upState.add(useCallbackAsCurrent(callback));
+    },
+    /**
+     * Registers the provided function to be called when the browser cancels a pointer;
+     * for instance, because the device's orientation changed.
+     */
+    onPointerCancel: (callback: Callback) => {
+      cancelState.add(useCallbackAsCurrent(callback));
+    },
+  };
+}
@@ -1,6 +1,7 @@
-import { useType } from "@hex-engine/core";
+import { useType, useRootEntity } from "@hex-engine/core";
 import { useUpdate } from "../Hooks";
 import { useAudioContext } from "./AudioContext";
+import AudioMixer from "./AudioMixer";
 import { makeModalSynthesis } from "modal-synthesis";
 
 type Synthesis = ReturnType<typeof makeModalSynthesis>;
@@ -17,16 +18,27 @@ type Synthesis = ReturnType<typeof makeModalSynthesis>;
  *
  * If you then vary the frequency, amplitude, or decay rate slightly each time
  * the sound is played, you can get a rich bank of sound effects all from one sound.
+ *
+ * If there is an `AudioMixer` on the root Entity, sounds are played through its "sfx" bus
+ * (or the bus specified by `bus`), so that they follow its volume and mute settings.
  */
 export default function ProceduralSfx(
   modes: Array<{
     frequency: number;
     amplitude: number;
     decay: number;
-  }>
+  }>,
+  {
+    bus = "sfx",
+  }: {
+    /** The name of the `AudioMixer` bus to play sounds through, if there is an AudioMixer. Defaults to "sfx". */
+    bus?: string;
+  } = {}
 ) {
   useType(ProceduralSfx);
 
+  const rootEnt = useRootEntity();
+
   let synthesis: null | Synthesis = null;
 
   useUpdate(() => {
@@ -95,7 +107,9 @@ export default function ProceduralSfx(
         ...options,
         autoDisconnect: true,
       });
-      model.outputNode.connect(audioContext.destination);
+      const mixer = rootEnt.getComponent(AudioMixer);
+      const busNode = mixer && mixer.buses[bus] ? mixer.busNode(bus) : null;
+      model.outputNode.connect(busNode || audioContext.destination);
       model.excite(options?.whiteNoiseDuration ?? 10);
     },
   };
@@ -0,0 +1,313 @@
+import {
+  useType,
+  useNewComponent,
+  useChild,
+  useCallbackAsCurrent,
+  useRootEntity,
+  useEntity,
+  useEntityName,
+  useDestroy,
+  Entity,
+  ErrorBoundary,
+} from "@hex-engine/core";
+import Canvas, { useUpdate, useRawDraw, useDrawLayer } from "../Canvas";
+import Preloader from "../Preloader";
+
+/** Describes how the screen should change when the `SceneManager` switches scenes. */
+export type SceneTransition =
+  | {
+      /** Fade the outgoing scene out to a solid color, then fade the incoming scene in from it. */
+      type: "fade";
+
+      /** How long the whole transition should take, in milliseconds. Defaults to 500. */
+      duration?: number;
+
+      /** The color to fade through. Defaults to "black". */
+      color?: string;
+    }
+  | {
+      /** Slide the outgoing scene off of the screen, revealing the incoming scene underneath it. */
+      type: "slide";
+
+      /** How long the transition should take, in milliseconds. Defaults to 500. */
+      duration?: number;
+
+      /** Which direction the outgoing scene should move in. Defaults to "left". */
+      direction?: "left" | "right" | "up" | "down";
+    };
+
+const slideDirections = {
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+};
+
+/**
+ * Draws a transition over the canvas, using a snapshot of the
+ * outgoing scene, since the outgoing scene is disabled while it plays.
+ */
+function TransitionOverlay({
+  transition,
+  snapshot,
+  onReveal,
+  onComplete,
+}: {
+  transition: SceneTransition;
+  snapshot: HTMLCanvasElement | null;
+  onReveal: () => void;
+  onComplete: () => void;
+}) {
+  useType(TransitionOverlay);
+  useEntityName("SceneManager Transition");
+
+  // Draw above everything else, including scene Entities created after this one.
+  const drawLayers = useRootEntity().getComponent(Canvas.DrawLayers);
+  if (drawLayers && drawLayers.layers.length > 0) {
+    const { layers } = drawLayers;
+    useDrawLayer(layers[layers.length - 1].name, Number.MAX_SAFE_INTEGER);
+  }
+
+  const duration = transition.duration ?? 500;
+  // The point in the transition where the incoming scene becomes visible (and enabled).
+  const revealAt = transition.type === "fade" ? 0.5 : 0;
+
+  let elapsed = 0;
+  let revealed = false;
+  let completed = false;
+
+  function progress() {
+    return duration > 0 ? Math.min(elapsed / duration, 1) : 1;
+  }
+
+  function checkProgress() {
+    const currentProgress = progress();
+    if (!revealed && currentProgress >= revealAt) {
+      revealed = true;
+      onReveal();
+    }
+    if (!completed && currentProgress >= 1) {
+      completed = true;
+      onComplete();
+    }
+  }
+
+  useUpdate((delta) => {
+    elapsed += delta;
+    checkProgress();
+  });
+
+  useRawDraw((context) => {
+    const { width, height } = context.canvas;
+    const currentProgress = progress();
+
+    context.save();
+    context.resetTransform();
+
+    if (transition.type === "fade") {
+      if (!revealed && snapshot) {
+        context.drawImage(snapshot, 0, 0);
+      }
+      context.globalAlpha = revealed
+        ? (1 - currentProgress) * 2
+        : currentProgress * 2;
+      context.fillStyle = transition.color || "black";
+      context.fillRect(0, 0, width, height);
+    } else if (snapshot) {
+      const direction = slideDirections[transition.direction || "left"];
+      context.drawImage(
+        snapshot,
+        direction.x * width * currentProgress,
+        direction.y * height * currentProgress
+      );
+    }
+
+    context.restore();
+  });
+}
+
+/**
+ * A Component that manages which scene is currently active in your game.
+ *
+ * Each scene is a child Entity of the current Entity, created from the Component function you pass in.
+ * Scenes are kept on a stack; only the top scene is enabled, and the ones beneath it are disabled
+ * until the scenes above them are popped off.
+ *
+ * When switching scenes, the `SceneManager` waits for `Preloader.load()` to resolve before showing the
+ * incoming scene, so any Images or Audio it creates will be ready. You can also specify a transition to
+ * play; the outgoing scene is disabled while the transition plays.
+ *
+ * Scene changes happen one at a time; if you request a scene change while another is in progress,
+ * it will start once the current one has finished.
+ *
+ * @param initialScene A Component function for the scene to start with, if any.
+ */
+function SceneManager(initialScene?: () => any) {
+  useType(SceneManager);
+
+  const stack: Array<Entity> = [];
+  let transitioning = false;
+  let queue: Promise<any> = Promise.resolve();
+
+  const ent = useEntity();
+  const rootEnt = useRootEntity();
+
+  const createScene = useCallbackAsCurrent((scene: () => any) => {
+    const ent = useChild(scene);
+    // Keep the scene from running until it's loaded and the transition reveals it.
+    ent.disable();
+    return ent;
+  });
+
+  const playTransition = useCallbackAsCurrent(
+    (transition: SceneTransition, onReveal: () => void): Promise<void> => {
+      const canvas = rootEnt.getComponent(Canvas);
+      let snapshot: HTMLCanvasElement | null = null;
+      if (canvas) {
+        snapshot = document.createElement("canvas");
+        snapshot.width = canvas.element.width;
+        snapshot.height = canvas.element.height;
+        snapshot.getContext("2d")?.drawImage(canvas.element, 0, 0);
+      }
+
+      return new Promise((resolve) => {
+        useChild(() => {
+          const { destroy } = useDestroy();
+
+          useNewComponent(() =>
+            TransitionOverlay({
+              transition,
+              snapshot,
+              onReveal,
+              onComplete: () => {
+                destroy();
+                resolve();
+              },
+            })
+          );
+        });
+      });
+    }
+  );
+
+  async function changeScene(
+    outgoing: Entity | null,
+    incoming: Entity | null,
+    transition: SceneTransition | undefined
+  ) {
+    transitioning = true;
+    try {
+      await Preloader.load();
+
+      if (outgoing) {
+        outgoing.disable();
+      }
+
+      const reveal = () => {
+        if (incoming) {
+          incoming.enable();
+        }
+      };
+
+      if (transition) {
+        await playTransition(transition, reveal);
+      } else {
+        reveal();
+      }
+    } finally {
+      transitioning = false;
+    }
+  }
+
+  function enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = queue.then(operation);
+    queue = result.catch(() => {});
+    return result;
+  }
+
+  if (initialScene) {
+    const incoming = createScene(initialScene);
+    stack.push(incoming);
+    enqueue(() => changeScene(null, incoming, undefined)).catch((err) => {
+      ErrorBoundary.runHandlers(ent, err);
+    });
+  }
+
+  return {
+    /** The scene Entity that is currently on top of the stack, or null if there are no scenes. */
+    get current(): Entity | null {
+      return stack[stack.length - 1] || null;
+    },
+
+    /** All of the scene Entities that are on the stack, from the bottom to the top. */
+    get stack(): ReadonlyArray<Entity> {
+      return stack;
+    },
+
+    /** Whether a scene change is currently in progress. */
+    get isTransitioning() {
+      return transitioning;
+    },
+
+    /**
+     * Create a new scene and put it on top of the stack, disabling the current scene until the new one is popped.
+     *
+     * @param scene The Component function to use as the root Component of the new scene's Entity.
+     * @param transition The transition to play, if any.
+     * @returns A Promise that resolves to the new scene's Entity once it has been fully shown.
+     */
+    push(scene: () => any, transition?: SceneTransition): Promise<Entity> {
+      return enqueue(async () => {
+        const outgoing = stack[stack.length - 1] || null;
+        const incoming = createScene(scene);
+        stack.push(incoming);
+
+        await changeScene(outgoing, incoming, transition);
+        return incoming;
+      });
+    },
+
+    /**
+     * Destroy the current scene, and return to the scene beneath it on the stack.
+     *
+     * @param transition The transition to play, if any.
+     * @returns A Promise that resolves to the scene that is now current, once the transition has finished.
+     */
+    pop(transition?: SceneTransition): Promise<Entity | null> {
+      return enqueue(async () => {
+        const outgoing = stack.pop();
+        if (!outgoing) {
+          throw new Error("Cannot pop a scene: there are no scenes to pop");
+        }
+        const incoming = stack[stack.length - 1] || null;
+
+        await changeScene(outgoing, incoming, transition);
+        outgoing.destroy();
+        return incoming;
+      });
+    },
+
+    /**
+     * Destroy the current scene, and replace it with a new one.
+     *
+     * @param scene The Component function to use as the root Component of the new scene's Entity.
+     * @param transition The transition to play, if any.
+     * @returns A Promise that resolves to the new scene's Entity once it has been fully shown.
+     */
+    replace(scene: () => any, transition?: SceneTransition): Promise<Entity> {
+      return enqueue(async () => {
+        const outgoing = stack.pop() || null;
+        const incoming = createScene(scene);
+        stack.push(incoming);
+
+        await changeScene(outgoing, incoming, transition);
+        if (outgoing) {
+          outgoing.destroy();
+        }
+        return incoming;
+      });
+    },
+  };
+}
+
+export default SceneManager;
@@ -49,6 +49,11 @@ export default function SpriteSheet({
     /** The size of each tile in the sheet. */
     tileSize: new Point(tileWidth, tileHeight),
 
+    /** Whether the sheet's image has finished loading. Nothing will be drawn until it has. */
+    get loaded() {
+      return image.loaded;
+    },
+
     /** Draw the tile at the specified index into the canvas. */
     draw(
       context: CanvasRenderingContext2D,
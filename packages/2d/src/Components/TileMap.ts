@@ -1,15 +1,363 @@
 import { useType } from "@hex-engine/core";
+import { useUpdate } from "../Canvas";
 import SpriteSheet from "./SpriteSheet";
-import { Grid } from "../Models";
+import Viewport from "./Viewport";
+import { Grid, Point } from "../Models";
 
-/** This Component uses a Grid of tile indices and a SpriteSheet Component to draw a large map of tiles to the canvas. */
-export default function TileMap(
-  sheet: ReturnType<typeof SpriteSheet>,
-  grid: Grid<number>
+/**
+ * A SpriteSheet used by a TileMap, and the tile index in the TileMap's Grid
+ * that cooresponds to the first tile in the SpriteSheet.
+ */
+export type TileMapSheet = {
+  firstIndex: number;
+  sheet: ReturnType<typeof SpriteSheet>;
+};
+
+/** A single frame of an animated tile in a TileMap. */
+export type TileMapAnimationFrame = {
+  /** The tile index to draw during this frame. */
+  tileIndex: number;
+  /** How long this frame lasts, in milliseconds. */
+  duration: number;
+};
+
+const FLIPPED_HORIZONTALLY = 1;
+const FLIPPED_VERTICALLY = 2;
+const FLIPPED_DIAGONALLY = 4;
+
+/**
+ * This Component uses a Grid of tile indices and a SpriteSheet Component to draw a large map of tiles to the canvas.
+ *
+ * @param sheetOrSheets The SpriteSheet to draw tiles from. To draw tiles from multiple SpriteSheets, pass an Array
+ * of objects with a `sheet` and a `firstIndex` property instead; each tile index in the Grid will be drawn using the
+ * sheet with the largest `firstIndex` that is less than or equal to it.
+ * @param grid A Grid of tile indices. Cells containing -1 are left empty.
+ */
+function TileMap(
+  sheetOrSheets: ReturnType<typeof SpriteSheet> | Array<TileMapSheet>,
+  grid: Grid<number>,
+  {
+    flags,
+    origin = new Point(0, 0),
+    tileSize,
+    animations = new Map(),
+    properties = new Map(),
+    chunkSize = 16,
+  }: {
+    /**
+     * A Grid of the same size as `grid`, indicating which tiles should be drawn flipped.
+     * Each cell is a combination of `TileMap.FLIPPED_HORIZONTALLY`, `TileMap.FLIPPED_VERTICALLY`,
+     * and `TileMap.FLIPPED_DIAGONALLY`, or 0 if the tile is not flipped.
+     */
+    flags?: Grid<number>;
+
+    /** Which tile position the top-left cell of the Grid is located at. Defaults to (0, 0). */
+    origin?: Point;
+
+    /**
+     * The size of each cell in the map. Defaults to the tile size of the first SpriteSheet.
+     *
+     * If a SpriteSheet's tiles are a different size, they will be aligned to the bottom-left corner of their cell.
+     */
+    tileSize?: Point;
+
+    /**
+     * The animated tiles in the map, by tile index. Wherever one of these tile indices is in
+     * the Grid, its frames will be drawn instead, one after another, looping forever.
+     *
+     * All animated tiles in the TileMap share the same clock, so they stay in sync with each other.
+     */
+    animations?: Map<number, Array<TileMapAnimationFrame>>;
+
+    /** Custom properties for tiles in the map, by tile index. These can be looked up with `propertiesAt`. */
+    properties?: Map<number, { [name: string]: any }>;
+
+    /**
+     * The width and height of the chunks the map is split into, in tiles. Each chunk is
+     * rendered into its own offscreen canvas, which is only re-rendered when its tiles change.
+     * Defaults to 16.
+     */
+    chunkSize?: number;
+  } = {}
 ) {
   useType(TileMap);
 
+  const sheets = Array.isArray(sheetOrSheets)
+    ? // Sorted with the largest firstIndex first, so the first match is the right one.
+      [...sheetOrSheets].sort((a, b) => b.firstIndex - a.firstIndex)
+    : [{ firstIndex: 0, sheet: sheetOrSheets }];
+
+  if (sheets.length === 0) {
+    throw new Error("TileMap requires at least one SpriteSheet");
+  }
+
+  const cellSize = tileSize || sheets[sheets.length - 1].sheet.tileSize;
+
+  function sheetForTile(tileIndex: number): TileMapSheet | null {
+    return sheets.find((entry) => entry.firstIndex <= tileIndex) || null;
+  }
+
+  const tileFlagsGrid = flags || new Grid(grid.size, 0);
+
+  let elapsed = 0;
+  useUpdate((delta) => {
+    elapsed += delta;
+  });
+
+  /** Returns the tile index that should be drawn for the specified tile index, as of the current time. */
+  function currentFrame(tileIndex: number): number {
+    const frames = animations.get(tileIndex);
+    if (!frames || frames.length === 0) return tileIndex;
+
+    const totalDuration = frames.reduce(
+      (total, frame) => total + frame.duration,
+      0
+    );
+    if (totalDuration <= 0) return frames[0].tileIndex;
+
+    let time = elapsed % totalDuration;
+    for (const frame of frames) {
+      if (time < frame.duration) return frame.tileIndex;
+      time -= frame.duration;
+    }
+    return frames[frames.length - 1].tileIndex;
+  }
+
+  /** Draws a tile into the cell whose top-left corner is at the specified position. */
+  function drawTile(
+    context: CanvasRenderingContext2D,
+    tileIndex: number,
+    tileFlags: number,
+    cellX: number,
+    cellY: number
+  ) {
+    const entry = sheetForTile(tileIndex);
+    if (!entry) return;
+    const { sheet } = entry;
+
+    const tileX = cellX;
+    const tileY = cellY + cellSize.y - sheet.tileSize.y;
+    const localIndex = tileIndex - entry.firstIndex;
+
+    if (!tileFlags) {
+      sheet.draw(context, { x: tileX, y: tileY, tileIndex: localIndex });
+      return;
+    }
+
+    const halfWidth = sheet.tileSize.x / 2;
+    const halfHeight = sheet.tileSize.y / 2;
+
+    // The diagonal flip happens first, then the horizontal flip, then the vertical one.
+    context.save();
+    context.translate(tileX + halfWidth, tileY + halfHeight);
+    if (tileFlags & FLIPPED_VERTICALLY) {
+      context.scale(1, -1);
+    }
+    if (tileFlags & FLIPPED_HORIZONTALLY) {
+      context.scale(-1, 1);
+    }
+    if (tileFlags & FLIPPED_DIAGONALLY) {
+      context.transform(0, 1, 1, 0, 0, 0);
+    }
+    sheet.draw(context, {
+      x: -halfWidth,
+      y: -halfHeight,
+      tileIndex: localIndex,
+    });
+    context.restore();
+  }
+
+  // Tiles that are bigger than a cell stick out of the top and right of their cell,
+  // so chunks need some extra room for them.
+  const overflow = new Point(
+    Math.max(0, ...sheets.map(({ sheet }) => sheet.tileSize.x - cellSize.x)),
+    Math.max(0, ...sheets.map(({ sheet }) => sheet.tileSize.y - cellSize.y))
+  );
+
+  const chunksAcross = Math.ceil(grid.size.x / chunkSize);
+  const chunksDown = Math.ceil(grid.size.y / chunkSize);
+
+  type Chunk = {
+    canvas: HTMLCanvasElement;
+    dirty: boolean;
+    /** Animated tiles can't be cached, so they're drawn on top of the chunk every frame. */
+    animatedCells: Array<[number, number]>;
+  };
+  const chunks: Array<Chunk | undefined> = [];
+
+  function renderChunk(chunk: Chunk, chunkX: number, chunkY: number) {
+    const context = chunk.canvas.getContext("2d")!;
+    context.clearRect(0, 0, chunk.canvas.width, chunk.canvas.height);
+    chunk.animatedCells = [];
+
+    const startX = chunkX * chunkSize;
+    const startY = chunkY * chunkSize;
+    const endX = Math.min(startX + chunkSize, grid.size.x);
+    const endY = Math.min(startY + chunkSize, grid.size.y);
+    for (let gridY = startY; gridY < endY; gridY++) {
+      for (let gridX = startX; gridX < endX; gridX++) {
+        const tileIndex = grid.get(gridX, gridY);
+        if (tileIndex === -1) continue;
+
+        if (animations.has(tileIndex)) {
+          chunk.animatedCells.push([gridX, gridY]);
+          continue;
+        }
+
+        drawTile(
+          context,
+          tileIndex,
+          tileFlagsGrid.get(gridX, gridY),
+          (gridX - startX) * cellSize.x,
+          overflow.y + (gridY - startY) * cellSize.y
+        );
+      }
+    }
+
+    // If any images haven't loaded yet, some tiles weren't drawn, so try again next time.
+    chunk.dirty = !sheets.every(({ sheet }) => sheet.loaded);
+  }
+
+  function getChunk(chunkX: number, chunkY: number): Chunk {
+    const index = chunkY * chunksAcross + chunkX;
+    let chunk = chunks[index];
+    if (!chunk) {
+      const canvas = document.createElement("canvas");
+      canvas.width = chunkSize * cellSize.x + overflow.x;
+      canvas.height = chunkSize * cellSize.y + overflow.y;
+      chunk = { canvas, dirty: true, animatedCells: [] };
+      chunks[index] = chunk;
+    }
+    return chunk;
+  }
+
+  /**
+   * Returns the range of chunks that are within the Viewport being drawn into (or the whole canvas,
+   * if there isn't one), based on the context's current transform.
+   */
+  function visibleChunks(
+    context: CanvasRenderingContext2D,
+    x: number,
+    y: number
+  ) {
+    const all = {
+      minX: 0,
+      minY: 0,
+      maxX: chunksAcross - 1,
+      maxY: chunksDown - 1,
+    };
+    if (typeof context.getTransform !== "function") return all;
+
+    const viewport = Viewport.current();
+    const topLeft = viewport ? viewport.position : new Point(0, 0);
+    const bottomRight = viewport
+      ? viewport.position.add(viewport.size)
+      : new Point(context.canvas.width, context.canvas.height);
+
+    const inverse = context.getTransform().inverse();
+    const corners = [
+      new Point(topLeft.x, topLeft.y),
+      new Point(bottomRight.x, topLeft.y),
+      new Point(topLeft.x, bottomRight.y),
+      new Point(bottomRight.x, bottomRight.y),
+    ].map((corner) => corner.transformUsingMatrixMutate(inverse));
+
+    const left = Math.min(...corners.map((corner) => corner.x)) - x;
+    const right = Math.max(...corners.map((corner) => corner.x)) - x;
+    const top = Math.min(...corners.map((corner) => corner.y)) - y;
+    const bottom = Math.max(...corners.map((corner) => corner.y)) - y;
+
+    const toChunk = (pixels: number, cell: number, originTiles: number) =>
+      Math.floor((Math.floor(pixels / cell) - originTiles) / chunkSize);
+
+    return {
+      minX: Math.max(
+        all.minX,
+        toChunk(left - overflow.x, cellSize.x, origin.x)
+      ),
+      minY: Math.max(all.minY, toChunk(top, cellSize.y, origin.y)),
+      maxX: Math.min(all.maxX, toChunk(right, cellSize.x, origin.x)),
+      maxY: Math.min(
+        all.maxY,
+        toChunk(bottom + overflow.y, cellSize.y, origin.y)
+      ),
+    };
+  }
+
+  const stats = {
+    /** How many chunks the map is split into. */
+    chunks: chunksAcross * chunksDown,
+    /** How many chunks were drawn the last time `draw` was called. */
+    chunksDrawn: 0,
+    /** How many chunks had to be re-rendered the last time `draw` was called. */
+    chunksRendered: 0,
+    /** How many animated tiles were drawn the last time `draw` was called. */
+    animatedTilesDrawn: 0,
+  };
+
   return {
+    /** The Grid of tile indices that this TileMap draws. */
+    grid,
+
+    /**
+     * Information about how much work the TileMap did the last time it was drawn.
+     * This is useful for checking performance in the inspector.
+     */
+    stats,
+
+    /** Returns the tile index at the specified position in the Grid, or -1 if the cell is empty. */
+    getTile(x: number, y: number): number {
+      return grid.get(x, y);
+    },
+
+    /**
+     * Changes the tile at the specified position in the Grid.
+     *
+     * @param x The column of the cell to change.
+     * @param y The row of the cell to change.
+     * @param tileIndex The new tile index, or -1 to make the cell empty.
+     * @param tileFlags Which flip flags to draw the tile with. Defaults to 0 (not flipped).
+     */
+    setTile(x: number, y: number, tileIndex: number, tileFlags: number = 0) {
+      grid.set(x, y, tileIndex);
+      tileFlagsGrid.set(x, y, tileFlags);
+
+      const chunk =
+        chunks[
+          Math.floor(y / chunkSize) * chunksAcross + Math.floor(x / chunkSize)
+        ];
+      if (chunk) {
+        chunk.dirty = true;
+      }
+    },
+
+    /**
+     * Forces every chunk of the map to be re-rendered the next time it's drawn.
+     *
+     * You only need to call this if you change the Grid directly, instead of using `setTile`.
+     */
+    invalidate() {
+      for (const chunk of chunks) {
+        if (chunk) {
+          chunk.dirty = true;
+        }
+      }
+    },
+
+    /**
+     * Returns the custom properties for the tile at the specified position in the Grid,
+     * or an empty object if the tile doesn't have any.
+     */
+    propertiesAt(x: number, y: number): { [name: string]: any } {
+      return properties.get(grid.get(x, y)) || {};
+    },
+
+    /**
+     * Draws the visible part of the map into the canvas.
+     *
+     * The map is split into chunks, which are rendered once and then cached until they change,
+     * and only the chunks that are inside the canvas (or the current `Viewport`) are drawn.
+     */
     draw(
       context: CanvasRenderingContext2D,
       {
@@ -20,15 +368,53 @@ export default function TileMap(
         y?: number | void;
       } = {}
     ) {
-      for (const [gridX, gridY, tileIndex] of grid.contents()) {
-        if (tileIndex === -1) continue;
+      stats.chunksDrawn = 0;
+      stats.chunksRendered = 0;
+      stats.animatedTilesDrawn = 0;
 
-        sheet.draw(context, {
-          x: x + gridX * sheet.tileSize.x,
-          y: y + gridY * sheet.tileSize.y,
-          tileIndex,
-        });
+      const range = visibleChunks(context, x, y);
+      for (let chunkY = range.minY; chunkY <= range.maxY; chunkY++) {
+        for (let chunkX = range.minX; chunkX <= range.maxX; chunkX++) {
+          const chunk = getChunk(chunkX, chunkY);
+          if (chunk.dirty) {
+            renderChunk(chunk, chunkX, chunkY);
+            stats.chunksRendered++;
+          }
+
+          context.drawImage(
+            chunk.canvas,
+            x + (origin.x + chunkX * chunkSize) * cellSize.x,
+            y + (origin.y + chunkY * chunkSize) * cellSize.y - overflow.y
+          );
+          stats.chunksDrawn++;
+
+          for (const [gridX, gridY] of chunk.animatedCells) {
+            drawTile(
+              context,
+              currentFrame(grid.get(gridX, gridY)),
+              tileFlagsGrid.get(gridX, gridY),
+              x + (origin.x + gridX) * cellSize.x,
+              y + (origin.y + gridY) * cellSize.y
+            );
+            stats.animatedTilesDrawn++;
+          }
+        }
       }
     },
   };
 }
+
+export default Object.assign(TileMap, {
+  /** A flag indicating that a tile should be drawn mirrored horizontally. */
+  FLIPPED_HORIZONTALLY,
+
+  /** A flag indicating that a tile should be drawn mirrored vertically. */
+  FLIPPED_VERTICALLY,
+
+  /**
+   * A flag indicating that a tile should be drawn mirrored across its
+   * top-left to bottom-right diagonal. Combined with the other flags, this
+   * is how rotated tiles are represented.
+   */
+  FLIPPED_DIAGONALLY,
+});
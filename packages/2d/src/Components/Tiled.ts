@@ -1,7 +1,66 @@
-import { useType, useNewComponent, Component } from "@hex-engine/core";
+import {
+  useType,
+  useNewComponent,
+  useEntity,
+  useChild,
+  useCallbackAsCurrent,
+  useEntityName,
+  Component,
+  Entity,
+  ErrorBoundary,
+} from "@hex-engine/core";
 import SpriteSheet from "./SpriteSheet";
-import TileMap from "./TileMap";
-import { Grid, Point } from "../Models";
+import TileMap, { TileMapAnimationFrame } from "./TileMap";
+import Geometry from "./Geometry";
+import Physics from "./Physics";
+import { Grid, Point, Angle, Polygon, Circle } from "../Models";
+import Preloader from "../Preloader";
+
+/** A custom property on an object, layer, or tile in a Tiled JSON file. */
+export type TiledJSONProperty = TiledLoader.Property;
+
+/**
+ * A tileset in a Tiled JSON tileset (.tsj) file, or a tileset reference within a Tiled JSON map (.tmj) file.
+ *
+ * When a .tmj file is loaded through `hex-engine-scripts`, the `source` of each external tileset
+ * is replaced with the contents of the referenced .tsj file, and `image` paths are replaced with URLs.
+ */
+export type TiledJSONTileset = TiledLoader.Tileset;
+
+/** A rectangular chunk of tile data within a layer in an infinite Tiled JSON map. */
+export type TiledJSONChunk = TiledLoader.Chunk;
+
+/** An object within an object layer in a Tiled JSON map. */
+export type TiledJSONObject = TiledLoader.Object;
+
+/** A layer within a Tiled JSON map. */
+export type TiledJSONLayer = TiledLoader.Layer;
+
+/** The contents of a Tiled JSON map (.tmj) file. */
+export type TiledJSONMap = TiledLoader.Map;
+
+// The high bits of a global tile id that Tiled uses to indicate that the tile is flipped or rotated.
+const GID_FLIPPED_HORIZONTALLY = 0x80000000;
+const GID_FLIPPED_VERTICALLY = 0x40000000;
+const GID_FLIPPED_DIAGONALLY = 0x20000000;
+// The remaining bits are the tile's id. (0x10000000 is used for hexagonal rotations, which we don't support.)
+const GID_MASK = 0x0fffffff;
+
+// `DecompressionStream` isn't in the version of the DOM typings we use.
+declare const DecompressionStream:
+  | undefined
+  | {
+      new (format: "deflate" | "gzip"): {
+        readable: ReadableStream<Uint8Array>;
+        writable: WritableStream<Uint8Array>;
+      };
+    };
+
+function isXML(
+  data: XMLSourceLoader.Element | { [key: string]: any }
+): data is XMLSourceLoader.Element {
+  return typeof data === "string" || "tagName" in data;
+}
 
 function getElementByTagName(
   parent: XMLSourceLoader.Element,
@@ -38,53 +97,137 @@ function getElementsByTagName(
   return els;
 }
 
+function getTextContent(el: XMLSourceLoader.Element): string {
+  if (typeof el === "string") return el;
+  if (!el.children) return "";
+
+  return el.children
+    .filter((child): child is string => typeof child === "string")
+    .join("");
+}
+
+/** Data about an individual tile in a Tiled tileset. */
+export type TiledTile = {
+  /** The tile's index within its tileset */
+  id: number;
+
+  /** The tile's type (called its "class" in newer versions of Tiled), or an empty string if it doesn't have one. */
+  type: string;
+
+  /** The custom properties set on the tile */
+  properties: Array<TiledProperty>;
+
+  /**
+   * The collision shapes drawn for the tile in Tiled's tile collision editor.
+   * Their locations are relative to the top-left corner of the tile.
+   */
+  objects: Array<TiledObjectApi>;
+
+  /**
+   * The frames of the tile's animation, if it's animated. Each frame's `tileId` is
+   * the index of the tile to show within the same tileset, and its `duration` is in milliseconds.
+   */
+  animation: Array<{ tileId: number; duration: number }>;
+};
+
 /**
- * This Component loads data from a Tiled XML tileset file
+ * This Component loads data from a Tiled tileset file
  * and creates a `SpriteSheet` Component out of it.
- * @param data The tileset XML file
+ * @param data The tileset XML file, or the contents of a JSON tileset (.tsj) file
  */
-function Tileset(data: XMLSourceLoader.Element) {
+function Tileset(data: XMLSourceLoader.Element | TiledJSONTileset) {
   useType(Tileset);
 
-  if (
-    typeof data === "string" ||
-    data.tagName !== "tileset" ||
-    !data.children
-  ) {
-    throw new Error("Invalid XML data passed to Tiled.Tileset");
-  }
+  let imageUrl: unknown, tileWidth: unknown, tileHeight: unknown;
+  const tiles: Map<number, TiledTile> = new Map();
+  if (isXML(data)) {
+    if (
+      typeof data === "string" ||
+      data.tagName !== "tileset" ||
+      !data.children
+    ) {
+      throw new Error("Invalid XML data passed to Tiled.Tileset");
+    }
 
-  const image = getElementByTagName(data, "image")!;
-  if (!image || typeof image === "string") {
-    throw new Error(
-      "XML data passed to Tiled.Tileset does not contain an image"
-    );
+    const image = getElementByTagName(data, "image")!;
+    if (!image || typeof image === "string") {
+      throw new Error(
+        "XML data passed to Tiled.Tileset does not contain an image"
+      );
+    }
+
+    imageUrl = image.attributes.source;
+    tileWidth = data.attributes.tilewidth;
+    tileHeight = data.attributes.tileheight;
+
+    for (const tileEl of getElementsByTagName(data, "tile")) {
+      const id = Number(tileEl.attributes.id);
+      const objectGroup = getElementByTagName(tileEl, "objectgroup");
+      const animationEl = getElementByTagName(tileEl, "animation");
+      tiles.set(id, {
+        id,
+        type: String(tileEl.attributes.type ?? tileEl.attributes.class ?? ""),
+        properties: readXMLProperties(tileEl),
+        objects: objectGroup
+          ? getElementsByTagName(objectGroup, "object").map(makeTiledObject)
+          : [],
+        animation: animationEl
+          ? getElementsByTagName(animationEl, "frame").map((frameEl) => ({
+              tileId: Number(frameEl.attributes.tileid),
+              duration: Number(frameEl.attributes.duration),
+            }))
+          : [],
+      });
+    }
+  } else {
+    if (data.image == null) {
+      throw new Error(
+        "JSON data passed to Tiled.Tileset does not contain an image. Tilesets made from a collection of images are not supported."
+      );
+    }
+
+    imageUrl = data.image;
+    tileWidth = data.tilewidth;
+    tileHeight = data.tileheight;
+
+    for (const tile of data.tiles || []) {
+      tiles.set(tile.id, {
+        id: tile.id,
+        type: tile.type || tile.class || "",
+        properties: readJSONProperties(tile.properties),
+        objects: tile.objectgroup
+          ? tile.objectgroup.objects.map(makeTiledObject)
+          : [],
+        animation: (tile.animation || []).map((frame) => ({
+          tileId: frame.tileid,
+          duration: frame.duration,
+        })),
+      });
+    }
   }
 
-  const imageUrl = image.attributes.source;
   if (typeof imageUrl !== "string") {
     throw new Error(
-      "source attribute of image in XML data passed to Tiled.Tileset is not a string"
+      "image source in data passed to Tiled.Tileset is not a string"
     );
   }
 
-  const tileWidth = data.attributes.tilewidth;
   if (typeof tileWidth !== "number") {
     throw new Error(
-      "tilewidth attribute of tileset in XML data passed to Tiled.Tileset is not a number"
+      "tilewidth of tileset in data passed to Tiled.Tileset is not a number"
     );
   }
 
-  const tileHeight = data.attributes.tileheight;
   if (typeof tileHeight !== "number") {
     throw new Error(
-      "tileheight attribute of tileset in XML data passed to Tiled.Tileset is not a number"
+      "tileheight of tileset in data passed to Tiled.Tileset is not a number"
     );
   }
 
+  const url = imageUrl;
   const spriteSheet = useNewComponent(() =>
     SpriteSheet({
-      url: imageUrl,
+      url,
       tileWidth: Number(tileWidth) || 0,
       tileHeight: Number(tileHeight) || 0,
     })
@@ -92,80 +235,336 @@ function Tileset(data: XMLSourceLoader.Element) {
 
   return {
     spriteSheet,
+
+    /** Data about the tiles in the tileset that have custom properties or collision shapes, by tile index */
+    tiles,
   };
 }
 
+type EncodedChunk = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Either an Array of global tile ids, or base64-encoded global tile ids. */
+  data: Array<number> | string;
+};
+
+function readXMLTileData(
+  el: Exclude<XMLSourceLoader.Element, string>,
+  encoding: string | undefined
+): Array<number> | string {
+  switch (encoding) {
+    case undefined: {
+      return getElementsByTagName(el, "tile").map(
+        (tile) => Number(tile.attributes.gid) || 0
+      );
+    }
+    case "csv": {
+      return getTextContent(el)
+        .split(",")
+        .filter((cell) => cell.trim() !== "")
+        .map((cell) => Number(cell.trim()));
+    }
+    case "base64": {
+      return getTextContent(el).trim();
+    }
+    default: {
+      throw new Error(
+        `XML layer data passed to Tiled.Layer uses unsupported encoding '${encoding}'`
+      );
+    }
+  }
+}
+
+function decodeBase64(text: string): Uint8Array {
+  const binary = atob(text.trim());
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function decompress(
+  bytes: Uint8Array,
+  compression: "zlib" | "gzip"
+): Promise<Uint8Array> {
+  if (typeof DecompressionStream === "undefined") {
+    return Promise.reject(
+      new Error(
+        `Tiled layer data is ${compression}-compressed, but this browser does not support DecompressionStream. Save the map with uncompressed layer data instead.`
+      )
+    );
+  }
+
+  const stream = new Response(bytes).body!.pipeThrough(
+    new DecompressionStream(compression === "zlib" ? "deflate" : "gzip")
+  );
+  return new Response(stream)
+    .arrayBuffer()
+    .then((buffer) => new Uint8Array(buffer));
+}
+
+/** Global tile ids are stored as little-endian unsigned 32-bit integers. */
+function bytesToGids(bytes: Uint8Array): Array<number> {
+  const gids: Array<number> = [];
+  for (let i = 0; i + 3 < bytes.length; i += 4) {
+    gids.push(
+      (bytes[i] |
+        (bytes[i + 1] << 8) |
+        (bytes[i + 2] << 16) |
+        (bytes[i + 3] << 24)) >>>
+        0
+    );
+  }
+  return gids;
+}
+
 /**
- * This Component represents the data for a single layer within a Tiled map XML file.
+ * This Component represents the data for a single tile layer within a Tiled map.
  *
  * You'll rarely create it directly; instead, you'll get it from a Tiled.Map.
  *
- * @param layer The layer XML element
+ * @param layer The layer XML element, or the layer object from a JSON map
  */
-function Layer(layer: XMLSourceLoader.Element) {
+function Layer(layer: XMLSourceLoader.Element | TiledJSONLayer) {
   useType(Layer);
 
-  if (typeof layer === "string" || layer.tagName !== "layer") {
-    throw new Error("Invalid XML data passed to Tiled.Layer");
-  }
+  let name: string;
+  let visible: boolean;
+  let encoding: string | undefined;
+  let compression: string | undefined;
+  let chunks: Array<EncodedChunk>;
 
-  const width = layer.attributes.width;
-  if (typeof width !== "number") {
-    throw new Error(
-      "`width` attribute in XML data passed to Tiled.Layer was not a number"
-    );
+  if (isXML(layer)) {
+    if (typeof layer === "string" || layer.tagName !== "layer") {
+      throw new Error("Invalid XML data passed to Tiled.Layer");
+    }
+
+    const width = layer.attributes.width;
+    if (typeof width !== "number") {
+      throw new Error(
+        "`width` attribute in XML data passed to Tiled.Layer was not a number"
+      );
+    }
+
+    const height = layer.attributes.height;
+    if (typeof height !== "number") {
+      throw new Error(
+        "`height` attribute in XML data passed to Tiled.Layer was not a number"
+      );
+    }
+
+    const dataEl = getElementByTagName(layer, "data")!;
+    if (!dataEl || typeof dataEl === "string") {
+      throw new Error(
+        "`data` element not found in XML data passed to Tiled.Layer"
+      );
+    }
+
+    name = String(layer.attributes.name ?? "");
+    visible = layer.attributes.visible !== 0;
+    encoding = dataEl.attributes.encoding;
+    compression = dataEl.attributes.compression;
+
+    const chunkEls = getElementsByTagName(dataEl, "chunk");
+    chunks =
+      chunkEls.length > 0
+        ? chunkEls.map((chunkEl) => ({
+            x: Number(chunkEl.attributes.x),
+            y: Number(chunkEl.attributes.y),
+            width: Number(chunkEl.attributes.width),
+            height: Number(chunkEl.attributes.height),
+            data: readXMLTileData(chunkEl, encoding),
+          }))
+        : [
+            {
+              x: 0,
+              y: 0,
+              width,
+              height,
+              data: readXMLTileData(dataEl, encoding),
+            },
+          ];
+  } else {
+    if (layer.type !== "tilelayer") {
+      throw new Error(
+        `Invalid JSON data passed to Tiled.Layer; expected a layer with type 'tilelayer', but received '${layer.type}'`
+      );
+    }
+
+    name = layer.name;
+    visible = layer.visible !== false;
+    encoding = layer.encoding;
+    compression = layer.compression;
+
+    if (layer.chunks) {
+      chunks = layer.chunks;
+    } else {
+      if (
+        typeof layer.width !== "number" ||
+        typeof layer.height !== "number" ||
+        layer.data == null
+      ) {
+        throw new Error(
+          "JSON data passed to Tiled.Layer does not contain a width, height, and data"
+        );
+      }
+      chunks = [
+        {
+          x: 0,
+          y: 0,
+          width: layer.width,
+          height: layer.height,
+          data: layer.data,
+        },
+      ];
+    }
   }
 
-  const height = layer.attributes.height;
-  if (typeof height !== "number") {
+  if (compression === "") {
+    compression = undefined;
+  }
+  if (
+    compression !== undefined &&
+    compression !== "zlib" &&
+    compression !== "gzip"
+  ) {
     throw new Error(
-      "`height` attribute in XML data passed to Tiled.Layer was not a number"
+      `Layer data passed to Tiled.Layer uses unsupported compression '${compression}'. Only zlib and gzip compression are supported.`
     );
   }
 
-  const dataEl = getElementByTagName(layer, "data")!;
-  if (!dataEl || typeof dataEl === "string") {
-    throw new Error(
-      "`data` element not found in XML data passed to Tiled.Layer"
-    );
+  // Infinite maps can have chunks at negative positions, so the grid covers the bounds of all the chunks.
+  const minX = Math.min(...chunks.map((chunk) => chunk.x));
+  const minY = Math.min(...chunks.map((chunk) => chunk.y));
+  const maxX = Math.max(...chunks.map((chunk) => chunk.x + chunk.width));
+  const maxY = Math.max(...chunks.map((chunk) => chunk.y + chunk.height));
+  const origin = chunks.length > 0 ? new Point(minX, minY) : new Point(0, 0);
+
+  const grid = new Grid(
+    chunks.length > 0 ? maxX - minX : 0,
+    chunks.length > 0 ? maxY - minY : 0,
+    -1
+  );
+  const flags = new Grid(grid.size, 0);
+
+  function fillChunk(chunk: EncodedChunk, gids: Array<number>) {
+    gids.forEach((gid, index) => {
+      const x = chunk.x - origin.x + (index % chunk.width);
+      const y = chunk.y - origin.y + Math.floor(index / chunk.width);
+      if (x >= grid.size.x || y >= grid.size.y) return;
+
+      grid.set(x, y, (gid & GID_MASK) - 1);
+
+      let tileFlags = 0;
+      if (gid & GID_FLIPPED_HORIZONTALLY) {
+        tileFlags |= TileMap.FLIPPED_HORIZONTALLY;
+      }
+      if (gid & GID_FLIPPED_VERTICALLY) {
+        tileFlags |= TileMap.FLIPPED_VERTICALLY;
+      }
+      if (gid & GID_FLIPPED_DIAGONALLY) {
+        tileFlags |= TileMap.FLIPPED_DIAGONALLY;
+      }
+      flags.set(x, y, tileFlags);
+    });
   }
 
-  if (dataEl.attributes.encoding !== "csv") {
-    throw new Error(
-      "XML layer data passed to Tiled.Layer does not use csv encoding. Only csv encoding is supported at this time."
-    );
+  const pending: Array<Promise<void>> = [];
+  for (const chunk of chunks) {
+    const data = chunk.data;
+    if (typeof data !== "string") {
+      fillChunk(chunk, data);
+    } else if (compression === undefined) {
+      fillChunk(chunk, bytesToGids(decodeBase64(data)));
+    } else {
+      pending.push(
+        decompress(decodeBase64(data), compression).then((bytes) =>
+          fillChunk(chunk, bytesToGids(bytes))
+        )
+      );
+    }
   }
 
-  const grid = new Grid(width, height, 0);
-  if (dataEl.children) {
-    const csv = dataEl.children.join(" ");
-    const numbers = csv
-      .split(",")
-      .map((cell) => Number(cell.trim()))
-      .map((tileIndex) => tileIndex - 1);
-    grid.setData(numbers);
+  // Compressed data is decompressed asynchronously, so register it with the Preloader,
+  // the same way images are, so that it's ready before the map is drawn.
+  const ent = useEntity();
+  let loaded = pending.length === 0;
+  const ready = Promise.all(pending).then(
+    () => {
+      loaded = true;
+    },
+    (err) => {
+      ErrorBoundary.runHandlers(ent, err);
+    }
+  );
+  if (pending.length > 0) {
+    Preloader.addTask(() => ready);
   }
 
   return {
+    /** The name of the layer */
+    name,
+
+    /**
+     * A Grid of tile indices for this layer. Each index is one less than the tile's global id in the map,
+     * so that it can be used with a `TileMap` that uses the map's tilesets. Empty cells are -1.
+     */
     grid,
-    visible: layer.attributes.visible !== 0,
+
+    /**
+     * A Grid indicating which tiles in this layer are flipped or rotated; each cell is a combination of
+     * `TileMap.FLIPPED_HORIZONTALLY`, `TileMap.FLIPPED_VERTICALLY`, and `TileMap.FLIPPED_DIAGONALLY`.
+     */
+    flags,
+
+    /**
+     * The tile position of the top-left cell of the grid. This is always (0, 0), except in
+     * infinite maps, where the layer's data may start anywhere.
+     */
+    origin,
+
+    /** Whether the layer is visible */
+    visible,
+
+    /**
+     * Whether all of the layer's data is in `grid`. This is false until
+     * compressed layer data has been decompressed.
+     */
+    get loaded() {
+      return loaded;
+    },
+
+    /**
+     * A Promise that resolves once all of the layer's data is in `grid`.
+     * If the data can't be decompressed, the error is passed to the nearest `ErrorBoundary` instead.
+     */
+    ready,
   };
 }
 
-type TiledProperty = {
+/** A custom property on an object or tile in a Tiled map or tileset. */
+export type TiledProperty = {
   name: string;
   value: string;
-  type: "bool" | "color" | "float" | "file" | "int" | "string";
+  type: "bool" | "color" | "float" | "file" | "int" | "object" | "string";
 };
 type BaseTiledObjectApi = {
-  object: XMLSourceLoader.Element;
+  object: XMLSourceLoader.Element | TiledJSONObject;
   id: string;
   name: string;
+  /** The object's type (called its "class" in newer versions of Tiled), or an empty string if it doesn't have one. */
+  type: string;
   location: Point;
   size?: Point;
+  /** How far the object is rotated clockwise around its `location`. */
+  rotation: Angle;
   properties: Array<TiledProperty>;
 };
-type TiledObjectApi =
+/** An object from an object layer in a Tiled map, or from a tile's collision shapes in a Tiled tileset. */
+export type TiledObjectApi =
   | {
       kind: "string";
       object: string;
@@ -186,8 +585,65 @@ type TiledObjectApi =
       kind: "polygon";
       points: Array<Point>;
     } & BaseTiledObjectApi);
-function makeTiledObject(object: XMLSourceLoader.Element): TiledObjectApi {
-  useType(TiledMap);
+function degreesToAngle(degrees: number): Angle {
+  return new Angle((degrees * Math.PI) / 180);
+}
+
+function readXMLProperties(
+  el: Exclude<XMLSourceLoader.Element, string>
+): Array<TiledProperty> {
+  const propertiesEl = getElementByTagName(el, "properties");
+  if (!propertiesEl) return [];
+
+  return getElementsByTagName(propertiesEl, "property").map((child) => ({
+    name: child.attributes.name,
+    value: child.attributes.value,
+    type: child.attributes.type,
+  }));
+}
+
+function readJSONProperties(
+  properties: Array<TiledJSONProperty> | undefined
+): Array<TiledProperty> {
+  return (properties || []).map((property) => ({
+    name: property.name,
+    value: String(property.value),
+    type: property.type,
+  }));
+}
+
+/**
+ * Converts a list of properties into an object whose keys are the property names,
+ * with "bool", "int", and "float" values converted into booleans and numbers.
+ */
+function propertiesToObject(
+  properties: Array<TiledProperty>
+): { [name: string]: any } {
+  const result: { [name: string]: any } = {};
+  for (const property of properties) {
+    let value: any = property.value;
+    switch (property.type) {
+      case "bool": {
+        value = String(value) === "true";
+        break;
+      }
+      case "int":
+      case "float": {
+        value = Number(value);
+        break;
+      }
+    }
+    result[property.name] = value;
+  }
+  return result;
+}
+
+function makeTiledObject(
+  object: XMLSourceLoader.Element | TiledJSONObject
+): TiledObjectApi {
+  if (!isXML(object)) {
+    return makeTiledObjectFromJSON(object);
+  }
 
   if (typeof object === "string") {
     return {
@@ -195,10 +651,10 @@ function makeTiledObject(object: XMLSourceLoader.Element): TiledObjectApi {
       object,
     };
   }
-
   const api: BaseTiledObjectApi = {
     id: object.attributes.id,
     name: object.attributes.name,
+    type: String(object.attributes.type ?? object.attributes.class ?? ""),
     location: new Point(
       Number(object.attributes.x),
       Number(object.attributes.y)
@@ -210,22 +666,11 @@ function makeTiledObject(object: XMLSourceLoader.Element): TiledObjectApi {
             Number(object.attributes.height)
           )
         : undefined,
+    rotation: degreesToAngle(Number(object.attributes.rotation) || 0),
     object,
-    properties: [],
+    properties: readXMLProperties(object),
   };
 
-  const maybePropertiesEl = getElementByTagName(object, "properties");
-  if (maybePropertiesEl) {
-    const properties = getElementsByTagName(maybePropertiesEl, "property");
-    for (const child of properties) {
-      api.properties.push({
-        name: child.attributes.name,
-        value: child.attributes.value,
-        type: child.attributes.type,
-      });
-    }
-  }
-
   const maybePointEl = getElementByTagName(object, "point");
   if (maybePointEl) {
     return {
@@ -271,83 +716,556 @@ function makeTiledObject(object: XMLSourceLoader.Element): TiledObjectApi {
   };
 }
 
+function makeTiledObjectFromJSON(object: TiledJSONObject): TiledObjectApi {
+  const api: BaseTiledObjectApi = {
+    id: String(object.id),
+    name: object.name,
+    type: object.type || object.class || "",
+    location: new Point(object.x, object.y),
+    size:
+      object.width && object.height
+        ? new Point(object.width, object.height)
+        : undefined,
+    rotation: degreesToAngle(object.rotation || 0),
+    object,
+    properties: readJSONProperties(object.properties),
+  };
+
+  if (object.point) {
+    return {
+      ...api,
+      kind: "point",
+    };
+  }
+
+  if (object.ellipse) {
+    return {
+      ...api,
+      kind: "ellipse",
+    };
+  }
+
+  if (object.text) {
+    return {
+      ...api,
+      kind: "text",
+    };
+  }
+
+  if (object.polygon) {
+    return {
+      ...api,
+      kind: "polygon",
+      points: object.polygon.map((point) => new Point(point.x, point.y)),
+    };
+  }
+
+  return {
+    ...api,
+    kind: "unknown",
+  };
+}
+
 /**
- * This Component loads data from a Tiled map XML file and creates
+ * A function that adds Components to an Entity created for a Tiled object.
+ * It's called while the Entity is being created, so it can use hooks like `useNewComponent`.
+ */
+export type TiledObjectFactory = (
+  object: TiledObjectApi,
+  geometry: ReturnType<typeof Geometry>
+) => void;
+
+/** A static collision shape generated from the collision shapes of the tiles in a Tiled map layer. */
+export type TiledCollisionShape = {
+  shape: Polygon;
+  /** The position of the shape's centroid, relative to the top-left corner of the map. */
+  position: Point;
+};
+
+type PhysicsBodyOptions = NonNullable<Parameters<typeof Physics.Body>[1]>;
+
+// How many line segments to approximate ellipses with, when they can't be represented as a Circle.
+const ELLIPSE_SEGMENTS = 16;
+
+function rotatePoint(point: Point, angle: Angle): Point {
+  const cos = Math.cos(angle.radians);
+  const sin = Math.sin(angle.radians);
+  return new Point(
+    point.x * cos - point.y * sin,
+    point.x * sin + point.y * cos
+  );
+}
+
+function centroidOf(points: Array<Point>): Point {
+  return points
+    .reduce((prev, curr) => prev.addMutate(curr), new Point(0, 0))
+    .divideMutate(points.length);
+}
+
+/**
+ * Returns the corners of an object's shape, relative to its location and ignoring its rotation,
+ * or null if the object doesn't have an area.
+ */
+function objectOutline(object: TiledObjectApi): Array<Point> | null {
+  if (object.kind === "string" || object.kind === "point") return null;
+  if (object.kind === "polygon") return object.points;
+
+  const size = object.size;
+  if (!size) return null;
+
+  if (object.kind === "ellipse") {
+    const radius = size.divide(2);
+    const points: Array<Point> = [];
+    for (let i = 0; i < ELLIPSE_SEGMENTS; i++) {
+      const angle = (i / ELLIPSE_SEGMENTS) * Math.PI * 2;
+      points.push(
+        new Point(
+          radius.x + Math.cos(angle) * radius.x,
+          radius.y + Math.sin(angle) * radius.y
+        )
+      );
+    }
+    return points;
+  }
+
+  return [
+    new Point(0, 0),
+    new Point(size.x, 0),
+    new Point(size.x, size.y),
+    new Point(0, size.y),
+  ];
+}
+
+/** Returns the shape, position, and rotation for the Geometry of an Entity created for an object. */
+function objectGeometry(
+  object: TiledObjectApi
+): { shape: Polygon | Circle; position: Point; rotation: Angle } {
+  if (object.kind === "string") {
+    throw new Error("Cannot create Geometry for a string Tiled object");
+  }
+  const rotation = object.rotation.clone();
+
+  const size = object.size;
+  if (object.kind === "ellipse" && size && size.x === size.y) {
+    return {
+      shape: new Circle(size.x / 2),
+      position: object.location.add(rotatePoint(size.divide(2), rotation)),
+      rotation,
+    };
+  }
+
+  const outline = objectOutline(object);
+  if (!outline) {
+    return {
+      shape: new Circle(0),
+      position: object.location.clone(),
+      rotation,
+    };
+  }
+
+  return {
+    shape: new Polygon(outline),
+    position: object.location.add(rotatePoint(centroidOf(outline), rotation)),
+    rotation,
+  };
+}
+
+/** Whether a tile's collision object covers the whole tile, so that it can be merged with its neighbours. */
+function coversWholeTile(object: TiledObjectApi, tileSize: Point): boolean {
+  return (
+    object.kind === "unknown" &&
+    object.rotation.radians === 0 &&
+    object.location.x === 0 &&
+    object.location.y === 0 &&
+    object.size != null &&
+    object.size.equals(tileSize)
+  );
+}
+
+/** Moves a point within a tile to where it would be if the tile was drawn with the specified TileMap flags. */
+function flipPointInTile(
+  point: Point,
+  tileFlags: number,
+  tileSize: Point
+): Point {
+  let { x, y } = point;
+  let width = tileSize.x;
+  let height = tileSize.y;
+  if (tileFlags & TileMap.FLIPPED_DIAGONALLY) {
+    [x, y] = [y, x];
+    [width, height] = [height, width];
+  }
+  if (tileFlags & TileMap.FLIPPED_HORIZONTALLY) {
+    x = width - x;
+  }
+  if (tileFlags & TileMap.FLIPPED_VERTICALLY) {
+    y = height - y;
+  }
+  return new Point(x, y);
+}
+
+/**
+ * This Component loads data from a Tiled map file and creates
  * SpriteSheet and TileMap Components that you can use to draw the
  * map into the canvas.
  *
- * @param data The Tiled map XML file
+ * Both the XML and JSON (.tmj) map formats are supported, including maps with
+ * multiple tilesets, flipped or rotated tiles, compressed layer data, and infinite maps.
+ *
+ * @param data The Tiled map XML file, or the contents of a JSON map (.tmj) file
  */
-function TiledMap(data: XMLSourceLoader.Element) {
+function TiledMap(data: XMLSourceLoader.Element | TiledJSONMap) {
   useType(TiledMap);
 
-  if (typeof data === "string" || data.tagName !== "map") {
-    throw new Error("Invalid XML data passed to Tiled.Map");
+  const tilesetRefs: Array<{
+    firstgid: number;
+    source: XMLSourceLoader.Element | TiledJSONTileset;
+  }> = [];
+  const layerData: Array<XMLSourceLoader.Element | TiledJSONLayer> = [];
+  const objects: Array<XMLSourceLoader.Element | TiledJSONObject> = [];
+  let mapTileWidth: unknown, mapTileHeight: unknown;
+
+  if (isXML(data)) {
+    if (typeof data === "string" || data.tagName !== "map") {
+      throw new Error("Invalid XML data passed to Tiled.Map");
+    }
+
+    for (const tilesetEl of getElementsByTagName(data, "tileset")) {
+      tilesetRefs.push({
+        firstgid: Number(tilesetEl.attributes.firstgid ?? 1),
+        // External tilesets are loaded by xml-source-loader and put in the `source` attribute.
+        source: tilesetEl.attributes.source ?? tilesetEl,
+      });
+    }
+
+    layerData.push(...getElementsByTagName(data, "layer"));
+
+    for (const objectGroup of getElementsByTagName(data, "objectgroup")) {
+      if (!objectGroup.children) continue;
+      for (const object of objectGroup.children) {
+        if (typeof object === "string") continue;
+
+        objects.push(object);
+      }
+    }
+
+    mapTileWidth = data.attributes.tilewidth;
+    mapTileHeight = data.attributes.tileheight;
+  } else {
+    if (data.type !== "map") {
+      throw new Error("Invalid JSON data passed to Tiled.Map");
+    }
+
+    for (const tilesetRef of data.tilesets) {
+      const source = tilesetRef.source;
+      if (typeof source === "string") {
+        throw new Error(
+          `The external tileset '${source}' in JSON data passed to Tiled.Map was not loaded. Either give the map a .tmj extension and its tilesets a .tsj extension so that they will be loaded automatically, or embed the tileset in the map.`
+        );
+      }
+
+      tilesetRefs.push({
+        firstgid: tilesetRef.firstgid ?? 1,
+        source: source ?? tilesetRef,
+      });
+    }
+
+    for (const layer of data.layers) {
+      if (layer.type === "tilelayer") {
+        layerData.push(layer);
+      } else if (layer.type === "objectgroup") {
+        objects.push(...(layer.objects || []));
+      }
+    }
+
+    mapTileWidth = data.tilewidth;
+    mapTileHeight = data.tileheight;
   }
 
-  const tilesetEl = getElementByTagName(data, "tileset")!;
-  if (!tilesetEl || typeof tilesetEl === "string") {
-    throw new Error("tileset not found in XML data passed to Tiled.Map");
+  if (tilesetRefs.length === 0) {
+    throw new Error("tileset not found in data passed to Tiled.Map");
   }
+  tilesetRefs.sort((a, b) => a.firstgid - b.firstgid);
 
-  const tileset = useNewComponent(() => Tileset(tilesetEl.attributes.source));
+  const tilesets: Array<Component & ReturnType<typeof Tileset>> = [];
+  for (const tilesetRef of tilesetRefs) {
+    tilesets.push(useNewComponent(() => Tileset(tilesetRef.source)));
+  }
+  const tileset = tilesets[0];
 
-  const layerEls = data.children
-    ? data.children.filter(
-        (child) => typeof child !== "string" && child.tagName === "layer"
-      )
-    : [];
+  const tileSize =
+    typeof mapTileWidth === "number" && typeof mapTileHeight === "number"
+      ? new Point(mapTileWidth, mapTileHeight)
+      : tileset.spriteSheet.tileSize;
 
   const layers: Array<Component & ReturnType<typeof Layer>> = [];
-  for (const layerEl of layerEls) {
-    layers.push(useNewComponent(() => Layer(layerEl)));
+  for (const layer of layerData) {
+    layers.push(useNewComponent(() => Layer(layer)));
   }
 
+  // Layer grids contain the tile's global id minus one, so each tileset starts at its firstgid minus one.
+  const sheets = tilesets.map((tileset, index) => ({
+    firstIndex: tilesetRefs[index].firstgid - 1,
+    sheet: tileset.spriteSheet,
+  }));
+
+  // Animations and properties are keyed by tile index, the same way sheets are.
+  const animations: Map<number, Array<TileMapAnimationFrame>> = new Map();
+  const tileProperties: Map<number, { [name: string]: any }> = new Map();
+  tilesets.forEach((tileset, index) => {
+    const firstIndex = tilesetRefs[index].firstgid - 1;
+    for (const tile of tileset.tiles.values()) {
+      if (tile.animation.length > 0) {
+        animations.set(
+          firstIndex + tile.id,
+          tile.animation.map((frame) => ({
+            tileIndex: firstIndex + frame.tileId,
+            duration: frame.duration,
+          }))
+        );
+      }
+      if (tile.properties.length > 0) {
+        tileProperties.set(
+          firstIndex + tile.id,
+          propertiesToObject(tile.properties)
+        );
+      }
+    }
+  });
+
   const tileMaps = layers
     .filter((layer) => layer.visible)
-    .map((layer) =>
-      useNewComponent(() => TileMap(tileset.spriteSheet, layer.grid))
-    );
+    .map((layer) => {
+      const tileMap = useNewComponent(() =>
+        TileMap(sheets, layer.grid, {
+          flags: layer.flags,
+          origin: layer.origin,
+          tileSize,
+          animations,
+          properties: tileProperties,
+        })
+      );
+      // Chunks drawn before the layer's data arrived are empty.
+      if (!layer.loaded) {
+        layer.ready.then(() => tileMap.invalidate());
+      }
+      return tileMap;
+    });
 
+  const minX = layers.reduce(
+    (prev, layer) => Math.min(prev, layer.origin.x),
+    Infinity
+  );
+  const minY = layers.reduce(
+    (prev, layer) => Math.min(prev, layer.origin.y),
+    Infinity
+  );
   const maxX = layers.reduce(
-    (prev, layer) => Math.max(prev, layer.grid.size.x),
-    0
+    (prev, layer) => Math.max(prev, layer.origin.x + layer.grid.size.x),
+    -Infinity
   );
   const maxY = layers.reduce(
-    (prev, layer) => Math.max(prev, layer.grid.size.y),
-    0
+    (prev, layer) => Math.max(prev, layer.origin.y + layer.grid.size.y),
+    -Infinity
   );
-  const sizeInTiles = new Point(maxX, maxY);
-  const sizeInPixels = sizeInTiles.multiply(tileset.spriteSheet.tileSize);
+  const origin = layers.length > 0 ? new Point(minX, minY) : new Point(0, 0);
+  const sizeInTiles =
+    layers.length > 0
+      ? new Point(maxX - origin.x, maxY - origin.y)
+      : new Point(0, 0);
+  const sizeInPixels = sizeInTiles.multiply(tileSize);
 
-  const objectGroups = data.children
-    ? data.children.filter(
-        (child) => typeof child !== "string" && child.tagName === "objectgroup"
-      )
-    : [];
+  const parsedObjects = objects.map((obj) => makeTiledObject(obj));
+
+  /** Finds the tileset a tile index from a layer's grid belongs to, and the tile's data within it. */
+  function tileForIndex(tileIndex: number) {
+    const gid = tileIndex + 1;
+    for (let i = tilesets.length - 1; i >= 0; i--) {
+      if (tilesetRefs[i].firstgid <= gid) {
+        const tileset = tilesets[i];
+        return {
+          tileset,
+          tile: tileset.tiles.get(gid - tilesetRefs[i].firstgid),
+        };
+      }
+    }
+    return null;
+  }
+
+  function collisionShapes(
+    layer: ReturnType<typeof Layer>
+  ): Array<TiledCollisionShape> {
+    const { grid, flags, origin } = layer;
+    const shapes: Array<TiledCollisionShape> = [];
+
+    // Cells whose tiles are entirely solid; these get merged into larger rectangles below.
+    const solid = new Grid(grid.size, false);
+
+    for (const [x, y, tileIndex] of grid.contents()) {
+      if (tileIndex === -1) continue;
+
+      const found = tileForIndex(tileIndex);
+      if (!found || !found.tile) continue;
 
-  const objects: Array<XMLSourceLoader.Element> = [];
-  for (const objectGroup of objectGroups) {
-    if (typeof objectGroup === "string") continue;
+      const sheetTileSize = found.tileset.spriteSheet.tileSize;
+      if (
+        sheetTileSize.equals(tileSize) &&
+        found.tile.objects.some((object) =>
+          coversWholeTile(object, sheetTileSize)
+        )
+      ) {
+        solid.set(x, y, true);
+        continue;
+      }
 
-    if (!objectGroup.children) continue;
-    for (const object of objectGroup.children) {
-      if (typeof object === "string") continue;
+      // Tiles are aligned to the bottom-left corner of their cell, the same way TileMap draws them.
+      const tilePosition = new Point(
+        (origin.x + x) * tileSize.x,
+        (origin.y + y + 1) * tileSize.y - sheetTileSize.y
+      );
+      for (const object of found.tile.objects) {
+        if (object.kind === "string") continue;
 
-      objects.push(object);
+        const outline = objectOutline(object);
+        if (!outline) continue;
+
+        const points = outline.map((point) =>
+          flipPointInTile(
+            object.location.add(rotatePoint(point, object.rotation)),
+            flags.get(x, y),
+            sheetTileSize
+          ).addMutate(tilePosition)
+        );
+        shapes.push({
+          shape: new Polygon(points),
+          position: centroidOf(points),
+        });
+      }
     }
+
+    const merged = new Grid(grid.size, false);
+    for (let y = 0; y < grid.size.y; y++) {
+      for (let x = 0; x < grid.size.x; x++) {
+        if (!solid.get(x, y) || merged.get(x, y)) continue;
+
+        const isFree = (cellX: number, cellY: number) =>
+          solid.get(cellX, cellY) && !merged.get(cellX, cellY);
+
+        let width = 1;
+        while (x + width < grid.size.x && isFree(x + width, y)) {
+          width++;
+        }
+
+        let height = 1;
+        while (y + height < grid.size.y) {
+          let rowIsFree = true;
+          for (let i = 0; i < width; i++) {
+            if (!isFree(x + i, y + height)) {
+              rowIsFree = false;
+              break;
+            }
+          }
+          if (!rowIsFree) break;
+          height++;
+        }
+
+        for (let j = 0; j < height; j++) {
+          for (let i = 0; i < width; i++) {
+            merged.set(x + i, y + j, true);
+          }
+        }
+
+        const size = new Point(width * tileSize.x, height * tileSize.y);
+        shapes.push({
+          shape: Polygon.rectangle(size),
+          position: new Point(
+            (origin.x + x) * tileSize.x,
+            (origin.y + y) * tileSize.y
+          ).addMutate(size.divide(2)),
+        });
+      }
+    }
+
+    return shapes;
   }
 
+  const ent = useEntity();
+
+  /**
+   * Object and collision positions are relative to the top-left corner of the map, but child Entities
+   * are positioned relative to the center of this Entity's Geometry, if it has one.
+   */
+  function mapPositionToLocal(position: Point): Point {
+    const geometry = ent.getComponent(Geometry);
+    if (!geometry) return position;
+
+    return position.subtract(
+      new Point(geometry.shape.width / 2, geometry.shape.height / 2)
+    );
+  }
+
+  const objectFactories: Map<
+    string,
+    { factory: TiledObjectFactory; body: null | PhysicsBodyOptions }
+  > = new Map();
+
+  const spawnObject = useCallbackAsCurrent(
+    (
+      object: TiledObjectApi,
+      factory: TiledObjectFactory,
+      body: null | PhysicsBodyOptions
+    ) =>
+      useChild(() => {
+        if (object.kind !== "string") {
+          useEntityName(object.name || object.type);
+        }
+
+        const { shape, position, rotation } = objectGeometry(object);
+        const geometry = useNewComponent(() =>
+          Geometry({ shape, position: mapPositionToLocal(position), rotation })
+        );
+
+        if (body && object.kind !== "point") {
+          useNewComponent(() =>
+            Physics.Body(geometry, { isStatic: true, ...body })
+          );
+        }
+
+        factory(object, geometry);
+      })
+  );
+
+  const spawnCollisionBody = useCallbackAsCurrent(
+    ({ shape, position }: TiledCollisionShape, body: PhysicsBodyOptions) =>
+      useChild(() => {
+        const geometry = useNewComponent(() =>
+          Geometry({ shape, position: mapPositionToLocal(position) })
+        );
+        useNewComponent(() =>
+          Physics.Body(geometry, { isStatic: true, ...body })
+        );
+      })
+  );
+
   return {
-    /** The tileset used by the map */
+    /** The first tileset used by the map */
     tileset,
 
-    /** An Array of Tiled.Layer Compponents, each corresponding to a layer in the Tiled map */
+    /** All the tilesets used by the map, in order of their first global tile id */
+    tilesets,
+
+    /** An Array of Tiled.Layer Compponents, each corresponding to a tile layer in the Tiled map */
     layers,
 
-    /** An Array of TileMap Components, each corresponding to a *visible* layer in the Tiled map */
+    /** An Array of TileMap Components, each corresponding to a *visible* tile layer in the Tiled map */
     tileMaps,
 
+    /**
+     * The tile position of the top-left corner of the map. This is always (0, 0),
+     * except in infinite maps, which can have tiles at negative positions.
+     */
+    origin,
+
     /** The size of the map in tiles */
     sizeInTiles,
 
@@ -355,10 +1273,102 @@ function TiledMap(data: XMLSourceLoader.Element) {
     sizeInPixels,
 
     /** The size of a single tile in the map */
-    tileSize: tileset.spriteSheet.tileSize,
+    tileSize,
 
     /** All the objects that were present in the map, for you to use however you like */
-    objects: objects.map((obj) => makeTiledObject(obj)),
+    objects: parsedObjects,
+
+    /**
+     * Registers a function that will be used by `spawnObjects` to create Entities for
+     * objects in the map with the specified type (called "class" in newer versions of Tiled).
+     *
+     * @param type The object type to create Entities for.
+     * @param factory A function that adds Components to the Entity created for each object.
+     * It receives the object and the Entity's `Geometry`, which is made from the object's shape.
+     * @param options.body If set, a static `Physics.Body` will be added to each Entity, using the
+     * options passed here, if any. Point objects don't get a body, since they have no area.
+     */
+    registerObjectFactory(
+      type: string,
+      factory: TiledObjectFactory,
+      { body = false }: { body?: boolean | PhysicsBodyOptions } = {}
+    ) {
+      objectFactories.set(type, {
+        factory,
+        body: body === true ? {} : body || null,
+      });
+    },
+
+    /**
+     * Creates a child Entity for each object in the map whose type has a factory registered via
+     * `registerObjectFactory`. Objects with other types are skipped.
+     *
+     * @returns The created Entities.
+     */
+    spawnObjects(): Array<Entity> {
+      const entities: Array<Entity> = [];
+      for (const object of parsedObjects) {
+        if (object.kind === "string") continue;
+
+        const registration = objectFactories.get(object.type);
+        if (!registration) continue;
+
+        entities.push(
+          spawnObject(object, registration.factory, registration.body)
+        );
+      }
+      return entities;
+    },
+
+    /**
+     * Returns static collision shapes for a tile layer, made from the collision shapes that were drawn for each tile
+     * in Tiled's tile collision editor. Adjacent tiles that are entirely solid are merged into larger rectangles.
+     *
+     * Tiles that are only partly solid, like slopes or half-height platforms, aren't merged; each of their
+     * collision shapes becomes its own shape, moved (and flipped) to where the tile is. Bodies sliding along
+     * a row of them can catch on the seams between the shapes, so if that matters for your game, draw
+     * one larger collision shape for the row in an object layer instead.
+     */
+    collisionShapes,
+
+    /**
+     * Returns the custom properties of the tile at the specified position in a layer's grid,
+     * as an object whose keys are the property names, or an empty object if the tile doesn't have any.
+     *
+     * Unlike `TileMap.propertiesAt`, this works for invisible layers, too.
+     */
+    propertiesAt(
+      layer: ReturnType<typeof Layer>,
+      x: number,
+      y: number
+    ): { [name: string]: any } {
+      return tileProperties.get(layer.grid.get(x, y)) || {};
+    },
+
+    /**
+     * Creates a child Entity with a static `Physics.Body` for each of the collision shapes in the map's tile layers.
+     * A `Physics.Engine` must be present on the root Entity.
+     *
+     * @param options.layers Which layers to create bodies for. Defaults to all of the map's tile layers,
+     * including invisible ones.
+     * @param options.body Options to pass to each `Physics.Body`.
+     * @returns The created Entities.
+     */
+    spawnCollisionBodies({
+      layers: layersToSpawn = layers,
+      body = {},
+    }: {
+      layers?: Array<ReturnType<typeof Layer>>;
+      body?: PhysicsBodyOptions;
+    } = {}): Array<Entity> {
+      const entities: Array<Entity> = [];
+      for (const layer of layersToSpawn) {
+        for (const collisionShape of collisionShapes(layer)) {
+          entities.push(spawnCollisionBody(collisionShape, body));
+        }
+      }
+      return entities;
+    },
   };
 }
 
@@ -369,20 +1379,20 @@ Object.defineProperty(TiledMap, "name", { value: "Tiled.Map" });
 /** This Object has Components on it that help you work with maps and tilesets from Tiled. */
 const Tiled = {
   /**
-   * This Component loads data from a Tiled XML tileset file
+   * This Component loads data from a Tiled tileset file
    * and creates a `SpriteSheet` Component out of it.
    */
   Tileset,
 
   /**
-   * This Component represents the data for a single layer within a Tiled map XML file.
+   * This Component represents the data for a single tile layer within a Tiled map.
    *
    * You'll rarely create it directly; instead, you'll get it from a Tiled.Map.
    */
   Layer,
 
   /**
-   * This Component loads data from a Tiled map XML file and creates
+   * This Component loads data from a Tiled map file (XML or JSON) and creates
    * SpriteSheet and TileMap Components that you can use to draw the
    * map into the canvas.
    */
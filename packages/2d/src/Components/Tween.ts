@@ -0,0 +1,524 @@
+import {
+  useType,
+  useEntity,
+  useNewComponent,
+  useCallbackAsCurrent,
+} from "@hex-engine/core";
+import { useUpdate } from "../Canvas";
+import { Angle, Point } from "../Models";
+
+/** A function that maps progress through a tween (from 0 to 1) to how far the value should have moved (usually from 0 to 1). */
+export type EasingFunction = (progress: number) => number;
+
+const BACK_OVERSHOOT = 1.70158;
+
+function bounceOut(t: number) {
+  if (t < 1 / 2.75) {
+    return 7.5625 * t * t;
+  } else if (t < 2 / 2.75) {
+    t -= 1.5 / 2.75;
+    return 7.5625 * t * t + 0.75;
+  } else if (t < 2.5 / 2.75) {
+    t -= 2.25 / 2.75;
+    return 7.5625 * t * t + 0.9375;
+  } else {
+    t -= 2.625 / 2.75;
+    return 7.5625 * t * t + 0.984375;
+  }
+}
+
+/** The built-in easing functions. See https://easings.net for what they look like. */
+const Easing = {
+  linear: (t: number) => t,
+
+  quadIn: (t: number) => t * t,
+  quadOut: (t: number) => t * (2 - t),
+  quadInOut: (t: number) => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t),
+
+  cubicIn: (t: number) => t * t * t,
+  cubicOut: (t: number) => --t * t * t + 1,
+  cubicInOut: (t: number) =>
+    t < 0.5 ? 4 * t * t * t : (t - 1) * (2 * t - 2) * (2 * t - 2) + 1,
+
+  quartIn: (t: number) => t * t * t * t,
+  quartOut: (t: number) => 1 - --t * t * t * t,
+  quartInOut: (t: number) =>
+    t < 0.5 ? 8 * t * t * t * t : 1 - 8 * --t * t * t * t,
+
+  sineIn: (t: number) => 1 - Math.cos((t * Math.PI) / 2),
+  sineOut: (t: number) => Math.sin((t * Math.PI) / 2),
+  sineInOut: (t: number) => -(Math.cos(Math.PI * t) - 1) / 2,
+
+  expoIn: (t: number) => (t === 0 ? 0 : Math.pow(2, 10 * t - 10)),
+  expoOut: (t: number) => (t === 1 ? 1 : 1 - Math.pow(2, -10 * t)),
+  expoInOut: (t: number) => {
+    if (t === 0 || t === 1) return t;
+    return t < 0.5
+      ? Math.pow(2, 20 * t - 10) / 2
+      : (2 - Math.pow(2, -20 * t + 10)) / 2;
+  },
+
+  backIn: (t: number) => t * t * ((BACK_OVERSHOOT + 1) * t - BACK_OVERSHOOT),
+  backOut: (t: number) =>
+    --t * t * ((BACK_OVERSHOOT + 1) * t + BACK_OVERSHOOT) + 1,
+  backInOut: (t: number) => {
+    const s = BACK_OVERSHOOT * 1.525;
+    return t < 0.5
+      ? (Math.pow(2 * t, 2) * ((s + 1) * 2 * t - s)) / 2
+      : (Math.pow(2 * t - 2, 2) * ((s + 1) * (t * 2 - 2) + s) + 2) / 2;
+  },
+
+  elasticIn: (t: number) => {
+    if (t === 0 || t === 1) return t;
+    return (
+      -Math.pow(2, 10 * t - 10) *
+      Math.sin((t * 10 - 10.75) * ((2 * Math.PI) / 3))
+    );
+  },
+  elasticOut: (t: number) => {
+    if (t === 0 || t === 1) return t;
+    return (
+      Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * ((2 * Math.PI) / 3)) + 1
+    );
+  },
+
+  bounceIn: (t: number) => 1 - bounceOut(1 - t),
+  bounceOut,
+  bounceInOut: (t: number) =>
+    t < 0.5 ? (1 - bounceOut(1 - 2 * t)) / 2 : (1 + bounceOut(2 * t - 1)) / 2,
+};
+
+/**
+ * A description of something to animate over time, created by `Tween.to`, `Tween.sequence`,
+ * `Tween.parallel`, `Tween.delay`, or `Tween.callback`. Nothing happens until it is passed to `play`.
+ *
+ * A step has a fixed duration, and setting its time sets the animated values to what they
+ * should be at that time, so steps can be played forwards, backwards, and repeatedly.
+ */
+export type TweenStep = {
+  readonly duration: number;
+
+  /** Create a fresh copy of this step, that can be played without affecting any other copies. */
+  instantiate(): TweenInstance;
+};
+
+type TweenInstance = {
+  readonly duration: number;
+
+  /**
+   * Set the animated values to what they should be at the specified time, from 0 to `duration`.
+   * Times before 0 mean the step has been rewound to before it started.
+   */
+  seek(time: number): void;
+};
+
+type TweenableValue = number | Point | Angle;
+
+/** The names of the properties of `T` that can be tweened. */
+type TweenableKeys<T> = {
+  [K in keyof T]: T[K] extends TweenableValue ? K : never;
+}[keyof T];
+
+/** The values to tween the properties of `T` to. */
+type TweenValues<T> = { [K in TweenableKeys<T>]?: T[K] };
+
+type Interpolator = (progress: number) => void;
+
+function makeInterpolator<K extends PropertyKey>(
+  target: Record<K, TweenableValue>,
+  key: K,
+  toValue: TweenableValue
+): Interpolator {
+  const current = target[key];
+
+  if (typeof toValue === "number" && typeof current === "number") {
+    const from = current;
+    return (progress) => {
+      target[key] = from + (toValue - from) * progress;
+    };
+  } else if (toValue instanceof Point && current instanceof Point) {
+    const from = current.clone();
+    return (progress) => {
+      current.x = from.x + (toValue.x - from.x) * progress;
+      current.y = from.y + (toValue.y - from.y) * progress;
+    };
+  } else if (toValue instanceof Angle && current instanceof Angle) {
+    const from = current.radians;
+    return (progress) => {
+      current.radians = from + (toValue.radians - from) * progress;
+    };
+  }
+
+  throw new Error(
+    `Cannot tween property "${String(
+      key
+    )}": tweens can only animate numbers, Points, and Angles, and the target value must be the same kind as the current value`
+  );
+}
+
+/**
+ * Describe animating the specified properties of an object from their current values
+ * (at the time this step starts) to new values.
+ *
+ * Properties can be numbers, `Point`s or `Angle`s. `Point`s and `Angle`s are mutated in place,
+ * so you can animate things like `Geometry.position` directly.
+ *
+ * @param target The object whose properties should be animated.
+ * @param values The values the properties should end up at.
+ * @param options.duration How long the animation should take, in milliseconds. Defaults to 1000.
+ * @param options.easing The easing function to use. Defaults to `Tween.Easing.linear`.
+ * @param options.delay How long to wait before starting, in milliseconds. Defaults to 0.
+ */
+function to<T extends {}>(
+  target: T,
+  values: TweenValues<T>,
+  {
+    duration = 1000,
+    easing = Easing.linear,
+    delay: delayTime = 0,
+  }: {
+    duration?: number;
+    easing?: EasingFunction;
+    delay?: number;
+  } = {}
+): TweenStep {
+  const step: TweenStep = {
+    duration,
+    instantiate() {
+      // The starting values are captured the first time the step is reached,
+      // so that steps later in a sequence start from wherever earlier steps left off.
+      let interpolators: Array<Interpolator> | null = null;
+
+      return {
+        duration,
+        seek(time: number) {
+          if (!interpolators) {
+            const tweenableTarget: Record<
+              TweenableKeys<T>,
+              TweenableValue
+            > = target;
+            const keys = Object.keys(values) as Array<TweenableKeys<T>>;
+            interpolators = keys.map((key) =>
+              makeInterpolator(tweenableTarget, key, values[key]!)
+            );
+          }
+
+          const clampedTime = Math.max(0, Math.min(time, duration));
+          const progress = easing(duration > 0 ? clampedTime / duration : 1);
+          for (const interpolator of interpolators) {
+            interpolator(progress);
+          }
+        },
+      };
+    },
+  };
+
+  return delayTime > 0 ? sequence(delay(delayTime), step) : step;
+}
+
+/** Describe waiting for the specified number of milliseconds. */
+function delay(duration: number): TweenStep {
+  const instance = {
+    duration,
+    seek() {},
+  };
+
+  return {
+    duration,
+    instantiate: () => instance,
+  };
+}
+
+/**
+ * Describe calling a function. When played in a sequence, it will be called when the steps before it have finished.
+ * When the step is repeated, the function is called again each time the step is reached.
+ */
+function callback(fn: () => void): TweenStep {
+  return {
+    duration: 0,
+    instantiate() {
+      let called = false;
+
+      return {
+        duration: 0,
+        seek(time: number) {
+          if (time < 0) {
+            called = false;
+          } else if (!called) {
+            called = true;
+            fn();
+          }
+        },
+      };
+    },
+  };
+}
+
+/** Describe playing the specified steps one after another. */
+function sequence(...steps: Array<TweenStep>): TweenStep {
+  const duration = steps.reduce((total, step) => total + step.duration, 0);
+
+  return {
+    duration,
+    instantiate() {
+      let startTime = 0;
+      const children = steps.map((step) => {
+        const child = {
+          instance: step.instantiate(),
+          startTime,
+          reached: false,
+        };
+        startTime += step.duration;
+        return child;
+      });
+
+      return {
+        duration,
+        seek(time: number) {
+          // Rewind the steps that we've gone back before, latest first,
+          // so that the values end up where the earliest of them started.
+          for (let i = children.length - 1; i >= 0; i--) {
+            const child = children[i];
+            if (child.reached && time < child.startTime) {
+              child.instance.seek(time - child.startTime);
+              child.reached = false;
+            }
+          }
+
+          for (const child of children) {
+            if (time < child.startTime) break;
+
+            child.reached = true;
+            child.instance.seek(
+              Math.min(time - child.startTime, child.instance.duration)
+            );
+          }
+        },
+      };
+    },
+  };
+}
+
+/** Describe playing the specified steps at the same time. It finishes when the longest of them finishes. */
+function parallel(...steps: Array<TweenStep>): TweenStep {
+  const duration = Math.max(0, ...steps.map((step) => step.duration));
+
+  return {
+    duration,
+    instantiate() {
+      const instances = steps.map((step) => step.instantiate());
+
+      return {
+        duration,
+        seek(time: number) {
+          for (const instance of instances) {
+            instance.seek(Math.min(time, instance.duration));
+          }
+        },
+      };
+    },
+  };
+}
+
+/** A tween that is playing, as returned by `play` and `to`. */
+export type TweenHandle = {
+  /** A Promise that resolves when the tween finishes. It never resolves if the tween is stopped first. */
+  readonly promise: Promise<void>;
+
+  /** Whether the tween has finished playing or has been stopped. */
+  readonly isFinished: boolean;
+
+  /** Stop the tween, leaving the animated values where they are. */
+  stop(): void;
+
+  /** Stop the tween, and set the animated values to where they would be at the end. */
+  finish(): void;
+};
+
+type PlayOptions = {
+  /** How many extra times to play the step after the first time. Use `Infinity` to repeat forever. Defaults to 0. */
+  repeat?: number;
+
+  /** Whether every other repetition should play backwards. Defaults to false. */
+  yoyo?: boolean;
+
+  /** A function to call when the tween finishes. */
+  onComplete?: () => void;
+};
+
+/**
+ * A Component that plays tweens, which animate numbers, `Point`s, and `Angle`s over time.
+ *
+ * Tweens are driven by `useUpdate`, so they pause when the `RunLoop` is paused
+ * or the Component is disabled.
+ *
+ * Describe what to animate using `Tween.to`, `Tween.sequence`, `Tween.parallel`,
+ * `Tween.delay`, and `Tween.callback`, and then play it with `play`. For simple cases,
+ * you can use the `to` method instead, which does both at once.
+ */
+function Tween() {
+  useType(Tween);
+
+  const playing: Set<{
+    instance: TweenInstance;
+    elapsed: number;
+    repeat: number;
+    yoyo: boolean;
+    stop(): void;
+    finish(): void;
+  }> = new Set();
+
+  function timeForElapsed(
+    duration: number,
+    elapsed: number,
+    yoyo: boolean
+  ): number {
+    const cycle = Math.floor(elapsed / duration);
+    const time = elapsed - cycle * duration;
+    return yoyo && cycle % 2 === 1 ? duration - time : time;
+  }
+
+  useUpdate((delta) => {
+    for (const tween of [...playing]) {
+      const { instance, repeat, yoyo } = tween;
+      const { duration } = instance;
+      if (duration <= 0) {
+        tween.finish();
+        continue;
+      }
+
+      const previousCycle = Math.floor(tween.elapsed / duration);
+      tween.elapsed += delta;
+
+      const isDone = tween.elapsed >= duration * (repeat + 1);
+      const currentCycle = isDone
+        ? repeat
+        : Math.floor(tween.elapsed / duration);
+
+      // A long frame can pass through several cycles at once; each one is played
+      // through, so that `Tween.callback` steps are called once per cycle.
+      for (let cycle = previousCycle + 1; cycle <= currentCycle; cycle++) {
+        // Finish off the cycle that just ended, and if the next one plays forwards,
+        // rewind to before the start so that `Tween.callback` steps get called again.
+        const endedBackwards = yoyo && (cycle - 1) % 2 === 1;
+        instance.seek(endedBackwards ? 0 : duration);
+        if (!yoyo || cycle % 2 === 0) {
+          instance.seek(-1);
+        }
+      }
+
+      if (isDone) {
+        tween.finish();
+      } else {
+        instance.seek(timeForElapsed(duration, tween.elapsed, yoyo));
+      }
+    }
+  });
+
+  // Wrapped so that tweens can be started from outside of this Component,
+  // such as from an event handler.
+  const play = useCallbackAsCurrent(function play(
+    step: TweenStep,
+    { repeat = 0, yoyo = false, onComplete }: PlayOptions = {}
+  ): TweenHandle {
+    const instance = step.instantiate();
+    const wrappedOnComplete = onComplete
+      ? useCallbackAsCurrent(onComplete)
+      : null;
+
+    let isFinished = false;
+    let resolve: () => void;
+    const promise = new Promise<void>((res) => {
+      resolve = res;
+    });
+
+    const tween = {
+      instance,
+      elapsed: 0,
+      repeat,
+      yoyo,
+      stop() {
+        isFinished = true;
+        playing.delete(tween);
+      },
+      finish() {
+        if (isFinished) return;
+
+        // When yoyo-ing an even number of times, we end up back at the start.
+        const endsAtStart = yoyo && repeat % 2 === 1;
+        instance.seek(endsAtStart ? 0 : instance.duration);
+        tween.stop();
+
+        if (wrappedOnComplete) wrappedOnComplete();
+        resolve();
+      },
+    };
+
+    playing.add(tween);
+    instance.seek(0);
+
+    return {
+      promise,
+      get isFinished() {
+        return isFinished;
+      },
+      stop: tween.stop,
+      finish: tween.finish,
+    };
+  });
+
+  return {
+    /**
+     * Start playing a tween.
+     *
+     * @param step What to animate; see `Tween.to`, `Tween.sequence`, and `Tween.parallel`.
+     * @param options.repeat How many extra times to play the step after the first time. Use `Infinity` to repeat forever. Defaults to 0.
+     * @param options.yoyo Whether every other repetition should play backwards. Defaults to false.
+     * @param options.onComplete A function to call when the tween finishes.
+     */
+    play,
+
+    /**
+     * Start animating the specified properties of an object from their current values to new values.
+     * This is a shortcut for `play(Tween.to(target, values, options), options)`.
+     */
+    to<T extends {}>(
+      target: T,
+      values: TweenValues<T>,
+      options: Parameters<typeof to>[2] & PlayOptions = {}
+    ): TweenHandle {
+      return play(to(target, values, options), options);
+    },
+
+    /** Stop every tween that is currently playing, leaving the animated values where they are. */
+    stopAll() {
+      for (const tween of [...playing]) {
+        tween.stop();
+      }
+    },
+  };
+}
+
+/**
+ * Get the `Tween` Component on the current Entity, adding one if there isn't one yet.
+ */
+export function useTween(): ReturnType<typeof Tween> {
+  const existing = useEntity().getComponent(Tween);
+  if (existing) return existing;
+
+  return useNewComponent(Tween);
+}
+
+const steps = {
+  to,
+  sequence,
+  parallel,
+  delay,
+  callback,
+  Easing,
+};
+
+/**
+ * A Component that plays tweens, which animate numbers, `Point`s, and `Angle`s over time.
+ */
+export default Object.assign(Tween, steps);
@@ -0,0 +1,191 @@
+import {
+  useType,
+  useNewComponent,
+  useChild,
+  useEntityName,
+  useStateAccumulator,
+  Component,
+  Entity,
+} from "@hex-engine/core";
+import { Point, TransformMatrix } from "../Models";
+import Camera from "./Camera";
+
+const VIEWPORT_VISIBILITY = Symbol("VIEWPORT_VISIBILITY");
+
+type Visibility = {
+  only: Array<string> | null;
+  except: Array<string>;
+};
+
+/**
+ * A Component that renders the game into a rectangular region of the `Canvas`, using its own `Camera`.
+ *
+ * Place one or more of these on your root Entity to render the same Entity tree into several
+ * regions; for instance, for split-screen multiplayer. `DrawChildren` will draw everything
+ * once per Viewport, clipped to the Viewport's region. If there are no Viewports on the root Entity,
+ * everything is drawn once, into the whole Canvas.
+ *
+ * To control which Viewports a Component is drawn into, use `useViewportVisibility`.
+ *
+ * Draw functions that reset the context's transform to draw in screen space (like HUDs)
+ * should use `Viewport.resetTransform` instead of `context.resetTransform`, so that
+ * they end up inside the Viewport that is being drawn into.
+ */
+function Viewport({
+  name,
+  position,
+  size,
+  camera,
+}: {
+  /** A name for this Viewport, that can be passed to `useViewportVisibility`. */
+  name: string;
+
+  /** The position of the upper-left corner of this Viewport, in Canvas pixels. */
+  position: Point;
+
+  /** The size of this Viewport, in Canvas pixels. */
+  size: Point;
+
+  /** The Camera to use for this Viewport. If unspecified, a new one will be created on a child Entity. */
+  camera?: ReturnType<typeof Camera>;
+}) {
+  useType(Viewport);
+
+  if (!camera) {
+    // The camera goes on its own Entity, because a Camera on the root Entity
+    // would be used to draw the whole Canvas whenever there are no Viewports.
+    camera = useChild(() => {
+      useEntityName(`${name} camera`);
+      useNewComponent(Camera);
+    }).getComponent(Camera)!;
+  }
+  camera.viewSize = size;
+  const viewportCamera = camera;
+
+  return {
+    name,
+
+    /** The position of the upper-left corner of this Viewport, in Canvas pixels. Mutate it to move the Viewport. */
+    position,
+
+    /** The size of this Viewport, in Canvas pixels. Mutate it to resize the Viewport. */
+    size,
+
+    /** The Camera used to render this Viewport. */
+    camera: viewportCamera,
+
+    /** Returns whether the specified position on the Canvas is within this Viewport. */
+    containsPoint(canvasPos: Point): boolean {
+      return (
+        canvasPos.x >= position.x &&
+        canvasPos.y >= position.y &&
+        canvasPos.x < position.x + size.x &&
+        canvasPos.y < position.y + size.y
+      );
+    },
+
+    /** Convert a position on the Canvas into a position in the world, as seen through this Viewport. */
+    canvasToWorld(canvasPos: Point): Point {
+      return viewportCamera.screenToWorld(canvasPos.subtract(position));
+    },
+
+    /**
+     * Returns the transform from this Viewport's screen space (where 0, 0 is the
+     * upper-left corner of the Viewport) to Canvas pixels.
+     */
+    screenMatrix(): TransformMatrix {
+      return new TransformMatrix().translateMutate(position);
+    },
+  };
+}
+
+let currentViewport: ReturnType<typeof Viewport> | null = null;
+
+/**
+ * Returns the Viewport that is currently being drawn into, or null if there are no Viewports.
+ * This is only meaningful while draw functions are running.
+ */
+function current(): ReturnType<typeof Viewport> | null {
+  return currentViewport;
+}
+
+/** Used by `DrawChildren` to keep track of which Viewport is being drawn into. */
+function setCurrent(viewport: ReturnType<typeof Viewport> | null) {
+  currentViewport = viewport;
+}
+
+/**
+ * Reset the context's transform to screen space, like `context.resetTransform()`,
+ * except that while drawing into a Viewport, 0, 0 is the upper-left corner of the Viewport.
+ */
+function resetTransform(context: CanvasRenderingContext2D) {
+  context.resetTransform();
+  if (currentViewport) {
+    const matrix = currentViewport.screenMatrix();
+    context.transform(
+      matrix.a,
+      matrix.b,
+      matrix.c,
+      matrix.d,
+      matrix.e,
+      matrix.f
+    );
+  }
+}
+
+/**
+ * Specify which Viewports the current Component should be drawn into.
+ * By default, Components are drawn into every Viewport.
+ *
+ * For instance, a HUD that shows the first player's health might use
+ * `useViewportVisibility({ only: ["player1"] })`.
+ *
+ * @param options.only The names of the only Viewports to draw into.
+ * @param options.except The names of Viewports to not draw into.
+ */
+export function useViewportVisibility({
+  only = null,
+  except = [],
+}: {
+  only?: Array<string> | null;
+  except?: Array<string>;
+}) {
+  useStateAccumulator<Visibility>(VIEWPORT_VISIBILITY).add({ only, except });
+}
+
+/**
+ * Returns a boolean indicating whether the specified Component should
+ * be drawn into the specified Viewport, according to `useViewportVisibility`.
+ */
+function isVisibleIn(
+  component: Component,
+  viewport: ReturnType<typeof Viewport>
+) {
+  return component
+    .stateAccumulator<Visibility>(VIEWPORT_VISIBILITY)
+    .all()
+    .every(
+      ({ only, except }) =>
+        (only == null || only.includes(viewport.name)) &&
+        !except.includes(viewport.name)
+    );
+}
+
+/** Returns all of the Viewports on the specified Entity, in the order they were added. */
+function allOn(entity: Entity): Array<ReturnType<typeof Viewport> & Component> {
+  return [...entity.components].filter(
+    (component): component is ReturnType<typeof Viewport> & Component =>
+      component.type === Viewport
+  );
+}
+
+/**
+ * A Component that renders the game into a rectangular region of the `Canvas`, using its own `Camera`.
+ */
+export default Object.assign(Viewport, {
+  isVisibleIn,
+  allOn,
+  current,
+  setCurrent,
+  resetTransform,
+});
@@ -1,57 +1,174 @@
 import Animation, {
   AnimationFrame,
   AnimationAPI /* @babel-remove-prev-node */,
+  AnimationDirection /* @babel-remove-prev-node */,
 } from "./Animation";
 import AnimationSheet from "./AnimationSheet";
-import Aseprite from "./Aseprite";
+import AnimationStateMachine, {
+  AnimationCondition /* @babel-remove-prev-node */,
+  AnimationState /* @babel-remove-prev-node */,
+  AnimationTransition /* @babel-remove-prev-node */,
+} from "./AnimationStateMachine";
+import Aseprite, {
+  AsepriteSlice /* @babel-remove-prev-node */,
+} from "./Aseprite";
+import Atlas from "./Atlas";
 import Audio from "./Audio";
 import AudioContext from "./AudioContext";
+import AudioMixer, {
+  AudioVoice /* @babel-remove-prev-node */,
+  AudioBus /* @babel-remove-prev-node */,
+} from "./AudioMixer";
 import BMFont from "./BMFont";
+import Camera from "./Camera";
 import Font from "./Font";
 import FontMetrics from "./FontMetrics";
 import Gamepad from "./Gamepad";
 import Geometry from "./Geometry";
+import Gestures, {
+  TapGesture /* @babel-remove-prev-node */,
+  SwipeGesture /* @babel-remove-prev-node */,
+  PinchGesture /* @babel-remove-prev-node */,
+  RotateGesture /* @babel-remove-prev-node */,
+} from "./Gestures";
 import Image from "./Image";
 import ImageFilter from "./ImageFilter";
+import InputMap, {
+  ButtonBinding /* @babel-remove-prev-node */,
+  AxisBinding /* @babel-remove-prev-node */,
+} from "./InputMap";
+import InputPlayer from "./InputPlayer";
+import InputRecorder, {
+  InputRecording /* @babel-remove-prev-node */,
+  RecordedTick /* @babel-remove-prev-node */,
+  RecordedInput /* @babel-remove-prev-node */,
+  GamepadSnapshot /* @babel-remove-prev-node */,
+} from "./InputRecorder";
 import Keyboard from "./Keyboard";
 import Label from "./Label";
 import LowLevelMouse, { HexMouseEvent } from "./LowLevelMouse";
 import Mouse from "./Mouse";
-import Physics from "./Physics";
+import ParticleEmitter, {
+  ParticleRange /* @babel-remove-prev-node */,
+  ParticleCurve /* @babel-remove-prev-node */,
+} from "./ParticleEmitter";
+import Physics, {
+  PhysicsQueryFilter /* @babel-remove-prev-node */,
+  PhysicsQueryResult /* @babel-remove-prev-node */,
+  PhysicsHit /* @babel-remove-prev-node */,
+} from "./Physics";
+import Pointer, { HexPointerEvent } from "./Pointer";
 import ProceduralSfx from "./ProceduralSfx";
+import SceneManager, {
+  SceneTransition /* @babel-remove-prev-node */,
+} from "./SceneManager";
 import SpriteSheet from "./SpriteSheet";
 import SystemFont from "./SystemFont";
 import TextBox from "./TextBox";
-import Tiled from "./Tiled";
-import TileMap from "./TileMap";
+import Tiled, {
+  TiledJSONMap /* @babel-remove-prev-node */,
+  TiledJSONTileset /* @babel-remove-prev-node */,
+  TiledJSONLayer /* @babel-remove-prev-node */,
+  TiledJSONChunk /* @babel-remove-prev-node */,
+  TiledJSONObject /* @babel-remove-prev-node */,
+  TiledJSONProperty /* @babel-remove-prev-node */,
+  TiledObjectApi /* @babel-remove-prev-node */,
+  TiledProperty /* @babel-remove-prev-node */,
+  TiledTile /* @babel-remove-prev-node */,
+  TiledObjectFactory /* @babel-remove-prev-node */,
+  TiledCollisionShape /* @babel-remove-prev-node */,
+} from "./Tiled";
+import TileMap, {
+  TileMapSheet /* @babel-remove-prev-node */,
+  TileMapAnimationFrame /* @babel-remove-prev-node */,
+} from "./TileMap";
 import Timer from "./Timer";
+import Tween, {
+  TweenStep /* @babel-remove-prev-node */,
+  TweenHandle /* @babel-remove-prev-node */,
+  EasingFunction /* @babel-remove-prev-node */,
+} from "./Tween";
+import Viewport from "./Viewport";
 
 export {
   Animation,
   AnimationFrame,
   AnimationAPI /* @babel-remove-prev-node */,
+  AnimationDirection /* @babel-remove-prev-node */,
   AnimationSheet,
+  AnimationStateMachine,
+  AnimationCondition /* @babel-remove-prev-node */,
+  AnimationState /* @babel-remove-prev-node */,
+  AnimationTransition /* @babel-remove-prev-node */,
   Aseprite,
+  AsepriteSlice /* @babel-remove-prev-node */,
+  Atlas,
   Audio,
   AudioContext,
+  AudioMixer,
+  AudioVoice /* @babel-remove-prev-node */,
+  AudioBus /* @babel-remove-prev-node */,
   BMFont,
+  Camera,
   Font,
   FontMetrics,
   Gamepad,
   Geometry,
+  Gestures,
+  TapGesture /* @babel-remove-prev-node */,
+  SwipeGesture /* @babel-remove-prev-node */,
+  PinchGesture /* @babel-remove-prev-node */,
+  RotateGesture /* @babel-remove-prev-node */,
   Image,
   ImageFilter,
+  InputMap,
+  ButtonBinding /* @babel-remove-prev-node */,
+  AxisBinding /* @babel-remove-prev-node */,
+  InputPlayer,
+  InputRecorder,
+  InputRecording /* @babel-remove-prev-node */,
+  RecordedTick /* @babel-remove-prev-node */,
+  RecordedInput /* @babel-remove-prev-node */,
+  GamepadSnapshot /* @babel-remove-prev-node */,
   Keyboard,
   Label,
   LowLevelMouse,
   HexMouseEvent,
   Mouse,
+  ParticleEmitter,
+  ParticleRange /* @babel-remove-prev-node */,
+  ParticleCurve /* @babel-remove-prev-node */,
   Physics,
+  PhysicsQueryFilter /* @babel-remove-prev-node */,
+  PhysicsQueryResult /* @babel-remove-prev-node */,
+  PhysicsHit /* @babel-remove-prev-node */,
+  Pointer,
+  HexPointerEvent,
   ProceduralSfx,
+  SceneManager,
+  SceneTransition /* @babel-remove-prev-node */,
   SpriteSheet,
   SystemFont,
   TextBox,
   Tiled,
+  TiledJSONMap /* @babel-remove-prev-node */,
+  TiledJSONTileset /* @babel-remove-prev-node */,
+  TiledJSONLayer /* @babel-remove-prev-node */,
+  TiledJSONChunk /* @babel-remove-prev-node */,
+  TiledJSONObject /* @babel-remove-prev-node */,
+  TiledJSONProperty /* @babel-remove-prev-node */,
+  TiledObjectApi /* @babel-remove-prev-node */,
+  TiledProperty /* @babel-remove-prev-node */,
+  TiledTile /* @babel-remove-prev-node */,
+  TiledObjectFactory /* @babel-remove-prev-node */,
+  TiledCollisionShape /* @babel-remove-prev-node */,
   TileMap,
+  TileMapSheet /* @babel-remove-prev-node */,
+  TileMapAnimationFrame /* @babel-remove-prev-node */,
   Timer,
+  Tween,
+  TweenStep /* @babel-remove-prev-node */,
+  TweenHandle /* @babel-remove-prev-node */,
+  EasingFunction /* @babel-remove-prev-node */,
+  Viewport,
 };
@@ -5,16 +5,22 @@ import useEntitiesAtPoint from "./useEntitiesAtPoint";
 import useFilledPixelBounds from "./useFilledPixelBounds";
 import useInspectorHoverOutline from "./useInspectorHoverOutline";
 import useEntityTransforms from "./useEntityTransforms";
+import useButtonState from "./useButtonState";
 
 import {
   useUpdate,
+  useLateUpdate,
   useRawDraw,
   useDebugOverlayDrawTime,
   useCanvasDrawOrderSort,
+  useDrawLayer,
 } from "../Canvas";
 import { useFirstClick } from "../Components/LowLevelMouse";
 import { useFirstKey } from "../Components/Keyboard";
 import { useAudioContext } from "../Components/AudioContext";
+import { useViewportVisibility } from "../Components/Viewport";
+import { useTween } from "../Components/Tween";
+import { useInputPlayer } from "../Components/InputPlayer";
 
 export {
   useBackstage,
@@ -24,11 +30,17 @@ export {
   useFilledPixelBounds,
   useInspectorHoverOutline,
   useEntityTransforms,
+  useButtonState,
   useUpdate,
+  useLateUpdate,
   useRawDraw,
   useDebugOverlayDrawTime,
   useCanvasDrawOrderSort,
+  useDrawLayer,
   useFirstClick,
   useFirstKey,
   useAudioContext,
+  useViewportVisibility,
+  useTween,
+  useInputPlayer,
 };
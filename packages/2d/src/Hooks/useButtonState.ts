@@ -0,0 +1,97 @@
+import { useLateUpdate } from "../Canvas";
+
+/**
+ * Returns an object that keeps track of which buttons (or keys) were pressed or released
+ * during the current frame, and how long each one has been held.
+ *
+ * Presses and releases are visible to every `useUpdate` function that runs after they
+ * happen, and are forgotten at the end of the frame, once all `useUpdate` functions have run.
+ *
+ * This is used by the input Components; call `press` and `release` as input comes in.
+ */
+export default function useButtonState<Name extends string = string>() {
+  // How long each held button has been held, as of the start of this frame and the one before it.
+  const held: Map<
+    Name,
+    { duration: number; previousDuration: number }
+  > = new Map();
+  const justPressed: Set<Name> = new Set();
+  const justReleased: Set<Name> = new Set();
+
+  useLateUpdate((delta) => {
+    justPressed.clear();
+    justReleased.clear();
+    for (const state of held.values()) {
+      state.previousDuration = state.duration;
+      state.duration += delta;
+    }
+  });
+
+  function heldDuration(name: Name): number {
+    const state = held.get(name);
+    return state ? state.duration : 0;
+  }
+
+  return {
+    /** Record that the specified button is now being held. Does nothing if it was already held. */
+    press(name: Name) {
+      if (held.has(name)) return;
+      held.set(name, { duration: 0, previousDuration: 0 });
+      justPressed.add(name);
+    },
+
+    /** Record that the specified button is no longer being held. Does nothing if it wasn't held. */
+    release(name: Name) {
+      if (!held.has(name)) return;
+      held.delete(name);
+      justReleased.add(name);
+    },
+
+    /** Record that every held button has been released. */
+    releaseAll() {
+      for (const name of held.keys()) {
+        justReleased.add(name);
+      }
+      held.clear();
+    },
+
+    /** Whether the specified button is currently held. */
+    isHeld(name: Name): boolean {
+      return held.has(name);
+    },
+
+    /** Whether the specified button started being held this frame. */
+    justPressed(name: Name): boolean {
+      return justPressed.has(name);
+    },
+
+    /** Whether the specified button stopped being held this frame. */
+    justReleased(name: Name): boolean {
+      return justReleased.has(name);
+    },
+
+    /**
+     * How long the specified button has been held, in milliseconds, as of the start of
+     * this frame. This is 0 during the frame it was pressed, and if it isn't held.
+     */
+    heldDuration,
+
+    /**
+     * Whether the specified button was pressed this frame, or has been held long enough that
+     * it should "repeat" this frame, like a key on a keyboard does when you hold it down.
+     *
+     * @param delay How long the button must be held before it starts repeating, in milliseconds.
+     * @param interval How long to wait between repeats, in milliseconds.
+     */
+    justPressedOrRepeated(name: Name, delay: number, interval: number) {
+      if (justPressed.has(name)) return true;
+
+      const state = held.get(name);
+      if (!state) return false;
+
+      const repeatsBy = (duration: number) =>
+        duration < delay ? 0 : Math.floor((duration - delay) / interval) + 1;
+      return repeatsBy(state.duration) > repeatsBy(state.previousDuration);
+    },
+  };
+}
@@ -7,11 +7,15 @@ import useEntityTransforms from "./useEntityTransforms";
  *
  * The context you receive will already be rotated and translated such that position 0, 0 is the upper-left
  * corner of the current Entity, so in most cases, you will not need to worry about x/y positioning.
+ *
+ * The function also receives an interpolation alpha from 0 to 1, which you can use to smooth out
+ * movement between simulation steps when the root `Canvas` uses a fixed timestep.
  */
 export default function useDraw(
   onDraw: (
     context: CanvasRenderingContext2D,
-    backstage: CanvasRenderingContext2D
+    backstage: CanvasRenderingContext2D,
+    alpha: number
   ) => void,
   {
     roundToNearestPixel = false,
@@ -22,7 +26,7 @@ export default function useDraw(
 ) {
   const transforms = useEntityTransforms();
 
-  useRawDraw((context, backstage) => {
+  useRawDraw((context, backstage, alpha) => {
     context.save();
 
     const matrix = transforms.matrixForDrawPosition(roundToNearestPixel);
@@ -34,7 +38,7 @@ export default function useDraw(
       matrix.e,
       matrix.f
     );
-    onDraw(context, backstage);
+    onDraw(context, backstage, alpha);
 
     context.restore();
   });
@@ -1,21 +1,29 @@
-import { useRootEntity, Entity } from "@hex-engine/core";
+import { useQuery, Entity } from "@hex-engine/core";
 import { Point } from "../Models";
 import Canvas, { useCanvasDrawOrderSort } from "../Canvas";
 import { Geometry } from "../Components";
+import { useCanvasToWorld } from "../Components/LowLevelMouse";
 import useEntityTransforms from "./useEntityTransforms";
 
 /**
- * Get all the entities at the given world position,
+ * Get all the entities at the given position,
  * sorted by reverse draw order, such that one that
  * gets drawn last (and is therefore on top) is the first in the array.
+ *
+ * By default, the position is a world position, like the positions in `Mouse` and
+ * `LowLevelMouse` events (once they're converted from the Entity's local space).
+ * Pass `space: "canvas"` to use a position in Canvas pixels instead, such as one from
+ * a DOM event; it will be converted through the root Entity's `Viewport`s or `Camera`.
  */
-export default function useEntitiesAtPoint(worldPos: Point): Array<Entity> {
-  const rootEnt = useRootEntity();
-  const rootsDescendants = rootEnt.descendants();
-  const allEnts = [rootEnt, ...rootsDescendants];
-  const entsUnderCursor = allEnts.filter((ent) => {
-    const geometry = ent.getComponent(Geometry);
-    if (!geometry) return false;
+export default function useEntitiesAtPoint(
+  pos: Point,
+  { space = "world" }: { space?: "world" | "canvas" } = {}
+): Array<Entity> {
+  const worldPos = space === "canvas" ? useCanvasToWorld()(pos) : pos;
+
+  const { entities } = useQuery(Geometry);
+  const entsUnderCursor = [...entities].filter((ent) => {
+    const geometry = ent.getComponent(Geometry)!;
 
     const transformedPos = useEntityTransforms(ent)
       .matrixForWorldPosition()
@@ -27,7 +35,7 @@ export default function useEntitiesAtPoint(worldPos: Point): Array<Entity> {
 
   const sort = useCanvasDrawOrderSort();
   const components = sort(entsUnderCursor)
-    .filter(Canvas.DrawOrder.isDebugOverlay)
+    .filter((component) => !Canvas.DrawOrder.isDebugOverlay(component))
     .reverse();
 
   const entsSeenSoFar = new Set();
@@ -0,0 +1,245 @@
+import { useNewComponent } from "@hex-engine/core";
+import Animation, {
+  AnimationFrame,
+  AnimationDirection,
+} from "../Components/Animation";
+import AnimationStateMachine, {
+  AnimationTransition,
+} from "../Components/AnimationStateMachine";
+import { messages, log, createHeadlessRoot } from "./helpers";
+
+const makeFrames = (...names: Array<string>) =>
+  names.map((name) => new AnimationFrame(name, { duration: 100 }));
+
+function setup({
+  transitions,
+  attackDirection = "forward",
+  parameters = {},
+  register = () => {},
+}: {
+  transitions: Array<AnimationTransition>;
+  attackDirection?: AnimationDirection;
+  parameters?: { [name: string]: boolean | number | "trigger" };
+  // Callbacks have to be registered while the root is being created.
+  register?: (stateMachine: ReturnType<typeof AnimationStateMachine>) => void;
+}) {
+  const { canvas, result: stateMachine } = createHeadlessRoot(() => {
+    const idle = useNewComponent(() => Animation(makeFrames("idle")));
+    const attack = useNewComponent(() =>
+      Animation(makeFrames("a", "b", "c"), { direction: attackDirection })
+    );
+    const jump = useNewComponent(() => Animation(makeFrames("jump")));
+
+    const stateMachine = useNewComponent(() =>
+      AnimationStateMachine({
+        initialState: "attack",
+        states: {
+          idle: { animation: idle },
+          attack: { animation: attack },
+          jump: { animation: jump },
+        },
+        transitions,
+        parameters,
+      })
+    );
+    register(stateMachine);
+    return stateMachine;
+  });
+
+  const logFrames = (count: number, delta: number = 50) => {
+    for (let i = 0; i < count; i++) {
+      canvas.runFrames(1, delta);
+      log(
+        `${stateMachine.currentState}: ${stateMachine.currentAnimation.currentFrame.data}`
+      );
+    }
+  };
+
+  return { stateMachine, logFrames };
+}
+
+test("exitTime waits for part of a forward animation to play", () => {
+  const { logFrames } = setup({
+    transitions: [{ from: "attack", to: "idle", exitTime: 0.5 }],
+  });
+
+  logFrames(5);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "attack: a",
+      "attack: a",
+      "idle: idle",
+      "idle: idle",
+      "idle: idle",
+    ]
+  `);
+});
+
+test("exitTime counts reverse animations from their last frame", () => {
+  const { logFrames } = setup({
+    attackDirection: "reverse",
+    transitions: [{ from: "attack", to: "idle", exitTime: 0.5 }],
+  });
+
+  logFrames(5);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "attack: c",
+      "attack: c",
+      "idle: idle",
+      "idle: idle",
+      "idle: idle",
+    ]
+  `);
+});
+
+test("exitTime covers the whole trip of a ping-pong animation", () => {
+  // The trip is a, b, c, b, a: 500ms, so 0.75 is half way through b on the way back.
+  const { logFrames } = setup({
+    attackDirection: "ping-pong",
+    transitions: [{ from: "attack", to: "idle", exitTime: 0.75 }],
+  });
+
+  logFrames(8);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "attack: a",
+      "attack: a",
+      "attack: b",
+      "attack: b",
+      "attack: c",
+      "attack: c",
+      "attack: b",
+      "idle: idle",
+    ]
+  `);
+});
+
+test("triggers are reset by the transition that uses them, or by resetTrigger", () => {
+  const { stateMachine, logFrames } = setup({
+    parameters: { jump: "trigger", grounded: true },
+    transitions: [
+      {
+        from: "attack",
+        to: "jump",
+        conditions: [
+          { parameter: "jump" },
+          { parameter: "grounded", equals: true },
+        ],
+      },
+      {
+        from: "jump",
+        to: "attack",
+        conditions: [{ parameter: "grounded", equals: true }],
+      },
+    ],
+  });
+
+  stateMachine.setBool("grounded", false);
+  stateMachine.setTrigger("jump");
+  logFrames(1);
+  log(
+    `parameters while in the air: ${JSON.stringify(stateMachine.parameters)}`
+  );
+
+  stateMachine.setBool("grounded", true);
+  logFrames(1);
+  log(`parameters after jumping: ${JSON.stringify(stateMachine.parameters)}`);
+
+  logFrames(1);
+
+  stateMachine.setTrigger("jump");
+  stateMachine.resetTrigger("jump");
+  logFrames(1);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "attack: a",
+      "parameters while in the air: {\\"grounded\\":false,\\"jump\\":true}",
+      "jump: jump",
+      "parameters after jumping: {\\"grounded\\":true,\\"jump\\":false}",
+      "attack: a",
+      "attack: a",
+    ]
+  `);
+});
+
+test('"*" transitions start from any state but the one they go to, and the first match wins', () => {
+  const { stateMachine, logFrames } = setup({
+    parameters: { hurt: false, speed: 0 },
+    transitions: [
+      {
+        from: "*",
+        to: "idle",
+        conditions: [{ parameter: "hurt", equals: true }],
+      },
+      {
+        from: "*",
+        to: "jump",
+        conditions: [{ parameter: "speed", greaterThan: 5 }],
+      },
+    ],
+  });
+
+  stateMachine.setFloat("speed", 10);
+  logFrames(2);
+
+  // Both transitions could happen now, but only the first one does. Then the second one
+  // does, because "*" transitions can't go to the state they start from.
+  stateMachine.setBool("hurt", true);
+  logFrames(2);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "jump: jump",
+      "jump: jump",
+      "idle: idle",
+      "jump: jump",
+    ]
+  `);
+});
+
+test("a transition's onTransition runs before onTransition listeners, after the state has changed", () => {
+  let stateMachine!: ReturnType<typeof AnimationStateMachine>;
+  const result = setup({
+    parameters: { go: "trigger" },
+    transitions: [
+      {
+        from: "attack",
+        to: "jump",
+        conditions: [{ parameter: "go" }],
+        onTransition: () =>
+          log(`transition's onTransition, in ${stateMachine.currentState}`),
+      },
+    ],
+    register: (machine) => {
+      machine.onTransition((from, to) =>
+        log(`first listener: ${from} -> ${to}`)
+      );
+      machine.onTransition((from, to) =>
+        log(`second listener: ${from} -> ${to}`)
+      );
+    },
+  });
+  stateMachine = result.stateMachine;
+
+  stateMachine.setTrigger("go");
+  result.logFrames(1);
+
+  // Listeners are called when going to a state directly, too.
+  stateMachine.goToState("idle");
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "transition's onTransition, in jump",
+      "first listener: attack -> jump",
+      "second listener: attack -> jump",
+      "jump: jump",
+      "first listener: jump -> idle",
+      "second listener: jump -> idle",
+    ]
+  `);
+});
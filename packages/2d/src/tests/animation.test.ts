@@ -0,0 +1,194 @@
+import { useNewComponent } from "@hex-engine/core";
+import Animation, {
+  AnimationFrame,
+  AnimationDirection,
+} from "../Components/Animation";
+import { messages, log, createHeadlessRoot } from "./helpers";
+
+function setup(
+  frames: Array<AnimationFrame<string>>,
+  options: {
+    loop?: boolean;
+    playbackRate?: number;
+    direction?: AnimationDirection;
+  } = {},
+  // Callbacks have to be registered while the root is being created.
+  register: (animation: ReturnType<typeof Animation>) => void = () => {}
+) {
+  const { canvas, result: animation } = createHeadlessRoot(() => {
+    const animation = useNewComponent(() => Animation(frames, options));
+    register(animation);
+    return animation;
+  });
+
+  const logFrames = (count: number, delta: number) => {
+    for (let i = 0; i < count; i++) {
+      canvas.runFrames(1, delta);
+      log(`frame ${animation.currentFrame.data}`);
+    }
+  };
+
+  return { animation, logFrames };
+}
+
+const makeFrames = (...names: Array<string>) =>
+  names.map((name) => new AnimationFrame(name, { duration: 100 }));
+
+test("frames advance by their duration", () => {
+  const { animation, logFrames } = setup(makeFrames("a", "b", "c"));
+
+  animation.play();
+  logFrames(4, 50);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "frame a",
+      "frame a",
+      "frame b",
+      "frame b",
+    ]
+  `);
+});
+
+test("playbackRate scales how fast time passes", () => {
+  const { animation, logFrames } = setup(makeFrames("a", "b", "c"), {
+    playbackRate: 2,
+  });
+
+  animation.play();
+  logFrames(3, 50);
+  animation.playbackRate = 0.5;
+  logFrames(2, 100);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "frame a",
+      "frame b",
+      "frame c",
+      "frame a",
+      "frame a",
+    ]
+  `);
+});
+
+test("reverse plays from the last frame to the first", () => {
+  const { animation, logFrames } = setup(
+    makeFrames("a", "b", "c"),
+    { direction: "reverse" },
+    (animation) => animation.onLoop(() => log("loop"))
+  );
+
+  animation.play();
+  logFrames(4, 100);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "frame c",
+      "frame b",
+      "frame a",
+      "loop",
+      "frame c",
+    ]
+  `);
+});
+
+test("ping-pong plays to the last frame and back again", () => {
+  const { animation, logFrames } = setup(
+    makeFrames("a", "b", "c"),
+    { direction: "ping-pong" },
+    (animation) => animation.onLoop(() => log("loop"))
+  );
+
+  animation.play();
+  for (let i = 0; i < 6; i++) {
+    logFrames(1, 100);
+    log(`phase ${animation.pingPongPhase}`);
+  }
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "frame a",
+      "phase forward",
+      "frame b",
+      "phase forward",
+      "frame c",
+      "phase forward",
+      "frame b",
+      "phase backward",
+      "frame a",
+      "phase backward",
+      "loop",
+      "frame b",
+      "phase forward",
+    ]
+  `);
+});
+
+test("an animation that doesn't loop stays on its last frame", () => {
+  const { animation, logFrames } = setup(
+    makeFrames("a", "b"),
+    { loop: false, direction: "ping-pong" },
+    (animation) => animation.onComplete(() => log("complete"))
+  );
+
+  animation.play();
+  logFrames(4, 100);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "frame a",
+      "frame b",
+      "frame a",
+      "complete",
+      "frame a",
+    ]
+  `);
+});
+
+test("onEvent is called when a frame with a matching marker is reached", () => {
+  const frames = [
+    new AnimationFrame("a", { duration: 100 }),
+    new AnimationFrame("b", { duration: 100, events: ["footstep"] }),
+    new AnimationFrame("c", { duration: 100, events: ["footstep", "hit"] }),
+  ];
+  const { animation, logFrames } = setup(frames, {}, (animation) => {
+    animation.onEvent("footstep", (frame) => log(`footstep on ${frame.data}`));
+    animation.onEvent("hit", (frame) => log(`hit on ${frame.data}`));
+  });
+
+  animation.play();
+  logFrames(3, 100);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "frame a",
+      "footstep on b",
+      "frame b",
+      "footstep on c",
+      "hit on c",
+      "frame c",
+    ]
+  `);
+});
+
+test("zero-duration frames are passed through, but their events still happen", () => {
+  const frames = [
+    new AnimationFrame("a", { duration: 100 }),
+    new AnimationFrame("b", { duration: 0, events: ["skipped"] }),
+    new AnimationFrame("c", { duration: 100 }),
+  ];
+  const { animation, logFrames } = setup(frames, {}, (animation) =>
+    animation.onEvent("skipped", (frame) => log(`skipped ${frame.data}`))
+  );
+
+  animation.play();
+  logFrames(2, 100);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "frame a",
+      "skipped b",
+      "frame c",
+    ]
+  `);
+});
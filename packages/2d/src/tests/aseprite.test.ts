@@ -0,0 +1,216 @@
+import { useNewComponent } from "@hex-engine/core";
+import Aseprite, { AsepriteSlice } from "../Components/Aseprite";
+import { Point } from "../Models";
+import { makeAsepriteData } from "./asepriteData";
+import { FakeCanvas } from "./dom";
+import { messages, log, createHeadlessRoot } from "./helpers";
+
+function setup(data: AsepriteLoader.Data) {
+  const { canvas, result: aseprite } = createHeadlessRoot(() =>
+    useNewComponent(() => Aseprite(data))
+  );
+
+  const frameImage = (index: number) =>
+    (aseprite.animations.default.frames[index].data as unknown) as FakeCanvas;
+  const logPixel = (description: string, frameIndex: number = 0) =>
+    log(`${description}: ${frameImage(frameIndex).context.pixels.join(", ")}`);
+
+  return { canvas, aseprite, frameImage, logPixel };
+}
+
+test("layers are blended with Addition, Subtract and Divide pixel by pixel", () => {
+  const { aseprite, logPixel } = setup(
+    makeAsepriteData({
+      layers: [
+        { name: "base" },
+        { name: "add", hidden: true, blendMode: 16 },
+        { name: "subtract", hidden: true, blendMode: 17 },
+        { name: "divide", hidden: true, blendMode: 18 },
+      ],
+      frames: [
+        {
+          base: [100, 150, 200, 255],
+          add: [50, 50, 100, 255],
+          subtract: [120, 120, 120, 255],
+          divide: [200, 200, 200, 255],
+        },
+      ],
+    })
+  );
+
+  logPixel("base");
+  for (const layer of ["add", "subtract", "divide"]) {
+    aseprite.setLayerVisible(layer, true);
+    logPixel(layer);
+    aseprite.setLayerVisible(layer, false);
+  }
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "base: 100, 150, 200, 255",
+      "add: 150, 200, 255, 255",
+      "subtract: 0, 30, 80, 255",
+      "divide: 128, 191, 255, 255",
+    ]
+  `);
+});
+
+test("toggling layers changes every frame's image, and hiding a group hides its layers", () => {
+  const { aseprite, logPixel } = setup(
+    makeAsepriteData({
+      layers: [
+        { name: "body" },
+        { name: "hat", hidden: true },
+        { name: "effects", group: true },
+        { name: "glow", childLevel: 1 },
+      ],
+      frames: [
+        { body: [10, 10, 10, 255] },
+        { body: [20, 20, 20, 255], hat: [200, 0, 0, 255] },
+        { body: [30, 30, 30, 255], glow: [0, 0, 255, 128] },
+      ],
+    })
+  );
+
+  log(`visible: ${aseprite.layerNames.filter(aseprite.isLayerVisible)}`);
+  aseprite.setLayerVisible("hat", true);
+  aseprite.setLayerVisible("effects", false);
+  log(`visible: ${aseprite.layerNames.filter(aseprite.isLayerVisible)}`);
+
+  for (let i = 0; i < 3; i++) {
+    logPixel(`frame ${i}`, i);
+  }
+
+  aseprite.setLayerVisible("effects", true);
+  for (let i = 0; i < 3; i++) {
+    logPixel(`frame ${i} with effects`, i);
+  }
+
+  expect(() => aseprite.setLayerVisible("shadow", true)).toThrow(
+    "Aseprite file does not have a layer named 'shadow'"
+  );
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "visible: body,effects,glow",
+      "visible: body,hat,glow",
+      "frame 0: 10, 10, 10, 255",
+      "frame 1: 200, 0, 0, 255",
+      "frame 2: 30, 30, 30, 255",
+      "frame 0 with effects: 10, 10, 10, 255",
+      "frame 1 with effects: 200, 0, 0, 255",
+      "frame 2 with effects: 15, 15, 143, 255",
+    ]
+  `);
+});
+
+test("composited images are reused, but only for the most recent few combinations of layers", () => {
+  const layers = ["a", "b", "c", "d"];
+  const { aseprite, frameImage } = setup(
+    makeAsepriteData({
+      layers: [{ name: "base" }, ...layers.map((name) => ({ name }))],
+      frames: [{ base: [0, 0, 0, 255] }],
+    })
+  );
+
+  const original = frameImage(0);
+  aseprite.setLayerVisible("a", false);
+  aseprite.setLayerVisible("a", true);
+  log(`reused after toggling one layer: ${frameImage(0) === original}`);
+
+  for (const layer of layers) {
+    aseprite.setLayerVisible(layer, false);
+  }
+  for (const layer of layers) {
+    aseprite.setLayerVisible(layer, true);
+  }
+  log(`reused after toggling every layer: ${frameImage(0) === original}`);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "reused after toggling one layer: true",
+      "reused after toggling every layer: false",
+    ]
+  `);
+});
+
+test("getSlice uses the most recent key at or before the frame", () => {
+  const { aseprite, canvas } = setup(
+    makeAsepriteData({
+      layers: [{ name: "base" }],
+      frames: [0, 1, 2, 3].map(() => ({ base: [0, 0, 0, 255] })),
+      slices: [
+        {
+          name: "hitbox",
+          keys: [
+            {
+              frame: 3,
+              x: 1,
+              y: 2,
+              width: 3,
+              height: 4,
+              pivot: { x: 1, y: 1 },
+            },
+            { frame: 0, x: 0, y: 0, width: 8, height: 8 },
+            { frame: 2, x: 0, y: 0, width: 0, height: 0 },
+          ],
+        },
+        {
+          name: "panel",
+          keys: [
+            {
+              frame: 1,
+              x: 0,
+              y: 0,
+              width: 9,
+              height: 9,
+              center: { x: 3, y: 3, width: 3, height: 3 },
+            },
+          ],
+        },
+      ],
+    })
+  );
+
+  const point = ({ x, y }: Point) => `${x}, ${y}`;
+  const describe = (slice: AsepriteSlice | null) =>
+    slice
+      ? `at ${point(slice.position)} size ${point(slice.size)}, center ${
+          slice.center
+            ? `at ${point(slice.center.position)} size ${point(
+                slice.center.size
+              )}`
+            : "none"
+        }, pivot ${slice.pivot ? point(slice.pivot) : "none"}`
+      : "none";
+
+  log(`slices: ${aseprite.sliceNames}`);
+  for (let frame = 0; frame < 4; frame++) {
+    log(
+      `frame ${frame}: hitbox ${describe(
+        aseprite.getSlice("hitbox", frame)
+      )}; panel ${describe(aseprite.getSlice("panel", frame))}`
+    );
+  }
+
+  aseprite.animations.default.play();
+  canvas.runFrames(4, 100);
+  log(
+    `current frame (${
+      aseprite.animations.default.currentFrameIndex
+    }): hitbox ${describe(aseprite.getSlice("hitbox"))}`
+  );
+
+  expect(() => aseprite.getSlice("hurtbox")).toThrow(
+    "Aseprite file does not have a slice named 'hurtbox'"
+  );
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "slices: hitbox,panel",
+      "frame 0: hitbox at 0, 0 size 8, 8, center none, pivot none; panel none",
+      "frame 1: hitbox at 0, 0 size 8, 8, center none, pivot none; panel at 0, 0 size 9, 9, center at 3, 3 size 3, 3, pivot none",
+      "frame 2: hitbox none; panel at 0, 0 size 9, 9, center at 3, 3 size 3, 3, pivot none",
+      "frame 3: hitbox at 1, 2 size 3, 4, center none, pivot 1, 1; panel at 0, 0 size 9, 9, center at 3, 3 size 3, 3, pivot none",
+      "current frame (3): hitbox at 1, 2 size 3, 4, center none, pivot 1, 1",
+    ]
+  `);
+});
@@ -0,0 +1,67 @@
+type LayerOptions = {
+  name: string;
+  hidden?: boolean;
+  group?: boolean;
+  childLevel?: number;
+  blendMode?: number;
+};
+
+/**
+ * Makes the data that an Aseprite file is loaded as, for a 1x1 sprite.
+ *
+ * Every cel is a single pixel at the top-left of the sprite, so that
+ * each frame's image is one pixel, which is every layer blended together.
+ */
+export function makeAsepriteData({
+  layers,
+  frames,
+  slices,
+}: {
+  layers: Array<LayerOptions>;
+  frames: Array<{ [layerName: string]: [number, number, number, number] }>;
+  slices?: AsepriteLoader.Data["slices"];
+}): AsepriteLoader.Data {
+  return {
+    frames: frames.map((pixels) => ({
+      bytesInFrame: 0,
+      frameDuration: 100,
+      numChunks: 0,
+      cels: Object.entries(pixels).map(([layerName, color]) => ({
+        layerIndex: layers.findIndex((layer) => layer.name === layerName),
+        xpos: 0,
+        ypos: 0,
+        opacity: 255,
+        celType: 0,
+        w: 1,
+        h: 1,
+        rawCelData: Uint8Array.from(color),
+      })),
+    })),
+    layers: layers.map(
+      ({
+        name,
+        hidden = false,
+        group = false,
+        childLevel = 0,
+        blendMode = 0,
+      }) => ({
+        flags: hidden ? 0 : 1,
+        type: group ? 1 : 0,
+        layerChildLevel: childLevel,
+        blendMode,
+        opacity: 255,
+        name,
+      })
+    ),
+    tags: [],
+    slices,
+    fileSize: 0,
+    width: 1,
+    height: 1,
+    numFrames: frames.length,
+    colorDepth: 32,
+    numColors: 0,
+    pixelRatio: "1:1",
+    colorProfile: { type: "sRGB", flag: 0, fGamma: 0 },
+  };
+}
@@ -0,0 +1,348 @@
+import {
+  useNewComponent,
+  useChild,
+  useType,
+  ErrorBoundary,
+} from "@hex-engine/core";
+import Preloader from "../Preloader";
+import AudioContextComponent from "../Components/AudioContext";
+import AudioMixer from "../Components/AudioMixer";
+import Camera from "../Components/Camera";
+import Geometry from "../Components/Geometry";
+import { Point, Polygon } from "../Models";
+import { messages, log, createHeadlessRoot } from "./helpers";
+
+// Just enough of the Web Audio API for an AudioMixer, which logs
+// whatever gets connected, scheduled, started, or stopped.
+
+type FakeNode = {
+  label: string;
+  connect(destination: FakeNode): void;
+  disconnect(): void;
+};
+
+function makeParam(label: string, value: number) {
+  return {
+    value,
+    cancelScheduledValues() {},
+    setValueAtTime(nextValue: number) {
+      this.value = nextValue;
+    },
+    linearRampToValueAtTime(nextValue: number, time: number) {
+      log(`${label} ramps to ${nextValue} at ${time}`);
+    },
+  };
+}
+
+class FakeAudioContext {
+  currentTime = 0;
+  nodeCount = 0;
+  destination = this.makeNode("destination");
+
+  makeNode(label: string): FakeNode & { context: FakeAudioContext } {
+    return {
+      label,
+      context: this,
+      connect(destination: FakeNode) {
+        log(`${label} -> ${destination.label}`);
+      },
+      disconnect() {
+        log(`${label} disconnected`);
+      },
+    };
+  }
+
+  createGain() {
+    const label = `gain ${this.nodeCount++}`;
+    return { ...this.makeNode(label), gain: makeParam(label, 1) };
+  }
+
+  panners: Array<{ label: string; pan: { value: number } }> = [];
+
+  createStereoPanner() {
+    const label = `panner ${this.nodeCount++}`;
+    const panner = { ...this.makeNode(label), pan: makeParam(label, 0) };
+    this.panners.push(panner);
+    return panner;
+  }
+
+  createBufferSource() {
+    const label = `source ${this.nodeCount++}`;
+    return {
+      ...this.makeNode(label),
+      buffer: null as null | { url: string },
+      loop: false,
+      playbackRate: makeParam(label, 1),
+      onended: null as null | (() => void),
+      start() {
+        log(
+          `${label} starts playing ${this.buffer!.url}${
+            this.loop ? ", looping" : ""
+          }`
+        );
+      },
+      stop(time?: number) {
+        log(`${label} stops at ${time ?? "once"}`);
+      },
+    };
+  }
+
+  decodeAudioData(data: ArrayBuffer) {
+    return Promise.resolve({ url: new TextDecoder().decode(data) });
+  }
+}
+
+// The clip's "data" is its URL, so that the logs say which clip is playing.
+Object.assign(global, {
+  fetch: (url: string) =>
+    Promise.resolve(
+      url.startsWith("missing")
+        ? { ok: false, status: 404, statusText: "Not Found" }
+        : {
+            ok: true,
+            arrayBuffer: () =>
+              Promise.resolve(new TextEncoder().encode(url).buffer),
+          }
+    ),
+});
+
+// Waits for every pending download and decode to finish.
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+function setup<T>(
+  { interacted = true } = {},
+  // Runs while the root is being created, so that it can add children.
+  setupChildren: () => T = () => (undefined as any) as T
+) {
+  let audioContext: FakeAudioContext | null = interacted
+    ? new FakeAudioContext()
+    : null;
+
+  const { canvas, result } = createHeadlessRoot(() => {
+    useNewComponent(() =>
+      ErrorBoundary((error) => log(`error: ${error.message}`))
+    );
+
+    // Stands in for the real AudioContext Component, which waits for a click.
+    useNewComponent(() => {
+      useType(AudioContextComponent);
+      return {
+        get audioContext() {
+          return (audioContext as unknown) as AudioContext | null;
+        },
+      };
+    });
+
+    const camera = useNewComponent(Camera);
+    camera.viewSize = new Point(200, 100);
+
+    const mixer = useNewComponent(AudioMixer);
+    return { mixer, camera, children: setupChildren() };
+  });
+
+  return {
+    ...result,
+    canvas,
+    get audioContext() {
+      return audioContext;
+    },
+    interact() {
+      audioContext = new FakeAudioContext();
+    },
+  };
+}
+
+test("buses and the master volume control their own gain nodes", () => {
+  const { mixer } = setup();
+
+  const sfxNode = (mixer.busNode("sfx") as unknown) as ReturnType<
+    FakeAudioContext["createGain"]
+  >;
+  const musicNode = (mixer.busNode("music") as unknown) as ReturnType<
+    FakeAudioContext["createGain"]
+  >;
+
+  mixer.buses.sfx.volume = 0.5;
+  mixer.buses.music.muted = true;
+  mixer.volume = 0.8;
+  log(`sfx: ${sfxNode.gain.value}, music: ${musicNode.gain.value}`);
+
+  mixer.buses.music.muted = false;
+  mixer.muted = true;
+  log(`sfx: ${sfxNode.gain.value}, music: ${musicNode.gain.value}`);
+
+  expect(() => mixer.play("boom.ogg", { bus: "voices" })).toThrow(
+    'Unknown audio bus "voices"'
+  );
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "gain 0 -> destination",
+      "gain 1 -> gain 0",
+      "gain 2 -> gain 0",
+      "gain 3 -> gain 0",
+      "sfx: 0.5, music: 0",
+      "sfx: 0.5, music: 1",
+    ]
+  `);
+});
+
+test("voices play through their bus, and can overlap and fade out", async () => {
+  const { mixer } = setup();
+
+  const first = mixer.play("boom.ogg", { volume: 0.5 });
+  const second = mixer.play("boom.ogg", { bus: "ui", playbackRate: 2 });
+  log(`playing: ${first.isPlaying}, ${second.isPlaying}`);
+  await flushPromises();
+
+  second.stop(500);
+  log(`playing: ${first.isPlaying}, ${second.isPlaying}`);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "gain 0 -> destination",
+      "gain 1 -> gain 0",
+      "gain 2 -> gain 0",
+      "gain 3 -> gain 0",
+      "playing: true, true",
+      "source 4 -> gain 5",
+      "gain 5 -> gain 2",
+      "source 4 starts playing boom.ogg",
+      "source 6 -> gain 7",
+      "gain 7 -> gain 3",
+      "source 6 starts playing boom.ogg",
+      "gain 7 ramps to 0 at 0.5",
+      "source 6 stops at 0.5",
+      "playing: true, false",
+    ]
+  `);
+});
+
+test("playMusic crossfades from the current music to the new music", async () => {
+  const { mixer } = setup();
+
+  mixer.playMusic("title.ogg", { crossfade: 0 });
+  await flushPromises();
+  messages.length = 0;
+
+  mixer.playMusic("level.ogg", { volume: 0.5, crossfade: 2000 });
+  await flushPromises();
+  mixer.stopMusic(500);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "gain 5 ramps to 0 at 2",
+      "source 4 stops at 2",
+      "gain 7 ramps to 0.5 at 2",
+      "source 6 -> gain 7",
+      "gain 7 -> gain 1",
+      "source 6 starts playing level.ogg, looping",
+      "gain 7 ramps to 0 at 0.5",
+      "source 6 stops at 0.5",
+    ]
+  `);
+});
+
+test("sounds played before the user interacts are skipped, but music waits for them", async () => {
+  const { mixer, canvas, interact } = setup({ interacted: false });
+
+  log(`sfx playing: ${mixer.play("boom.ogg").isPlaying}`);
+  mixer.playMusic("title.ogg", { crossfade: 0 });
+  canvas.runFrames(1);
+  await flushPromises();
+  log("user clicks");
+
+  interact();
+  canvas.runFrames(1);
+  await flushPromises();
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "sfx playing: false",
+      "user clicks",
+      "gain 0 -> destination",
+      "gain 1 -> gain 0",
+      "gain 2 -> gain 0",
+      "gain 3 -> gain 0",
+      "source 4 -> gain 5",
+      "gain 5 -> gain 1",
+      "source 4 starts playing title.ogg, looping",
+    ]
+  `);
+});
+
+test("sounds played from an Entity are panned towards where it is on the screen", async () => {
+  const setupResult = setup({}, () => {
+    let geometry!: ReturnType<typeof Geometry>;
+    const emitter = useChild(() => {
+      geometry = useNewComponent(() =>
+        Geometry({
+          shape: Polygon.rectangle(1, 1),
+          position: new Point(-50, 0),
+        })
+      );
+    });
+    // Entities without a Geometry are played in the middle.
+    const bystander = useChild(() => {});
+
+    return { geometry, emitter, bystander };
+  });
+  const { mixer, camera, canvas, children } = setupResult;
+
+  mixer.play("step.ogg", { entity: children.emitter, loop: true });
+  mixer.play("step.ogg", { entity: children.bystander, loop: true });
+  await flushPromises();
+  messages.length = 0;
+
+  const logPans = () =>
+    log(
+      setupResult
+        .audioContext!.panners.map(({ label, pan }) => `${label}: ${pan.value}`)
+        .join(", ")
+    );
+
+  // The camera's view is 200 wide, centered on 0, 0.
+  logPans();
+  children.geometry.position.x = 50;
+  canvas.runFrames(1);
+  logPans();
+  camera.position.x = 50;
+  canvas.runFrames(1);
+  logPans();
+  camera.zoom = 0.5;
+  children.geometry.position.x = -1000;
+  canvas.runFrames(1);
+  logPans();
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "panner 6: -0.5, panner 9: 0",
+      "panner 6: 0.5, panner 9: 0",
+      "panner 6: 0, panner 9: 0",
+      "panner 6: -1, panner 9: 0",
+    ]
+  `);
+});
+
+test("clips that fail to download are reported, without failing the Preloader", async () => {
+  const { mixer } = setup();
+
+  await mixer.load("missing.ogg");
+  await Preloader.load();
+  log("loaded");
+
+  const voice = mixer.play("missing.ogg");
+  await flushPromises();
+  log(`playing: ${voice.isPlaying}`);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "error: Failed to load audio clip missing.ogg: 404 Not Found",
+      "loaded",
+      "gain 0 -> destination",
+      "gain 1 -> gain 0",
+      "gain 2 -> gain 0",
+      "gain 3 -> gain 0",
+      "playing: false",
+    ]
+  `);
+});
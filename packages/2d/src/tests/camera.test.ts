@@ -0,0 +1,229 @@
+import {
+  useNewComponent,
+  useChild,
+  useEntityName,
+  useCallbackAsCurrent,
+  Entity,
+} from "@hex-engine/core";
+import Camera from "../Components/Camera";
+import Geometry from "../Components/Geometry";
+import { useEntitiesAtPoint } from "../Hooks";
+import { Angle, Point, Polygon } from "../Models";
+import { messages, log, createHeadlessRoot } from "./helpers";
+
+const describePoint = ({ x, y }: Point) => `${+x.toFixed(2)}, ${+y.toFixed(2)}`;
+
+function makeBox(name: string, position: Point) {
+  return useChild(() => {
+    useEntityName(name);
+    useNewComponent(() =>
+      Geometry({ shape: Polygon.rectangle(40, 40), position })
+    );
+  });
+}
+
+function setup(
+  register: (camera: ReturnType<typeof Camera>) => void = () => {}
+) {
+  const { canvas, result } = createHeadlessRoot(() => {
+    const camera = useNewComponent(Camera);
+    camera.viewSize = new Point(200, 100);
+    register(camera);
+
+    const player = makeBox("player", new Point(0, 0));
+    return { camera, player };
+  });
+  const { camera, player } = result;
+  const playerPosition = player.getComponent(Geometry)!.position;
+
+  const logCamera = (description: string) =>
+    log(`${description}: camera at ${describePoint(camera.position)}`);
+
+  return { canvas, camera, player, playerPosition, logCamera };
+}
+
+test("following an Entity keeps it within the deadzone", () => {
+  const { canvas, camera, player, playerPosition, logCamera } = setup();
+
+  camera.follow(player, { deadzone: new Point(40, 20) });
+
+  playerPosition.x = 15;
+  canvas.runFrames(1);
+  logCamera("inside the deadzone");
+
+  playerPosition.x = 50;
+  canvas.runFrames(1);
+  logCamera("right of the deadzone");
+
+  playerPosition.mutateInto({ x: 0, y: -30 });
+  canvas.runFrames(1);
+  logCamera("above and left of the deadzone");
+
+  camera.follow(null);
+  playerPosition.y = 500;
+  canvas.runFrames(1);
+  logCamera("after unfollowing");
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "inside the deadzone: camera at 0, 0",
+      "right of the deadzone: camera at 30, 0",
+      "above and left of the deadzone: camera at 20, -20",
+      "after unfollowing: camera at 20, -20",
+    ]
+  `);
+});
+
+test("damping covers the same distance however long each frame is", () => {
+  const { canvas, camera, player, playerPosition, logCamera } = setup();
+
+  camera.follow(player, { damping: 0.5 });
+  playerPosition.x = 100;
+
+  canvas.runFrames(1, 1000 / 60);
+  logCamera("after one 60th of a second");
+  canvas.runFrames(2, 1000 / 120);
+  logCamera("after two 120ths of a second");
+  canvas.runFrames(1, 1000 / 30);
+  logCamera("after one 30th of a second");
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "after one 60th of a second: camera at 50, 0",
+      "after two 120ths of a second: camera at 75, 0",
+      "after one 30th of a second: camera at 93.75, 0",
+    ]
+  `);
+});
+
+test("bounds keep the view inside them, or centered on them when it's too big", () => {
+  const { canvas, camera, logCamera } = setup();
+
+  camera.setBounds(new Point(400, 300), new Point(-100, -100));
+  logCamera("after setting bounds");
+
+  camera.position.mutateInto({ x: 1000, y: 1000 });
+  canvas.runFrames(1);
+  logCamera("moved past the bottom-right");
+
+  camera.zoom = 2;
+  camera.position.mutateInto({ x: -1000, y: -1000 });
+  canvas.runFrames(1);
+  logCamera("zoomed in, moved past the top-left");
+
+  camera.zoom = 0.25;
+  canvas.runFrames(1);
+  logCamera("zoomed out further than the bounds");
+
+  camera.setBounds(null);
+  camera.position.mutateInto({ x: 1000, y: 1000 });
+  canvas.runFrames(1);
+  logCamera("after removing the bounds");
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "after setting bounds: camera at 0, 0",
+      "moved past the bottom-right: camera at 200, 150",
+      "zoomed in, moved past the top-left: camera at -50, -75",
+      "zoomed out further than the bounds: camera at 100, 50",
+      "after removing the bounds: camera at 1000, 1000",
+    ]
+  `);
+});
+
+test("screenToWorld and worldToScreen account for position, zoom and rotation", () => {
+  const { camera } = setup();
+  const screenPoints = [
+    new Point(0, 0),
+    new Point(100, 50),
+    new Point(200, 100),
+    new Point(30, 70),
+  ];
+
+  const logConversions = (description: string) => {
+    log(description);
+    for (const screenPos of screenPoints) {
+      const worldPos = camera.screenToWorld(screenPos);
+      log(
+        `  screen ${describePoint(screenPos)} -> world ${describePoint(
+          worldPos
+        )} -> screen ${describePoint(camera.worldToScreen(worldPos))}`
+      );
+    }
+  };
+
+  logConversions("centered on 0, 0");
+
+  camera.position.mutateInto({ x: 100, y: 50 });
+  camera.zoom = 2;
+  logConversions("centered on 100, 50, zoomed in");
+
+  camera.rotation = new Angle(Math.PI / 2);
+  logConversions("rotated by a quarter turn");
+
+  log(
+    `with a different view size: ${describePoint(
+      camera.screenToWorld(new Point(0, 0), new Point(400, 200))
+    )}`
+  );
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "centered on 0, 0",
+      "  screen 0, 0 -> world -100, -50 -> screen 0, 0",
+      "  screen 100, 50 -> world 0, 0 -> screen 100, 50",
+      "  screen 200, 100 -> world 100, 50 -> screen 200, 100",
+      "  screen 30, 70 -> world -70, 20 -> screen 30, 70",
+      "centered on 100, 50, zoomed in",
+      "  screen 0, 0 -> world 50, 25 -> screen 0, 0",
+      "  screen 100, 50 -> world 100, 50 -> screen 100, 50",
+      "  screen 200, 100 -> world 150, 75 -> screen 200, 100",
+      "  screen 30, 70 -> world 65, 60 -> screen 30, 70",
+      "rotated by a quarter turn",
+      "  screen 0, 0 -> world 125, 0 -> screen 0, 0",
+      "  screen 100, 50 -> world 100, 50 -> screen 100, 50",
+      "  screen 200, 100 -> world 75, 100 -> screen 200, 100",
+      "  screen 30, 70 -> world 90, 15 -> screen 30, 70",
+      "with a different view size: 150, -50",
+    ]
+  `);
+});
+
+test("useEntitiesAtPoint converts Canvas positions through the Camera", () => {
+  let getEntitiesAt!: (pos: Point, space: "world" | "canvas") => Array<Entity>;
+  const { camera } = setup(() => {
+    makeBox("behind", new Point(20, 0));
+    makeBox("in front", new Point(40, 0));
+    getEntitiesAt = useCallbackAsCurrent(
+      (pos: Point, space: "world" | "canvas") =>
+        useEntitiesAtPoint(pos, { space })
+    );
+  });
+
+  const logEntitiesAt = (pos: Point, space: "world" | "canvas") =>
+    log(
+      `${space} ${describePoint(pos)}: ${getEntitiesAt(pos, space)
+        .map((ent) => ent.name)
+        .join(", ") || "nothing"}`
+    );
+
+  logEntitiesAt(new Point(30, 0), "world");
+  logEntitiesAt(new Point(130, 50), "canvas");
+
+  // Canvas positions are now half as far from the center of the view, which is 20, 0.
+  camera.position.x = 20;
+  camera.zoom = 2;
+  logEntitiesAt(new Point(10, 0), "world");
+  logEntitiesAt(new Point(80, 50), "canvas");
+  logEntitiesAt(new Point(160, 50), "canvas");
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "world 30, 0: in front, behind",
+      "canvas 130, 50: in front, behind",
+      "world 10, 0: player, behind",
+      "canvas 80, 50: player, behind",
+      "canvas 160, 50: in front",
+    ]
+  `);
+});
@@ -0,0 +1,438 @@
+// Node doesn't have DOMMatrix or DOMPoint, which `TransformMatrix` and `Point` use
+// for all of their transforms. These stand-ins only handle 2D transforms, and only
+// have the methods that the engine calls when the `...Self` methods are missing.
+//
+// It doesn't have canvases either, so `document.createElement("canvas")` returns a
+// `FakeCanvas`, which keeps its event listeners so that tests can check them, and whose
+// context keeps track of its transform, records what's drawn, and
+// keeps track of the pixels that untransformed `fillRect`s and `drawImage`s draw,
+// inside the rectangle it was last clipped to.
+// `document.createElement("img")` returns a `FakeImage`, which never downloads anything.
+//
+// Node does have the web streams that `Tiled.Layer` decompresses layer data with,
+// but jest doesn't pass them through (or atob), so they're brought back here.
+// This version of @types/node doesn't know about them yet.
+const { ReadableStream, DecompressionStream } = require("stream/web");
+
+class FakeDOMMatrix {
+  a = 1;
+  b = 0;
+  c = 0;
+  d = 1;
+  e = 0;
+  f = 0;
+
+  get is2D() {
+    return true;
+  }
+
+  multiply(other: FakeDOMMatrix): FakeDOMMatrix {
+    const result = new FakeDOMMatrix();
+    result.a = this.a * other.a + this.c * other.b;
+    result.b = this.b * other.a + this.d * other.b;
+    result.c = this.a * other.c + this.c * other.d;
+    result.d = this.b * other.c + this.d * other.d;
+    result.e = this.a * other.e + this.c * other.f + this.e;
+    result.f = this.b * other.e + this.d * other.f + this.f;
+    return result;
+  }
+
+  translate(x: number = 0, y: number = 0): FakeDOMMatrix {
+    return this.multiply(fromValues(1, 0, 0, 1, x, y));
+  }
+
+  scale(
+    scaleX: number = 1,
+    scaleY: number = scaleX,
+    _scaleZ?: number,
+    originX: number = 0,
+    originY: number = 0
+  ): FakeDOMMatrix {
+    return this.translate(originX, originY)
+      .multiply(fromValues(scaleX, 0, 0, scaleY, 0, 0))
+      .translate(-originX, -originY);
+  }
+
+  rotate(degrees: number = 0): FakeDOMMatrix {
+    const radians = (degrees * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    return this.multiply(fromValues(cos, sin, -sin, cos, 0, 0));
+  }
+
+  inverse(): FakeDOMMatrix {
+    const { a, b, c, d, e, f } = this;
+    const determinant = a * d - b * c;
+    if (determinant === 0) {
+      return fromValues(NaN, NaN, NaN, NaN, NaN, NaN);
+    }
+    return fromValues(
+      d / determinant,
+      -b / determinant,
+      -c / determinant,
+      a / determinant,
+      (c * f - d * e) / determinant,
+      (b * e - a * f) / determinant
+    );
+  }
+}
+
+function fromValues(
+  a: number,
+  b: number,
+  c: number,
+  d: number,
+  e: number,
+  f: number
+) {
+  return Object.assign(new FakeDOMMatrix(), { a, b, c, d, e, f });
+}
+
+class FakeDOMPoint {
+  constructor(public x: number = 0, public y: number = 0) {}
+
+  matrixTransform(matrix: FakeDOMMatrix): FakeDOMPoint {
+    return new FakeDOMPoint(
+      matrix.a * this.x + matrix.c * this.y + matrix.e,
+      matrix.b * this.x + matrix.d * this.y + matrix.f
+    );
+  }
+}
+
+let canvasCount = 0;
+
+/** Start numbering canvases from 0 again, so that each test's labels are the same however it's run. */
+export function resetCanvasCount() {
+  canvasCount = 0;
+}
+
+export class FakeCanvas {
+  /** A name for this canvas, for `FakeCanvasContext.calls`, eg "canvas 2". */
+  label = `canvas ${canvasCount++}`;
+  width = 300;
+  height = 150;
+  style: { [property: string]: string } = {};
+  context = new FakeCanvasContext(this);
+
+  /** The functions listening for each type of event. */
+  listeners: { [type: string]: Array<(event: any) => void> } = {};
+
+  getContext() {
+    return this.context;
+  }
+
+  addEventListener(type: string, listener: (event: any) => void) {
+    this.listeners[type] = [...(this.listeners[type] || []), listener];
+  }
+  removeEventListener(type: string, listener: (event: any) => void) {
+    this.listeners[type] = (this.listeners[type] || []).filter(
+      (existing) => existing !== listener
+    );
+  }
+}
+
+/** An image that "loads" on the next tick after its `src` is set, and is always 64x64. */
+export class FakeImage {
+  width = 0;
+  height = 0;
+  onload: null | (() => void) = null;
+  onerror: null | ((event: any) => void) = null;
+  private source = "";
+
+  /** The image's `src`, so that `FakeCanvasContext.calls` says which image was drawn. */
+  get label() {
+    return this.source;
+  }
+
+  get src() {
+    return this.source;
+  }
+  set src(url: string) {
+    this.source = url;
+    setImmediate(() => {
+      this.width = 64;
+      this.height = 64;
+      if (this.onload) this.onload();
+    });
+  }
+}
+
+/** Parses an "rgb(...)" or "rgba(...)" color into bytes, like ImageData has. */
+function parseColor(color: string): [number, number, number, number] {
+  const match = color.match(/^rgba?\(([^)]*)\)$/);
+  if (!match) {
+    throw new Error(`Can't parse the color ${color} in tests`);
+  }
+  const [r, g, b, a = 1] = match[1].split(",").map(Number);
+  return [r, g, b, Math.round(Math.min(1, a) * 255)];
+}
+
+type FakeImageData = { width: number; height: number; data: Uint8ClampedArray };
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+export class FakeCanvasContext {
+  /** A description of every drawing call made on this context, in order. */
+  calls: Array<string> = [];
+
+  fillStyle = "rgb(0, 0, 0)";
+  globalAlpha = 1;
+  globalCompositeOperation = "source-over";
+
+  private matrix = new FakeDOMMatrix();
+  private path: Array<Rect> = [];
+  private clipRect: Rect | null = null;
+  private stack: Array<{
+    matrix: FakeDOMMatrix;
+    clipRect: Rect | null;
+    fillStyle: string;
+    globalAlpha: number;
+    globalCompositeOperation: string;
+  }> = [];
+  private pixelData = new Uint8ClampedArray(0);
+
+  constructor(public canvas: FakeCanvas) {}
+
+  /** The canvas's pixels, 4 bytes (RGBA) per pixel, row by row. */
+  get pixels(): Uint8ClampedArray {
+    const { width, height } = this.canvas;
+    if (this.pixelData.length !== width * height * 4) {
+      this.pixelData = new Uint8ClampedArray(width * height * 4);
+    }
+    return this.pixelData;
+  }
+
+  /** Draws a color over the pixel at the specified position, like "source-over" does. */
+  private blendPixel(x: number, y: number, [r, g, b, a]: Iterable<number>) {
+    const { width, height } = this.canvas;
+    if (x < 0 || y < 0 || x >= width || y >= height) return;
+    const { clipRect } = this;
+    if (
+      clipRect &&
+      (x < clipRect.x ||
+        y < clipRect.y ||
+        x >= clipRect.x + clipRect.width ||
+        y >= clipRect.y + clipRect.height)
+    ) {
+      return;
+    }
+    if (this.globalCompositeOperation !== "source-over") {
+      throw new Error(
+        `Can't draw with ${this.globalCompositeOperation} in tests`
+      );
+    }
+
+    const pixels = this.pixels;
+    const offset = (y * width + x) * 4;
+    const sourceAlpha = (a / 255) * this.globalAlpha;
+    const backdropAlpha = pixels[offset + 3] / 255;
+    const resultAlpha = sourceAlpha + backdropAlpha * (1 - sourceAlpha);
+    if (resultAlpha === 0) return;
+
+    [r, g, b].forEach((source, channel) => {
+      pixels[offset + channel] =
+        (source * sourceAlpha +
+          pixels[offset + channel] * backdropAlpha * (1 - sourceAlpha)) /
+        resultAlpha;
+    });
+    pixels[offset + 3] = resultAlpha * 255;
+  }
+
+  getTransform() {
+    return this.matrix.multiply(new FakeDOMMatrix());
+  }
+  setTransform(
+    a: number,
+    b: number,
+    c: number,
+    d: number,
+    e: number,
+    f: number
+  ) {
+    this.matrix = fromValues(a, b, c, d, e, f);
+  }
+  resetTransform() {
+    this.matrix = new FakeDOMMatrix();
+  }
+  transform(a: number, b: number, c: number, d: number, e: number, f: number) {
+    this.matrix = this.matrix.multiply(fromValues(a, b, c, d, e, f));
+  }
+  translate(x: number, y: number) {
+    this.matrix = this.matrix.translate(x, y);
+  }
+  scale(x: number, y: number) {
+    this.matrix = this.matrix.scale(x, y);
+  }
+  rotate(radians: number) {
+    this.matrix = this.matrix.rotate((radians * 180) / Math.PI);
+  }
+  save() {
+    const {
+      matrix,
+      clipRect,
+      fillStyle,
+      globalAlpha,
+      globalCompositeOperation,
+    } = this;
+    this.stack.push({
+      matrix,
+      clipRect,
+      fillStyle,
+      globalAlpha,
+      globalCompositeOperation,
+    });
+  }
+  restore() {
+    Object.assign(this, this.stack.pop());
+  }
+
+  beginPath() {
+    this.calls.push("beginPath");
+    this.path = [];
+  }
+  /** Only translation and scale are applied to the rectangle, so it stays a rectangle. */
+  rect(x: number, y: number, width: number, height: number) {
+    this.calls.push(`rect ${x}, ${y}, ${width}, ${height}`);
+    const { a, d, e, f } = this.matrix;
+    this.path.push({
+      x: a * x + e,
+      y: d * y + f,
+      width: a * width,
+      height: d * height,
+    });
+  }
+  clip() {
+    if (this.path.length !== 1) {
+      throw new Error("Can only clip to a path with one rectangle in tests");
+    }
+    const [rect] = this.path;
+    this.calls.push("clip");
+
+    const { clipRect } = this;
+    if (!clipRect) {
+      this.clipRect = rect;
+      return;
+    }
+    const x = Math.max(rect.x, clipRect.x);
+    const y = Math.max(rect.y, clipRect.y);
+    this.clipRect = {
+      x,
+      y,
+      width: Math.max(
+        0,
+        Math.min(rect.x + rect.width, clipRect.x + clipRect.width) - x
+      ),
+      height: Math.max(
+        0,
+        Math.min(rect.y + rect.height, clipRect.y + clipRect.height) - y
+      ),
+    };
+  }
+
+  /** Describes `globalAlpha` for `calls`, unless it's 1. */
+  private describeAlpha() {
+    return this.globalAlpha === 1
+      ? ""
+      : `, alpha ${+this.globalAlpha.toFixed(2)}`;
+  }
+
+  clearRect(x: number, y: number, width: number, height: number) {
+    this.calls.push(`clearRect ${x}, ${y}, ${width}, ${height}`);
+    this.pixels.fill(0);
+  }
+  fillRect(x: number, y: number, width: number, height: number) {
+    this.calls.push(
+      `fillRect ${x}, ${y}, ${width}, ${height} with ${
+        this.fillStyle
+      }${this.describeAlpha()}`
+    );
+    const color = parseColor(this.fillStyle);
+    for (let j = y; j < y + height; j++) {
+      for (let i = x; i < x + width; i++) {
+        this.blendPixel(i, j, color);
+      }
+    }
+  }
+  drawImage(
+    image: FakeCanvas | { label?: string },
+    x: number,
+    y: number,
+    width?: number,
+    height?: number
+  ) {
+    const label = image.label || "image";
+    this.calls.push(
+      (width == null
+        ? `drawImage ${label} at ${x}, ${y}`
+        : `drawImage ${label} at ${x}, ${y}, size ${width}, ${height}`) +
+        this.describeAlpha()
+    );
+
+    if (!(image instanceof FakeCanvas) || width != null) return;
+    const source = image.context.pixels;
+    for (let j = 0; j < image.height; j++) {
+      for (let i = 0; i < image.width; i++) {
+        const offset = (j * image.width + i) * 4;
+        this.blendPixel(x + i, y + j, source.subarray(offset, offset + 4));
+      }
+    }
+  }
+  getImageData(x: number, y: number, width: number, height: number) {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let j = 0; j < height; j++) {
+      const start = ((y + j) * this.canvas.width + x) * 4;
+      data.set(this.pixels.subarray(start, start + width * 4), j * width * 4);
+    }
+    return { width, height, data };
+  }
+  putImageData({ width, height, data }: FakeImageData, x: number, y: number) {
+    for (let j = 0; j < height; j++) {
+      this.pixels.set(
+        data.subarray(j * width * 4, (j + 1) * width * 4),
+        ((y + j) * this.canvas.width + x) * 4
+      );
+    }
+  }
+}
+
+/** Just enough of `Response` to turn bytes into a stream and back again. */
+class FakeResponse {
+  body: ReadableStream;
+
+  constructor(body: Uint8Array | ReadableStream) {
+    this.body =
+      body instanceof ReadableStream
+        ? body
+        : new ReadableStream({
+            start(controller) {
+              controller.enqueue(body);
+              controller.close();
+            },
+          });
+  }
+
+  async arrayBuffer(): Promise<ArrayBuffer> {
+    const chunks: Array<Uint8Array> = [];
+    for await (const chunk of this.body as any) {
+      chunks.push(chunk);
+    }
+    return Uint8Array.from(Buffer.concat(chunks)).buffer;
+  }
+}
+
+Object.assign(global, {
+  window: global,
+  atob: (text: string) => Buffer.from(text, "base64").toString("binary"),
+  DecompressionStream,
+  Response: FakeResponse,
+  DOMMatrix: FakeDOMMatrix,
+  DOMPoint: FakeDOMPoint,
+  navigator: { userAgent: "node" },
+  document: {
+    createElement(tagName: string) {
+      if (tagName === "canvas") return new FakeCanvas();
+      if (tagName === "img") return new FakeImage();
+      throw new Error(`Can't create a <${tagName}> in tests`);
+    },
+  },
+});
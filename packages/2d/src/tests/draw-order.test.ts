@@ -0,0 +1,154 @@
+import {
+  useType,
+  useNewComponent,
+  useChild,
+  useEntityName,
+  useCallbackAsCurrent,
+  Entity,
+} from "@hex-engine/core";
+import Canvas, { useDrawLayer, useDebugOverlayDrawTime } from "../Canvas";
+import { DrawLayerOptions } from "../Canvas/DrawLayers";
+import Geometry from "../Components/Geometry";
+import { Point, Polygon } from "../Models";
+import { messages, log, createHeadlessRoot } from "./helpers";
+
+/** Stands in for a Component that draws something. */
+function Drawing() {
+  useType(Drawing);
+}
+
+/** Stands in for a Component that draws a debug overlay. */
+function Overlay() {
+  useType(Overlay);
+  useDebugOverlayDrawTime();
+}
+
+function makeThing(
+  name: string,
+  { layer, zIndex, y }: { layer?: string; zIndex?: number; y?: number } = {},
+  children: () => void = () => {}
+) {
+  return useChild(() => {
+    useEntityName(name);
+    if (layer != null) {
+      useDrawLayer(layer, zIndex);
+    }
+    if (y != null) {
+      useNewComponent(() =>
+        Geometry({
+          shape: Polygon.rectangle(10, 10),
+          position: new Point(0, y),
+        })
+      );
+    }
+    useNewComponent(Drawing);
+    children();
+  });
+}
+
+function setup<T>(
+  layers: ReadonlyArray<DrawLayerOptions>,
+  makeThings: () => T
+) {
+  const { root, result } = createHeadlessRoot(() => {
+    useNewComponent(() => Canvas.DrawLayers(layers));
+    return makeThings();
+  });
+
+  const logDrawOrder = (description: string) => {
+    const sorted = Canvas.DrawOrder.defaultSort([root, ...root.descendants()]);
+    log(
+      `${description}: ${sorted
+        .filter(
+          (component) =>
+            component.type === Drawing || component.type === Overlay
+        )
+        .map(
+          (component) =>
+            `${component.entity.name}${
+              component.type === Overlay ? " (overlay)" : ""
+            }`
+        )
+        .join(", ")}`
+    );
+  };
+
+  return { result, logDrawOrder };
+}
+
+test("Components are sorted by layer, then z-index, then creation order", () => {
+  const { logDrawOrder } = setup(Canvas.DrawLayers.defaultLayers, () => {
+    makeThing("hud", { layer: "ui" }, () => {
+      makeThing("hud icon");
+    });
+    makeThing("first", {}, () => {
+      useNewComponent(Overlay);
+    });
+    makeThing("sky", { layer: "background" }, () => {
+      makeThing("cloud", { layer: "foreground" });
+    });
+    makeThing("raised", { layer: "world", zIndex: 5 });
+    makeThing("lowered", { layer: "world", zIndex: -5 });
+    makeThing("second");
+  });
+
+  logDrawOrder("draw order");
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "draw order: sky, lowered, first, second, raised, cloud, hud, hud icon, first (overlay)",
+    ]
+  `);
+});
+
+test("y-sorted layers draw things lower on the screen on top, as they move", () => {
+  let positions!: Array<Point>;
+  const { logDrawOrder } = setup(
+    ["background", { name: "world", ySort: true }, "debug"],
+    () => {
+      positions = [
+        makeThing("tree", { y: 30 }),
+        makeThing("player", { y: 10 }),
+        makeThing("rock", { y: 20 }),
+        makeThing("bush", { y: 20 }),
+        makeThing("sky", { layer: "background", y: 100 }),
+      ].map((ent) => ent.getComponent(Geometry)!.position);
+    }
+  );
+
+  logDrawOrder("at the start");
+  positions[1].y = 25;
+  logDrawOrder("after the player moves down");
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "at the start: sky, player, rock, bush, tree",
+      "after the player moves down: sky, rock, bush, player, tree",
+    ]
+  `);
+});
+
+test("an Entity's layer is looked up again after useDrawLayer is called", () => {
+  let parent!: Entity;
+  let moveToForeground!: () => void;
+  const { logDrawOrder } = setup(Canvas.DrawLayers.defaultLayers, () => {
+    parent = makeThing("parent", {}, () => {
+      moveToForeground = useCallbackAsCurrent(() => useDrawLayer("foreground"));
+      makeThing("child");
+    });
+    makeThing("sibling");
+  });
+
+  logDrawOrder("before");
+  logDrawOrder("again");
+  moveToForeground();
+  logDrawOrder(`after moving ${parent.name} to the foreground`);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "before: parent, child, sibling",
+      "again: parent, child, sibling",
+      "after moving parent to the foreground: sibling, parent, child",
+    ]
+  `);
+});
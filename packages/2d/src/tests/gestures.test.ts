@@ -0,0 +1,219 @@
+import {
+  useNewComponent,
+  useChild,
+  useEntityName,
+  Entity,
+} from "@hex-engine/core";
+import Geometry from "../Components/Geometry";
+import Gestures from "../Components/Gestures";
+import Pointer from "../Components/Pointer";
+import { useContext } from "../Hooks";
+import { RecordedTick } from "../Components/InputRecorder";
+import { Point, Polygon } from "../Models";
+import {
+  messages,
+  log,
+  createPlaybackRoot,
+  createCanvasRoot,
+  touch,
+} from "./helpers";
+
+const describePoint = ({ x, y }: Point) => `${+x.toFixed(2)}, ${+y.toFixed(2)}`;
+
+/** Empty ticks, for time to pass in. Each one is 16ms. */
+const wait = (ticks: number): Array<Omit<RecordedTick, "time">> =>
+  new Array(ticks).fill({});
+
+/** Plays back the ticks to an Entity with `Gestures` on it, logging every gesture. */
+function playGestures(
+  ticks: Array<Omit<RecordedTick, "time">>,
+  makeEntity: (setup: () => void) => Entity = useChild
+) {
+  const { player } = createPlaybackRoot(ticks, () => {
+    makeEntity(() => {
+      const gestures = useNewComponent(Gestures);
+      gestures.onTap(({ pos }) => log(`tap at ${describePoint(pos)}`));
+      gestures.onDoubleTap(({ pos }) =>
+        log(`double tap at ${describePoint(pos)}`)
+      );
+      gestures.onLongPress(({ pos }) =>
+        log(`long press at ${describePoint(pos)}`)
+      );
+      gestures.onSwipe(({ direction, start, end, velocity }) =>
+        log(
+          `swipe ${direction} from ${describePoint(start)} to ${describePoint(
+            end
+          )}, velocity ${describePoint(velocity)}`
+        )
+      );
+      gestures.onPinch(({ scale, scaleDelta, center }) =>
+        log(
+          `pinch: scale ${+scale.toFixed(2)} (${+scaleDelta.toFixed(
+            2
+          )}), center ${describePoint(center)}`
+        )
+      );
+      gestures.onRotate(({ angle, angleDelta, center }) =>
+        log(
+          `rotate: ${Math.round(
+            (angle.radians * 180) / Math.PI
+          )} degrees (${Math.round(
+            (angleDelta * 180) / Math.PI
+          )}), center ${describePoint(center)}`
+        )
+      );
+    });
+  });
+
+  player.playToEnd();
+}
+
+test("taps, double taps and long presses", () => {
+  playGestures([
+    { inputs: [touch("pointerdown", 1, 10, 10)] },
+    { inputs: [touch("pointerup", 1, 12, 10)] },
+    { inputs: [touch("pointerdown", 1, 15, 12)] },
+    { inputs: [touch("pointerup", 1, 15, 12)] },
+    // A third tap starts over, instead of making another double tap.
+    { inputs: [touch("pointerdown", 1, 15, 12)] },
+    { inputs: [touch("pointerup", 1, 15, 12)] },
+    ...wait(20),
+    // Held for more than 500ms.
+    { inputs: [touch("pointerdown", 1, 50, 50)] },
+    ...wait(32),
+    { inputs: [touch("pointerup", 1, 50, 50)] },
+    // Moving too far stops it being a tap.
+    { inputs: [touch("pointerdown", 1, 50, 50)] },
+    { inputs: [touch("pointermove", 1, 70, 50)] },
+    { inputs: [touch("pointerup", 1, 70, 50)] },
+  ]);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "tap at 12, 10",
+      "tap at 15, 12",
+      "double tap at 15, 12",
+      "tap at 15, 12",
+      "long press at 50, 50",
+    ]
+  `);
+});
+
+test("swipes have to be long enough and quick enough", () => {
+  playGestures([
+    { inputs: [touch("pointerdown", 1, 0, 0)] },
+    { inputs: [touch("pointermove", 1, 30, 5)] },
+    { inputs: [touch("pointermove", 1, 60, 10)] },
+    { inputs: [touch("pointerup", 1, 80, 10)] },
+    // Mostly upwards.
+    { inputs: [touch("pointerdown", 1, 100, 100)] },
+    { inputs: [touch("pointerup", 1, 70, 40)] },
+    // Too short.
+    { inputs: [touch("pointerdown", 1, 0, 0)] },
+    { inputs: [touch("pointerup", 1, 0, 40)] },
+    // Too slow.
+    { inputs: [touch("pointerdown", 1, 0, 0)] },
+    { inputs: [touch("pointermove", 1, 20, 0)] },
+    ...wait(40),
+    { inputs: [touch("pointerup", 1, 100, 0)] },
+  ]);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "swipe right from 0, 0 to 80, 10, velocity 2.5, 0.31",
+      "swipe up from 100, 100 to 70, 40, velocity -1.88, -3.75",
+    ]
+  `);
+});
+
+test("two fingers pinch and rotate, and lifting them isn't a tap or swipe", () => {
+  playGestures([
+    {
+      inputs: [touch("pointerdown", 1, 0, 0), touch("pointerdown", 2, 100, 0)],
+    },
+    // Moving apart.
+    { inputs: [touch("pointermove", 2, 150, 0)] },
+    // Rotating a quarter turn clockwise, at the same distance.
+    { inputs: [touch("pointermove", 2, 0, 150)] },
+    { inputs: [touch("pointerup", 1, 0, 0)] },
+    { inputs: [touch("pointerup", 2, 0, 150)] },
+  ]);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "pinch: scale 1.5 (0.5), center 75, 0",
+      "rotate: 90 degrees (90), center 0, 75",
+    ]
+  `);
+});
+
+test("gestures only count if they start on the Entity's Geometry", () => {
+  playGestures(
+    [
+      // On the Entity, which is 40x40, centered at 100, 100.
+      { inputs: [touch("pointerdown", 1, 110, 90)] },
+      { inputs: [touch("pointerup", 1, 110, 90)] },
+      // Off of it.
+      { inputs: [touch("pointerdown", 1, 10, 10)] },
+      { inputs: [touch("pointerup", 1, 10, 10)] },
+      // Swipes can end off of it.
+      { inputs: [touch("pointerdown", 1, 100, 100)] },
+      { inputs: [touch("pointerup", 1, 300, 100)] },
+    ],
+    (setup) =>
+      useChild(() => {
+        useNewComponent(() =>
+          Geometry({
+            shape: Polygon.rectangle(40, 40),
+            position: new Point(100, 100),
+          })
+        );
+        setup();
+      })
+  );
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "tap at 10, -10",
+      "swipe right from 0, 0 to 200, 0, velocity 12.5, 0",
+    ]
+  `);
+});
+
+test("the Canvas's touch-action is turned off until the last Pointer is disabled", () => {
+  const { element, result } = createCanvasRoot(() => {
+    useContext().canvas.style.touchAction = "pan-y";
+
+    return ["first", "second"].map((name) =>
+      useChild(() => {
+        useEntityName(name);
+        useNewComponent(Pointer);
+      })
+    );
+  });
+  const [first, second] = result;
+
+  const logTouchAction = (description: string) =>
+    log(
+      `${description}: touch-action ${element.style.touchAction}, ${
+        (element.listeners.pointerdown || []).length
+      } pointerdown listeners`
+    );
+
+  logTouchAction("with two Pointers");
+  first.disable();
+  logTouchAction("after disabling the first");
+  second.disable();
+  logTouchAction("after disabling both");
+  first.enable();
+  logTouchAction("after enabling the first again");
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "with two Pointers: touch-action none, 2 pointerdown listeners",
+      "after disabling the first: touch-action none, 1 pointerdown listeners",
+      "after disabling both: touch-action pan-y, 0 pointerdown listeners",
+      "after enabling the first again: touch-action none, 1 pointerdown listeners",
+    ]
+  `);
+});
@@ -0,0 +1,115 @@
+import { createRoot, useNewComponent, RunLoop } from "@hex-engine/core";
+import Canvas from "../Canvas";
+import InputPlayer from "../Components/InputPlayer";
+import { RecordedTick, RecordedInput } from "../Components/InputRecorder";
+import { FakeCanvas, resetCanvasCount } from "./dom";
+
+/** Messages logged with `log` during the current test. */
+export const messages: Array<string> = [];
+
+/** Adds a message to `messages`, so that a test can snapshot what happened, in order. */
+export function log(message: string) {
+  messages.push(message);
+}
+
+beforeEach(() => {
+  messages.length = 0;
+  resetCanvasCount();
+});
+
+/**
+ * Creates a root Entity with a `Canvas.Headless` on it, then calls `setup` while the
+ * root is still being created, so that it can add Components and register callbacks.
+ *
+ * Returns whatever `setup` returned, along with the root and its `Canvas.Headless`.
+ */
+export function createHeadlessRoot<T>(setup: () => T) {
+  let result!: T;
+  const root = createRoot(() => {
+    useNewComponent(Canvas.Headless);
+    result = setup();
+  });
+  const canvas = root.getComponent(Canvas.Headless)!;
+
+  return { root, canvas, result };
+}
+
+/**
+ * Like `createHeadlessRoot`, but with a real `Canvas` on the root, drawing into a `FakeCanvas`,
+ * for tests that need to check what's drawn, or that need the Canvas element.
+ *
+ * Frames only run when you call `runFrames`.
+ */
+export function createCanvasRoot<T>(setup: () => T) {
+  const element = new FakeCanvas();
+  const scheduler = RunLoop.makeManualScheduler();
+  let result!: T;
+  const root = createRoot(() => {
+    useNewComponent(() =>
+      Canvas({
+        element: (element as unknown) as HTMLCanvasElement,
+        backgroundColor: "rgb(0, 0, 0)",
+        runLoop: { scheduler },
+      })
+    );
+    result = setup();
+  });
+
+  return { root, element, runFrames: scheduler.runFrames, result };
+}
+
+/**
+ * Like `createHeadlessRoot`, but frames are driven by an `InputPlayer` that plays back
+ * the specified ticks as if they were recorded input, one tick every 16ms.
+ *
+ * Call `player.advance` or `player.playToEnd` to run frames.
+ */
+export function createPlaybackRoot<T>(
+  ticks: Array<Omit<RecordedTick, "time">>,
+  setup: () => T
+) {
+  let player!: ReturnType<typeof InputPlayer>;
+  let result!: T;
+  const root = createRoot(() => {
+    // There's no requestAnimationFrame in Node, so the player doesn't autoplay.
+    player = useNewComponent(() =>
+      InputPlayer({
+        version: 1,
+        startTime: 0,
+        ticks: ticks.map((tick, index) => ({ time: index * 16, ...tick })),
+      })
+    );
+    useNewComponent(() =>
+      Canvas.Headless({ runLoop: { scheduler: player.scheduler } })
+    );
+    result = setup();
+  });
+
+  return { root, player, result };
+}
+
+export function keydown(key: string) {
+  return { type: "keydown" as const, key, repeat: false };
+}
+
+export function keyup(key: string) {
+  return { type: "keyup" as const, key, repeat: false };
+}
+
+/** A finger touching, moving on, or leaving the screen, as stored in a recording. Finger 1 is the primary one. */
+export function touch(
+  type: "pointerdown" | "pointermove" | "pointerup" | "pointercancel",
+  id: number,
+  x: number,
+  y: number
+): RecordedInput {
+  return {
+    type,
+    id,
+    pointerType: "touch",
+    isPrimary: id === 1,
+    x,
+    y,
+    pressure: type === "pointerdown" || type === "pointermove" ? 0.5 : 0,
+  };
+}
@@ -0,0 +1,272 @@
+import { useNewComponent } from "@hex-engine/core";
+import { useUpdate } from "../Canvas";
+import InputMap, { ButtonBinding } from "../Components/InputMap";
+import { RecordedTick } from "../Components/InputRecorder";
+import { messages, log, createPlaybackRoot, keydown, keyup } from "./helpers";
+
+function setup(
+  ticks: Array<Omit<RecordedTick, "time">>,
+  options: Parameters<typeof InputMap>[0]
+) {
+  const { player, result: inputMap } = createPlaybackRoot(ticks, () =>
+    useNewComponent(() => InputMap(options))
+  );
+  return { player, inputMap };
+}
+
+// Presses and releases are only visible during the frame they happen in,
+// so this logs the state of an action from a `useUpdate` function.
+function setupLoggingAction(
+  ticks: Array<Omit<RecordedTick, "time">>,
+  bindings: Array<ButtonBinding>
+) {
+  const { player } = createPlaybackRoot(ticks, () => {
+    const inputMap = useNewComponent(() =>
+      InputMap({ actions: { jump: bindings } })
+    );
+    useUpdate(() => {
+      log(
+        `held ${inputMap.held("jump")} pressed ${inputMap.justPressed(
+          "jump"
+        )} released ${inputMap.justReleased("jump")}`
+      );
+    });
+  });
+  return player;
+}
+
+test("actions are held while any of their bindings are", () => {
+  const player = setupLoggingAction(
+    [
+      {},
+      { inputs: [keydown("Z")] },
+      {},
+      { inputs: [{ type: "mousedown", x: 0, y: 0, button: 0 }] },
+      { inputs: [keyup("Z")] },
+      {
+        inputs: [{ type: "mouseup", x: 0, y: 0, button: 0, onCanvas: true }],
+      },
+    ],
+    [InputMap.key("z"), InputMap.mouseButton("left")]
+  );
+
+  player.playToEnd();
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "held false pressed false released false",
+      "held true pressed true released false",
+      "held true pressed false released false",
+      "held true pressed false released false",
+      "held true pressed false released false",
+      "held false pressed false released true",
+    ]
+  `);
+});
+
+test("actions that are pressed and released between two frames are still pressed and released", () => {
+  const player = setupLoggingAction(
+    [
+      {},
+      { inputs: [keydown("z"), keyup("z")] },
+      {},
+      {
+        inputs: [
+          { type: "mousedown", x: 0, y: 0, button: 0 },
+          { type: "mouseup", x: 0, y: 0, button: 0, onCanvas: true },
+        ],
+      },
+    ],
+    [InputMap.key("z"), InputMap.mouseButton("left")]
+  );
+
+  player.playToEnd();
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "held false pressed false released false",
+      "held false pressed true released true",
+      "held false pressed false released false",
+      "held false pressed true released true",
+    ]
+  `);
+});
+
+test("axes use whichever binding is furthest from 0, and vectors are limited to a length of 1", () => {
+  const { player, inputMap } = setup(
+    [
+      {},
+      { inputs: [keydown("d")] },
+      {
+        inputs: [keydown("s")],
+        gamepads: [{ axes: [-0.5, 0, 0, 0], buttons: [] }],
+      },
+      { inputs: [keydown("a")] },
+    ],
+    {
+      axes: {
+        moveX: [InputMap.keys("a", "d"), InputMap.gamepadStick("left", "x")],
+        moveY: [InputMap.keys("w", "s")],
+      },
+    }
+  );
+
+  while (!player.isFinished) {
+    player.advance();
+    const { x, y } = inputMap.vector("moveX", "moveY");
+    log(
+      `moveX ${inputMap.axis("moveX")} vector ${x.toFixed(3)} ${y.toFixed(3)}`
+    );
+  }
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "moveX 0 vector 0.000 0.000",
+      "moveX 1 vector 1.000 0.000",
+      "moveX 1 vector 0.707 0.707",
+      "moveX -0.5 vector -0.447 0.894",
+    ]
+  `);
+});
+
+test("methods can be destructured", () => {
+  const { player, inputMap } = setup([{ inputs: [keydown("ArrowRight")] }], {
+    axes: { moveX: [InputMap.keys("ArrowLeft", "ArrowRight")] },
+  });
+  const { vector } = inputMap;
+
+  player.advance();
+  expect(vector("moveX", "moveX").x).toBeCloseTo(Math.SQRT1_2);
+});
+
+test("unknown actions and axes throw", () => {
+  const { inputMap } = setup([], { actions: { jump: [] }, axes: {} });
+
+  expect(() => inputMap.held("fly")).toThrowErrorMatchingInlineSnapshot(
+    `"Unknown input action \\"fly\\". Declare it in the InputMap's \`actions\` option"`
+  );
+  expect(() => inputMap.axis("moveX")).toThrowErrorMatchingInlineSnapshot(
+    `"Unknown input axis \\"moveX\\". Declare it in the InputMap's \`axes\` option"`
+  );
+});
+
+describe("stored bindings", () => {
+  let storage: Map<string, string>;
+
+  beforeEach(() => {
+    storage = new Map();
+    (global as any).localStorage = {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+    };
+  });
+
+  afterEach(() => {
+    delete (global as any).localStorage;
+  });
+
+  test("rebound actions are saved and loaded", () => {
+    const options = {
+      actions: { jump: [InputMap.key("z")] },
+      storageKey: "controls",
+    };
+
+    setup([], options).inputMap.rebindAction("jump", [InputMap.key("x")]);
+    expect(setup([], options).inputMap.actionBindings("jump"))
+      .toMatchInlineSnapshot(`
+      Array [
+        Object {
+          "key": "x",
+          "type": "key",
+        },
+      ]
+    `);
+  });
+
+  test("unknown and invalid stored bindings are left out", () => {
+    storage.set(
+      "controls",
+      JSON.stringify({
+        actions: {
+          jump: [
+            { type: "key", key: "x" },
+            { type: "key", key: 5 },
+            { type: "mouseButton", button: "mouse9" },
+            null,
+          ],
+          fly: [{ type: "key", key: "f" }],
+          shoot: "not an array",
+        },
+        axes: {
+          moveX: [
+            { type: "gamepadStick", stick: "left", axis: "z" },
+            { type: "keys", negative: "j", positive: "l" },
+          ],
+        },
+      })
+    );
+
+    const { inputMap } = setup([], {
+      actions: {
+        jump: [InputMap.key("z")],
+        shoot: [InputMap.key("c")],
+      },
+      axes: { moveX: [InputMap.keys("a", "d")] },
+      storageKey: "controls",
+    });
+
+    expect(inputMap.actions).toMatchInlineSnapshot(`
+      Array [
+        "jump",
+        "shoot",
+      ]
+    `);
+    expect(inputMap.actionBindings("jump")).toMatchInlineSnapshot(`
+      Array [
+        Object {
+          "key": "x",
+          "type": "key",
+        },
+      ]
+    `);
+    expect(inputMap.actionBindings("shoot")).toMatchInlineSnapshot(`
+      Array [
+        Object {
+          "key": "c",
+          "type": "key",
+        },
+      ]
+    `);
+    expect(inputMap.axisBindings("moveX")).toMatchInlineSnapshot(`
+      Array [
+        Object {
+          "negative": "j",
+          "positive": "l",
+          "type": "keys",
+        },
+      ]
+    `);
+  });
+
+  test("resetBindings restores the defaults even if storage throws", () => {
+    const { inputMap } = setup([], {
+      actions: { jump: [InputMap.key("z")] },
+      storageKey: "controls",
+    });
+    inputMap.rebindAction("jump", [InputMap.key("x")]);
+
+    (global as any).localStorage.removeItem = () => {
+      throw new Error("Storage is disabled");
+    };
+    inputMap.resetBindings();
+    expect(inputMap.actionBindings("jump")).toMatchInlineSnapshot(`
+      Array [
+        Object {
+          "key": "z",
+          "type": "key",
+        },
+      ]
+    `);
+  });
+});
@@ -0,0 +1,40 @@
+import { useNewComponent, useChild, ErrorBoundary } from "@hex-engine/core";
+import { useUpdate } from "../Canvas";
+import Gestures from "../Components/Gestures";
+import InputMap from "../Components/InputMap";
+import Mouse from "../Components/Mouse";
+import { messages, log, createPlaybackRoot, keydown, keyup } from "./helpers";
+
+test("input Components can play back a recording under Canvas.Headless", () => {
+  const { player } = createPlaybackRoot(
+    [{}, { inputs: [keydown("z")] }, { inputs: [keyup("z")] }],
+    () => {
+      useNewComponent(() =>
+        ErrorBoundary((error) => log(`error: ${error.message}`))
+      );
+
+      useChild(() => {
+        // These need a Canvas element unless an InputPlayer is present.
+        useNewComponent(Mouse);
+        useNewComponent(Gestures);
+
+        const inputMap = useNewComponent(() =>
+          InputMap({ actions: { jump: [InputMap.key("z")] } })
+        );
+        useUpdate(() => {
+          if (inputMap.justPressed("jump")) log("jump pressed");
+          if (inputMap.justReleased("jump")) log("jump released");
+        });
+      });
+    }
+  );
+
+  player.playToEnd();
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "jump pressed",
+      "jump released",
+    ]
+  `);
+});
@@ -0,0 +1,14 @@
+import { useType } from "@hex-engine/core";
+import useInspectorHover from "../../../inspector/src/useInspectorHover";
+
+/**
+ * Stands in for `@hex-engine/inspector` in tests (see jest.config.js).
+ *
+ * The real Inspector needs a browser as soon as it's imported. `useInspectorHover`
+ * doesn't, so it's used as-is.
+ */
+export default function Inspector() {
+  useType(Inspector);
+}
+
+export { useInspectorHover };
@@ -0,0 +1,128 @@
+import { useNewComponent } from "@hex-engine/core";
+import { useUpdate } from "../Canvas";
+import Keyboard from "../Components/Keyboard";
+import { RecordedTick } from "../Components/InputRecorder";
+import { messages, log, createPlaybackRoot, keydown, keyup } from "./helpers";
+
+/** A keydown that the operating system sent because the key is being held. */
+const repeat = (key: string) => ({ ...keydown(key), repeat: true });
+
+/** Empty ticks, for time to pass in. Each one is 16ms. */
+const wait = (ticks: number): Array<Omit<RecordedTick, "time">> =>
+  new Array(ticks).fill({});
+
+// Presses and releases are only visible during the frame they happen in,
+// so everything is logged from a `useUpdate` function.
+function playKeys(
+  ticks: Array<Omit<RecordedTick, "time">>,
+  logFrame: (keyboard: ReturnType<typeof Keyboard>, frame: number) => void
+) {
+  const { player } = createPlaybackRoot(ticks, () => {
+    const keyboard = useNewComponent(Keyboard);
+    let frame = 0;
+    useUpdate(() => {
+      logFrame(keyboard, frame);
+      frame++;
+    });
+  });
+
+  player.playToEnd();
+}
+
+test("keys are just pressed and just released for one frame, whatever case they're in", () => {
+  playKeys(
+    [
+      { inputs: [keydown("z")] },
+      { inputs: [repeat("z")] },
+      // Shift changes the case of the key before it's released.
+      { inputs: [keydown("Shift")] },
+      { inputs: [keyup("Z")] },
+      {},
+      { inputs: [keydown("x"), keyup("x")] },
+      {},
+    ],
+    (keyboard, frame) =>
+      log(
+        `frame ${frame}: pressed [${[
+          ...keyboard.pressed,
+        ]}], z pressed ${keyboard.justPressed(
+          "z"
+        )} released ${keyboard.justReleased(
+          "Z"
+        )}, x pressed ${keyboard.justPressed(
+          "x"
+        )} released ${keyboard.justReleased("x")}`
+      )
+  );
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "frame 0: pressed [z], z pressed true released false, x pressed false released false",
+      "frame 1: pressed [z], z pressed false released false, x pressed false released false",
+      "frame 2: pressed [z,Shift], z pressed false released false, x pressed false released false",
+      "frame 3: pressed [Shift], z pressed false released true, x pressed false released false",
+      "frame 4: pressed [Shift], z pressed false released false, x pressed false released false",
+      "frame 5: pressed [Shift], z pressed false released false, x pressed true released true",
+      "frame 6: pressed [Shift], z pressed false released false, x pressed false released false",
+    ]
+  `);
+});
+
+test("justPressedOrRepeated repeats after the delay, once per interval", () => {
+  playKeys(
+    [
+      { inputs: [keydown("ArrowDown")] },
+      ...wait(15),
+      { inputs: [keyup("ArrowDown")] },
+    ],
+    (keyboard) => {
+      if (keyboard.justPressedOrRepeated("ArrowDown", 100, 50)) {
+        log(`repeated, held for ${keyboard.heldDuration("ArrowDown")}ms`);
+      }
+    }
+  );
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "repeated, held for 0ms",
+      "repeated, held for 112ms",
+      "repeated, held for 160ms",
+      "repeated, held for 208ms",
+    ]
+  `);
+});
+
+test('chords need all of their keys held and no other modifiers, and "Ctrl++" is Control and "+"', () => {
+  const chords = ["Ctrl++", "Ctrl+z", "Ctrl+Shift+z", "Cmd+Space"];
+
+  playKeys(
+    [
+      { inputs: [keydown("Control")] },
+      { inputs: [keydown("+")] },
+      { inputs: [keyup("+"), keydown("z")] },
+      { inputs: [keydown("Shift")] },
+      { inputs: [keyup("Shift"), keyup("Control"), keyup("z")] },
+      { inputs: [keydown("Meta"), keydown(" ")] },
+    ],
+    (keyboard, frame) => {
+      const held = chords.filter(keyboard.chordHeld);
+      const justPressed = chords.filter(keyboard.chordJustPressed);
+      log(
+        `frame ${frame}: held [${held.join(
+          ", "
+        )}], just pressed [${justPressed.join(", ")}]`
+      );
+    }
+  );
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "frame 0: held [], just pressed []",
+      "frame 1: held [Ctrl++], just pressed [Ctrl++]",
+      "frame 2: held [Ctrl+z], just pressed [Ctrl+z]",
+      "frame 3: held [Ctrl+Shift+z], just pressed [Ctrl+Shift+z]",
+      "frame 4: held [], just pressed []",
+      "frame 5: held [Cmd+Space], just pressed [Cmd+Space]",
+    ]
+  `);
+});
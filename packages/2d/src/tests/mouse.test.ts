@@ -0,0 +1,90 @@
+import { useNewComponent, useChild } from "@hex-engine/core";
+import { useUpdate } from "../Canvas";
+import Geometry from "../Components/Geometry";
+import Mouse from "../Components/Mouse";
+import { RecordedInput } from "../Components/InputRecorder";
+import { Point, Polygon } from "../Models";
+import { messages, log, createPlaybackRoot } from "./helpers";
+
+const move = (x: number, y: number): RecordedInput => ({
+  type: "mousemove",
+  x,
+  y,
+  buttons: 0,
+});
+const down = (x: number, y: number, button = 0): RecordedInput => ({
+  type: "mousedown",
+  x,
+  y,
+  button,
+});
+const up = (x: number, y: number, button = 0): RecordedInput => ({
+  type: "mouseup",
+  x,
+  y,
+  button,
+  onCanvas: true,
+});
+
+test("buttons are just pressed inside the Entity, and just released wherever they're let go", () => {
+  const { player } = createPlaybackRoot(
+    [
+      // Inside the Entity, which is 40x40, centered at 100, 100.
+      { inputs: [move(100, 100)] },
+      { inputs: [down(100, 100)] },
+      {},
+      { inputs: [up(100, 100)] },
+      // Pressed inside, but released outside.
+      { inputs: [down(100, 100, 2)] },
+      { inputs: [move(10, 10)] },
+      { inputs: [up(10, 10, 2)] },
+      // Pressed outside.
+      { inputs: [down(10, 10)] },
+      { inputs: [up(10, 10)] },
+    ],
+    () => {
+      useChild(() => {
+        useNewComponent(() =>
+          Geometry({
+            shape: Polygon.rectangle(40, 40),
+            position: new Point(100, 100),
+          })
+        );
+        const mouse = useNewComponent(Mouse);
+        mouse.onClick(() => log("click"));
+        mouse.onRightClick(() => log("right click"));
+
+        let frame = 0;
+        useUpdate(() => {
+          const changes = (["left", "right"] as const).flatMap((button) => [
+            ...(mouse.justPressed(button) ? [`${button} pressed`] : []),
+            ...(mouse.justReleased(button) ? [`${button} released`] : []),
+          ]);
+          log(
+            `frame ${frame}: ${
+              mouse.isInsideBounds ? "inside" : "outside"
+            }, ${changes.join(", ") || "nothing"}`
+          );
+          frame++;
+        });
+      });
+    }
+  );
+
+  player.playToEnd();
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "frame 0: inside, nothing",
+      "frame 1: inside, left pressed",
+      "frame 2: inside, nothing",
+      "click",
+      "frame 3: inside, left released",
+      "frame 4: inside, right pressed",
+      "frame 5: outside, nothing",
+      "frame 6: outside, right released",
+      "frame 7: outside, nothing",
+      "frame 8: outside, nothing",
+    ]
+  `);
+});
@@ -0,0 +1,302 @@
+import { useNewComponent, useChild, ErrorBoundary } from "@hex-engine/core";
+import Aseprite from "../Components/Aseprite";
+import ParticleEmitter from "../Components/ParticleEmitter";
+import SpriteSheet from "../Components/SpriteSheet";
+import { Point } from "../Models";
+import { makeAsepriteData } from "./asepriteData";
+import { FakeCanvas, FakeCanvasContext } from "./dom";
+import { messages, log, createCanvasRoot } from "./helpers";
+
+// A SpriteSheet of 8x8 tiles, which records which tiles it draws.
+const sheet = ({
+  tileSize: new Point(8, 8),
+  loaded: true,
+  draw(
+    context: FakeCanvasContext,
+    {
+      x,
+      y,
+      tileIndex,
+      width,
+      height,
+    }: {
+      x: number;
+      y: number;
+      tileIndex: number;
+      width: number;
+      height: number;
+    }
+  ) {
+    context.calls.push(
+      `tile ${tileIndex} at ${x}, ${y}, size ${width}, ${height}`
+    );
+  },
+} as unknown) as ReturnType<typeof SpriteSheet>;
+
+/**
+ * Creates a ParticleEmitter at 0, 0, on a Canvas that draws into a `FakeCanvas`.
+ * Particles fly right at 100 pixels per second, and live for a second, unless specified otherwise.
+ */
+function setup(
+  options: Parameters<typeof ParticleEmitter>[0] = {},
+  makeOptions: () => Parameters<typeof ParticleEmitter>[0] = () => ({})
+) {
+  const { element, runFrames, result: emitter } = createCanvasRoot(() => {
+    let emitter!: ReturnType<typeof ParticleEmitter>;
+    useChild(() => {
+      emitter = useNewComponent(() =>
+        ParticleEmitter({
+          emissionRate: 0,
+          speed: 100,
+          angle: 0,
+          lifetime: 1000,
+          ...options,
+          ...makeOptions(),
+        })
+      );
+    });
+    return emitter;
+  });
+
+  /** Runs a frame, then logs what the emitter drew. */
+  const logFrame = (description: string, delta: number) => {
+    element.context.calls = [];
+    runFrames(1, delta);
+    // The first call fills in the background.
+    const drawn = element.context.calls.slice(1);
+    log(`${description}: ${drawn.join(" | ") || "nothing"}`);
+  };
+
+  return { element, runFrames, emitter, logFrame };
+}
+
+/** Logs the error from creating a ParticleEmitter with the specified options. */
+function logSetupError(
+  makeOptions: () => Parameters<typeof ParticleEmitter>[0]
+) {
+  createCanvasRoot(() => {
+    useNewComponent(() =>
+      ErrorBoundary((error) => log(`error: ${error.message}`))
+    );
+    useNewComponent(() => ParticleEmitter(makeOptions()));
+  });
+}
+
+test("particles are emitted over time and in bursts, until the duration is up", () => {
+  const { emitter, runFrames } = setup({
+    emissionRate: 10,
+    bursts: [
+      { time: 250, count: 3 },
+      { time: 100, count: 2 },
+    ],
+    duration: 400,
+    lifetime: 250,
+  });
+
+  for (let time = 50; time <= 700; time += 50) {
+    runFrames(1, 50);
+    log(
+      `${time}ms: ${emitter.particleCount} particles, ${
+        emitter.isEmitting ? "emitting" : "stopped"
+      }`
+    );
+  }
+
+  emitter.start();
+  runFrames(1, 100);
+  log(`after starting again: ${emitter.particleCount} particles`);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "50ms: 0 particles, emitting",
+      "100ms: 3 particles, emitting",
+      "150ms: 3 particles, emitting",
+      "200ms: 4 particles, emitting",
+      "250ms: 7 particles, emitting",
+      "300ms: 5 particles, emitting",
+      "350ms: 5 particles, emitting",
+      "400ms: 5 particles, stopped",
+      "450ms: 2 particles, stopped",
+      "500ms: 1 particles, stopped",
+      "550ms: 1 particles, stopped",
+      "600ms: 0 particles, stopped",
+      "650ms: 0 particles, stopped",
+      "700ms: 0 particles, stopped",
+      "after starting again: 3 particles",
+    ]
+  `);
+});
+
+test("no more than maxParticles are alive at once", () => {
+  const { emitter } = setup({ maxParticles: 3 });
+
+  emitter.burst(5);
+  log(`after a burst of 5: ${emitter.particleCount} particles`);
+  emitter.clear();
+  emitter.burst(2);
+  log(`after clearing and a burst of 2: ${emitter.particleCount} particles`);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "after a burst of 5: 3 particles",
+      "after clearing and a burst of 2: 2 particles",
+    ]
+  `);
+});
+
+test("a dead particle's place is taken by the last one, which carries on where it was", () => {
+  // Each particle's speed and lifetime are picked with the same random number.
+  const random = jest.spyOn(Math, "random");
+  const { emitter, logFrame } = setup({
+    speed: [0, 1000],
+    lifetime: [0, 1000],
+  });
+
+  random
+    .mockReturnValueOnce(0.1)
+    .mockReturnValueOnce(0.1)
+    .mockReturnValueOnce(0.3)
+    .mockReturnValueOnce(0.3)
+    .mockReturnValueOnce(0.2)
+    .mockReturnValueOnce(0.2);
+  emitter.burst(3);
+
+  logFrame("after 50ms", 50);
+  logFrame("after 150ms, once the first has died", 100);
+  random.mockReturnValueOnce(0.4).mockReturnValueOnce(0.4);
+  emitter.burst(1);
+  logFrame("after 250ms, once the third has died", 100);
+
+  random.mockRestore();
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "after 50ms: fillRect 3, -2, 4, 4 with rgb(255, 255, 255) | fillRect 13, -2, 4, 4 with rgb(255, 255, 255) | fillRect 8, -2, 4, 4 with rgb(255, 255, 255)",
+      "after 150ms, once the first has died: fillRect 28, -2, 4, 4 with rgb(255, 255, 255) | fillRect 43, -2, 4, 4 with rgb(255, 255, 255)",
+      "after 250ms, once the third has died: fillRect 38, -2, 4, 4 with rgb(255, 255, 255) | fillRect 73, -2, 4, 4 with rgb(255, 255, 255)",
+    ]
+  `);
+});
+
+test("scale, color and alpha curves are sampled over each particle's life", () => {
+  const { logFrame } = setup({
+    speed: 0,
+    size: 2,
+    scale: [
+      { at: 0, value: 1 },
+      { at: 1, value: 3 },
+    ],
+    color: [
+      { at: 0, value: "#ff0000" },
+      { at: 1, value: "#00f" },
+    ],
+    alpha: [
+      { at: 0.5, value: 1 },
+      { at: 1, value: 0 },
+    ],
+    bursts: [{ time: 0, count: 1 }],
+  });
+
+  logFrame("at the start", 0);
+  logFrame("half way", 500);
+  logFrame("at the end", 490);
+
+  logSetupError(() => ({ color: "red" }));
+  logSetupError(() => ({ alpha: [] }));
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "at the start: fillRect -1, -1, 2, 2 with rgb(255, 0, 0)",
+      "half way: fillRect -2.015873015873016, -2.015873015873016, 4.031746031746032, 4.031746031746032 with rgb(125, 0, 130), alpha 0.98",
+      "at the end: fillRect -3, -3, 6, 6 with rgb(0, 0, 255), alpha 0",
+      "error: Failed to instantiate Canvas: Unsupported particle color: \\"red\\". Particle colors must be hex colors, like \\"#ff8800\\" or \\"#f80\\"",
+      "error: Failed to instantiate Canvas: Particle curves must have at least one keyframe",
+    ]
+  `);
+});
+
+test("SpriteSheet particles play through their tiles over their life, or pick one at random", () => {
+  const overLife = setup({
+    spriteSheet: sheet,
+    tiles: [5, 6, 7],
+    lifetime: 300,
+    speed: 0,
+    scale: 2,
+    bursts: [{ time: 0, count: 1 }],
+  });
+  overLife.logFrame("over life, at the start", 0);
+  overLife.logFrame("over life, after 100ms", 100);
+  overLife.logFrame("over life, after 250ms", 150);
+
+  const randomFrames = setup({
+    spriteSheet: sheet,
+    tiles: [5, 6, 7],
+    lifetime: 300,
+    speed: 0,
+    spriteFrames: "random",
+    bursts: [{ time: 0, count: 1 }],
+  });
+  // The burst is emitted during the first frame.
+  const random = jest.spyOn(Math, "random").mockReturnValue(0.9);
+  randomFrames.logFrame("random, at the start", 0);
+  random.mockRestore();
+  randomFrames.logFrame("random, after 250ms", 250);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "over life, at the start: tile 5 at -8, -8, size 16, 16",
+      "over life, after 100ms: tile 6 at -8, -8, size 16, 16",
+      "over life, after 250ms: tile 7 at -8, -8, size 16, 16",
+      "random, at the start: tile 7 at -4, -4, size 8, 8",
+      "random, after 250ms: tile 7 at -4, -4, size 8, 8",
+    ]
+  `);
+});
+
+test("Aseprite particles use the animation's frames, with the layers that are visible now", () => {
+  let aseprite!: ReturnType<typeof Aseprite>;
+  const { logFrame } = setup(
+    { lifetime: 200, speed: 0, bursts: [{ time: 0, count: 1 }] },
+    () => {
+      aseprite = useNewComponent(() =>
+        Aseprite(
+          makeAsepriteData({
+            layers: [{ name: "body" }, { name: "hat", hidden: true }],
+            frames: [
+              { body: [10, 10, 10, 255], hat: [200, 0, 0, 255] },
+              { body: [20, 20, 20, 255], hat: [0, 200, 0, 255] },
+            ],
+          })
+        )
+      );
+      return { aseprite, animation: "default" };
+    }
+  );
+
+  // Describes which frame of the Aseprite each image is, and its pixel.
+  const describeImages = () => {
+    aseprite.animations.default.frames.forEach((frame, index) => {
+      const image = (frame.data as unknown) as FakeCanvas;
+      log(`${image.label} is frame ${index}: ${image.context.pixels}`);
+    });
+  };
+
+  describeImages();
+  logFrame("at the start", 0);
+  aseprite.setLayerVisible("hat", true);
+  describeImages();
+  logFrame("after showing the hat", 100);
+
+  logSetupError(() => ({ aseprite, animation: "walk" }));
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "canvas 2 is frame 0: 10,10,10,255",
+      "canvas 4 is frame 1: 20,20,20,255",
+      "at the start: drawImage canvas 2 at -0.5, -0.5, size 1, 1",
+      "canvas 6 is frame 0: 200,0,0,255",
+      "canvas 8 is frame 1: 0,200,0,255",
+      "after showing the hat: drawImage canvas 8 at -0.5, -0.5, size 1, 1",
+      "error: Failed to instantiate Canvas: Cannot use Aseprite animation \\"walk\\" for particles, because there is no animation with that name",
+    ]
+  `);
+});
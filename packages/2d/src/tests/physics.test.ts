@@ -0,0 +1,195 @@
+import { useNewComponent } from "@hex-engine/core";
+import Matter from "matter-js";
+import Physics, { PhysicsHit, PhysicsQueryResult } from "../Components/Physics";
+import { Point, Polygon, Circle } from "../Models";
+import { createHeadlessRoot } from "./helpers";
+
+function setup() {
+  const { result: physics } = createHeadlessRoot(() =>
+    useNewComponent(() => Physics.Engine({ gravity: new Point(0, 0) }))
+  );
+
+  // Physics.Body needs a browser for its Geometry, so the bodies are added to the world directly.
+  const bodies = {
+    near: Matter.Bodies.rectangle(100, 0, 20, 100, { label: "near" }),
+    far: Matter.Bodies.rectangle(200, 0, 20, 100, { label: "far" }),
+    sensor: Matter.Bodies.rectangle(150, 0, 20, 100, {
+      label: "sensor",
+      isSensor: true,
+    }),
+    other: Matter.Bodies.rectangle(250, 0, 20, 100, {
+      label: "other",
+      collisionFilter: { category: 2, mask: 0xffffffff, group: 0 },
+    }),
+  };
+  Matter.World.add(physics.engine.world, Object.values(bodies));
+
+  return physics;
+}
+
+function describeResults(results: Array<PhysicsQueryResult>) {
+  return results.map(({ body }) => body.label);
+}
+
+function describeHits(hits: Array<PhysicsHit>) {
+  return hits.map(
+    ({ body, point, normal, distance }) =>
+      `${body.label} at (${point.x.toFixed(1)}, ${point.y.toFixed(
+        1
+      )}) normal (${normal.x.toFixed(1)}, ${normal.y.toFixed(
+        1
+      )}) distance ${distance.toFixed(1)}`
+  );
+}
+
+test("raycast finds the hit bodies closest first, with their surface normals", () => {
+  const physics = setup();
+
+  expect(describeHits(physics.raycast(new Point(300, 0), new Point(0, 0))))
+    .toMatchInlineSnapshot(`
+    Array [
+      "other at (260.0, 0.0) normal (1.0, 0.0) distance 40.0",
+      "far at (210.0, 0.0) normal (1.0, 0.0) distance 90.0",
+      "near at (110.0, 0.0) normal (1.0, 0.0) distance 190.0",
+    ]
+  `);
+  expect(describeHits(physics.raycast(new Point(100, -100), new Point(100, 0))))
+    .toMatchInlineSnapshot(`
+    Array [
+      "near at (100.0, -50.0) normal (0.0, -1.0) distance 50.0",
+    ]
+  `);
+});
+
+test("raycast reports a distance of 0 when it starts inside a body", () => {
+  const physics = setup();
+
+  expect(describeHits(physics.raycast(new Point(100, 0), new Point(0, 0))))
+    .toMatchInlineSnapshot(`
+    Array [
+      "near at (100.0, 0.0) normal (1.0, 0.0) distance 0.0",
+    ]
+  `);
+});
+
+test("queries only find sensors when asked to", () => {
+  const physics = setup();
+  const from = new Point(0, 0);
+  const to = new Point(300, 0);
+
+  expect(describeHits(physics.raycast(from, to))).toMatchInlineSnapshot(`
+    Array [
+      "near at (90.0, 0.0) normal (-1.0, 0.0) distance 90.0",
+      "far at (190.0, 0.0) normal (-1.0, 0.0) distance 190.0",
+      "other at (240.0, 0.0) normal (-1.0, 0.0) distance 240.0",
+    ]
+  `);
+  expect(describeHits(physics.raycast(from, to, { includeSensors: true })))
+    .toMatchInlineSnapshot(`
+    Array [
+      "near at (90.0, 0.0) normal (-1.0, 0.0) distance 90.0",
+      "sensor at (140.0, 0.0) normal (-1.0, 0.0) distance 140.0",
+      "far at (190.0, 0.0) normal (-1.0, 0.0) distance 190.0",
+      "other at (240.0, 0.0) normal (-1.0, 0.0) distance 240.0",
+    ]
+  `);
+  expect(
+    describeResults(physics.queryPoint(new Point(150, 0)))
+  ).toMatchInlineSnapshot(`Array []`);
+  expect(
+    describeResults(
+      physics.queryPoint(new Point(150, 0), { includeSensors: true })
+    )
+  ).toMatchInlineSnapshot(`
+    Array [
+      "sensor",
+    ]
+  `);
+});
+
+test("queries only find bodies that pass the collision filter", () => {
+  const physics = setup();
+  const from = new Point(0, 0);
+  const to = new Point(300, 0);
+
+  expect(describeHits(physics.raycast(from, to, { mask: 2 })))
+    .toMatchInlineSnapshot(`
+    Array [
+      "other at (240.0, 0.0) normal (-1.0, 0.0) distance 240.0",
+    ]
+  `);
+  expect(describeHits(physics.raycast(from, to, { mask: ~2 })))
+    .toMatchInlineSnapshot(`
+    Array [
+      "near at (90.0, 0.0) normal (-1.0, 0.0) distance 90.0",
+      "far at (190.0, 0.0) normal (-1.0, 0.0) distance 190.0",
+    ]
+  `);
+
+  // Bodies in the same negative group never collide.
+  physics.engine.world.bodies.forEach((body) => {
+    body.collisionFilter.group = -1;
+  });
+  expect(
+    describeHits(physics.raycast(from, to, { group: -1 }))
+  ).toMatchInlineSnapshot(`Array []`);
+});
+
+test("queryRegion finds the bodies that overlap the polygon", () => {
+  const physics = setup();
+  const square = Polygon.rectangle(40, 40);
+
+  expect(describeResults(physics.queryRegion(square, new Point(120, 0))))
+    .toMatchInlineSnapshot(`
+    Array [
+      "near",
+    ]
+  `);
+  expect(
+    describeResults(physics.queryRegion(square, new Point(150, 0)))
+  ).toMatchInlineSnapshot(`Array []`);
+  expect(
+    describeResults(
+      physics.queryRegion(square, new Point(150, 0), { includeSensors: true })
+    )
+  ).toMatchInlineSnapshot(`
+    Array [
+      "sensor",
+    ]
+  `);
+  expect(
+    describeResults(physics.queryRegion(square, new Point(150, 200)))
+  ).toMatchInlineSnapshot(`Array []`);
+});
+
+test("shapeCast finds where the shape first touches each body, closest first", () => {
+  const physics = setup();
+
+  expect(
+    describeHits(
+      physics.shapeCast(new Circle(10), new Point(0, 0), new Point(300, 0))
+    )
+  ).toMatchInlineSnapshot(`
+    Array [
+      "near at (90.0, 3.1) normal (-1.0, 0.0) distance 80.5",
+      "far at (190.0, 3.1) normal (-1.0, 0.0) distance 180.5",
+      "other at (240.0, 3.1) normal (-1.0, 0.0) distance 230.5",
+    ]
+  `);
+  expect(
+    describeHits(
+      physics.shapeCast(
+        Polygon.rectangle(20, 20),
+        new Point(300, 0),
+        new Point(0, 0),
+        { includeSensors: true, mask: 1 }
+      )
+    )
+  ).toMatchInlineSnapshot(`
+    Array [
+      "far at (210.0, -10.0) normal (1.0, 0.0) distance 80.0",
+      "sensor at (160.0, -10.0) normal (1.0, 0.0) distance 130.0",
+      "near at (110.0, -10.0) normal (1.0, 0.0) distance 180.0",
+    ]
+  `);
+});
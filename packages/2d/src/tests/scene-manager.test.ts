@@ -0,0 +1,244 @@
+import {
+  useType,
+  useNewComponent,
+  useEntityName,
+  useEnableDisable,
+  useDestroy,
+  Entity,
+} from "@hex-engine/core";
+import Canvas from "../Canvas";
+import SceneManager from "../Components/SceneManager";
+import Preloader from "../Preloader";
+import { messages, log, createHeadlessRoot } from "./helpers";
+
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+/** Makes a scene that logs when it's created, enabled, disabled and destroyed. */
+function makeScene(name: string) {
+  return function Scene() {
+    useType(Scene);
+    useEntityName(name);
+    log(`${name} created`);
+
+    // Scenes are disabled just after they're created, so this logs "enabled" then "disabled" first.
+    const { onEnabled, onDisabled } = useEnableDisable();
+    onEnabled(() => log(`${name} enabled`));
+    onDisabled(() => log(`${name} disabled`));
+    useDestroy().onDestroy(() => log(`${name} destroyed`));
+  };
+}
+
+function setup(initialScene?: () => any) {
+  const { root, canvas, result: sceneManager } = createHeadlessRoot(() => {
+    useNewComponent(() => Canvas.DrawLayers(Canvas.DrawLayers.defaultLayers));
+    return useNewComponent(() => SceneManager(initialScene));
+  });
+
+  const logStack = (description: string) => {
+    log(
+      `${description}: [${sceneManager.stack
+        .map(
+          (scene) =>
+            `${scene.name}${
+              [...scene.components][0].isEnabled ? " (enabled)" : ""
+            }`
+        )
+        .join(", ")}]`
+    );
+  };
+
+  return { root, canvas, sceneManager, logStack };
+}
+
+test("scene changes are queued, and run one at a time in order", async () => {
+  const { sceneManager, logStack } = setup(makeScene("title"));
+  await flushPromises();
+  logStack("at the start");
+
+  // None of these are awaited before the next one is requested.
+  const pushed = sceneManager.push(makeScene("level 1"));
+  const pushedAgain = sceneManager.push(makeScene("pause menu"));
+  const popped = sceneManager.pop();
+  const replaced = sceneManager.replace(makeScene("level 2"));
+  log(`transitioning: ${sceneManager.isTransitioning}`);
+
+  log(`push resolved to ${(await pushed).name}`);
+  log(`second push resolved to ${(await pushedAgain).name}`);
+  log(`pop resolved to ${((await popped) as Entity).name}`);
+  log(`replace resolved to ${(await replaced).name}`);
+  log(`transitioning: ${sceneManager.isTransitioning}`);
+  logStack("at the end");
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "title created",
+      "title enabled",
+      "title disabled",
+      "title enabled",
+      "at the start: [title (enabled)]",
+      "transitioning: false",
+      "level 1 created",
+      "level 1 enabled",
+      "level 1 disabled",
+      "title disabled",
+      "level 1 enabled",
+      "push resolved to level 1",
+      "pause menu created",
+      "pause menu enabled",
+      "pause menu disabled",
+      "level 1 disabled",
+      "pause menu enabled",
+      "second push resolved to pause menu",
+      "pause menu disabled",
+      "level 1 enabled",
+      "pause menu destroyed",
+      "pop resolved to level 1",
+      "level 2 created",
+      "level 2 enabled",
+      "level 2 disabled",
+      "level 1 disabled",
+      "level 2 enabled",
+      "level 1 destroyed",
+      "replace resolved to level 2",
+      "transitioning: false",
+      "at the end: [title, level 2 (enabled)]",
+    ]
+  `);
+});
+
+test("popping when there are no scenes rejects, without stopping later scene changes", async () => {
+  const { sceneManager, logStack } = setup();
+
+  const popped = sceneManager.pop();
+  const pushed = sceneManager.push(makeScene("title"));
+
+  await popped.catch((err) => log(`pop rejected: ${err.message}`));
+  await pushed;
+  logStack("after pushing");
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "pop rejected: Cannot pop a scene: there are no scenes to pop",
+      "title created",
+      "title enabled",
+      "title disabled",
+      "title enabled",
+      "after pushing: [title (enabled)]",
+    ]
+  `);
+});
+
+test("incoming scenes aren't enabled until the Preloader has finished loading", async () => {
+  const { sceneManager, logStack } = setup(makeScene("title"));
+  await flushPromises();
+
+  let finishLoading!: () => void;
+  Preloader.addTask(
+    () =>
+      new Promise<void>((resolve) => {
+        finishLoading = resolve;
+      })
+  );
+
+  const pushed = sceneManager.push(makeScene("level"));
+  await flushPromises();
+  logStack("while loading");
+
+  finishLoading();
+  await pushed;
+  logStack("after loading");
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "title created",
+      "title enabled",
+      "title disabled",
+      "title enabled",
+      "level created",
+      "level enabled",
+      "level disabled",
+      "while loading: [title (enabled), level]",
+      "title disabled",
+      "level enabled",
+      "after loading: [title, level (enabled)]",
+    ]
+  `);
+});
+
+test("a fade transition reveals the incoming scene half way through, then removes its overlay", async () => {
+  const { root, canvas, sceneManager, logStack } = setup(makeScene("title"));
+  await flushPromises();
+  messages.length = 0;
+
+  const findOverlay = () =>
+    [...root.children].find(
+      (child) => child.name === "SceneManager Transition"
+    );
+
+  const pushed = sceneManager.push(makeScene("level"), {
+    type: "fade",
+    duration: 400,
+  });
+  await flushPromises();
+
+  const overlay = findOverlay()!;
+  const { layer, zIndex } = Canvas.DrawLayers.layerForEntity(overlay);
+  log(`overlay layer: ${layer}, z-index: ${zIndex}`);
+
+  for (let elapsed = 100; elapsed <= 400; elapsed += 100) {
+    canvas.runFrames(1, 100);
+    logStack(
+      `after ${elapsed}ms (transitioning: ${
+        sceneManager.isTransitioning
+      }, overlay: ${findOverlay() != null})`
+    );
+  }
+
+  // The overlay is gone after the last frame, but the push finishes on a later tick.
+  await pushed;
+  log(`transitioning once the push resolves: ${sceneManager.isTransitioning}`);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "level created",
+      "level enabled",
+      "level disabled",
+      "title disabled",
+      "overlay layer: debug, z-index: 9007199254740991",
+      "after 100ms (transitioning: true, overlay: true): [title, level]",
+      "level enabled",
+      "after 200ms (transitioning: true, overlay: true): [title, level (enabled)]",
+      "after 300ms (transitioning: true, overlay: true): [title, level (enabled)]",
+      "after 400ms (transitioning: true, overlay: false): [title, level (enabled)]",
+      "transitioning once the push resolves: false",
+    ]
+  `);
+});
+
+test("a slide transition reveals the incoming scene on its first frame", async () => {
+  const { canvas, sceneManager, logStack } = setup(makeScene("level"));
+  await flushPromises();
+  const pushed = sceneManager.push(makeScene("pause menu"));
+  await pushed;
+  messages.length = 0;
+
+  const popped = sceneManager.pop({ type: "slide", duration: 200 });
+  await flushPromises();
+  logStack("before the first frame");
+  canvas.runFrames(1, 100);
+  logStack("after the first frame");
+
+  canvas.runFrames(1, 100);
+  log(`popped back to ${((await popped) as Entity).name}`);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "pause menu disabled",
+      "before the first frame: [level]",
+      "level enabled",
+      "after the first frame: [level (enabled)]",
+      "pause menu destroyed",
+      "popped back to level",
+    ]
+  `);
+});
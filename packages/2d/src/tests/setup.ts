@@ -0,0 +1,6 @@
+// Under jest, TypeScript compiles each module to CommonJS, where a re-export is copied
+// once when its module finishes loading, instead of staying live like the ES module
+// re-exports in a real build. Loading the Hooks first makes the circular imports between
+// Canvas, the Hooks, and the Components settle in an order where every re-export is defined.
+import "../Hooks";
+import "./dom";
@@ -0,0 +1,188 @@
+import { useNewComponent } from "@hex-engine/core";
+import SpriteSheet from "../Components/SpriteSheet";
+import TileMap, { TileMapAnimationFrame } from "../Components/TileMap";
+import Viewport from "../Components/Viewport";
+import { Grid, Point } from "../Models";
+import { createHeadlessRoot } from "./helpers";
+import { FakeCanvas, FakeCanvasContext } from "./dom";
+
+// A SpriteSheet of 16x16 tiles, which records which tiles it draws.
+const sheet = ({
+  tileSize: new Point(16, 16),
+  loaded: true,
+  draw(
+    context: FakeCanvasContext,
+    { x, y, tileIndex }: { x: number; y: number; tileIndex: number }
+  ) {
+    context.calls.push(`tile ${tileIndex} at ${x}, ${y}`);
+  },
+} as unknown) as ReturnType<typeof SpriteSheet>;
+
+// An 8x8 map, in chunks of 2x2 tiles; each chunk is 32x32 pixels.
+function setup(
+  animations: Map<number, Array<TileMapAnimationFrame>> = new Map()
+) {
+  const { result: tileMap, canvas: headless } = createHeadlessRoot(() =>
+    useNewComponent(() =>
+      TileMap(sheet, new Grid(8, 8, 0), { chunkSize: 2, animations })
+    )
+  );
+
+  const canvas = new FakeCanvas();
+  canvas.width = 40;
+  canvas.height = 40;
+  const context = canvas.context;
+
+  const draw = () => {
+    context.calls = [];
+    tileMap.draw((context as unknown) as CanvasRenderingContext2D);
+    const {
+      chunks,
+      chunksDrawn,
+      chunksRendered,
+      animatedTilesDrawn,
+    } = tileMap.stats;
+    return [
+      `${chunksDrawn} of ${chunks} chunks drawn, ${chunksRendered} rendered, ${animatedTilesDrawn} animated tiles`,
+      ...context.calls,
+    ];
+  };
+
+  return { tileMap, headless, context, draw };
+}
+
+test("only the chunks inside the canvas are drawn", () => {
+  const { context, draw } = setup();
+
+  expect(draw()).toMatchInlineSnapshot(`
+    Array [
+      "4 of 16 chunks drawn, 4 rendered, 0 animated tiles",
+      "drawImage canvas 1 at 0, 0",
+      "drawImage canvas 2 at 32, 0",
+      "drawImage canvas 3 at 0, 32",
+      "drawImage canvas 4 at 32, 32",
+    ]
+  `);
+
+  context.translate(-64, -48);
+  expect(draw()).toMatchInlineSnapshot(`
+    Array [
+      "4 of 16 chunks drawn, 4 rendered, 0 animated tiles",
+      "drawImage canvas 5 at 64, 32",
+      "drawImage canvas 6 at 96, 32",
+      "drawImage canvas 7 at 64, 64",
+      "drawImage canvas 8 at 96, 64",
+    ]
+  `);
+});
+
+test("chunks are only rendered again once their tiles change", () => {
+  const { tileMap, draw } = setup();
+
+  draw();
+  expect(draw()).toMatchInlineSnapshot(`
+    Array [
+      "4 of 16 chunks drawn, 0 rendered, 0 animated tiles",
+      "drawImage canvas 1 at 0, 0",
+      "drawImage canvas 2 at 32, 0",
+      "drawImage canvas 3 at 0, 32",
+      "drawImage canvas 4 at 32, 32",
+    ]
+  `);
+
+  tileMap.setTile(3, 1, 5, TileMap.FLIPPED_HORIZONTALLY);
+  expect(draw()).toMatchInlineSnapshot(`
+    Array [
+      "4 of 16 chunks drawn, 1 rendered, 0 animated tiles",
+      "drawImage canvas 1 at 0, 0",
+      "drawImage canvas 2 at 32, 0",
+      "drawImage canvas 3 at 0, 32",
+      "drawImage canvas 4 at 32, 32",
+    ]
+  `);
+
+  tileMap.grid.set(0, 0, 7);
+  expect(draw()).toMatchInlineSnapshot(`
+    Array [
+      "4 of 16 chunks drawn, 0 rendered, 0 animated tiles",
+      "drawImage canvas 1 at 0, 0",
+      "drawImage canvas 2 at 32, 0",
+      "drawImage canvas 3 at 0, 32",
+      "drawImage canvas 4 at 32, 32",
+    ]
+  `);
+  tileMap.invalidate();
+  expect(draw()).toMatchInlineSnapshot(`
+    Array [
+      "4 of 16 chunks drawn, 4 rendered, 0 animated tiles",
+      "drawImage canvas 1 at 0, 0",
+      "drawImage canvas 2 at 32, 0",
+      "drawImage canvas 3 at 0, 32",
+      "drawImage canvas 4 at 32, 32",
+    ]
+  `);
+});
+
+test("only the chunks inside the current Viewport are drawn", () => {
+  const { draw } = setup();
+
+  let viewport!: ReturnType<typeof Viewport>;
+  createHeadlessRoot(() => {
+    viewport = useNewComponent(() =>
+      Viewport({
+        name: "left",
+        position: new Point(0, 8),
+        size: new Point(16, 16),
+      })
+    );
+  });
+
+  Viewport.setCurrent(viewport);
+  try {
+    expect(draw()).toMatchInlineSnapshot(`
+      Array [
+        "1 of 16 chunks drawn, 1 rendered, 0 animated tiles",
+        "drawImage canvas 1 at 0, 0",
+      ]
+    `);
+  } finally {
+    Viewport.setCurrent(null);
+  }
+});
+
+test("animated tiles are drawn on top of their chunk every frame", () => {
+  const { tileMap, headless, draw } = setup(
+    new Map([
+      [
+        1,
+        [
+          { tileIndex: 1, duration: 100 },
+          { tileIndex: 2, duration: 100 },
+        ],
+      ],
+    ])
+  );
+  tileMap.setTile(1, 1, 1);
+
+  expect(draw()).toMatchInlineSnapshot(`
+    Array [
+      "4 of 16 chunks drawn, 4 rendered, 1 animated tiles",
+      "drawImage canvas 1 at 0, 0",
+      "tile 1 at 16, 16",
+      "drawImage canvas 2 at 32, 0",
+      "drawImage canvas 3 at 0, 32",
+      "drawImage canvas 4 at 32, 32",
+    ]
+  `);
+  headless.runFrames(1, 150);
+  expect(draw()).toMatchInlineSnapshot(`
+    Array [
+      "4 of 16 chunks drawn, 0 rendered, 1 animated tiles",
+      "drawImage canvas 1 at 0, 0",
+      "tile 2 at 16, 16",
+      "drawImage canvas 2 at 32, 0",
+      "drawImage canvas 3 at 0, 32",
+      "drawImage canvas 4 at 32, 32",
+    ]
+  `);
+});
@@ -0,0 +1,426 @@
+import zlib from "zlib";
+import { useNewComponent, ErrorBoundary } from "@hex-engine/core";
+import Tiled, {
+  TiledJSONLayer,
+  TiledJSONMap,
+  TiledJSONObject,
+  TiledJSONTileset,
+  TiledObjectFactory,
+} from "../Components/Tiled";
+import TileMap from "../Components/TileMap";
+import { Grid, Point, Polygon, Circle } from "../Models";
+import { messages, log, createHeadlessRoot } from "./helpers";
+
+/** Encodes global tile ids the way Tiled does: little-endian 32-bit integers, in base64. */
+function encodeGids(gids: Array<number>, compress: (bytes: Buffer) => Buffer) {
+  const bytes = Buffer.alloc(gids.length * 4);
+  gids.forEach((gid, index) => bytes.writeUInt32LE(gid, index * 4));
+  return compress(bytes).toString("base64");
+}
+
+function tileLayer(overrides: Partial<TiledJSONLayer>): TiledJSONLayer {
+  return {
+    type: "tilelayer",
+    name: "ground",
+    width: 2,
+    height: 2,
+    ...overrides,
+  } as TiledJSONLayer;
+}
+
+function tileset(
+  image: string,
+  overrides: Partial<TiledJSONTileset> = {}
+): TiledJSONTileset {
+  return { image, tilewidth: 16, tileheight: 16, ...overrides };
+}
+
+function createMap(data: Partial<TiledJSONMap>) {
+  return createHeadlessRoot(() =>
+    useNewComponent(() =>
+      Tiled.Map({
+        type: "map",
+        width: 2,
+        height: 2,
+        tilewidth: 16,
+        tileheight: 16,
+        tilesets: [tileset("tiles.png")],
+        layers: [],
+        ...data,
+      })
+    )
+  ).result;
+}
+
+/** Describes each row of a Grid, eg "0 1 -1". */
+function describeRows<T>(grid: Grid<T>, describe: (value: T) => string) {
+  const rows: Array<string> = [];
+  for (let y = 0; y < grid.size.y; y++) {
+    const row: Array<string> = [];
+    for (let x = 0; x < grid.size.x; x++) {
+      row.push(describe(grid.get(x, y)));
+    }
+    rows.push(row.join(" "));
+  }
+  return rows;
+}
+
+function createLayer(layer: TiledJSONLayer) {
+  return createHeadlessRoot(() => {
+    useNewComponent(() =>
+      ErrorBoundary((error) => log(`error: ${error.message}`))
+    );
+    return useNewComponent(() => Tiled.Layer(layer));
+  }).result;
+}
+
+test("compressed layers aren't loaded until their data has been decompressed", async () => {
+  const layer = createLayer(
+    tileLayer({
+      encoding: "base64",
+      compression: "zlib",
+      data: encodeGids([1, 2, 0, 3], zlib.deflateSync),
+    })
+  );
+
+  log(`loaded ${layer.loaded}: ${layer.grid.get(1, 0)}`);
+  await layer.ready;
+  log(`loaded ${layer.loaded}: ${layer.grid.get(1, 0)}`);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "loaded false: -1",
+      "loaded true: 1",
+    ]
+  `);
+});
+
+test("layers whose data can't be decompressed report an error", async () => {
+  const layer = createLayer(
+    tileLayer({
+      encoding: "base64",
+      compression: "gzip",
+      data: encodeGids([1, 2, 0, 3], zlib.deflateSync),
+    })
+  );
+
+  await layer.ready;
+  log(`loaded ${layer.loaded}`);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "error: incorrect header check",
+      "loaded false",
+    ]
+  `);
+});
+
+test("uncompressed base64 and CSV layer data are read immediately", () => {
+  const base64Layer = createLayer(
+    tileLayer({
+      encoding: "base64",
+      data: encodeGids([1, 2, 0, 3], (bytes) => bytes),
+    })
+  );
+  const csvLayer = createLayer(tileLayer({ data: [3, 0, 2, 1] }));
+
+  log(`base64 loaded ${base64Layer.loaded}`);
+  describeRows(base64Layer.grid, String).forEach(log);
+  log(`csv loaded ${csvLayer.loaded}`);
+  describeRows(csvLayer.grid, String).forEach(log);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "base64 loaded true",
+      "0 1",
+      "-1 2",
+      "csv loaded true",
+      "2 -1",
+      "1 0",
+    ]
+  `);
+});
+
+test("the flip flags in global tile ids are moved into the layer's flags", () => {
+  const layer = createLayer(
+    tileLayer({
+      width: 3,
+      height: 2,
+      data: [
+        1,
+        0x80000000 + 2,
+        0x40000000 + 2,
+        0x20000000 + 3,
+        0xe0000000 + 3,
+        0,
+      ],
+    })
+  );
+
+  const describeFlags = (flags: number) =>
+    [
+      flags & TileMap.FLIPPED_HORIZONTALLY ? "H" : "",
+      flags & TileMap.FLIPPED_VERTICALLY ? "V" : "",
+      flags & TileMap.FLIPPED_DIAGONALLY ? "D" : "",
+    ].join("") || "-";
+
+  describeRows(layer.grid, String).forEach(log);
+  describeRows(layer.flags, describeFlags).forEach(log);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "0 1 1",
+      "2 2 -1",
+      "- H V",
+      "D HVD -",
+    ]
+  `);
+});
+
+test("infinite maps start at their top-left chunk", () => {
+  const map = createMap({
+    infinite: true,
+    layers: [
+      tileLayer({
+        chunks: [
+          { x: 0, y: 0, width: 2, height: 1, data: [1, 2] },
+          { x: -2, y: -1, width: 2, height: 1, data: [3, 0] },
+        ],
+      }),
+      tileLayer({
+        name: "decoration",
+        chunks: [{ x: 1, y: 1, width: 2, height: 1, data: [1, 1] }],
+      }),
+    ],
+  });
+
+  for (const layer of map.layers) {
+    log(`${layer.name} origin ${layer.origin.x}, ${layer.origin.y}`);
+    describeRows(layer.grid, String).forEach(log);
+  }
+  log(`map origin ${map.origin.x}, ${map.origin.y}`);
+  log(`map size ${map.sizeInTiles.x}, ${map.sizeInTiles.y}`);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "ground origin -2, -1",
+      "2 -1 -1 -1",
+      "-1 -1 0 1",
+      "decoration origin 1, 1",
+      "0 0",
+      "map origin -2, -1",
+      "map size 5, 3",
+    ]
+  `);
+});
+
+test("each tileset's tiles are numbered from its firstgid", () => {
+  const property = (value: string) => ({
+    name: "from",
+    type: "string" as const,
+    value,
+  });
+
+  const map = createMap({
+    // Tilesets can be listed in any order.
+    tilesets: [
+      tileset("trees.png", {
+        firstgid: 5,
+        tiles: [{ id: 0, properties: [property("trees tile 0")] }],
+      }),
+      tileset("ground.png", {
+        firstgid: 1,
+        tiles: [{ id: 1, properties: [property("ground tile 1")] }],
+      }),
+    ],
+    layers: [tileLayer({ data: [2, 5, 0, 6] })],
+  });
+
+  const layer = map.layers[0];
+  describeRows(layer.grid, String).forEach(log);
+  for (let y = 0; y < 2; y++) {
+    for (let x = 0; x < 2; x++) {
+      log(`${x}, ${y}: ${JSON.stringify(map.propertiesAt(layer, x, y))}`);
+    }
+  }
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "1 4",
+      "-1 5",
+      "0, 0: {\\"from\\":\\"ground tile 1\\"}",
+      "1, 0: {\\"from\\":\\"trees tile 0\\"}",
+      "0, 1: {}",
+      "1, 1: {}",
+    ]
+  `);
+});
+
+const describePoint = ({ x, y }: Point) => `${+x.toFixed(2)}, ${+y.toFixed(2)}`;
+
+function describeShape(shape: Polygon | Circle) {
+  if (shape instanceof Circle) return `circle of radius ${shape.radius}`;
+  return `${shape.points.length}-sided polygon, ${+shape.width.toFixed(
+    2
+  )}x${+shape.height.toFixed(2)}`;
+}
+
+function objectLayer(objects: Array<Partial<TiledJSONObject>>): TiledJSONLayer {
+  return {
+    type: "objectgroup",
+    name: "objects",
+    objects: objects.map((object, index) => ({
+      id: index + 1,
+      name: "",
+      x: 0,
+      y: 0,
+      ...object,
+    })),
+  } as TiledJSONLayer;
+}
+
+test("spawnObjects creates Entities for the objects whose type has a factory", () => {
+  const map = createMap({
+    layers: [
+      objectLayer([
+        { name: "crate", type: "box", x: 10, y: 20, width: 20, height: 10 },
+        // Rotated a quarter turn clockwise around its top-left corner.
+        {
+          name: "turned crate",
+          type: "box",
+          x: 10,
+          y: 20,
+          width: 20,
+          height: 10,
+          rotation: 90,
+        },
+        {
+          name: "coin",
+          class: "pickup",
+          x: 30,
+          y: 30,
+          width: 8,
+          height: 8,
+          ellipse: true,
+        },
+        {
+          name: "egg",
+          class: "pickup",
+          x: 30,
+          y: 30,
+          width: 8,
+          height: 16,
+          ellipse: true,
+        },
+        { name: "spawn", type: "marker", x: 5, y: 6, point: true },
+        {
+          name: "ramp",
+          type: "box",
+          x: 40,
+          y: 40,
+          polygon: [
+            { x: 0, y: 0 },
+            { x: 30, y: 0 },
+            { x: 30, y: -30 },
+          ],
+        },
+        { name: "sign", type: "decoration", x: 0, y: 0, width: 4, height: 4 },
+      ]),
+    ],
+  });
+
+  const logObject: TiledObjectFactory = (object, geometry) => {
+    if (object.kind === "string") return;
+    log(
+      `${object.name} (${object.kind}): ${describeShape(
+        geometry.shape
+      )} at ${describePoint(geometry.position)}, rotated ${Math.round(
+        (geometry.rotation.radians * 180) / Math.PI
+      )}°`
+    );
+  };
+  map.registerObjectFactory("box", logObject);
+  map.registerObjectFactory("pickup", logObject);
+  map.registerObjectFactory("marker", logObject);
+
+  const entities = map.spawnObjects();
+  log(`spawned ${entities.map((ent) => ent.name).join(", ")}`);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "crate (unknown): 4-sided polygon, 20x10 at 20, 25, rotated 0°",
+      "turned crate (unknown): 4-sided polygon, 20x10 at 5, 30, rotated 90°",
+      "coin (ellipse): circle of radius 4 at 34, 34, rotated 0°",
+      "egg (ellipse): 16-sided polygon, 8x16 at 34, 38, rotated 0°",
+      "spawn (point): circle of radius 0 at 5, 6, rotated 0°",
+      "ramp (polygon): 3-sided polygon, 30x30 at 60, 30, rotated 0°",
+      "spawned crate, turned crate, coin, egg, spawn, ramp",
+    ]
+  `);
+});
+
+test("the collision shapes of partly solid tiles are flipped along with their tiles", () => {
+  // Tile 1 is a slope rising to the right; tile 2 is entirely solid.
+  const map = createMap({
+    width: 4,
+    height: 2,
+    tilesets: [
+      tileset("tiles.png", {
+        tiles: [
+          {
+            id: 0,
+            objectgroup: {
+              objects: [
+                {
+                  id: 1,
+                  name: "",
+                  x: 0,
+                  y: 16,
+                  polygon: [
+                    { x: 0, y: 0 },
+                    { x: 16, y: -16 },
+                    { x: 16, y: 0 },
+                  ],
+                },
+              ],
+            },
+          },
+          {
+            id: 1,
+            objectgroup: {
+              objects: [{ id: 1, name: "", x: 0, y: 0, width: 16, height: 16 }],
+            },
+          },
+        ],
+      }),
+    ],
+    layers: [
+      tileLayer({
+        width: 4,
+        height: 2,
+        data: [1, 0x80000000 + 1, 0x40000000 + 1, 0x20000000 + 1, 2, 2, 0, 2],
+      }),
+    ],
+  });
+
+  for (const { shape, position } of map.collisionShapes(map.layers[0])) {
+    log(
+      `${describeShape(shape)} at ${describePoint(
+        position
+      )}: ${shape.points
+        .map((point) => `(${describePoint(point.add(position))})`)
+        .join(" ")}`
+    );
+  }
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "3-sided polygon, 16x16 at 10.67, 10.67: (0, 16) (16, 0) (16, 16)",
+      "3-sided polygon, 16x16 at 21.33, 10.67: (32, 16) (16, 0) (16, 16)",
+      "3-sided polygon, 16x16 at 42.67, 5.33: (32, 0) (48, 16) (48, 0)",
+      "3-sided polygon, 16x16 at 58.67, 10.67: (64, 0) (48, 16) (64, 16)",
+      "4-sided polygon, 32x16 at 16, 24: (0, 16) (32, 16) (32, 32) (0, 32)",
+      "4-sided polygon, 16x16 at 56, 24: (48, 16) (64, 16) (64, 32) (48, 32)",
+    ]
+  `);
+});
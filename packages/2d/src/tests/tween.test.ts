@@ -0,0 +1,176 @@
+import { useNewComponent } from "@hex-engine/core";
+import Tween from "../Components/Tween";
+import { messages, log, createHeadlessRoot } from "./helpers";
+
+function setup() {
+  const { canvas, result: tween } = createHeadlessRoot(() =>
+    useNewComponent(Tween)
+  );
+  return { tween, canvas };
+}
+
+test("to animates a value over its duration", () => {
+  const { tween, canvas } = setup();
+  const target = { x: 0 };
+
+  const handle = tween.to(target, { x: 100 }, { duration: 100 });
+  canvas.runFrames(1, 25);
+  log(`x ${target.x}`);
+  canvas.runFrames(1, 50);
+  log(`x ${target.x} finished ${handle.isFinished}`);
+  canvas.runFrames(1, 50);
+  log(`x ${target.x} finished ${handle.isFinished}`);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "x 25",
+      "x 75 finished false",
+      "x 100 finished true",
+    ]
+  `);
+});
+
+test("sequence plays steps one after another, starting each from where the last left off", () => {
+  const { tween, canvas } = setup();
+  const target = { x: 0 };
+
+  tween.play(
+    Tween.sequence(
+      Tween.to(target, { x: 10 }, { duration: 100 }),
+      Tween.callback(() => log("called")),
+      Tween.delay(50),
+      Tween.to(target, { x: 0 }, { duration: 100 })
+    )
+  );
+
+  for (let i = 0; i < 6; i++) {
+    canvas.runFrames(1, 50);
+    log(`x ${target.x}`);
+  }
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "x 5",
+      "called",
+      "x 10",
+      "x 10",
+      "x 5",
+      "x 0",
+      "x 0",
+    ]
+  `);
+});
+
+test("callback runs again on each repetition", () => {
+  const { tween, canvas } = setup();
+  let count = 0;
+
+  tween.play(
+    Tween.sequence(
+      Tween.callback(() => log(`start ${count}`)),
+      Tween.delay(100),
+      Tween.callback(() => log(`end ${count++}`))
+    ),
+    { repeat: 2, onComplete: () => log("complete") }
+  );
+
+  for (let i = 0; i < 7; i++) {
+    canvas.runFrames(1, 45);
+  }
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "start 0",
+      "end 0",
+      "start 1",
+      "end 1",
+      "start 2",
+      "end 2",
+      "complete",
+    ]
+  `);
+});
+
+test("a frame that spans several repetitions plays through each of them", () => {
+  const { tween, canvas } = setup();
+  const target = { x: 0 };
+  let count = 0;
+
+  tween.play(
+    Tween.sequence(
+      Tween.to(target, { x: 100 }, { duration: 100 }),
+      Tween.callback(() => log(`end ${count++} at x ${target.x}`))
+    ),
+    { repeat: 4, yoyo: true, onComplete: () => log("complete") }
+  );
+
+  canvas.runFrames(1, 350);
+  log(`x ${target.x}`);
+  canvas.runFrames(1, 1000);
+  log(`x ${target.x}`);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "end 0 at x 100",
+      "end 1 at x 100",
+      "x 50",
+      "end 2 at x 100",
+      "complete",
+      "x 100",
+    ]
+  `);
+});
+
+test("steps don't replace the Function.prototype methods of the Component", () => {
+  expect(Tween.call).toBe(Function.prototype.call);
+});
+
+test("yoyo plays every other repetition backwards", () => {
+  const { tween, canvas } = setup();
+  const target = { x: 0 };
+
+  const handle = tween.to(
+    target,
+    { x: 100 },
+    { duration: 100, repeat: 2, yoyo: true }
+  );
+
+  for (let i = 0; i < 6; i++) {
+    canvas.runFrames(1, 50);
+    log(`x ${target.x} finished ${handle.isFinished}`);
+  }
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "x 50 finished false",
+      "x 100 finished false",
+      "x 50 finished false",
+      "x 0 finished false",
+      "x 50 finished false",
+      "x 100 finished true",
+    ]
+  `);
+});
+
+test("stop leaves values where they are, and finish jumps to the end", () => {
+  const { tween, canvas } = setup();
+  const first = { x: 0 };
+  const second = { x: 0 };
+
+  const firstHandle = tween.to(first, { x: 100 }, { duration: 100 });
+  const secondHandle = tween.to(second, { x: 100 }, { duration: 100 });
+  canvas.runFrames(1, 50);
+
+  firstHandle.stop();
+  secondHandle.finish();
+  canvas.runFrames(1, 50);
+  log(`first ${first.x} finished ${firstHandle.isFinished}`);
+  log(`second ${second.x} finished ${secondHandle.isFinished}`);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "first 50 finished true",
+      "second 100 finished true",
+    ]
+  `);
+});
@@ -0,0 +1,224 @@
+import {
+  useType,
+  useNewComponent,
+  useChild,
+  useEntityName,
+} from "@hex-engine/core";
+import { useRawDraw } from "../Canvas";
+import { DrawChildren } from "../Canvas/DrawChildren";
+import Camera from "../Components/Camera";
+import Viewport, { useViewportVisibility } from "../Components/Viewport";
+import { Point } from "../Models";
+import { FakeCanvas } from "./dom";
+import { messages, log, createHeadlessRoot } from "./helpers";
+
+const describeTransform = ({ a, b, c, d, e, f }: DOMMatrix) =>
+  [a, b, c, d, e, f].map((value) => +value.toFixed(2)).join(", ");
+
+type Visibility = Parameters<typeof useViewportVisibility>[0];
+
+/** Logs which Viewport it's drawn into, and the transform it's drawn with. */
+function LogDraws(visibility: Array<Visibility>) {
+  useType(LogDraws);
+  // Visibility is per Component, so it has to be set by the Component that draws.
+  visibility.forEach(useViewportVisibility);
+
+  useRawDraw((context) => {
+    const viewport = Viewport.current();
+    log(
+      `${useEntityName()} drawn into ${
+        viewport ? viewport.name : "the whole canvas"
+      } with ${describeTransform(context.getTransform())}`
+    );
+  });
+}
+
+/** Fills the whole canvas with a color, ignoring the transform, to show where it's clipped to. */
+function FillCanvas(color: string, only: Array<string>) {
+  useType(FillCanvas);
+  useViewportVisibility({ only });
+
+  useRawDraw((context) => {
+    context.resetTransform();
+    context.fillStyle = color;
+    context.fillRect(0, 0, context.canvas.width, context.canvas.height);
+  });
+}
+
+function makeThing(name: string, ...visibility: Array<Visibility>) {
+  return useChild(() => {
+    useEntityName(name);
+    useNewComponent(() => LogDraws(visibility));
+  });
+}
+
+/** Creates a headless root that draws into a 300x150 `FakeCanvas`, with the specified Viewports. */
+function setup(makeViewports: () => void, makeThings: () => void) {
+  const element = new FakeCanvas();
+  const context = (element.getContext() as unknown) as CanvasRenderingContext2D;
+  const backstage = (new FakeCanvas().getContext() as unknown) as CanvasRenderingContext2D;
+
+  const { root, canvas } = createHeadlessRoot(() => {
+    makeViewports();
+    useNewComponent(() =>
+      DrawChildren({ context, backstage, backgroundColor: "rgb(0, 0, 0)" })
+    );
+    makeThings();
+  });
+
+  const colorAt = (x: number, y: number) => {
+    const offset = (y * element.width + x) * 4;
+    return `rgb(${element.context.pixels
+      .slice(offset, offset + 3)
+      .join(", ")})`;
+  };
+
+  return { root, canvas, element, colorAt };
+}
+
+/** Two 150x150 Viewports, side by side. The second is zoomed in, looking at 100, 50. */
+function makeSplitScreen() {
+  const player1 = useNewComponent(() =>
+    Viewport({
+      name: "player1",
+      position: new Point(0, 0),
+      size: new Point(150, 150),
+    })
+  );
+
+  const camera = useChild(() => {
+    useEntityName("player2 camera");
+    return useNewComponent(() =>
+      Camera({ position: new Point(100, 50), zoom: 2 })
+    );
+  }).getComponent(Camera)!;
+  const player2 = useNewComponent(() =>
+    Viewport({
+      name: "player2",
+      position: new Point(150, 0),
+      size: new Point(150, 150),
+      camera,
+    })
+  );
+
+  return { player1, player2 };
+}
+
+test("everything is drawn into each Viewport, with that Viewport's camera", () => {
+  const { canvas } = setup(makeSplitScreen, () => {
+    makeThing("world");
+  });
+
+  canvas.runFrames(1);
+  log(`current Viewport after drawing: ${Viewport.current()}`);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "world drawn into player1 with 1, 0, 0, 1, 75, 75",
+      "world drawn into player2 with 2, 0, 0, 2, 25, -25",
+      "current Viewport after drawing: null",
+    ]
+  `);
+});
+
+test("without Viewports, everything is drawn once, with the root's Camera", () => {
+  const { canvas } = setup(
+    () => {
+      useNewComponent(() => Camera({ position: new Point(10, 0) }));
+    },
+    () => {
+      makeThing("world");
+    }
+  );
+
+  canvas.runFrames(1);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "world drawn into the whole canvas with 1, 0, 0, 1, 140, 75",
+    ]
+  `);
+});
+
+test("useViewportVisibility picks which Viewports a Component is drawn into", () => {
+  const { canvas } = setup(makeSplitScreen, () => {
+    makeThing("player1 HUD", { only: ["player1"] });
+    makeThing("not in player1", { except: ["player1"] });
+    makeThing(
+      "nowhere",
+      { only: ["player1", "player2"] },
+      { except: ["player1", "player2"] }
+    );
+    makeThing("everywhere");
+  });
+
+  canvas.runFrames(1);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "player1 HUD drawn into player1 with 1, 0, 0, 1, 75, 75",
+      "everywhere drawn into player1 with 1, 0, 0, 1, 75, 75",
+      "not in player1 drawn into player2 with 2, 0, 0, 2, 25, -25",
+      "everywhere drawn into player2 with 2, 0, 0, 2, 25, -25",
+    ]
+  `);
+});
+
+test("Viewport.resetTransform resets to the corner of the Viewport being drawn into", () => {
+  const { canvas } = setup(makeSplitScreen, () => {
+    useChild(() => {
+      useEntityName("HUD");
+      useRawDraw((context) => {
+        Viewport.resetTransform(context);
+        log(
+          `HUD in ${Viewport.current()!.name}: ${describeTransform(
+            context.getTransform()
+          )}`
+        );
+      });
+    });
+  });
+
+  canvas.runFrames(1);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "HUD in player1: 1, 0, 0, 1, 0, 0",
+      "HUD in player2: 1, 0, 0, 1, 150, 0",
+    ]
+  `);
+});
+
+test("each Viewport is clipped to its own region, and disabled Viewports aren't drawn", () => {
+  const { root, canvas, element, colorAt } = setup(makeSplitScreen, () => {
+    useChild(() => {
+      useNewComponent(() => FillCanvas("rgb(255, 0, 0)", ["player1"]));
+    });
+    useChild(() => {
+      useNewComponent(() => FillCanvas("rgb(0, 0, 255)", ["player2"]));
+    });
+  });
+
+  const logColors = (description: string) =>
+    log(`${description}: ${colorAt(10, 10)} | ${colorAt(290, 140)}`);
+
+  canvas.runFrames(1);
+  logColors("both Viewports");
+  log(
+    `clipped to: ${element.context.calls
+      .filter((call) => call.startsWith("rect"))
+      .join(" | ")}`
+  );
+
+  Viewport.allOn(root)[1].disable();
+  canvas.runFrames(1);
+  logColors("player1 only");
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "both Viewports: rgb(255, 0, 0) | rgb(0, 0, 255)",
+      "clipped to: rect 0, 0, 150, 150 | rect 150, 0, 150, 150",
+      "player1 only: rgb(255, 0, 0) | rgb(0, 0, 0)",
+    ]
+  `);
+});
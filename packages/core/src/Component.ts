@@ -2,6 +2,7 @@ import {
   Component as ComponentInterface,
   Entity as EntityInterface,
 } from "./Interface";
+import { entityChanged } from "./Query";
 
 export const ON_ENABLED = Symbol("ON_ENABLED");
 export const ON_DISABLED = Symbol("ON_DISABLED");
@@ -58,11 +59,13 @@ export default class Component implements ComponentInterface {
       .all()
       .forEach((callback) => callback());
     this._isEnabled = true;
+    entityChanged(this.entity);
   }
   disable() {
     this.stateAccumulator<() => void>(ON_DISABLED)
       .all()
       .forEach((callback) => callback());
     this._isEnabled = false;
+    entityChanged(this.entity);
   }
 }
@@ -4,6 +4,127 @@ import ErrorBoundary from "./ErrorBoundary";
 
 const { useType, useEntity } = HooksSystem.hooks;
 
+/**
+ * An object that decides when the `RunLoop` should run its next frame.
+ *
+ * `requestFrame` should arrange for the provided callback to be called once
+ * with the current timestamp in milliseconds, and return a handle that can be
+ * passed to `cancelFrame`.
+ *
+ * If the scheduler provides a `now` function, the `RunLoop` will use it to
+ * measure the first frame after it is enabled; otherwise, the first frame
+ * is only used to record the starting timestamp.
+ */
+export type Scheduler = {
+  requestFrame(callback: (timestamp: number) => void): number;
+  cancelFrame(handle: number): void;
+  now?: () => number;
+};
+
+/**
+ * A Scheduler that runs frames using `requestAnimationFrame`. This is
+ * what the `RunLoop` uses by default.
+ */
+const animationFrameScheduler: Scheduler = {
+  requestFrame(callback) {
+    return requestAnimationFrame(callback);
+  },
+  cancelFrame(handle) {
+    cancelAnimationFrame(handle);
+  },
+};
+
+/**
+ * Create a Scheduler that runs frames using `setTimeout`, at the specified
+ * interval. This is useful for running a game in environments without
+ * `requestAnimationFrame`, such as a Node server.
+ * @param interval How often to run frames, in milliseconds. Defaults to 60 frames per second.
+ */
+function makeIntervalScheduler(interval: number = 1000 / 60): Scheduler {
+  const now = () => Date.now();
+
+  // Depending on the environment, `setTimeout` returns either a number or an object,
+  // so the timeouts are kept here and handed out as numbers.
+  let nextHandle = 1;
+  const timeouts: Map<number, ReturnType<typeof setTimeout>> = new Map();
+
+  return {
+    requestFrame(callback) {
+      const handle = nextHandle;
+      nextHandle++;
+      timeouts.set(
+        handle,
+        setTimeout(() => {
+          timeouts.delete(handle);
+          callback(now());
+        }, interval)
+      );
+      return handle;
+    },
+    cancelFrame(handle) {
+      const timeout = timeouts.get(handle);
+      if (timeout != null) {
+        clearTimeout(timeout);
+        timeouts.delete(handle);
+      }
+    },
+    now,
+  };
+}
+
+/**
+ * Create a Scheduler that only runs frames when you tell it to, by calling
+ * `advance` or `runFrames`. Time only passes when you advance it, so this
+ * is useful for stepping through a game programmatically in tests.
+ */
+function makeManualScheduler() {
+  let currentTime = 0;
+  let nextHandle = 1;
+  const pending: Map<number, (timestamp: number) => void> = new Map();
+
+  const scheduler = {
+    requestFrame(callback: (timestamp: number) => void) {
+      const handle = nextHandle;
+      nextHandle++;
+      pending.set(handle, callback);
+      return handle;
+    },
+    cancelFrame(handle: number) {
+      pending.delete(handle);
+    },
+    now() {
+      return currentTime;
+    },
+
+    /**
+     * Move time forward by the specified number of milliseconds,
+     * and run one frame.
+     * @param delta How much time should pass. Defaults to 1/60th of a second.
+     */
+    advance(delta: number = 1000 / 60) {
+      currentTime += delta;
+
+      const callbacks = [...pending.values()];
+      pending.clear();
+      callbacks.forEach((callback) => callback(currentTime));
+    },
+
+    /**
+     * Run the specified number of frames, moving time forward by `delta`
+     * milliseconds for each one.
+     * @param count How many frames to run.
+     * @param delta How much time should pass each frame. Defaults to 1/60th of a second.
+     */
+    runFrames(count: number, delta: number = 1000 / 60) {
+      for (let i = 0; i < count; i++) {
+        scheduler.advance(delta);
+      }
+    },
+  };
+
+  return scheduler;
+}
+
 /**
  * An internal requestAnimationFrame-based RunLoop to be placed on
  * the root Entity.
@@ -17,10 +138,47 @@ const { useType, useEntity } = HooksSystem.hooks;
  * The `pause`, `step`, `resume`, `isPaused`, and `frameNumber` functions
  * on the API object for this Component are used by `@hex-engine/inspector`.
  *
+ * By default, simulation callbacks and frame callbacks are both called once
+ * per animation frame, with the number of milliseconds since the last frame.
+ * If you pass a `fixedTimestep`, simulation callbacks will instead be called
+ * zero or more times per animation frame, always with the same delta, so that
+ * your game logic runs at the same rate regardless of the monitor's refresh
+ * rate. Frame callbacks then receive an interpolation alpha that you can use
+ * to smooth out rendering between simulation steps.
+ *
  * If you are using `@hex-engine/2d`, you do not need to use this Component
  * directly; use `Canvas` instead.
  */
-export default function RunLoop() {
+function RunLoop({
+  scheduler = animationFrameScheduler,
+  fixedTimestep = null,
+  maxStepsPerFrame = 5,
+}: {
+  /**
+   * The Scheduler that decides when frames should run. Defaults to
+   * `RunLoop.animationFrameScheduler`, which uses `requestAnimationFrame`.
+   *
+   * See also `RunLoop.makeIntervalScheduler` and `RunLoop.makeManualScheduler`.
+   */
+  scheduler?: Scheduler | undefined;
+
+  /**
+   * If specified, simulation callbacks will be run at this fixed interval,
+   * in milliseconds, instead of once per animation frame. For example,
+   * pass `1000 / 60` to simulate at 60 steps per second.
+   */
+  fixedTimestep?: number | null | undefined;
+
+  /**
+   * When using a `fixedTimestep`, the maximum number of simulation steps
+   * that will be run within a single animation frame. If the game falls
+   * further behind than this (for instance, because the browser tab was in
+   * the background), the remaining time is dropped instead of being caught up.
+   *
+   * Defaults to 5.
+   */
+  maxStepsPerFrame?: number | undefined;
+} = {}) {
   useType(RunLoop);
 
   const ent = useEntity();
@@ -28,24 +186,67 @@ export default function RunLoop() {
   let frameNumber: number = 0;
   let frameRequest: number | null = null;
   let lastTimestamp: number | null = null;
-  let onFrameCallbacks: Set<(delta: number) => void> = new Set();
+  let onSimulationCallbacks: Set<(delta: number) => void> = new Set();
+  let onFrameCallbacks: Set<(delta: number, alpha: number) => void> = new Set();
   let isPaused = false;
 
+  const timing: { fixedTimestep: number | null; maxStepsPerFrame: number } = {
+    fixedTimestep: fixedTimestep ?? null,
+    maxStepsPerFrame,
+  };
+  let accumulator = 0;
+  let alpha = 1;
+
   const { onEnabled, onDisabled } = useEnableDisable();
 
-  function runFrameCallbacks(delta: number) {
-    frameNumber++;
-    for (const onFrameCallback of onFrameCallbacks) {
+  function runCallbacks<Args extends Array<any>>(
+    callbacks: Set<(...args: Args) => void>,
+    ...args: Args
+  ) {
+    for (const callback of callbacks) {
       try {
-        onFrameCallback(delta);
+        callback(...args);
       } catch (err) {
         ErrorBoundary.runHandlers(ent, err);
       }
     }
   }
 
+  function runSimulation(delta: number) {
+    const step = timing.fixedTimestep;
+    if (step == null || step <= 0) {
+      runCallbacks(onSimulationCallbacks, delta);
+      accumulator = 0;
+      alpha = 1;
+      return;
+    }
+
+    accumulator += delta;
+
+    let steps = 0;
+    while (accumulator >= step && steps < timing.maxStepsPerFrame) {
+      runCallbacks(onSimulationCallbacks, step);
+      accumulator -= step;
+      steps++;
+    }
+
+    if (accumulator >= step) {
+      // We fell too far behind; drop the time we couldn't simulate, so
+      // that we don't end up running more and more steps every frame.
+      accumulator = accumulator % step;
+    }
+
+    alpha = accumulator / step;
+  }
+
+  function runFrameCallbacks(delta: number) {
+    frameNumber++;
+    runSimulation(delta);
+    runCallbacks(onFrameCallbacks, delta, alpha);
+  }
+
   function tick(timestamp: number) {
-    if (lastTimestamp) {
+    if (lastTimestamp != null) {
       const delta = timestamp - lastTimestamp;
       lastTimestamp = timestamp;
 
@@ -54,58 +255,64 @@ export default function RunLoop() {
       lastTimestamp = timestamp;
     }
     if (!isPaused) {
-      frameRequest = requestAnimationFrame(tick);
+      frameRequest = scheduler.requestFrame(tick);
     }
   }
 
   function pause() {
     if (frameRequest != null) {
-      cancelAnimationFrame(frameRequest);
+      scheduler.cancelFrame(frameRequest);
     }
     isPaused = true;
   }
 
   function step() {
     if (frameRequest != null) {
-      cancelAnimationFrame(frameRequest);
+      scheduler.cancelFrame(frameRequest);
     }
 
-    frameRequest = requestAnimationFrame((timestamp: number) => {
+    frameRequest = scheduler.requestFrame((timestamp: number) => {
       lastTimestamp = timestamp;
-      runFrameCallbacks(16.667);
+      runFrameCallbacks(timing.fixedTimestep || 16.667);
     });
   }
 
   function resume() {
     if (frameRequest != null) {
-      cancelAnimationFrame(frameRequest);
+      scheduler.cancelFrame(frameRequest);
     }
-    frameRequest = requestAnimationFrame((timestamp) => {
+    frameRequest = scheduler.requestFrame((timestamp) => {
       lastTimestamp = timestamp;
-      frameRequest = requestAnimationFrame(tick);
+      frameRequest = scheduler.requestFrame(tick);
     });
     isPaused = false;
   }
 
   onEnabled(function RunLoopEnabled() {
     if (frameRequest != null) {
-      cancelAnimationFrame(frameRequest);
+      scheduler.cancelFrame(frameRequest);
     }
-    frameRequest = requestAnimationFrame(tick);
+    lastTimestamp = scheduler.now ? scheduler.now() : null;
+    frameRequest = scheduler.requestFrame(tick);
   });
 
   onDisabled(function RunLoopDisabled() {
     if (frameRequest != null) {
-      cancelAnimationFrame(frameRequest);
+      scheduler.cancelFrame(frameRequest);
     }
   });
 
   return {
     /**
      * Adds a function that should be called every frame.
+     *
+     * It will receive the number of milliseconds since the last frame, and
+     * an interpolation alpha from 0 to 1 indicating how far the simulation
+     * is between its last step and its next one. When not using a
+     * `fixedTimestep`, the alpha is always 1.
      * @param callback The function to call every frame.
      */
-    addFrameCallback(callback: (delta: number) => void) {
+    addFrameCallback(callback: (delta: number, alpha: number) => void) {
       onFrameCallbacks.add(callback);
     },
     /**
@@ -113,10 +320,61 @@ export default function RunLoop() {
      * called every frame.
      * @param callback The function to no longer call every frame.
      */
-    removeFrameCallback(callback: (delta: number) => void) {
+    removeFrameCallback(callback: (delta: number, alpha: number) => void) {
       onFrameCallbacks.delete(callback);
     },
 
+    /**
+     * Adds a function that should be called every simulation step.
+     *
+     * Simulation callbacks run before frame callbacks. When not using a
+     * `fixedTimestep`, there is one simulation step per frame.
+     * @param callback The function to call every simulation step.
+     */
+    addSimulationCallback(callback: (delta: number) => void) {
+      onSimulationCallbacks.add(callback);
+    },
+    /**
+     * Removes a previously-added function, so that it is no longer
+     * called every simulation step.
+     * @param callback The function to no longer call every simulation step.
+     */
+    removeSimulationCallback(callback: (delta: number) => void) {
+      onSimulationCallbacks.delete(callback);
+    },
+
+    /**
+     * The interval, in milliseconds, at which simulation callbacks are run,
+     * or null if they are run once per animation frame.
+     */
+    get fixedTimestep() {
+      return timing.fixedTimestep;
+    },
+    set fixedTimestep(nextValue: number | null) {
+      timing.fixedTimestep = nextValue;
+      accumulator = 0;
+    },
+
+    /**
+     * When using a `fixedTimestep`, the maximum number of simulation steps
+     * that will be run within a single animation frame.
+     */
+    get maxStepsPerFrame() {
+      return timing.maxStepsPerFrame;
+    },
+    set maxStepsPerFrame(nextValue: number) {
+      timing.maxStepsPerFrame = nextValue;
+    },
+
+    /**
+     * A number from 0 to 1 indicating how far the simulation is between its
+     * last step and its next one, as of the most recent frame. This is also
+     * passed to frame callbacks.
+     */
+    get alpha() {
+      return alpha;
+    },
+
     /**
      * Stop running frame callbacks every animation frame.
      *
@@ -126,7 +384,8 @@ export default function RunLoop() {
 
     /**
      * Call all registered frame callbacks *once*, as if
-     * one animation frame had passed.
+     * one animation frame had passed. When using a `fixedTimestep`,
+     * this runs exactly one simulation step.
      *
      * This is debugging purposes.
      */
@@ -155,5 +414,19 @@ export default function RunLoop() {
     get frameNumber() {
       return frameNumber;
     },
+
+    /** The Scheduler that this RunLoop uses to decide when frames should run. */
+    scheduler,
   };
 }
+
+/**
+ * An internal requestAnimationFrame-based RunLoop to be placed on
+ * the root Entity. The Scheduler it uses can be swapped out, so that
+ * it can run outside of a browser.
+ */
+export default Object.assign(RunLoop, {
+  animationFrameScheduler,
+  makeIntervalScheduler,
+  makeManualScheduler,
+});
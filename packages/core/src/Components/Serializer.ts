@@ -0,0 +1,296 @@
+import HooksSystem from "../HooksSystem";
+import Entity from "../Entity";
+import {
+  Entity as EntityInterface,
+  Component as ComponentInterface,
+} from "../Interface";
+
+const { useType, useEntity } = HooksSystem.hooks;
+
+export const SERIALIZABLE = Symbol("SERIALIZABLE");
+
+export type Serializable = {
+  key: string;
+  getState: () => any;
+  setState: (state: any) => void;
+};
+
+/** The saved state of a single Component, as produced by `Serializer`. */
+export type ComponentSnapshot = {
+  /** The name of the Component's type, for debugging purposes. */
+  type: string | null;
+
+  /** The state of the Component, keyed by the keys passed into `useSerializable`. */
+  state: { [key: string]: any };
+};
+
+/** The saved state of an Entity and its descendants, as produced by `Serializer`. */
+export type EntitySnapshot = {
+  /** The id the Entity had when it was saved. Restored Entities get new ids. */
+  id: number;
+
+  /** The name the Entity had when it was saved. */
+  name: string | null;
+
+  /** The name of the factory that can recreate this Entity, or null if there isn't one. */
+  factory: string | null;
+
+  /** The state of every Component on the Entity that called `useSerializable`, in order. */
+  components: Array<ComponentSnapshot>;
+
+  children: Array<EntitySnapshot>;
+};
+
+type Factory = {
+  /** A unique name for this factory. This is what gets saved in the snapshot. */
+  name: string;
+
+  /**
+   * The Component function that the root Component of matching Entities has,
+   * as passed to `useType`. This is how the `Serializer` identifies which factory
+   * an Entity came from.
+   */
+  type: (...args: any[]) => any;
+
+  /**
+   * A function that creates the root Component for an Entity being restored.
+   * The Entity's saved state will be applied after it's created.
+   *
+   * If unspecified, `type` will be called with no arguments.
+   */
+  create?: () => any;
+};
+
+function serializableComponents(entity: EntityInterface) {
+  return [...entity.components].filter(
+    (component) =>
+      component.stateAccumulator<Serializable>(SERIALIZABLE).all().length > 0
+  );
+}
+
+/**
+ * A Component that saves the state of the current Entity and all its descendants
+ * into a JSON-compatible snapshot, and can later restore the tree to match a snapshot.
+ * You would normally put this on your root Entity, and use it for save games or checkpoints.
+ *
+ * Only Components that opt in by calling `useSerializable` have their state saved.
+ * In order to recreate Entities that no longer exist, you need to register a factory
+ * for their root Component type.
+ *
+ * @param factories The factories that can be used to recreate Entities when restoring a snapshot.
+ */
+function Serializer(factories: Array<Factory> = []) {
+  useType(Serializer);
+
+  const ent = useEntity();
+
+  function factoryForEntity(entity: EntityInterface): Factory | null {
+    const type = entity.rootComponent?.type;
+    if (!type) return null;
+
+    return factories.find((factory) => factory.type === type) || null;
+  }
+
+  function serializeEntity(entity: EntityInterface): EntitySnapshot {
+    return {
+      id: entity.id,
+      name: entity.name ?? null,
+      factory: factoryForEntity(entity)?.name ?? null,
+      components: serializableComponents(entity).map(
+        (component: ComponentInterface) => {
+          const state: { [key: string]: any } = {};
+          for (const serializable of component
+            .stateAccumulator<Serializable>(SERIALIZABLE)
+            .all()) {
+            state[serializable.key] = serializable.getState();
+          }
+
+          return {
+            type: component.type?.name || null,
+            state,
+          };
+        }
+      ),
+      children: [...entity.children].map(serializeEntity),
+    };
+  }
+
+  function factoryForSnapshot(snapshot: EntitySnapshot): Factory {
+    const factory = factories.find(
+      (factory) => factory.name === snapshot.factory
+    );
+    if (!factory) {
+      throw new Error(
+        `Cannot restore ${snapshot.name ||
+          "unnamed entity"}: no factory was registered with the Serializer for it`
+      );
+    }
+    return factory;
+  }
+
+  /** Returns the index of the child that should be reused for the specified snapshot, or -1 if there isn't one. */
+  function findMatchingChild(
+    children: Array<EntityInterface>,
+    snapshot: EntitySnapshot
+  ): number {
+    return children.findIndex((child) =>
+      snapshot.factory != null
+        ? factoryForEntity(child)?.name === snapshot.factory
+        : factoryForEntity(child) == null && child.name === snapshot.name
+    );
+  }
+
+  /**
+   * Throws if any of the Entities that would need to be created in order to
+   * restore the snapshot don't have a factory, without changing anything.
+   */
+  function checkFactories(entity: EntityInterface, snapshot: EntitySnapshot) {
+    const unmatched = [...entity.children];
+    for (const childSnapshot of snapshot.children) {
+      const matchIndex = findMatchingChild(unmatched, childSnapshot);
+      if (matchIndex === -1) {
+        factoryForSnapshot(childSnapshot);
+        checkCreatedFactories(childSnapshot);
+      } else {
+        checkFactories(unmatched[matchIndex], childSnapshot);
+        unmatched.splice(matchIndex, 1);
+      }
+    }
+  }
+
+  /**
+   * Throws if any of the descendants of an Entity that will be created have a factory
+   * that isn't registered. Descendants without a factory can only be checked once the
+   * Entity has been created, since its factory might create them.
+   */
+  function checkCreatedFactories(snapshot: EntitySnapshot) {
+    for (const childSnapshot of snapshot.children) {
+      if (childSnapshot.factory != null) {
+        factoryForSnapshot(childSnapshot);
+      }
+      checkCreatedFactories(childSnapshot);
+    }
+  }
+
+  type RestorePlan = {
+    entity: EntityInterface;
+    snapshot: EntitySnapshot;
+    children: Array<RestorePlan>;
+
+    /** The children of the Entity that aren't in the snapshot. */
+    unmatched: Array<EntityInterface>;
+  };
+
+  /**
+   * Matches up the Entities in the snapshot with existing Entities, creating the ones
+   * that are missing. Every Entity this creates is added to `created`.
+   */
+  function planEntity(
+    entity: EntityInterface,
+    snapshot: EntitySnapshot,
+    created: Array<EntityInterface>
+  ): RestorePlan {
+    // Reuse existing children where we can (for instance, ones that the
+    // parent's factory created), and create the missing ones.
+    const unmatched = [...entity.children];
+    const children = snapshot.children.map((childSnapshot) => {
+      const matchIndex = findMatchingChild(unmatched, childSnapshot);
+
+      let child: EntityInterface;
+      if (matchIndex === -1) {
+        const factory = factoryForSnapshot(childSnapshot);
+        child = Entity._create(
+          factory.create || factory.type,
+          entity as Entity
+        );
+        created.push(child);
+      } else {
+        child = unmatched[matchIndex];
+        unmatched.splice(matchIndex, 1);
+      }
+
+      return planEntity(child, childSnapshot, created);
+    });
+
+    return { entity, snapshot, children, unmatched };
+  }
+
+  function restoreEntity(
+    { entity, snapshot, children, unmatched }: RestorePlan,
+    entitiesById: Map<number, EntityInterface>
+  ) {
+    entitiesById.set(snapshot.id, entity);
+    if (snapshot.name != null) {
+      entity.name = snapshot.name;
+    }
+
+    const components = serializableComponents(entity);
+    snapshot.components.forEach((componentSnapshot, index) => {
+      const component = components[index];
+      if (!component) return;
+
+      for (const serializable of component
+        .stateAccumulator<Serializable>(SERIALIZABLE)
+        .all()) {
+        if (serializable.key in componentSnapshot.state) {
+          serializable.setState(componentSnapshot.state[serializable.key]);
+        }
+      }
+    });
+
+    for (const child of children) {
+      restoreEntity(child, entitiesById);
+    }
+
+    for (const child of unmatched) {
+      child.destroy();
+    }
+  }
+
+  return {
+    /**
+     * Save the state of the current Entity and all its descendants into a snapshot.
+     *
+     * The snapshot only contains plain data, so it can be passed into `JSON.stringify`,
+     * as long as all of the `getState` functions passed to `useSerializable` return JSON-compatible data.
+     */
+    serialize(): EntitySnapshot {
+      return serializeEntity(ent);
+    },
+
+    /**
+     * Change the current Entity and its descendants to match the provided snapshot.
+     *
+     * Existing Entities are reused when they match an Entity in the snapshot,
+     * Entities that are in the snapshot but not in the tree are recreated using the
+     * registered factories, and Entities that are not in the snapshot are destroyed.
+     *
+     * If an Entity can't be recreated because there's no factory for it, this throws,
+     * and the tree is left as it was.
+     *
+     * @returns A Map from the ids in the snapshot to the restored Entities, since
+     * restored Entities may have different ids than the ones that were saved.
+     */
+    restore(snapshot: EntitySnapshot): Map<number, EntityInterface> {
+      checkFactories(ent, snapshot);
+
+      const created: Array<EntityInterface> = [];
+      let plan: RestorePlan;
+      try {
+        plan = planEntity(ent, snapshot, created);
+      } catch (err) {
+        // An Entity's factory didn't create a child that the snapshot expected it to.
+        for (const entity of created) {
+          entity.destroy();
+        }
+        throw err;
+      }
+
+      const entitiesById = new Map<number, EntityInterface>();
+      restoreEntity(plan, entitiesById);
+      return entitiesById;
+    },
+  };
+}
+
+export default Serializer;
@@ -3,6 +3,7 @@ import {
   Component as ComponentInterface,
 } from "./Interface";
 import instantiate from "./instantiate";
+import { entityChanged, entityRemoved } from "./Query";
 
 export const ON_DESTROY = Symbol("ON_DESTROY");
 
@@ -86,6 +87,7 @@ export default class Entity implements EntityInterface {
     const component = instantiate(componentFactory, ent);
     ent.rootComponent = component;
     ent.components.add(component);
+    entityChanged(ent);
 
     return ent;
   }
@@ -102,6 +104,7 @@ export default class Entity implements EntityInterface {
   }
   _removeChild(child: Entity): void {
     child.disable();
+    entityRemoved(child);
     this.children.delete(child);
     child.parent = null;
   }
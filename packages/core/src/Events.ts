@@ -0,0 +1,98 @@
+import { Entity } from "./Interface";
+
+/** Information about an event that is being delivered to listeners. */
+export type EntityEvent<T> = {
+  /** The type of the event; the string passed to `useEvent` and `useEventListener`. */
+  type: string;
+
+  /** The data that was passed when the event was emitted. */
+  payload: T;
+
+  /** The Entity that emitted or broadcast the event. */
+  target: Entity;
+
+  /** The Entity whose listeners are currently being run. */
+  currentTarget: Entity;
+
+  /**
+   * Prevent the event from being delivered to any more Entities.
+   * The remaining listeners on the current Entity will still be run.
+   */
+  stopPropagation(): void;
+};
+
+export type EventListener<T> = (payload: T, event: EntityEvent<T>) => void;
+
+const listenersByEntity: WeakMap<
+  Entity,
+  Map<string, Set<EventListener<any>>>
+> = new WeakMap();
+
+/** Register a listener for events of the specified type that reach the specified Entity. */
+export function addListener(
+  entity: Entity,
+  type: string,
+  listener: EventListener<any>
+) {
+  let listenersByType = listenersByEntity.get(entity);
+  if (!listenersByType) {
+    listenersByType = new Map();
+    listenersByEntity.set(entity, listenersByType);
+  }
+
+  let listeners = listenersByType.get(type);
+  if (!listeners) {
+    listeners = new Set();
+    listenersByType.set(type, listeners);
+  }
+
+  listeners.add(listener);
+}
+
+/** Unregister a listener that was registered with `addListener`. */
+export function removeListener(
+  entity: Entity,
+  type: string,
+  listener: EventListener<any>
+) {
+  const listeners = listenersByEntity.get(entity)?.get(type);
+  if (listeners) {
+    listeners.delete(listener);
+  }
+}
+
+/**
+ * Deliver an event to the listeners on each of the specified Entities, in order,
+ * until one of the listeners calls `stopPropagation`.
+ */
+export function dispatch<T>(
+  type: string,
+  payload: T,
+  target: Entity,
+  path: Array<Entity>
+) {
+  let propagationStopped = false;
+
+  for (const currentTarget of path) {
+    const listeners = listenersByEntity.get(currentTarget)?.get(type);
+    if (!listeners) continue;
+
+    const event: EntityEvent<T> = {
+      type,
+      payload,
+      target,
+      currentTarget,
+      stopPropagation() {
+        propagationStopped = true;
+      },
+    };
+
+    // Copy the listeners, so that listeners added or removed while
+    // the event is being delivered don't affect this delivery.
+    for (const listener of [...listeners]) {
+      listener(payload, event);
+    }
+
+    if (propagationStopped) break;
+  }
+}
@@ -1,7 +1,23 @@
 import useDestroy from "./useDestroy";
 import useEnableDisable from "./useEnableDisable";
 import useFrame from "./useFrame";
+import useSimulationFrame from "./useSimulationFrame";
 import useEntityName from "./useEntityName";
 import useRootEntity from "./useRootEntity";
+import useQuery from "./useQuery";
+import useSerializable from "./useSerializable";
+import useEvent from "./useEvent";
+import useEventListener from "./useEventListener";
 
-export { useDestroy, useEnableDisable, useFrame, useEntityName, useRootEntity };
+export {
+  useDestroy,
+  useEnableDisable,
+  useFrame,
+  useSimulationFrame,
+  useEntityName,
+  useRootEntity,
+  useQuery,
+  useSerializable,
+  useEvent,
+  useEventListener,
+};
@@ -0,0 +1,46 @@
+import HooksSystem from "../HooksSystem";
+import { Entity } from "../Interface";
+import { dispatch } from "../Events";
+
+const { useEntity } = HooksSystem.hooks;
+
+/**
+ * Returns an object with two functions on it, `emit` and `broadcast`, that send
+ * events of the specified type from the current Entity. Other Components can
+ * receive these events using `useEventListener`.
+ *
+ * - `emit` delivers the event to the current Entity, and then bubbles it up through its parent, its parent's parent, and so on, up to the root Entity.
+ * - `broadcast` delivers the event to the current Entity, and then down through all of its descendants.
+ *
+ * In either case, a listener can call `event.stopPropagation()` to prevent the event from reaching any more Entities.
+ *
+ * @param eventType A string identifying the type of the event; listeners use the same string to receive it.
+ */
+export default function useEvent<T = void>(eventType: string) {
+  const ent = useEntity();
+
+  return {
+    /**
+     * Emit an event on the current Entity, that will bubble up through its ancestors.
+     * @param payload The data to pass to the listeners.
+     */
+    emit(payload: T) {
+      const path: Array<Entity> = [];
+      let currentEnt: Entity | null = ent;
+      while (currentEnt) {
+        path.push(currentEnt);
+        currentEnt = currentEnt.parent;
+      }
+
+      dispatch(eventType, payload, ent, path);
+    },
+
+    /**
+     * Broadcast an event from the current Entity down to all of its descendants.
+     * @param payload The data to pass to the listeners.
+     */
+    broadcast(payload: T) {
+      dispatch(eventType, payload, ent, [ent, ...ent.descendants()]);
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import HooksSystem from "../HooksSystem";
+import { addListener, removeListener, EventListener } from "../Events";
+import ErrorBoundary from "../Components/ErrorBoundary";
+import useDestroy from "./useDestroy";
+
+const { useEntity, useCallbackAsCurrent, useIsEnabled } = HooksSystem.hooks;
+
+/**
+ * Register a function to be called whenever an event of the specified type reaches the
+ * current Entity, either by being emitted from it or one of its descendants, or by being
+ * broadcast from it or one of its ancestors. Events are sent using `useEvent`.
+ *
+ * The function will not be called while the current Component is disabled,
+ * and it will be unregistered automatically when the current Entity is destroyed.
+ *
+ * If the function throws an Error, it will be passed to the nearest `ErrorBoundary`,
+ * and the event will continue to be delivered to other listeners.
+ *
+ * @param eventType A string identifying the type of the event; the same string that was passed to `useEvent`.
+ * @param callback The function to call. It receives the event's payload, and an object with more information about the event.
+ */
+export default function useEventListener<T = void>(
+  eventType: string,
+  callback: EventListener<T>
+) {
+  const ent = useEntity();
+  const isEnabled = useCallbackAsCurrent(() => useIsEnabled());
+  const wrappedCallback = useCallbackAsCurrent(callback);
+
+  const listener: EventListener<T> = (payload, event) => {
+    if (!isEnabled()) return;
+
+    try {
+      wrappedCallback(payload, event);
+    } catch (err) {
+      ErrorBoundary.runHandlers(ent, err);
+    }
+  };
+
+  addListener(ent, eventType, listener);
+  useDestroy().onDestroy(() => {
+    removeListener(ent, eventType, listener);
+  });
+}
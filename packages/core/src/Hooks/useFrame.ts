@@ -7,10 +7,15 @@ const { useCallbackAsCurrent } = HooksSystem.hooks;
 /**
  * Register a function to be called once every animation frame, via the root Entity's `RunLoop`.
  *
+ * The function receives the number of milliseconds since the last frame, and an interpolation
+ * alpha from 0 to 1 that is only meaningful when the `RunLoop` uses a `fixedTimestep`.
+ *
  * If you are using `@hex-engine/2d`, you probably don't want to use this; use `useUpdate` or `useDraw` instead.
  * @param callback The function to be called once per frame.
  */
-export default function useFrame(callback: (delta: number) => void) {
+export default function useFrame(
+  callback: (delta: number, alpha: number) => void
+) {
   const root = useRootEntity();
   const runLoopApi = root.getComponent(RunLoop);
   if (!runLoopApi) {
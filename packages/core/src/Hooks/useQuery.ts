@@ -0,0 +1,85 @@
+import HooksSystem from "../HooksSystem";
+import { Entity } from "../Interface";
+import { getQuery, releaseQuery } from "../Query";
+import ErrorBoundary from "../Components/ErrorBoundary";
+import useRootEntity from "./useRootEntity";
+import useDestroy from "./useDestroy";
+
+const { useCallbackAsCurrent, useEntity } = HooksSystem.hooks;
+
+/**
+ * Get a live view of all the Entities in the tree that have an enabled Component
+ * of every one of the specified types. For example, `useQuery(Geometry, Physics.Body)`
+ * will find every Entity that has both a `Geometry` and a `Physics.Body`.
+ *
+ * The returned `entities` Set is kept up to date as Components are added,
+ * enabled, disabled, and destroyed, so you can keep it around and read from it
+ * every frame instead of searching the tree yourself.
+ *
+ * Note that in order to be found by this function, Components *must* have
+ * registered their type using `useType`.
+ *
+ * @param types The Component functions that an Entity must have in order to be included.
+ */
+export default function useQuery(
+  ...types: Array<(...args: any[]) => any>
+): {
+  readonly entities: ReadonlySet<Entity>;
+  onAdded(callback: (entity: Entity) => void): void;
+  onRemoved(callback: (entity: Entity) => void): void;
+} {
+  const ent = useEntity();
+  const root = useRootEntity();
+  const query = getQuery(root, types);
+
+  const listeners: Array<{
+    set: Set<(entity: Entity) => void>;
+    listener: (entity: Entity) => void;
+  }> = [];
+
+  useDestroy().onDestroy(() => {
+    for (const { set, listener } of listeners) {
+      set.delete(listener);
+    }
+    releaseQuery(root, query);
+  });
+
+  const addListener = useCallbackAsCurrent(function addListener(
+    set: Set<(entity: Entity) => void>,
+    callback: (entity: Entity) => void
+  ) {
+    const wrappedCallback = useCallbackAsCurrent(callback);
+    const listener = (entity: Entity) => {
+      try {
+        wrappedCallback(entity);
+      } catch (err) {
+        ErrorBoundary.runHandlers(ent, err);
+      }
+    };
+    set.add(listener);
+    listeners.push({ set, listener });
+  });
+
+  return {
+    /** All the Entities that currently match this query. */
+    entities: query.entities,
+
+    /**
+     * Register a function to be called whenever an Entity starts matching this query.
+     *
+     * It will not be called for Entities that were already matching when it was registered;
+     * those can be found in `entities`.
+     */
+    onAdded(callback: (entity: Entity) => void) {
+      addListener(query.addedListeners, callback);
+    },
+
+    /**
+     * Register a function to be called whenever an Entity stops matching this query,
+     * either because one of its matching Components was disabled, or because it was destroyed.
+     */
+    onRemoved(callback: (entity: Entity) => void) {
+      addListener(query.removedListeners, callback);
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import HooksSystem from "../HooksSystem";
+import { SERIALIZABLE, Serializable } from "../Components/Serializer";
+
+const { useStateAccumulator, useCallbackAsCurrent } = HooksSystem.hooks;
+
+/**
+ * Opt the current Component into being saved and restored by a `Serializer` Component.
+ *
+ * @param key A name for this piece of state, unique within the current Component.
+ * @param getState A function that returns the state to save. It should return plain,
+ * JSON-compatible data (so no `Point`s or `Angle`s; save their `x`, `y` or `radians` instead).
+ * @param setState A function that receives previously-saved state and applies it to the current Component.
+ */
+export default function useSerializable<T>(
+  key: string,
+  getState: () => T,
+  setState: (state: T) => void
+) {
+  useStateAccumulator<Serializable>(SERIALIZABLE).add({
+    key,
+    getState: useCallbackAsCurrent(getState),
+    setState: useCallbackAsCurrent(setState),
+  });
+}
@@ -0,0 +1,36 @@
+import HooksSystem from "../HooksSystem";
+import useRootEntity from "./useRootEntity";
+import useEnableDisable from "./useEnableDisable";
+import RunLoop from "../Components/RunLoop";
+const { useCallbackAsCurrent } = HooksSystem.hooks;
+
+/**
+ * Register a function to be called once every simulation step, via the root Entity's `RunLoop`.
+ *
+ * Unless the `RunLoop` was given a `fixedTimestep`, this is once per animation frame,
+ * just like `useFrame`. Simulation callbacks always run before frame callbacks.
+ *
+ * If you are using `@hex-engine/2d`, you probably don't want to use this; use `useUpdate` instead.
+ * @param callback The function to be called once per simulation step.
+ */
+export default function useSimulationFrame(callback: (delta: number) => void) {
+  const root = useRootEntity();
+  const runLoopApi = root.getComponent(RunLoop);
+  if (!runLoopApi) {
+    throw new Error(
+      "Attempted to call useSimulationFrame, but the root entity for the component did not have a RunLoop component on it. Please add a RunLoop to your root entity."
+    );
+  }
+  const { addSimulationCallback, removeSimulationCallback } = runLoopApi;
+
+  const wrappedCallback = useCallbackAsCurrent(callback);
+
+  const { onDisabled, onEnabled } = useEnableDisable();
+  onEnabled(() => {
+    addSimulationCallback(wrappedCallback);
+  });
+
+  onDisabled(() => {
+    removeSimulationCallback(wrappedCallback);
+  });
+}
@@ -5,6 +5,7 @@ import {
   Entity as EntityInterface,
 } from "./Interface";
 import instantiate from "./instantiate";
+import { entityChanged } from "./Query";
 
 /**
  * The hooks system used by Hex Engine to associate hook functions
@@ -20,6 +21,7 @@ const HooksSystem = makeHooksSystem<ComponentInterface>()({
     <T>(componentFunction: () => T): T & ComponentInterface => {
       const child = instantiate(componentFunction, instance.entity);
       instance.entity.components.add(child);
+      entityChanged(instance.entity);
 
       // @ts-ignore
       return child;
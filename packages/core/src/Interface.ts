@@ -51,6 +51,12 @@ export interface Entity {
    */
   components: Set<Component>;
 
+  /**
+   * The Component instance that was created from the Component function
+   * passed into `useChild` or `createRoot` when this Entity was created.
+   */
+  rootComponent: Component;
+
   /**
    * Searches the entity for a Component with this type, and returns the
    * first one found. If none are found, it returns null.
@@ -0,0 +1,159 @@
+import { Entity } from "./Interface";
+
+type ComponentType = (...args: any[]) => any;
+type Listener = (entity: Entity) => void;
+
+/**
+ * Internal state for a query; the live Set of Entities under a root Entity
+ * that have an enabled Component of every one of the specified types.
+ *
+ * Queries are shared between everyone who asks for the same combination of
+ * types under the same root Entity, and are torn down once all of them have
+ * released it.
+ */
+export class Query {
+  types: Array<ComponentType>;
+  entities: Set<Entity> = new Set();
+  addedListeners: Set<Listener> = new Set();
+  removedListeners: Set<Listener> = new Set();
+
+  /** How many users have gotten this query and not released it yet. */
+  users: number = 0;
+
+  constructor(types: Array<ComponentType>) {
+    this.types = types;
+  }
+
+  matches(entity: Entity): boolean {
+    return this.types.every((type) => {
+      for (const component of entity.components) {
+        if (component.type === type && component.isEnabled) {
+          return true;
+        }
+      }
+      return false;
+    });
+  }
+
+  update(entity: Entity) {
+    if (this.matches(entity)) {
+      this.add(entity);
+    } else {
+      this.remove(entity);
+    }
+  }
+
+  add(entity: Entity) {
+    if (this.entities.has(entity)) return;
+
+    this.entities.add(entity);
+    this.addedListeners.forEach((listener) => listener(entity));
+  }
+
+  remove(entity: Entity) {
+    if (!this.entities.has(entity)) return;
+
+    this.entities.delete(entity);
+    this.removedListeners.forEach((listener) => listener(entity));
+  }
+}
+
+const queriesByRoot: WeakMap<Entity, Array<Query>> = new WeakMap();
+
+function findRoot(entity: Entity): Entity {
+  let currentEnt = entity;
+  while (currentEnt.parent) {
+    currentEnt = currentEnt.parent;
+  }
+  return currentEnt;
+}
+
+/** Whether the two Arrays have the same types, the same number of times each, in any order. */
+function sameTypes(a: Array<ComponentType>, b: Array<ComponentType>) {
+  if (a.length !== b.length) return false;
+
+  const unmatched = [...b];
+  return a.every((type) => {
+    const index = unmatched.indexOf(type);
+    if (index === -1) return false;
+    unmatched.splice(index, 1);
+    return true;
+  });
+}
+
+/**
+ * Get the query for the specified combination of Component types under the
+ * specified root Entity, creating it (and populating it with the Entities
+ * currently in the tree) if it doesn't exist yet.
+ *
+ * Call `releaseQuery` when you're done with it.
+ */
+export function getQuery(root: Entity, types: Array<ComponentType>): Query {
+  let queries = queriesByRoot.get(root);
+  if (!queries) {
+    queries = [];
+    queriesByRoot.set(root, queries);
+  }
+
+  const existing = queries.find((query) => sameTypes(query.types, types));
+  if (existing) {
+    existing.users++;
+    return existing;
+  }
+
+  const query = new Query(types);
+  for (const entity of [root, ...root.descendants()]) {
+    query.update(entity);
+  }
+  query.users++;
+  queries.push(query);
+  return query;
+}
+
+/**
+ * Let a query from `getQuery` know that one of its users is done with it.
+ * Once none of its users are left, it stops being kept up to date.
+ */
+export function releaseQuery(root: Entity, query: Query) {
+  query.users--;
+  if (query.users > 0) return;
+
+  const queries = queriesByRoot.get(root);
+  if (!queries) return;
+
+  const index = queries.indexOf(query);
+  if (index !== -1) {
+    queries.splice(index, 1);
+  }
+}
+
+/**
+ * Let all queries under this Entity's root know that its Components
+ * have changed, so they can add or remove it as appropriate.
+ */
+export function entityChanged(entity: Entity) {
+  const queries = queriesByRoot.get(findRoot(entity));
+  if (!queries) return;
+
+  for (const query of queries) {
+    query.update(entity);
+  }
+}
+
+/**
+ * Let all queries under this Entity's root know that it and its
+ * descendants are being removed from the tree.
+ *
+ * This must be called *before* the Entity is detached from its parent.
+ */
+export function entityRemoved(entity: Entity) {
+  const queries = queriesByRoot.get(findRoot(entity));
+  if (!queries) return;
+
+  const entities = [entity, ...entity.descendants()];
+  for (const query of queries) {
+    for (const ent of entities) {
+      query.remove(ent);
+    }
+  }
+}
@@ -4,8 +4,15 @@ import {
   Component as ComponentInterface,
 } from "./Interface";
 import HooksSystem from "./HooksSystem";
-import RunLoop from "./Components/RunLoop";
+import RunLoop, {
+  Scheduler /* @babel-remove-prev-node */,
+} from "./Components/RunLoop";
 import ErrorBoundary from "./Components/ErrorBoundary";
+import Serializer, {
+  EntitySnapshot /* @babel-remove-prev-node */,
+  ComponentSnapshot /* @babel-remove-prev-node */,
+} from "./Components/Serializer";
+import { EntityEvent /* @babel-remove-prev-node */ } from "./Events";
 
 const {
   useNewComponent,
@@ -33,7 +40,12 @@ const createRoot = <T>(
 
 export {
   RunLoop,
+  Scheduler /* @babel-remove-prev-node */,
   ErrorBoundary,
+  Serializer,
+  EntitySnapshot /* @babel-remove-prev-node */,
+  ComponentSnapshot /* @babel-remove-prev-node */,
+  EntityEvent /* @babel-remove-prev-node */,
   EntityInterface as Entity,
   ComponentInterface as Component,
   createRoot,
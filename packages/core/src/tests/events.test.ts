@@ -0,0 +1,150 @@
+import {
+  createRoot,
+  useChild,
+  useEvent,
+  useEventListener,
+  useEntityName,
+  useNewComponent,
+  ErrorBoundary,
+  Entity,
+} from "..";
+
+let messages: Array<string> = [];
+const log = (msg: string) => messages.push(msg);
+
+beforeEach(() => {
+  messages = [];
+});
+
+function Listener(name: string) {
+  useEntityName(name);
+  useEventListener<number>("score", (points, event) => {
+    log(`${name} got ${points} from ${event.target.name}`);
+  });
+}
+
+test("emitted events bubble up through ancestors", () => {
+  let emitter!: Entity & { rootComponent: ReturnType<typeof useEvent> };
+
+  createRoot(() => {
+    Listener("root");
+    useChild(() => {
+      Listener("parent");
+      emitter = useChild(() => {
+        Listener("child");
+        return useEvent<number>("score");
+      });
+    });
+    useChild(() => Listener("sibling"));
+  });
+
+  emitter.rootComponent.emit(5);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "child got 5 from child",
+      "parent got 5 from child",
+      "root got 5 from child",
+    ]
+  `);
+});
+
+test("broadcast events are delivered to descendants", () => {
+  const root = createRoot(() => {
+    Listener("root");
+    useChild(() => {
+      Listener("parent");
+      useChild(() => Listener("child"));
+    });
+    useChild(() => Listener("sibling"));
+
+    return useEvent<number>("score");
+  });
+
+  root.rootComponent.broadcast(3);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "root got 3 from root",
+      "parent got 3 from root",
+      "sibling got 3 from root",
+      "child got 3 from root",
+    ]
+  `);
+});
+
+test("stopPropagation prevents the event from reaching more entities", () => {
+  let emitter!: Entity & { rootComponent: ReturnType<typeof useEvent> };
+
+  createRoot(() => {
+    Listener("root");
+    useChild(() => {
+      useEventListener("score", (_points, event) => {
+        log("parent stopped it");
+        event.stopPropagation();
+      });
+      Listener("parent");
+      emitter = useChild(() => {
+        useEntityName("emitter");
+        return useEvent<number>("score");
+      });
+    });
+  });
+
+  emitter.rootComponent.emit(1);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "parent stopped it",
+      "parent got 1 from emitter",
+    ]
+  `);
+});
+
+test("listeners are removed when their entity is destroyed", () => {
+  let child!: Entity;
+
+  const root = createRoot(() => {
+    useEntityName("root");
+    child = useChild(() => Listener("child"));
+    return useEvent<number>("score");
+  });
+
+  root.rootComponent.broadcast(1);
+  child.destroy();
+  root.rootComponent.broadcast(2);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "child got 1 from root",
+    ]
+  `);
+});
+
+test("errors in listeners go to the nearest ErrorBoundary", () => {
+  const root = createRoot(() => {
+    useEntityName("root");
+    useNewComponent(() => ErrorBoundary((error) => log(error.message)));
+    useChild(() => {
+      useEventListener("explode", () => {
+        throw new Error("boom");
+      });
+    });
+    useChild(() => Listener("survivor"));
+
+    return {
+      explode: useEvent("explode"),
+      score: useEvent<number>("score"),
+    };
+  });
+
+  root.rootComponent.explode.broadcast();
+  root.rootComponent.score.broadcast(4);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "boom",
+      "survivor got 4 from root",
+    ]
+  `);
+});
@@ -0,0 +1,172 @@
+import {
+  createRoot,
+  useChild,
+  useNewComponent,
+  useQuery,
+  useType,
+  useEntityName,
+  useCallbackAsCurrent,
+  Entity,
+} from "..";
+
+let messages: Array<string> = [];
+const log = (msg: string) => messages.push(msg);
+
+beforeEach(() => {
+  messages = [];
+});
+
+function Position() {
+  useType(Position);
+}
+
+function Velocity() {
+  useType(Velocity);
+}
+
+function Moving(name: string) {
+  useEntityName(name);
+  useNewComponent(Position);
+  return {
+    velocity: useNewComponent(Velocity),
+  };
+}
+
+function names(entities: ReadonlySet<Entity>) {
+  return [...entities].map((ent) => ent.name);
+}
+
+test("finds entities with all of the specified components", () => {
+  let query!: ReturnType<typeof useQuery>;
+
+  createRoot(() => {
+    query = useQuery(Position, Velocity);
+
+    useChild(() => Moving("moving"));
+    useChild(() => {
+      useEntityName("still");
+      useNewComponent(Position);
+    });
+  });
+
+  expect(names(query.entities)).toEqual(["moving"]);
+});
+
+test("finds entities that existed before the query was made", () => {
+  let query!: ReturnType<typeof useQuery>;
+
+  createRoot(() => {
+    useChild(() => Moving("first"));
+    useChild(() => {
+      useChild(() => Moving("nested"));
+    });
+
+    query = useQuery(Velocity, Position);
+  });
+
+  expect(names(query.entities)).toEqual(["first", "nested"]);
+});
+
+test("notifies when entities are added and removed", () => {
+  let query!: ReturnType<typeof useQuery>;
+  let moving!: Entity & { rootComponent: ReturnType<typeof Moving> };
+
+  createRoot(() => {
+    query = useQuery(Position, Velocity);
+    query.onAdded((ent) => log(`added ${ent.name}`));
+    query.onRemoved((ent) => log(`removed ${ent.name}`));
+
+    moving = useChild(() => Moving("moving"));
+  });
+
+  moving.rootComponent.velocity.disable();
+  expect(names(query.entities)).toEqual([]);
+
+  moving.rootComponent.velocity.enable();
+  expect(names(query.entities)).toEqual(["moving"]);
+
+  moving.destroy();
+  expect(names(query.entities)).toEqual([]);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "added moving",
+      "removed moving",
+      "added moving",
+      "removed moving",
+    ]
+  `);
+});
+
+test("listeners are removed when the listening entity is destroyed", () => {
+  let listener!: Entity;
+
+  const root = createRoot(() => {
+    listener = useChild(() => {
+      useQuery(Position, Velocity).onAdded((ent) => log(`added ${ent.name}`));
+    });
+
+    return {
+      spawn: useCallbackAsCurrent((name: string) => {
+        useChild(() => Moving(name));
+      }),
+    };
+  });
+
+  root.rootComponent.spawn("before");
+  listener.destroy();
+  root.rootComponent.spawn("after");
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "added before",
+    ]
+  `);
+});
+
+test("queries with the same types a different number of times are separate", () => {
+  let pairs!: ReturnType<typeof useQuery>;
+  let positions!: ReturnType<typeof useQuery>;
+
+  createRoot(() => {
+    positions = useQuery(Position, Position);
+    pairs = useQuery(Position, Velocity);
+
+    useChild(() => Moving("moving"));
+    useChild(() => {
+      useEntityName("still");
+      useNewComponent(Position);
+    });
+  });
+
+  expect(names(pairs.entities)).toEqual(["moving"]);
+  expect(names(positions.entities)).toEqual(["moving", "still"]);
+});
+
+test("queries stop being updated once every entity using them is destroyed", () => {
+  let first!: Entity;
+  let second!: Entity;
+  let entities!: ReadonlySet<Entity>;
+
+  const root = createRoot(() => {
+    first = useChild(() => {
+      entities = useQuery(Position, Velocity).entities;
+    });
+    second = useChild(() => {
+      useQuery(Velocity, Position);
+    });
+
+    return {
+      spawn: useCallbackAsCurrent((name: string) => {
+        useChild(() => Moving(name));
+      }),
+    };
+  });
+
+  first.destroy();
+  root.rootComponent.spawn("while shared");
+  second.destroy();
+  root.rootComponent.spawn("after release");
+
+  expect(names(entities)).toEqual(["while shared"]);
+});
@@ -0,0 +1,160 @@
+import {
+  createRoot,
+  useChild,
+  useNewComponent,
+  useFrame,
+  useSimulationFrame,
+  useDestroy,
+  RunLoop,
+} from "..";
+
+let messages: Array<string> = [];
+const log = (msg: string) => messages.push(msg);
+
+let scheduler: ReturnType<typeof RunLoop.makeManualScheduler>;
+
+beforeEach(() => {
+  messages = [];
+  scheduler = RunLoop.makeManualScheduler();
+});
+
+test("simulation and frame callbacks run once per frame by default", () => {
+  createRoot(() => {
+    useNewComponent(() => RunLoop({ scheduler }));
+
+    useFrame((delta, alpha) => log(`frame ${delta} ${alpha}`));
+    useSimulationFrame((delta) => log(`simulation ${delta}`));
+  });
+
+  scheduler.advance(16);
+  scheduler.advance(7);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "simulation 16",
+      "frame 16 1",
+      "simulation 7",
+      "frame 7 1",
+    ]
+  `);
+});
+
+test("fixed timestep runs simulation callbacks at a fixed rate", () => {
+  createRoot(() => {
+    useNewComponent(() => RunLoop({ scheduler, fixedTimestep: 10 }));
+
+    useFrame((delta, alpha) => log(`frame ${delta} ${alpha}`));
+    useSimulationFrame((delta) => log(`simulation ${delta}`));
+  });
+
+  scheduler.advance(5);
+  scheduler.advance(20);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "frame 5 0.5",
+      "simulation 10",
+      "simulation 10",
+      "frame 20 0.5",
+    ]
+  `);
+});
+
+test("fixed timestep drops time it can't catch up on", () => {
+  createRoot(() => {
+    useNewComponent(() =>
+      RunLoop({ scheduler, fixedTimestep: 10, maxStepsPerFrame: 2 })
+    );
+
+    useFrame((delta, alpha) => log(`frame ${delta} ${alpha}`));
+    useSimulationFrame((delta) => log(`simulation ${delta}`));
+  });
+
+  scheduler.advance(1005);
+  scheduler.advance(10);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "simulation 10",
+      "simulation 10",
+      "frame 1005 0.5",
+      "simulation 10",
+      "frame 10 0.5",
+    ]
+  `);
+});
+
+test("paused run loop does not run frames until resumed", () => {
+  const root = createRoot(() => {
+    useNewComponent(() => RunLoop({ scheduler }));
+
+    useFrame((delta) => log(`frame ${delta}`));
+  });
+  const runLoop = root.getComponent(RunLoop)!;
+
+  scheduler.advance(10);
+  runLoop.pause();
+  scheduler.runFrames(3, 10);
+  runLoop.resume();
+  scheduler.advance(10);
+  scheduler.advance(10);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "frame 10",
+      "frame 10",
+    ]
+  `);
+});
+
+test("game can be stepped a number of frames", () => {
+  createRoot(() => {
+    useNewComponent(() => RunLoop({ scheduler }));
+
+    useChild(() => {
+      let framesLeft = 3;
+      const { destroy, onDestroy } = useDestroy();
+      onDestroy(() => log("destroyed"));
+
+      useSimulationFrame(() => {
+        framesLeft--;
+        log(`frames left: ${framesLeft}`);
+        if (framesLeft === 0) {
+          destroy();
+        }
+      });
+    });
+  });
+
+  scheduler.runFrames(5);
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "frames left: 2",
+      "frames left: 1",
+      "frames left: 0",
+      "destroyed",
+    ]
+  `);
+});
+
+test("interval scheduler frames can be cancelled", () => {
+  // jest's fake timers return objects from setTimeout, like Node's timers do.
+  jest.useFakeTimers();
+  try {
+    const intervalScheduler = RunLoop.makeIntervalScheduler(10);
+    const cancelled = intervalScheduler.requestFrame(() => log("cancelled"));
+    intervalScheduler.requestFrame(() => log("frame"));
+    intervalScheduler.cancelFrame(cancelled);
+
+    jest.advanceTimersByTime(10);
+  } finally {
+    jest.useRealTimers();
+  }
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "frame",
+    ]
+  `);
+});
@@ -0,0 +1,185 @@
+import {
+  createRoot,
+  useChild,
+  useNewComponent,
+  useSerializable,
+  useType,
+  useEntityName,
+  Serializer,
+} from "..";
+import { EntitySnapshot } from "../Components/Serializer";
+
+function Health(initial: number) {
+  useType(Health);
+
+  let current = initial;
+  useSerializable(
+    "current",
+    () => current,
+    (value) => {
+      current = value;
+    }
+  );
+
+  return {
+    get current() {
+      return current;
+    },
+    set current(value: number) {
+      current = value;
+    },
+  };
+}
+
+function Enemy(name: string = "enemy") {
+  useType(Enemy);
+  useEntityName(name);
+
+  return {
+    health: useNewComponent(() => Health(3)),
+  };
+}
+
+function makeRoot() {
+  return createRoot(() => {
+    const serializer = useNewComponent(() =>
+      Serializer([{ name: "enemy", type: Enemy }])
+    );
+
+    useChild(() => {
+      useEntityName("player");
+      useNewComponent(() => Health(10));
+    });
+    useChild(() => Enemy("goblin"));
+
+    return { serializer };
+  });
+}
+
+function summary(root: ReturnType<typeof makeRoot>) {
+  return [...root.children].map(
+    (child) => `${child.name}: ${child.getComponent(Health)?.current}`
+  );
+}
+
+// Entity ids come from a counter that every test shares, so they're numbered
+// in the order they appear in the snapshot instead.
+function withSequentialIds(snapshot: EntitySnapshot): EntitySnapshot {
+  let nextId = 0;
+  const renumber = (snapshot: EntitySnapshot): EntitySnapshot => ({
+    ...snapshot,
+    id: nextId++,
+    children: snapshot.children.map(renumber),
+  });
+  return renumber(snapshot);
+}
+
+test("serializes the state of every component that opts in", () => {
+  const root = makeRoot();
+
+  expect(withSequentialIds(root.rootComponent.serializer.serialize()))
+    .toMatchInlineSnapshot(`
+    Object {
+      "children": Array [
+        Object {
+          "children": Array [],
+          "components": Array [
+            Object {
+              "state": Object {
+                "current": 10,
+              },
+              "type": "Health",
+            },
+          ],
+          "factory": null,
+          "id": 1,
+          "name": "player",
+        },
+        Object {
+          "children": Array [],
+          "components": Array [
+            Object {
+              "state": Object {
+                "current": 3,
+              },
+              "type": "Health",
+            },
+          ],
+          "factory": "enemy",
+          "id": 2,
+          "name": "goblin",
+        },
+      ],
+      "components": Array [],
+      "factory": null,
+      "id": 0,
+      "name": "Serializer",
+    }
+  `);
+});
+
+test("restores state into existing entities", () => {
+  const root = makeRoot();
+  const snapshot = root.rootComponent.serializer.serialize();
+
+  for (const child of root.children) {
+    child.getComponent(Health)!.current = 1;
+  }
+  root.rootComponent.serializer.restore(snapshot);
+
+  expect(summary(root)).toEqual(["player: 10", "goblin: 3"]);
+});
+
+test("recreates entities using factories and destroys extra ones", () => {
+  const root = makeRoot();
+  const [player, goblin] = root.children;
+  goblin.getComponent(Health)!.current = 2;
+  const snapshot = root.rootComponent.serializer.serialize();
+
+  goblin.destroy();
+  player.getComponent(Health)!.current = 0;
+  root.rootComponent.serializer.restore(snapshot);
+
+  expect(summary(root)).toEqual(["player: 10", "goblin: 2"]);
+
+  root.rootComponent.serializer.restore({ ...snapshot, children: [] });
+  expect(summary(root)).toEqual([]);
+});
+
+test("throws when an entity can't be recreated, without changing anything", () => {
+  const root = makeRoot();
+  const snapshot = root.rootComponent.serializer.serialize();
+
+  // Restore the goblin before finding out that the player is missing.
+  snapshot.children.reverse();
+
+  const [player, goblin] = root.children;
+  player.destroy();
+  goblin.getComponent(Health)!.current = 1;
+
+  expect(() => root.rootComponent.serializer.restore(snapshot)).toThrow(
+    "Cannot restore player: no factory was registered with the Serializer for it"
+  );
+  expect(summary(root)).toEqual(["goblin: 1"]);
+});
+
+test("removes the entities it created when a factory doesn't create an expected child", () => {
+  const root = makeRoot();
+  const snapshot = root.rootComponent.serializer.serialize();
+  snapshot.children[1].children.push({
+    id: -1,
+    name: "hat",
+    factory: null,
+    components: [],
+    children: [],
+  });
+
+  const [player, goblin] = root.children;
+  goblin.destroy();
+  player.getComponent(Health)!.current = 0;
+
+  expect(() => root.rootComponent.serializer.restore(snapshot)).toThrow(
+    "Cannot restore hat: no factory was registered with the Serializer for it"
+  );
+  expect(summary(root)).toEqual(["player: 0"]);
+});
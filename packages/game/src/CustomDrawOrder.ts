@@ -1,4 +1,4 @@
-import { useType, useNewComponent, Canvas } from "@hex-engine/2d";
+import { useType, useNewComponent, Canvas, Component } from "@hex-engine/2d";
 import Flick from "./Flick";
 import Drag from "./Drag";
 
@@ -8,11 +8,20 @@ export default function CustomDrawOrder() {
   useNewComponent(() =>
     Canvas.DrawOrder(function sort(entities) {
       const sorted = Canvas.DrawOrder.defaultSort(entities);
-      return sorted.sort((a, b) => {
-        if (a.type === Flick || a.type === Drag) return 1;
-        if (b.type === Flick || a.type === Drag) return -1;
-        return 0;
-      });
+
+      // Draw the lines from Flick and Drag above every layer, except for debug overlays.
+      const isLine = (component: Component) =>
+        component.type === Flick || component.type === Drag;
+      const isDebug = Canvas.DrawOrder.isDebugOverlay;
+      return [
+        ...sorted.filter(
+          (component) => !isLine(component) && !isDebug(component)
+        ),
+        ...sorted.filter(
+          (component) => isLine(component) && !isDebug(component)
+        ),
+        ...sorted.filter(isDebug),
+      ];
     })
   );
 }
@@ -0,0 +1,256 @@
+import path from "path";
+import AsepriteParser from "@suchipi/ase-parser";
+
+// ase-parser reads these from the file header and color profile chunk, but its types leave them out.
+type ParsedAseprite = AsepriteParser & {
+  name: string;
+  colorDepth: number;
+  numColors: number;
+  pixelRatio: string;
+  colorProfile?: { type: string; flag: number; fGamma: number };
+};
+
+const CEL_CHUNK = 0x2005;
+const USER_DATA_CHUNK = 0x2020;
+const SLICE_CHUNK = 0x2022;
+
+type CelUserData = {
+  frameIndex: number;
+  layerIndex: number;
+  text?: string;
+  color?: string;
+};
+
+type SliceKey = {
+  frame: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  center?: { x: number; y: number; width: number; height: number };
+  pivot?: { x: number; y: number };
+};
+
+type Slice = {
+  name: string;
+  keys: Array<SliceKey>;
+};
+
+function readSlice(buffer: Buffer, start: number): Slice {
+  const numKeys = buffer.readUInt32LE(start);
+  const flags = buffer.readUInt32LE(start + 4);
+  const nameLength = buffer.readUInt16LE(start + 12);
+  const name = buffer.toString("utf8", start + 14, start + 14 + nameLength);
+
+  const keys: Array<SliceKey> = [];
+  let offset = start + 14 + nameLength;
+  for (let i = 0; i < numKeys; i++) {
+    const key: SliceKey = {
+      frame: buffer.readUInt32LE(offset),
+      x: buffer.readInt32LE(offset + 4),
+      y: buffer.readInt32LE(offset + 8),
+      width: buffer.readUInt32LE(offset + 12),
+      height: buffer.readUInt32LE(offset + 16),
+    };
+    offset += 20;
+
+    // 9-patch slice
+    if (flags & 1) {
+      key.center = {
+        x: buffer.readInt32LE(offset),
+        y: buffer.readInt32LE(offset + 4),
+        width: buffer.readUInt32LE(offset + 8),
+        height: buffer.readUInt32LE(offset + 12),
+      };
+      offset += 16;
+    }
+
+    // Has pivot information
+    if (flags & 2) {
+      key.pivot = {
+        x: buffer.readInt32LE(offset),
+        y: buffer.readInt32LE(offset + 4),
+      };
+      offset += 8;
+    }
+
+    keys.push(key);
+  }
+
+  return { name, keys };
+}
+
+/**
+ * Finds the slices in an Aseprite file, and the user data that is attached to its cels.
+ *
+ * ase-parser skips over slice and user data chunks, so we read them ourselves. The file format is described here:
+ * https://github.com/aseprite/aseprite/blob/master/docs/ase-file-specs.md
+ */
+function readExtraData(
+  buffer: Buffer
+): { celUserData: Array<CelUserData>; slices: Array<Slice> } {
+  const celUserData: Array<CelUserData> = [];
+  const slices: Array<Slice> = [];
+  const numFrames = buffer.readUInt16LE(6);
+
+  let frameStart = 128;
+  for (let frameIndex = 0; frameIndex < numFrames; frameIndex++) {
+    const bytesInFrame = buffer.readUInt32LE(frameStart);
+    const oldNumChunks = buffer.readUInt16LE(frameStart + 6);
+    const newNumChunks = buffer.readUInt32LE(frameStart + 12);
+    const numChunks = newNumChunks === 0 ? oldNumChunks : newNumChunks;
+
+    // User data chunks describe the chunk that came before them.
+    let lastCelLayerIndex: number | null = null;
+
+    let chunkStart = frameStart + 16;
+    for (let i = 0; i < numChunks; i++) {
+      const chunkSize = buffer.readUInt32LE(chunkStart);
+      const chunkType = buffer.readUInt16LE(chunkStart + 4);
+      const dataStart = chunkStart + 6;
+
+      if (chunkType === USER_DATA_CHUNK) {
+        if (lastCelLayerIndex != null) {
+          const flags = buffer.readUInt32LE(dataStart);
+          const userData: CelUserData = {
+            frameIndex,
+            layerIndex: lastCelLayerIndex,
+          };
+
+          let offset = dataStart + 4;
+          if (flags & 1) {
+            const length = buffer.readUInt16LE(offset);
+            userData.text = buffer.toString(
+              "utf8",
+              offset + 2,
+              offset + 2 + length
+            );
+            offset += 2 + length;
+          }
+          if (flags & 2) {
+            const [r, g, b, a] = buffer.slice(offset, offset + 4);
+            userData.color = `rgba(${r}, ${g}, ${b}, ${a / 255})`;
+          }
+
+          celUserData.push(userData);
+        }
+        lastCelLayerIndex = null;
+      } else if (chunkType === CEL_CHUNK) {
+        lastCelLayerIndex = buffer.readUInt16LE(dataStart);
+      } else if (chunkType === SLICE_CHUNK) {
+        slices.push(readSlice(buffer, dataStart));
+        lastCelLayerIndex = null;
+      } else {
+        lastCelLayerIndex = null;
+      }
+
+      chunkStart += chunkSize;
+    }
+
+    frameStart += bytesInFrame;
+  }
+
+  return { celUserData, slices };
+}
+
+/**
+ * A webpack loader for Aseprite files.
+ *
+ * It exports the same data as `aseprite-loader` (whose types describe it), along with
+ * the user data that was set on each cel (via "Cel Properties" in Aseprite) as
+ * `userData` on the loaded cels, the file's slices as `slices`, and the transparent
+ * palette index from the file's header as `transparentIndex`.
+ */
+export default function asepriteLoader(this: any, source: Buffer) {
+  const ase = new AsepriteParser(
+    source,
+    path.basename(this.resourcePath)
+  ) as ParsedAseprite;
+  ase.parse();
+  const { celUserData, slices } = readExtraData(source);
+
+  const data = {
+    name: ase.name,
+    fileSize: ase.fileSize,
+    width: ase.width,
+    height: ase.height,
+    numFrames: ase.numFrames,
+    colorDepth: ase.colorDepth,
+    numColors: ase.numColors,
+    pixelRatio: ase.pixelRatio,
+    colorProfile: ase.colorProfile || { type: "None", flag: 0, fGamma: 0 },
+    transparentIndex: source[28],
+    frames: ase.frames.map((frame, frameIndex) => ({
+      bytesInFrame: frame.bytesInFrame,
+      frameDuration: frame.frameDuration,
+      numChunks: frame.numChunks,
+      cels: frame.cels.map((cel) => {
+        const userData = celUserData.find(
+          (entry) =>
+            entry.frameIndex === frameIndex &&
+            entry.layerIndex === cel.layerIndex
+        );
+
+        return {
+          layerIndex: cel.layerIndex,
+          xpos: cel.xpos,
+          ypos: cel.ypos,
+          opacity: cel.opacity,
+          celType: cel.celType,
+          w: cel.w,
+          h: cel.h,
+          // Sent as a hex string, because it's smaller than an Array of numbers.
+          rawCelData: cel.rawCelData ? cel.rawCelData.toString("hex") : null,
+          userData: userData && { text: userData.text, color: userData.color },
+        };
+      }),
+    })),
+    layers: ase.layers.map((layer) => ({
+      flags: layer.flags,
+      type: layer.type,
+      layerChildLevel: layer.layerChildLevel,
+      blendMode: layer.blendMode,
+      opacity: layer.opacity,
+      name: layer.name,
+    })),
+    tags: ase.tags.map((tag) => ({
+      name: tag.name,
+      from: tag.from,
+      to: tag.to,
+      animDirection: tag.animDirection,
+      color: tag.color,
+    })),
+    palette: ase.palette && {
+      paletteSize: ase.palette.paletteSize,
+      firstColor: ase.palette.firstColor,
+      lastColor: ase.palette.lastColor,
+      colors: ase.palette.colors.map((color) => ({
+        red: color.red,
+        green: color.green,
+        blue: color.blue,
+        alpha: color.alpha,
+        name: color.name,
+      })),
+    },
+    slices,
+  };
+
+  return `
+    var data = ${JSON.stringify(data)};
+
+    data.frames.forEach(function(frame) {
+      frame.cels.forEach(function(cel) {
+        if (typeof cel.rawCelData !== "string") return;
+        cel.rawCelData = new Uint8Array(
+          (cel.rawCelData.match(/../g) || []).map(function(byte) {
+            return parseInt(byte, 16);
+          })
+        );
+      });
+    });
+
+    module.exports = data;
+  `;
+}
+
+export const raw = true;
@@ -0,0 +1,440 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import glob from "glob";
+import AsepriteParser from "@suchipi/ase-parser";
+import { RGBAImage, decodePng, encodePng } from "./png";
+import { BlendFunction, BLEND_FUNCTIONS_BY_BLEND_MODE } from "./blendModes";
+
+/**
+ * The contents of a `.atlas` file.
+ *
+ * ```json
+ * {
+ *   "images": ["./sprites/*.png", "./player.aseprite"],
+ *   "padding": 1,
+ *   "types": true
+ * }
+ * ```
+ */
+export type AtlasConfig = {
+  /** Paths or glob patterns for the images to put in the atlas, relative to the `.atlas` file. */
+  images: Array<string>;
+
+  /** How many transparent pixels to leave between images. Defaults to 1. */
+  padding?: number;
+
+  /** The maximum width and height of the packed texture. Defaults to 4096. */
+  maxSize?: number;
+
+  /**
+   * Whether `hex-engine-scripts atlas-types` should write a `.d.ts` file next to the `.atlas` file
+   * (eg `sprites.atlas.d.ts`) that lists the names of the frames in the atlas, so that
+   * TypeScript can check them. Defaults to false.
+   */
+  types?: boolean;
+};
+
+export type AtlasImage = {
+  name: string;
+  image: RGBAImage;
+  duration?: number;
+};
+
+type AtlasFrame = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  duration?: number;
+};
+
+const LAYER_FLAG_VISIBLE = 1;
+const LAYER_FLAG_REFERENCE = 64;
+const LAYER_TYPE_GROUP = 1;
+
+/** Returns the directory at the start of a glob pattern, before any special characters. */
+function globBase(pattern: string): string {
+  const segments = pattern.split(/[\\/]/);
+  const index = segments.findIndex((segment) => glob.hasMagic(segment));
+  return index === -1
+    ? path.dirname(pattern)
+    : segments.slice(0, index).join("/") || ".";
+}
+
+/** Reads the red, green, and blue of a pixel, from 0 to 1. */
+function readColor(image: RGBAImage, offset: number): [number, number, number] {
+  return [
+    image.data[offset] / 255,
+    image.data[offset + 1] / 255,
+    image.data[offset + 2] / 255,
+  ];
+}
+
+function nextPowerOfTwo(value: number): number {
+  let result = 1;
+  while (result < value) {
+    result *= 2;
+  }
+  return result;
+}
+
+/**
+ * Draws `source` over `target` at the specified position, blending their colors with
+ * `blend`, the same way a canvas does when its `globalCompositeOperation` is a blend mode.
+ */
+function drawImage(
+  target: RGBAImage,
+  source: RGBAImage,
+  x: number,
+  y: number,
+  opacity: number = 1,
+  blend: BlendFunction = BLEND_FUNCTIONS_BY_BLEND_MODE[0]
+) {
+  for (let sourceY = 0; sourceY < source.height; sourceY++) {
+    const targetY = y + sourceY;
+    if (targetY < 0 || targetY >= target.height) continue;
+
+    for (let sourceX = 0; sourceX < source.width; sourceX++) {
+      const targetX = x + sourceX;
+      if (targetX < 0 || targetX >= target.width) continue;
+
+      const sourceOffset = (sourceY * source.width + sourceX) * 4;
+      const targetOffset = (targetY * target.width + targetX) * 4;
+
+      const sourceAlpha = (source.data[sourceOffset + 3] / 255) * opacity;
+      if (sourceAlpha === 0) continue;
+
+      const targetAlpha = target.data[targetOffset + 3] / 255;
+      const resultAlpha = sourceAlpha + targetAlpha * (1 - sourceAlpha);
+
+      const sourceColor = readColor(source, sourceOffset);
+      const targetColor = readColor(target, targetOffset);
+      const blendedColor = blend(targetColor, sourceColor);
+
+      for (let channel = 0; channel < 3; channel++) {
+        // The blended color only applies where there's something to blend with.
+        const blended =
+          (1 - targetAlpha) * sourceColor[channel] +
+          targetAlpha * blendedColor[channel];
+
+        target.data[targetOffset + channel] = Math.round(
+          ((sourceAlpha * blended +
+            targetAlpha * (1 - sourceAlpha) * targetColor[channel]) /
+            resultAlpha) *
+            255
+        );
+      }
+      target.data[targetOffset + 3] = Math.round(resultAlpha * 255);
+    }
+  }
+}
+
+/** Renders each frame of an Aseprite file, the same way the `Aseprite` Component does. */
+function readAsepriteFrames(buffer: Buffer, name: string): Array<AtlasImage> {
+  const ase = new AsepriteParser(buffer, path.basename(name));
+  ase.parse();
+
+  // These come from the file header.
+  const colorDepth = buffer.readUInt16LE(12);
+  // The palette entry that is transparent
+  const transparentIndex = buffer[28];
+
+  const layerIsDrawn = (layerIndex: number): boolean => {
+    let layer = ase.layers[layerIndex];
+    if (
+      (layer.flags & LAYER_FLAG_VISIBLE) === 0 ||
+      (layer.flags & LAYER_FLAG_REFERENCE) !== 0
+    ) {
+      return false;
+    }
+
+    let childLevel = layer.layerChildLevel;
+    for (let i = layerIndex - 1; i >= 0 && childLevel > 0; i--) {
+      layer = ase.layers[i];
+      if (
+        layer.type === LAYER_TYPE_GROUP &&
+        layer.layerChildLevel === childLevel - 1
+      ) {
+        if ((layer.flags & LAYER_FLAG_VISIBLE) === 0) return false;
+        childLevel = layer.layerChildLevel;
+      }
+    }
+    return true;
+  };
+
+  const celToImage = (cel: AsepriteParser.Cel): RGBAImage => {
+    const data = Buffer.alloc(cel.w * cel.h * 4);
+    for (let i = 0; i < cel.w * cel.h; i++) {
+      let r: number, g: number, b: number, a: number;
+      if (colorDepth === 32) {
+        r = cel.rawCelData[i * 4];
+        g = cel.rawCelData[i * 4 + 1];
+        b = cel.rawCelData[i * 4 + 2];
+        a = cel.rawCelData[i * 4 + 3];
+      } else if (colorDepth === 16) {
+        r = g = b = cel.rawCelData[i * 2];
+        a = cel.rawCelData[i * 2 + 1];
+      } else if (colorDepth === 8) {
+        const index = cel.rawCelData[i];
+        const color = ase.palette.colors[index];
+        if (index === transparentIndex || !color) {
+          r = g = b = a = 0;
+        } else {
+          r = color.red;
+          g = color.green;
+          b = color.blue;
+          a = color.alpha;
+        }
+      } else {
+        throw new Error(`Unsupported Aseprite color depth: ${colorDepth}`);
+      }
+
+      data[i * 4] = r;
+      data[i * 4 + 1] = g;
+      data[i * 4 + 2] = b;
+      data[i * 4 + 3] = a;
+    }
+    return { width: cel.w, height: cel.h, data };
+  };
+
+  return ase.frames.map((frame, frameIndex) => {
+    const image: RGBAImage = {
+      width: ase.width,
+      height: ase.height,
+      data: Buffer.alloc(ase.width * ase.height * 4),
+    };
+
+    const cels = frame.cels
+      .slice()
+      .sort((celA, celB) => celA.layerIndex - celB.layerIndex);
+
+    for (const cel of cels) {
+      const layer = ase.layers[cel.layerIndex];
+      if (layer && !layerIsDrawn(cel.layerIndex)) continue;
+
+      if (cel.celType !== 0 && cel.celType !== 2) {
+        throw new Error(`Unsupported cel type: ${cel.celType}`);
+      }
+
+      let opacity = cel.opacity / 255;
+      let blend = BLEND_FUNCTIONS_BY_BLEND_MODE[0];
+      if (layer) {
+        opacity = opacity * (layer.opacity / 255);
+        blend = BLEND_FUNCTIONS_BY_BLEND_MODE[layer.blendMode];
+        if (!blend) {
+          throw new Error(
+            `Layer '${layer.name}' in ${name} uses an unsupported blend mode: ${layer.blendMode}`
+          );
+        }
+      }
+
+      drawImage(image, celToImage(cel), cel.xpos, cel.ypos, opacity, blend);
+    }
+
+    return {
+      name: `${name}/${frameIndex}`,
+      image,
+      duration: frame.frameDuration,
+    };
+  });
+}
+
+/**
+ * Packs the images into rows ("shelves"), tallest first, and returns where each
+ * image went and how big the packed texture is.
+ */
+function pack(
+  images: Array<AtlasImage>,
+  padding: number,
+  maxSize: number
+): {
+  width: number;
+  height: number;
+  positions: Map<AtlasImage, { x: number; y: number }>;
+} {
+  const sorted = images
+    .slice()
+    .sort(
+      (a, b) =>
+        b.image.height - a.image.height ||
+        b.image.width - a.image.width ||
+        (a.name < b.name ? -1 : 1)
+    );
+
+  const area = sorted.reduce(
+    (total, { image }) =>
+      total + (image.width + padding) * (image.height + padding),
+    0
+  );
+  const widest = sorted.reduce(
+    (max, { image }) => Math.max(max, image.width + padding * 2),
+    0
+  );
+
+  for (
+    let width = nextPowerOfTwo(Math.max(widest, Math.ceil(Math.sqrt(area))));
+    width <= maxSize;
+    width *= 2
+  ) {
+    const positions = new Map();
+    let x = padding;
+    let y = padding;
+    let shelfHeight = 0;
+
+    for (const atlasImage of sorted) {
+      const { image } = atlasImage;
+      if (x + image.width + padding > width) {
+        x = padding;
+        y += shelfHeight + padding;
+        shelfHeight = 0;
+      }
+      positions.set(atlasImage, { x, y });
+      x += image.width + padding;
+      shelfHeight = Math.max(shelfHeight, image.height);
+    }
+
+    const height = y + shelfHeight + padding;
+    if (height <= maxSize) {
+      return { width, height, positions };
+    }
+  }
+
+  throw new Error(
+    `The images don't fit into a ${maxSize}x${maxSize} atlas. Try using fewer images, or a larger maxSize`
+  );
+}
+
+/**
+ * Reads the images listed in an `.atlas` file, and names them.
+ *
+ * Also returns the files that were read, and the directories that were searched for
+ * them, so that the atlas can be rebuilt when they change.
+ */
+export function readAtlasImages(
+  atlasPath: string,
+  config: AtlasConfig,
+  warn: (message: string) => void
+): {
+  images: Array<AtlasImage>;
+  files: Array<string>;
+  directories: Array<string>;
+} {
+  const atlasDir = path.dirname(atlasPath);
+
+  if (!Array.isArray(config.images)) {
+    throw new Error(
+      `${atlasPath} must have an "images" Array of paths or glob patterns`
+    );
+  }
+
+  const files: Set<string> = new Set();
+  const directories: Array<string> = [];
+  for (const pattern of config.images) {
+    const matches = glob.sync(pattern, {
+      cwd: atlasDir,
+      nodir: true,
+      absolute: true,
+    });
+    if (matches.length === 0) {
+      warn(`"${pattern}" in ${atlasPath} didn't match any files`);
+    }
+    matches.forEach((file) => files.add(path.normalize(file)));
+    directories.push(path.resolve(atlasDir, globBase(pattern)));
+  }
+
+  const sortedFiles = Array.from(files).sort();
+  const images: Array<AtlasImage> = [];
+  for (const file of sortedFiles) {
+    const extension = path.extname(file).toLowerCase();
+    const name = path
+      .relative(atlasDir, file)
+      .slice(0, -extension.length)
+      .split(path.sep)
+      .join("/");
+    const buffer = fs.readFileSync(file);
+
+    if (extension === ".png") {
+      images.push({ name, image: decodePng(buffer) });
+    } else if (extension === ".ase" || extension === ".aseprite") {
+      images.push(...readAsepriteFrames(buffer, name));
+    } else {
+      throw new Error(
+        `Can't put ${file} into an atlas; only .png, .ase, and .aseprite files are supported`
+      );
+    }
+  }
+
+  const names: Set<string> = new Set();
+  for (const { name } of images) {
+    if (names.has(name)) {
+      throw new Error(`More than one image in ${atlasPath} is named '${name}'`);
+    }
+    names.add(name);
+  }
+
+  return { images, files: sortedFiles, directories };
+}
+
+/**
+ * A webpack loader for `.atlas` files, which list images (and Aseprite files)
+ * to pack into a single texture at build time.
+ *
+ * It emits the packed texture as a png, and exports the texture's URL, along
+ * with where each image ended up in it. Each image is named by its path relative
+ * to the `.atlas` file, without its extension (eg "sprites/player"). Each frame
+ * of an Aseprite file is named by its path and frame index (eg "enemy/0").
+ *
+ * It doesn't write the `.d.ts` files for atlases with `"types": true`;
+ * `hex-engine-scripts atlas-types` does that.
+ */
+export default function atlasLoader(this: any, source: string) {
+  const config: AtlasConfig = JSON.parse(source);
+  const { padding = 1, maxSize = 4096 } = config;
+
+  const { images, files, directories } = readAtlasImages(
+    this.resourcePath,
+    config,
+    (message) => this.emitWarning(new Error(message))
+  );
+  files.forEach((file) => this.addDependency(file));
+  // So that adding files that match the patterns causes a rebuild
+  directories.forEach((directory) => this.addContextDependency(directory));
+
+  const { width, height, positions } = pack(images, padding, maxSize);
+
+  const texture: RGBAImage = {
+    width,
+    height,
+    data: Buffer.alloc(width * height * 4),
+  };
+  const frames: { [name: string]: AtlasFrame } = {};
+  for (const atlasImage of images) {
+    const { x, y } = positions.get(atlasImage)!;
+    drawImage(texture, atlasImage.image, x, y);
+
+    frames[atlasImage.name] = {
+      x,
+      y,
+      width: atlasImage.image.width,
+      height: atlasImage.image.height,
+      duration: atlasImage.duration,
+    };
+  }
+
+  const png = encodePng(texture);
+  const hash = crypto
+    .createHash("md5")
+    .update(png)
+    .digest("hex")
+    .slice(0, 8);
+  const fileName = `${path.basename(this.resourcePath, ".atlas")}.${hash}.png`;
+  this.emitFile(fileName, png);
+
+  return `module.exports = {
+    url: __webpack_public_path__ + ${JSON.stringify(fileName)},
+    width: ${width},
+    height: ${height},
+    frames: ${JSON.stringify(frames)},
+  };`;
+}
@@ -0,0 +1,145 @@
+/** A color's red, green, and blue, from 0 to 1. */
+type RGB = [number, number, number];
+
+/** Blends a source color over a backdrop color, without taking either color's alpha into account. */
+export type BlendFunction = (backdrop: RGB, source: RGB) => RGB;
+
+/** Makes a blend function for a blend mode that blends each channel on its own. */
+function separable(
+  blendChannel: (backdrop: number, source: number) => number
+): BlendFunction {
+  return (backdrop, source) =>
+    backdrop.map((value, channel) =>
+      blendChannel(value, source[channel])
+    ) as RGB;
+}
+
+const multiply = (backdrop: number, source: number) => backdrop * source;
+
+const screen = (backdrop: number, source: number) =>
+  backdrop + source - backdrop * source;
+
+const hardLight = (backdrop: number, source: number) =>
+  source <= 0.5
+    ? multiply(backdrop, 2 * source)
+    : screen(backdrop, 2 * source - 1);
+
+// The hue, saturation, color, and luminosity blend modes work on all three channels at once.
+
+function luminosity([r, g, b]: RGB): number {
+  return 0.3 * r + 0.59 * g + 0.11 * b;
+}
+
+function clipColor(color: RGB): RGB {
+  const lum = luminosity(color);
+  const min = Math.min(...color);
+  const max = Math.max(...color);
+  return color.map((value) => {
+    if (min < 0) {
+      value = lum + ((value - lum) * lum) / (lum - min);
+    }
+    if (max > 1) {
+      value = lum + ((value - lum) * (1 - lum)) / (max - lum);
+    }
+    return value;
+  }) as RGB;
+}
+
+function setLuminosity(color: RGB, lum: number): RGB {
+  const delta = lum - luminosity(color);
+  return clipColor(color.map((value) => value + delta) as RGB);
+}
+
+function saturation(color: RGB): number {
+  return Math.max(...color) - Math.min(...color);
+}
+
+function setSaturation(color: RGB, sat: number): RGB {
+  const min = Math.min(...color);
+  const max = Math.max(...color);
+  if (max === min) return [0, 0, 0];
+
+  return color.map((value) => ((value - min) * sat) / (max - min)) as RGB;
+}
+
+/**
+ * The blend modes of Aseprite layers, by the number Aseprite uses for them.
+ *
+ * The `Aseprite` Component draws modes 1 to 15 with the canvas `globalCompositeOperation`
+ * of the same name, so these use the formulas from the Compositing and Blending spec
+ * that browsers use: https://www.w3.org/TR/compositing-1/#blending
+ * Modes 16 to 18 aren't in the spec; they're the same as the `Aseprite` Component's.
+ */
+export const BLEND_FUNCTIONS_BY_BLEND_MODE: {
+  [mode: number]: BlendFunction;
+} = {
+  // Normal
+  0: (_backdrop, source) => source,
+  // Multiply
+  1: separable(multiply),
+  // Screen
+  2: separable(screen),
+  // Overlay
+  3: separable((backdrop, source) => hardLight(source, backdrop)),
+  // Darken
+  4: separable(Math.min),
+  // Lighten
+  5: separable(Math.max),
+  // Color Dodge
+  6: separable((backdrop, source) => {
+    if (backdrop === 0) return 0;
+    if (source === 1) return 1;
+    return Math.min(1, backdrop / (1 - source));
+  }),
+  // Color Burn
+  7: separable((backdrop, source) => {
+    if (backdrop === 1) return 1;
+    if (source === 0) return 0;
+    return 1 - Math.min(1, (1 - backdrop) / source);
+  }),
+  // Hard Light
+  8: separable(hardLight),
+  // Soft Light
+  9: separable((backdrop, source) => {
+    if (source <= 0.5) {
+      return backdrop - (1 - 2 * source) * backdrop * (1 - backdrop);
+    }
+    const d =
+      backdrop <= 0.25
+        ? ((16 * backdrop - 12) * backdrop + 4) * backdrop
+        : Math.sqrt(backdrop);
+    return backdrop + (2 * source - 1) * (d - backdrop);
+  }),
+  // Difference
+  10: separable((backdrop, source) => Math.abs(backdrop - source)),
+  // Exclusion
+  11: separable(
+    (backdrop, source) => backdrop + source - 2 * backdrop * source
+  ),
+  // Hue
+  12: (backdrop, source) =>
+    setLuminosity(
+      setSaturation(source, saturation(backdrop)),
+      luminosity(backdrop)
+    ),
+  // Saturation
+  13: (backdrop, source) =>
+    setLuminosity(
+      setSaturation(backdrop, saturation(source)),
+      luminosity(backdrop)
+    ),
+  // Color
+  14: (backdrop, source) => setLuminosity(source, luminosity(backdrop)),
+  // Luminosity
+  15: (backdrop, source) => setLuminosity(backdrop, luminosity(source)),
+  // Addition
+  16: separable((backdrop, source) => Math.min(backdrop + source, 1)),
+  // Subtract
+  17: separable((backdrop, source) => Math.max(backdrop - source, 0)),
+  // Divide
+  18: separable((backdrop, source) => {
+    if (backdrop === 0) return 0;
+    if (backdrop >= source) return 1;
+    return backdrop / source;
+  }),
+};
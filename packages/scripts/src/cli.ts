@@ -14,11 +14,18 @@ hex-engine-scripts build
 hex-engine-scripts dev
 
   Runs a local development server hosting the game on port 8080.
+
+hex-engine-scripts atlas-types
+
+  Writes a .d.ts file next to each .atlas file that has "types": true, listing its frame names.
 `;
 
   const command = process.argv[2];
 
-  if (!command || (command !== "build" && command !== "dev")) {
+  if (
+    !command ||
+    (command !== "build" && command !== "dev" && command !== "atlas-types")
+  ) {
     console.error(usage);
     process.exitCode = 1;
     return;
@@ -0,0 +1,62 @@
+import fs from "fs";
+import path from "path";
+import chalk from "chalk";
+import glob from "glob";
+import { AtlasConfig, readAtlasImages } from "../atlasLoader";
+
+/** Writes a `.d.ts` file next to an `.atlas` file, so that its frame names are known to TypeScript. */
+function writeTypes(atlasPath: string, frameNames: Array<string>): boolean {
+  const typesPath = atlasPath + ".d.ts";
+  const frameNameType =
+    frameNames.length === 0
+      ? "never"
+      : frameNames.map((name) => `\n  | ${JSON.stringify(name)}`).join("");
+  const contents = `// This file was generated by hex-engine-scripts from ${path.basename(
+    atlasPath
+  )}. Do not edit it.
+declare const data: AtlasLoader.Data<${frameNameType}
+>;
+export default data;
+`;
+
+  if (
+    fs.existsSync(typesPath) &&
+    fs.readFileSync(typesPath, "utf-8") === contents
+  ) {
+    return false;
+  }
+  fs.writeFileSync(typesPath, contents);
+  return true;
+}
+
+/**
+ * Writes a `.d.ts` file listing the frame names of each `.atlas` file in the
+ * current directory (outside of node_modules) that has `"types": true`.
+ */
+export default async function atlasTypes() {
+  const atlasPaths = glob.sync("**/*.atlas", {
+    ignore: ["**/node_modules/**", "dist/**"],
+    nodir: true,
+    absolute: true,
+  });
+
+  for (const atlasPath of atlasPaths) {
+    const config: AtlasConfig = JSON.parse(fs.readFileSync(atlasPath, "utf-8"));
+    if (!config.types) continue;
+
+    const { images } = readAtlasImages(atlasPath, config, (message) =>
+      console.log(chalk.yellow(message))
+    );
+    const relativePath = path.relative(process.cwd(), atlasPath);
+    if (
+      writeTypes(
+        atlasPath,
+        images.map((image) => image.name)
+      )
+    ) {
+      console.log(`Wrote ${relativePath}.d.ts`);
+    } else {
+      console.log(`${relativePath}.d.ts is up to date`);
+    }
+  }
+}
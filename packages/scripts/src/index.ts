@@ -1,8 +1,9 @@
 import "./polyfills";
 import build from "./commands/build";
 import dev from "./commands/dev";
+import atlasTypes from "./commands/atlasTypes";
 
-export default function run(command: "build" | "dev") {
+export default function run(command: "build" | "dev" | "atlas-types") {
   return new Promise((resolve, reject) => {
     process.on("unhandledRejection", reject);
 
@@ -15,6 +16,10 @@ export default function run(command: "build" | "dev") {
         dev().then(resolve);
         break;
       }
+      case "atlas-types": {
+        atlasTypes().then(resolve, reject);
+        break;
+      }
     }
   });
 }
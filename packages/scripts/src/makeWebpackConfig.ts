@@ -71,12 +71,20 @@ export default (mode: "production" | "development") => {
         },
         {
           test: /\.(ase|aseprite)$/i,
-          use: require.resolve("aseprite-loader"),
+          use: require.resolve("./asepriteLoader"),
+        },
+        {
+          test: /\.atlas$/i,
+          use: require.resolve("./atlasLoader"),
         },
         {
           test: /\.(xml)$/i,
           use: require.resolve("xml-source-loader"),
         },
+        {
+          test: /\.(tmj|tsj)$/i,
+          use: require.resolve("./tiledJsonLoader"),
+        },
         {
           test: /\.(fnt)$/i,
           use: require.resolve("bmfont-loader"),
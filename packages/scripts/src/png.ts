@@ -0,0 +1,313 @@
+import zlib from "zlib";
+
+/** An image as 8-bit RGBA pixels, one row after another. */
+export type RGBAImage = {
+  width: number;
+  height: number;
+  data: Buffer;
+};
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+const CHANNELS_BY_COLOR_TYPE: { [colorType: number]: number } = {
+  0: 1, // grayscale
+  2: 3, // RGB
+  3: 1, // palette index
+  4: 2, // grayscale and alpha
+  6: 4, // RGBA
+};
+
+// Starting position and spacing of the pixels in each of the 7 Adam7 interlacing passes.
+const ADAM7_PASSES = [
+  { x: 0, y: 0, xStep: 8, yStep: 8 },
+  { x: 4, y: 0, xStep: 8, yStep: 8 },
+  { x: 0, y: 4, xStep: 4, yStep: 8 },
+  { x: 2, y: 0, xStep: 4, yStep: 4 },
+  { x: 0, y: 2, xStep: 2, yStep: 4 },
+  { x: 1, y: 0, xStep: 2, yStep: 2 },
+  { x: 0, y: 1, xStep: 1, yStep: 2 },
+];
+
+let crcTable: Array<number> | null = null;
+
+function crc32(buffer: Buffer): number {
+  if (!crcTable) {
+    crcTable = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < buffer.length; i++) {
+    crc = crcTable[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function paethPredictor(left: number, up: number, upLeft: number): number {
+  const p = left + up - upLeft;
+  const pLeft = Math.abs(p - left);
+  const pUp = Math.abs(p - up);
+  const pUpLeft = Math.abs(p - upLeft);
+  if (pLeft <= pUp && pLeft <= pUpLeft) return left;
+  if (pUp <= pUpLeft) return up;
+  return upLeft;
+}
+
+/** Reverses the per-scanline filtering of a (non-interlaced, or single pass of an interlaced) image. */
+function unfilter(
+  data: Buffer,
+  offset: number,
+  rowBytes: number,
+  height: number,
+  bytesPerPixel: number
+): Buffer {
+  const result = Buffer.alloc(rowBytes * height);
+
+  for (let y = 0; y < height; y++) {
+    const filterType = data[offset + y * (rowBytes + 1)];
+    const rowStart = offset + y * (rowBytes + 1) + 1;
+
+    for (let x = 0; x < rowBytes; x++) {
+      const raw = data[rowStart + x];
+      const left =
+        x >= bytesPerPixel ? result[y * rowBytes + x - bytesPerPixel] : 0;
+      const up = y > 0 ? result[(y - 1) * rowBytes + x] : 0;
+      const upLeft =
+        y > 0 && x >= bytesPerPixel
+          ? result[(y - 1) * rowBytes + x - bytesPerPixel]
+          : 0;
+
+      let value: number;
+      switch (filterType) {
+        case 0:
+          value = raw;
+          break;
+        case 1:
+          value = raw + left;
+          break;
+        case 2:
+          value = raw + up;
+          break;
+        case 3:
+          value = raw + Math.floor((left + up) / 2);
+          break;
+        case 4:
+          value = raw + paethPredictor(left, up, upLeft);
+          break;
+        default:
+          throw new Error(`Invalid PNG: Unknown filter type ${filterType}`);
+      }
+      result[y * rowBytes + x] = value & 0xff;
+    }
+  }
+
+  return result;
+}
+
+/** Decodes a PNG file into RGBA pixels. */
+export function decodePng(buffer: Buffer): RGBAImage {
+  if (!buffer.slice(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error("Invalid PNG: Missing PNG signature");
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlaced = false;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const dataChunks: Array<Buffer> = [];
+
+  let offset = 8;
+  while (offset < buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString("ascii", offset + 4, offset + 8);
+    const chunk = buffer.slice(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === "IHDR") {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      interlaced = chunk[12] === 1;
+    } else if (type === "PLTE") {
+      palette = chunk;
+    } else if (type === "tRNS") {
+      transparency = chunk;
+    } else if (type === "IDAT") {
+      dataChunks.push(chunk);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  const channels = CHANNELS_BY_COLOR_TYPE[colorType];
+  if (channels == null) {
+    throw new Error(`Invalid PNG: Unknown color type ${colorType}`);
+  }
+  if (colorType === 3 && !palette) {
+    throw new Error("Invalid PNG: Uses a palette but there is no PLTE chunk");
+  }
+
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel / 8);
+  const maxSampleValue = (1 << bitDepth) - 1;
+  const data = zlib.inflateSync(Buffer.concat(dataChunks));
+  const pixels = Buffer.alloc(width * height * 4);
+
+  function readSample(row: Buffer, rowStart: number, index: number): number {
+    if (bitDepth === 16) {
+      // Only the most significant byte is kept.
+      return row[rowStart + index * 2];
+    }
+    if (bitDepth === 8) {
+      return row[rowStart + index];
+    }
+    const bitOffset = index * bitDepth;
+    const byte = row[rowStart + (bitOffset >> 3)];
+    return (byte >> (8 - bitDepth - (bitOffset & 7))) & maxSampleValue;
+  }
+
+  function scale(sample: number): number {
+    return bitDepth >= 8 ? sample : Math.round((sample * 255) / maxSampleValue);
+  }
+
+  function readRawSample(row: Buffer, rowStart: number, index: number) {
+    if (bitDepth === 16) {
+      return row.readUInt16BE(rowStart + index * 2);
+    }
+    return readSample(row, rowStart, index);
+  }
+
+  function writePixel(
+    row: Buffer,
+    rowStart: number,
+    x: number,
+    target: number
+  ) {
+    const first = x * channels;
+    let r: number, g: number, b: number, a: number;
+
+    if (colorType === 3) {
+      const index = readSample(row, rowStart, first);
+      r = palette![index * 3];
+      g = palette![index * 3 + 1];
+      b = palette![index * 3 + 2];
+      a =
+        transparency && index < transparency.length ? transparency[index] : 255;
+    } else if (colorType === 0 || colorType === 4) {
+      r = g = b = scale(readSample(row, rowStart, first));
+      if (colorType === 4) {
+        a = scale(readSample(row, rowStart, first + 1));
+      } else {
+        const isTransparent =
+          transparency != null &&
+          readRawSample(row, rowStart, first) === transparency.readUInt16BE(0);
+        a = isTransparent ? 0 : 255;
+      }
+    } else {
+      r = scale(readSample(row, rowStart, first));
+      g = scale(readSample(row, rowStart, first + 1));
+      b = scale(readSample(row, rowStart, first + 2));
+      if (colorType === 6) {
+        a = scale(readSample(row, rowStart, first + 3));
+      } else {
+        const isTransparent =
+          transparency != null &&
+          readRawSample(row, rowStart, first) ===
+            transparency.readUInt16BE(0) &&
+          readRawSample(row, rowStart, first + 1) ===
+            transparency.readUInt16BE(2) &&
+          readRawSample(row, rowStart, first + 2) ===
+            transparency.readUInt16BE(4);
+        a = isTransparent ? 0 : 255;
+      }
+    }
+
+    pixels[target] = r;
+    pixels[target + 1] = g;
+    pixels[target + 2] = b;
+    pixels[target + 3] = a;
+  }
+
+  const passes = interlaced
+    ? ADAM7_PASSES
+    : [{ x: 0, y: 0, xStep: 1, yStep: 1 }];
+
+  let dataOffset = 0;
+  for (const pass of passes) {
+    const passWidth = Math.ceil((width - pass.x) / pass.xStep);
+    const passHeight = Math.ceil((height - pass.y) / pass.yStep);
+    if (passWidth <= 0 || passHeight <= 0) continue;
+
+    const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+    const rows = unfilter(
+      data,
+      dataOffset,
+      rowBytes,
+      passHeight,
+      bytesPerPixel
+    );
+    dataOffset += (rowBytes + 1) * passHeight;
+
+    for (let y = 0; y < passHeight; y++) {
+      for (let x = 0; x < passWidth; x++) {
+        const targetX = pass.x + x * pass.xStep;
+        const targetY = pass.y + y * pass.yStep;
+        writePixel(rows, y * rowBytes, x, (targetY * width + targetX) * 4);
+      }
+    }
+  }
+
+  return { width, height, data: pixels };
+}
+
+function makeChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+
+  const typeAndData = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData), 0);
+
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+/** Encodes RGBA pixels into a PNG file. */
+export function encodePng(image: RGBAImage): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(image.width, 0);
+  header.writeUInt32BE(image.height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // RGBA
+  header[10] = 0; // compression method
+  header[11] = 0; // filter method
+  header[12] = 0; // no interlacing
+
+  const rowBytes = image.width * 4;
+  const filtered = Buffer.alloc((rowBytes + 1) * image.height);
+  for (let y = 0; y < image.height; y++) {
+    // Each row starts with its filter type, which is always 0 (None) here.
+    image.data.copy(
+      filtered,
+      y * (rowBytes + 1) + 1,
+      y * rowBytes,
+      (y + 1) * rowBytes
+    );
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    makeChunk("IHDR", header),
+    makeChunk("IDAT", zlib.deflateSync(filtered)),
+    makeChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
@@ -0,0 +1,274 @@
+import asepriteLoader from "../asepriteLoader";
+import {
+  makeAsepriteFile,
+  layerChunk,
+  celChunk,
+  paletteChunk,
+  userDataChunk,
+  sliceChunk,
+} from "./asepriteFile";
+
+/** Runs the loader on an Aseprite file, and evaluates the module it makes. */
+function load(source: Buffer): AsepriteLoader.Data {
+  const code = asepriteLoader.call(
+    { resourcePath: "/project/src/hero.aseprite" },
+    source
+  );
+  const module: { exports: any } = { exports: null };
+  new Function("module", code)(module);
+  return module.exports;
+}
+
+test("the file's header, layers, palette and cels are exported", () => {
+  const data = load(
+    makeAsepriteFile({
+      width: 2,
+      height: 1,
+      colorDepth: 8,
+      transparentIndex: 3,
+      frames: [
+        {
+          duration: 100,
+          chunks: [
+            paletteChunk([
+              [0, 0, 0, 255],
+              [255, 255, 255, 255],
+            ]),
+            layerChunk({ name: "Body", blendMode: 1, opacity: 200 }),
+            layerChunk({ name: "Hidden", flags: 0 }),
+            celChunk({ layerIndex: 0, width: 2, height: 1, pixels: [0, 1] }),
+          ],
+        },
+        {
+          duration: 150,
+          chunks: [
+            celChunk({
+              layerIndex: 1,
+              x: 1,
+              y: -1,
+              opacity: 128,
+              width: 0,
+              height: 0,
+              pixels: [],
+            }),
+          ],
+        },
+      ],
+    })
+  );
+
+  expect(data).toMatchInlineSnapshot(`
+    Object {
+      "colorDepth": 8,
+      "colorProfile": Object {
+        "fGamma": 0,
+        "flag": 0,
+        "type": "None",
+      },
+      "fileSize": 310,
+      "frames": Array [
+        Object {
+          "bytesInFrame": 140,
+          "cels": Array [
+            Object {
+              "celType": 0,
+              "h": 1,
+              "layerIndex": 0,
+              "opacity": 255,
+              "rawCelData": Uint8Array [
+                0,
+                1,
+              ],
+              "w": 2,
+              "xpos": 0,
+              "ypos": 0,
+            },
+          ],
+          "frameDuration": 100,
+          "numChunks": 4,
+        },
+        Object {
+          "bytesInFrame": 42,
+          "cels": Array [
+            Object {
+              "celType": 0,
+              "h": 0,
+              "layerIndex": 1,
+              "opacity": 128,
+              "rawCelData": Uint8Array [],
+              "w": 0,
+              "xpos": 1,
+              "ypos": -1,
+            },
+          ],
+          "frameDuration": 150,
+          "numChunks": 1,
+        },
+      ],
+      "height": 1,
+      "layers": Array [
+        Object {
+          "blendMode": 1,
+          "flags": 1,
+          "layerChildLevel": 0,
+          "name": "Body",
+          "opacity": 200,
+          "type": 0,
+        },
+        Object {
+          "blendMode": 0,
+          "flags": 0,
+          "layerChildLevel": 0,
+          "name": "Hidden",
+          "opacity": 255,
+          "type": 0,
+        },
+      ],
+      "name": "hero.aseprite",
+      "numColors": 0,
+      "numFrames": 2,
+      "palette": Object {
+        "colors": Array [
+          Object {
+            "alpha": 255,
+            "blue": 0,
+            "green": 0,
+            "name": "none",
+            "red": 0,
+          },
+          Object {
+            "alpha": 255,
+            "blue": 255,
+            "green": 255,
+            "name": "none",
+            "red": 255,
+          },
+        ],
+        "firstColor": 0,
+        "lastColor": 1,
+        "paletteSize": 2,
+      },
+      "pixelRatio": "1:1",
+      "slices": Array [],
+      "tags": Array [],
+      "transparentIndex": 3,
+      "width": 2,
+    }
+  `);
+});
+
+test("user data is put on the cels it follows, and slices are read", () => {
+  const data = load(
+    makeAsepriteFile({
+      width: 4,
+      height: 4,
+      frames: [
+        {
+          duration: 100,
+          chunks: [
+            layerChunk({ name: "Body" }),
+            // Layers can have user data too, but only cels' is exported.
+            userDataChunk({ text: "layer data" }),
+            layerChunk({ name: "Hitbox" }),
+            celChunk({ layerIndex: 0, width: 0, height: 0, pixels: [] }),
+            userDataChunk({ text: "footstep", color: [255, 0, 0, 255] }),
+            celChunk({ layerIndex: 1, width: 0, height: 0, pixels: [] }),
+            sliceChunk({
+              name: "hurtbox",
+              keys: [
+                {
+                  frame: 0,
+                  x: 0,
+                  y: 1,
+                  width: 4,
+                  height: 3,
+                  center: { x: 1, y: 1, width: 2, height: 1 },
+                  pivot: { x: 2, y: 3 },
+                },
+              ],
+            }),
+          ],
+        },
+        {
+          duration: 100,
+          chunks: [
+            celChunk({ layerIndex: 0, width: 0, height: 0, pixels: [] }),
+            celChunk({ layerIndex: 1, width: 0, height: 0, pixels: [] }),
+            userDataChunk({ color: [0, 0, 255, 128] }),
+            sliceChunk({
+              name: "weapon",
+              keys: [
+                { frame: 0, x: -2, y: 0, width: 1, height: 1 },
+                { frame: 1, x: 3, y: 0, width: 1, height: 1 },
+              ],
+            }),
+          ],
+        },
+      ],
+    })
+  );
+
+  expect(data.frames.map((frame) => frame.cels.map((cel) => cel.userData)))
+    .toMatchInlineSnapshot(`
+    Array [
+      Array [
+        Object {
+          "color": "rgba(255, 0, 0, 1)",
+          "text": "footstep",
+        },
+        undefined,
+      ],
+      Array [
+        undefined,
+        Object {
+          "color": "rgba(0, 0, 255, 0.5019607843137255)",
+        },
+      ],
+    ]
+  `);
+  expect(data.slices).toMatchInlineSnapshot(`
+    Array [
+      Object {
+        "keys": Array [
+          Object {
+            "center": Object {
+              "height": 1,
+              "width": 2,
+              "x": 1,
+              "y": 1,
+            },
+            "frame": 0,
+            "height": 3,
+            "pivot": Object {
+              "x": 2,
+              "y": 3,
+            },
+            "width": 4,
+            "x": 0,
+            "y": 1,
+          },
+        ],
+        "name": "hurtbox",
+      },
+      Object {
+        "keys": Array [
+          Object {
+            "frame": 0,
+            "height": 1,
+            "width": 1,
+            "x": -2,
+            "y": 0,
+          },
+          Object {
+            "frame": 1,
+            "height": 1,
+            "width": 1,
+            "x": 3,
+            "y": 0,
+          },
+        ],
+        "name": "weapon",
+      },
+    ]
+  `);
+});
@@ -0,0 +1,219 @@
+// Builds Aseprite files, as described here:
+// https://github.com/aseprite/aseprite/blob/master/docs/ase-file-specs.md
+
+const LAYER_CHUNK = 0x2004;
+const CEL_CHUNK = 0x2005;
+const PALETTE_CHUNK = 0x2019;
+const USER_DATA_CHUNK = 0x2020;
+const SLICE_CHUNK = 0x2022;
+
+function word(value: number): Buffer {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16LE(value, 0);
+  return buffer;
+}
+
+function short(value: number): Buffer {
+  const buffer = Buffer.alloc(2);
+  buffer.writeInt16LE(value, 0);
+  return buffer;
+}
+
+function dword(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value, 0);
+  return buffer;
+}
+
+function long(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeInt32LE(value, 0);
+  return buffer;
+}
+
+function string(value: string): Buffer {
+  const bytes = Buffer.from(value, "utf8");
+  return Buffer.concat([word(bytes.length), bytes]);
+}
+
+/** Puts the chunk size and type before a chunk's data. */
+export function chunk(type: number, data: Buffer): Buffer {
+  return Buffer.concat([dword(data.length + 6), word(type), data]);
+}
+
+export function layerChunk({
+  name,
+  flags = 1,
+  type = 0,
+  childLevel = 0,
+  blendMode = 0,
+  opacity = 255,
+}: {
+  name: string;
+  flags?: number;
+  type?: number;
+  childLevel?: number;
+  blendMode?: number;
+  opacity?: number;
+}): Buffer {
+  return chunk(
+    LAYER_CHUNK,
+    Buffer.concat([
+      word(flags),
+      word(type),
+      word(childLevel),
+      word(0),
+      word(0),
+      word(blendMode),
+      Buffer.from([opacity, 0, 0, 0]),
+      string(name),
+    ])
+  );
+}
+
+/** A cel whose pixels aren't compressed. */
+export function celChunk({
+  layerIndex,
+  x = 0,
+  y = 0,
+  opacity = 255,
+  width,
+  height,
+  pixels,
+}: {
+  layerIndex: number;
+  x?: number;
+  y?: number;
+  opacity?: number;
+  width: number;
+  height: number;
+  pixels: Array<number>;
+}): Buffer {
+  return chunk(
+    CEL_CHUNK,
+    Buffer.concat([
+      word(layerIndex),
+      short(x),
+      short(y),
+      Buffer.from([opacity]),
+      word(0),
+      Buffer.alloc(7),
+      word(width),
+      word(height),
+      Buffer.from(pixels),
+    ])
+  );
+}
+
+export function paletteChunk(colors: Array<Array<number>>): Buffer {
+  return chunk(
+    PALETTE_CHUNK,
+    Buffer.concat([
+      dword(colors.length),
+      dword(0),
+      dword(colors.length - 1),
+      Buffer.alloc(8),
+      ...colors.map((color) => Buffer.concat([word(0), Buffer.from(color)])),
+    ])
+  );
+}
+
+/** User data, which describes the chunk before it. */
+export function userDataChunk({
+  text,
+  color,
+}: {
+  text?: string;
+  color?: Array<number>;
+}): Buffer {
+  return chunk(
+    USER_DATA_CHUNK,
+    Buffer.concat([
+      dword((text != null ? 1 : 0) | (color != null ? 2 : 0)),
+      ...(text != null ? [string(text)] : []),
+      ...(color != null ? [Buffer.from(color)] : []),
+    ])
+  );
+}
+
+type Bounds = { x: number; y: number; width: number; height: number };
+
+export function sliceChunk({
+  name,
+  keys,
+}: {
+  name: string;
+  keys: Array<
+    Bounds & {
+      frame: number;
+      center?: Bounds;
+      pivot?: { x: number; y: number };
+    }
+  >;
+}): Buffer {
+  const bounds = ({ x, y, width, height }: Bounds) =>
+    Buffer.concat([long(x), long(y), dword(width), dword(height)]);
+
+  // Every key has a center and pivot if any of them do.
+  const hasCenter = keys.some((key) => key.center);
+  const hasPivot = keys.some((key) => key.pivot);
+
+  return chunk(
+    SLICE_CHUNK,
+    Buffer.concat([
+      dword(keys.length),
+      dword((hasCenter ? 1 : 0) | (hasPivot ? 2 : 0)),
+      dword(0),
+      string(name),
+      ...keys.map((key) =>
+        Buffer.concat([
+          dword(key.frame),
+          bounds(key),
+          ...(hasCenter ? [bounds(key.center!)] : []),
+          ...(hasPivot ? [long(key.pivot!.x), long(key.pivot!.y)] : []),
+        ])
+      ),
+    ])
+  );
+}
+
+export function makeAsepriteFile({
+  width,
+  height,
+  colorDepth = 32,
+  transparentIndex = 0,
+  frames,
+}: {
+  width: number;
+  height: number;
+  colorDepth?: 8 | 16 | 32;
+  transparentIndex?: number;
+  frames: Array<{ duration: number; chunks: Array<Buffer> }>;
+}): Buffer {
+  const frameBuffers = frames.map(({ duration, chunks }) => {
+    const data = Buffer.concat(chunks);
+    return Buffer.concat([
+      dword(data.length + 16),
+      word(0xf1fa),
+      word(chunks.length),
+      word(duration),
+      Buffer.alloc(2),
+      dword(chunks.length),
+      data,
+    ]);
+  });
+
+  const header = Buffer.alloc(128);
+  header.writeUInt16LE(0xa5e0, 4);
+  header.writeUInt16LE(frames.length, 6);
+  header.writeUInt16LE(width, 8);
+  header.writeUInt16LE(height, 10);
+  header.writeUInt16LE(colorDepth, 12);
+  header[28] = transparentIndex;
+  header[34] = 1;
+  header[35] = 1;
+
+  const file = Buffer.concat([header, ...frameBuffers]);
+  file.writeUInt32LE(file.length, 0);
+  return file;
+}
@@ -0,0 +1,424 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import atlasLoader from "../atlasLoader";
+import { RGBAImage, decodePng, encodePng } from "../png";
+import {
+  makeAsepriteFile,
+  layerChunk,
+  celChunk,
+  paletteChunk,
+} from "./asepriteFile";
+
+let dir: string;
+let messages: Array<string>;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "atlas-loader-"));
+  messages = [];
+});
+
+function removeDirectory(directory: string) {
+  for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      removeDirectory(entryPath);
+    } else {
+      fs.unlinkSync(entryPath);
+    }
+  }
+  fs.rmdirSync(directory);
+}
+
+afterEach(() => {
+  removeDirectory(dir);
+});
+
+function writeFile(name: string, contents: Buffer | string) {
+  const file = path.join(dir, name);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, contents);
+}
+
+function solidPng(width: number, height: number, color: Array<number>) {
+  const data = Buffer.alloc(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.set(color, i * 4);
+  }
+  return encodePng({ width, height, data });
+}
+
+const relative = (file: string) => path.relative(dir, file) || ".";
+
+/** Runs the loader on an `.atlas` file in the temporary directory, and evaluates the module it makes. */
+function loadAtlas(name: string) {
+  const emitted: { [fileName: string]: Buffer } = {};
+  const context = {
+    resourcePath: path.join(dir, name),
+    emitWarning: (error: Error) =>
+      messages.push(`warning: ${error.message.split(dir).join("<dir>")}`),
+    addDependency: (file: string) =>
+      messages.push(`dependency: ${relative(file)}`),
+    addContextDependency: (directory: string) =>
+      messages.push(`context dependency: ${relative(directory)}`),
+    emitFile: (fileName: string, contents: Buffer) => {
+      emitted[fileName] = contents;
+    },
+  };
+
+  const code = atlasLoader.call(
+    context,
+    fs.readFileSync(context.resourcePath, "utf-8")
+  );
+  const module: { exports: any } = { exports: null };
+  new Function("module", "__webpack_public_path__", code)(module, "/static/");
+
+  const texture = decodePng(emitted[path.basename(module.exports.url)]);
+  return { data: module.exports, texture };
+}
+
+/** Draws an image as text, with a letter for each of the colors in `legend`, and "." for transparent pixels. */
+function describeImage(
+  image: RGBAImage,
+  legend: { [letter: string]: Array<number> }
+): Array<string> {
+  const rows: Array<string> = [];
+  for (let y = 0; y < image.height; y++) {
+    let row = "";
+    for (let x = 0; x < image.width; x++) {
+      const offset = (y * image.width + x) * 4;
+      const pixel = Array.from(image.data.slice(offset, offset + 4));
+      const letter = Object.keys(legend).find(
+        (key) => legend[key].join() === pixel.join()
+      );
+      row += pixel[3] === 0 ? "." : letter || "?";
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+const red = [255, 0, 0, 255];
+const green = [0, 255, 0, 255];
+const blue = [0, 0, 255, 255];
+
+test("images are packed into shelves, tallest first, with padding between them", () => {
+  writeFile("sprites/wide.png", solidPng(4, 2, red));
+  writeFile("sprites/tall.png", solidPng(2, 3, green));
+  writeFile("sprites/dot.png", solidPng(1, 1, blue));
+  writeFile("game.atlas", JSON.stringify({ images: ["./sprites/*.png"] }));
+
+  const { data, texture } = loadAtlas("game.atlas");
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "dependency: sprites/dot.png",
+      "dependency: sprites/tall.png",
+      "dependency: sprites/wide.png",
+      "context dependency: sprites",
+    ]
+  `);
+  expect(data).toMatchInlineSnapshot(`
+    Object {
+      "frames": Object {
+        "sprites/dot": Object {
+          "height": 1,
+          "width": 1,
+          "x": 6,
+          "y": 5,
+        },
+        "sprites/tall": Object {
+          "height": 3,
+          "width": 2,
+          "x": 1,
+          "y": 1,
+        },
+        "sprites/wide": Object {
+          "height": 2,
+          "width": 4,
+          "x": 1,
+          "y": 5,
+        },
+      },
+      "height": 8,
+      "url": "/static/game.b6620e33.png",
+      "width": 8,
+    }
+  `);
+  expect(describeImage(texture, { r: red, g: green, b: blue }))
+    .toMatchInlineSnapshot(`
+    Array [
+      "........",
+      ".gg.....",
+      ".gg.....",
+      ".gg.....",
+      "........",
+      ".rrrr.b.",
+      ".rrrr...",
+      "........",
+    ]
+  `);
+});
+
+test("images are found through each pattern, and more padding can be used", () => {
+  writeFile("a.png", solidPng(1, 1, red));
+  writeFile("more/b.png", solidPng(1, 1, green));
+  writeFile("more/nested/c.png", solidPng(1, 1, blue));
+  writeFile(
+    "game.atlas",
+    JSON.stringify({
+      images: ["a.png", "more/**/*.png", "a.png", "missing/*.png"],
+      padding: 2,
+    })
+  );
+
+  const { data, texture } = loadAtlas("game.atlas");
+
+  expect(messages).toMatchInlineSnapshot(`
+    Array [
+      "warning: \\"missing/*.png\\" in <dir>/game.atlas didn't match any files",
+      "dependency: a.png",
+      "dependency: more/b.png",
+      "dependency: more/nested/c.png",
+      "context dependency: .",
+      "context dependency: more",
+      "context dependency: .",
+      "context dependency: missing",
+    ]
+  `);
+  expect(Object.keys(data.frames)).toMatchInlineSnapshot(`
+    Array [
+      "a",
+      "more/b",
+      "more/nested/c",
+    ]
+  `);
+  expect(describeImage(texture, { r: red, g: green, b: blue }))
+    .toMatchInlineSnapshot(`
+    Array [
+      "........",
+      "........",
+      "..r..g..",
+      "........",
+      "........",
+      "..b.....",
+      "........",
+      "........",
+    ]
+  `);
+});
+
+test("atlases that can't be built explain why", () => {
+  writeFile("no-images.atlas", JSON.stringify({ padding: 1 }));
+  expect(() => loadAtlas("no-images.atlas")).toThrowError(
+    `${path.join(
+      dir,
+      "no-images.atlas"
+    )} must have an "images" Array of paths or glob patterns`
+  );
+
+  // Aseprite frames are named by their file and index, so "enemy/0.png" clashes with "enemy.aseprite".
+  writeFile("enemy/0.png", solidPng(1, 1, red));
+  writeFile(
+    "enemy.aseprite",
+    makeAsepriteFile({
+      width: 1,
+      height: 1,
+      frames: [
+        {
+          duration: 100,
+          chunks: [
+            layerChunk({ name: "Layer 1" }),
+            celChunk({ layerIndex: 0, width: 1, height: 1, pixels: red }),
+          ],
+        },
+      ],
+    })
+  );
+  writeFile(
+    "clash.atlas",
+    JSON.stringify({ images: ["enemy/*.png", "enemy.aseprite"] })
+  );
+  expect(() => loadAtlas("clash.atlas")).toThrowError(
+    `More than one image in ${path.join(dir, "clash.atlas")} is named 'enemy/0'`
+  );
+
+  writeFile("big.png", solidPng(20, 20, red));
+  writeFile(
+    "small.atlas",
+    JSON.stringify({ images: ["big.png"], maxSize: 16 })
+  );
+  expect(() => loadAtlas("small.atlas")).toThrowError(
+    "The images don't fit into a 16x16 atlas"
+  );
+});
+
+test("Aseprite layers are blended the same way the Aseprite Component blends them", () => {
+  const background = [100, 150, 200, 255];
+  const gray = [128, 128, 128, 255];
+  const orange = [200, 100, 50, 255];
+
+  writeFile(
+    "blends.aseprite",
+    makeAsepriteFile({
+      width: 1,
+      height: 1,
+      frames: [
+        {
+          duration: 100,
+          chunks: [
+            layerChunk({ name: "Background" }),
+            layerChunk({ name: "Multiply", blendMode: 1 }),
+            layerChunk({ name: "Addition", blendMode: 16 }),
+            layerChunk({ name: "Hidden", flags: 0 }),
+            layerChunk({ name: "Half Normal", opacity: 128 }),
+            celChunk({
+              layerIndex: 0,
+              width: 1,
+              height: 1,
+              pixels: background,
+            }),
+            celChunk({ layerIndex: 1, width: 1, height: 1, pixels: gray }),
+            celChunk({ layerIndex: 3, width: 1, height: 1, pixels: red }),
+          ],
+        },
+        {
+          duration: 200,
+          chunks: [
+            celChunk({
+              layerIndex: 0,
+              width: 1,
+              height: 1,
+              pixels: background,
+            }),
+            celChunk({ layerIndex: 2, width: 1, height: 1, pixels: orange }),
+          ],
+        },
+        {
+          duration: 300,
+          chunks: [
+            celChunk({
+              layerIndex: 0,
+              width: 1,
+              height: 1,
+              pixels: background,
+            }),
+            celChunk({
+              layerIndex: 1,
+              opacity: 128,
+              width: 1,
+              height: 1,
+              pixels: gray,
+            }),
+          ],
+        },
+        {
+          duration: 400,
+          chunks: [
+            celChunk({
+              layerIndex: 0,
+              width: 1,
+              height: 1,
+              pixels: background,
+            }),
+            celChunk({ layerIndex: 4, width: 1, height: 1, pixels: orange }),
+          ],
+        },
+      ],
+    })
+  );
+  writeFile("game.atlas", JSON.stringify({ images: ["blends.aseprite"] }));
+
+  const { data, texture } = loadAtlas("game.atlas");
+
+  expect(
+    Object.keys(data.frames).map((name) => {
+      const { x, y, duration } = data.frames[name];
+      const offset = (y * texture.width + x) * 4;
+      return `${name} (${duration}ms): ${Array.from(
+        texture.data.slice(offset, offset + 4)
+      ).join(", ")}`;
+    })
+  ).toMatchInlineSnapshot(`
+    Array [
+      "blends/0 (100ms): 50, 75, 100, 255",
+      "blends/1 (200ms): 255, 250, 250, 255",
+      "blends/2 (300ms): 75, 113, 150, 255",
+      "blends/3 (400ms): 150, 125, 125, 255",
+    ]
+  `);
+});
+
+test("Aseprite layers with a blend mode the runtime can't draw are rejected", () => {
+  writeFile(
+    "unknown.aseprite",
+    makeAsepriteFile({
+      width: 1,
+      height: 1,
+      frames: [
+        {
+          duration: 100,
+          chunks: [
+            layerChunk({ name: "Strange", blendMode: 99 }),
+            celChunk({ layerIndex: 0, width: 1, height: 1, pixels: red }),
+          ],
+        },
+      ],
+    })
+  );
+  writeFile("game.atlas", JSON.stringify({ images: ["unknown.aseprite"] }));
+
+  expect(() => loadAtlas("game.atlas")).toThrowError(
+    "Layer 'Strange' in unknown uses an unsupported blend mode: 99"
+  );
+});
+
+test("indexed Aseprite files leave out the transparent palette entry from their header", () => {
+  const black = [0, 0, 0, 255];
+  const white = [255, 255, 255, 255];
+
+  writeFile(
+    "indexed.aseprite",
+    makeAsepriteFile({
+      width: 3,
+      height: 1,
+      colorDepth: 8,
+      transparentIndex: 2,
+      frames: [
+        {
+          duration: 100,
+          chunks: [
+            paletteChunk([black, white, red]),
+            layerChunk({ name: "Layer 1" }),
+            celChunk({
+              layerIndex: 0,
+              width: 3,
+              height: 1,
+              pixels: [0, 1, 2],
+            }),
+          ],
+        },
+      ],
+    })
+  );
+  writeFile("game.atlas", JSON.stringify({ images: ["indexed.aseprite"] }));
+
+  const { data, texture } = loadAtlas("game.atlas");
+  const { x, y, width, height } = data.frames["indexed/0"];
+  const frame: RGBAImage = {
+    width,
+    height,
+    data: Buffer.alloc(width * height * 4),
+  };
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * texture.width + x) * 4;
+    texture.data.copy(frame.data, row * width * 4, start, start + width * 4);
+  }
+
+  expect(describeImage(frame, { k: black, w: white, r: red }))
+    .toMatchInlineSnapshot(`
+    Array [
+      "kw.",
+    ]
+  `);
+});
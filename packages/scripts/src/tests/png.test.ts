@@ -0,0 +1,161 @@
+import zlib from "zlib";
+import { RGBAImage, decodePng, encodePng } from "../png";
+import { makePng, describePixels } from "./pngHelpers";
+
+const red = [255, 0, 0, 255];
+const green = [0, 255, 0, 255];
+const halfBlue = [0, 0, 255, 128];
+const clear = [0, 0, 0, 0];
+
+function rgbaImage(
+  width: number,
+  height: number,
+  pixels: Array<Array<number>>
+): RGBAImage {
+  return { width, height, data: Buffer.from(pixels.flat()) };
+}
+
+test("images survive being encoded and decoded", () => {
+  const image = rgbaImage(3, 2, [red, green, halfBlue, clear, halfBlue, red]);
+
+  const png = encodePng(image);
+  const decoded = decodePng(png);
+
+  expect(decoded).toEqual(image);
+  expect(describePixels(decoded)).toMatchInlineSnapshot(`
+    Array [
+      "ff0000ff 00ff00ff 0000ff80",
+      "00000000 0000ff80 ff0000ff",
+    ]
+  `);
+});
+
+test("every scanline filter is undone", () => {
+  // Gradients, so that each filter has something to predict.
+  const rows = [
+    [10, 20, 30, 40, 50, 60, 70, 80, 90],
+    [15, 25, 35, 200, 100, 50, 255, 0, 128],
+    [0, 0, 0, 255, 255, 255, 1, 2, 3],
+  ].map((row) => Buffer.from(row));
+
+  const decodedWithEachFilter = [0, 1, 2, 3, 4].map((filter) =>
+    describePixels(
+      decodePng(
+        makePng({
+          width: 3,
+          height: 3,
+          colorType: 2,
+          bitDepth: 8,
+          rows,
+          filter,
+        })
+      )
+    )
+  );
+
+  decodedWithEachFilter.forEach((decoded) =>
+    expect(decoded).toEqual(decodedWithEachFilter[0])
+  );
+  expect(decodedWithEachFilter[0]).toMatchInlineSnapshot(`
+    Array [
+      "0a141eff 28323cff 46505aff",
+      "0f1923ff c86432ff ff0080ff",
+      "000000ff ffffffff 010203ff",
+    ]
+  `);
+});
+
+test("palettes, grayscale, low bit depths and 16-bit samples are converted to RGBA", () => {
+  // 2 bits per pixel: indexes 0, 1, 2, 3, with the first two partly transparent.
+  const palette = makePng({
+    width: 4,
+    height: 1,
+    colorType: 3,
+    bitDepth: 2,
+    rows: [Buffer.from([0b00011011])],
+    palette: Buffer.from([255, 0, 0, 0, 255, 0, 0, 0, 255, 9, 9, 9]),
+    transparency: Buffer.from([0, 128]),
+  });
+
+  // 1 bit per pixel: black and white.
+  const grayscale = makePng({
+    width: 3,
+    height: 1,
+    colorType: 0,
+    bitDepth: 1,
+    rows: [Buffer.from([0b10100000])],
+  });
+
+  const grayscaleAndAlpha = makePng({
+    width: 2,
+    height: 1,
+    colorType: 4,
+    bitDepth: 8,
+    rows: [Buffer.from([100, 255, 200, 50])],
+  });
+
+  // 16 bits per sample; the color 0x1234, 0x5678, 0x9abc is transparent.
+  const deepColorKey = Buffer.from([0x12, 0x34, 0x56, 0x78, 0x9a, 0xbc]);
+  const deepColor = makePng({
+    width: 2,
+    height: 1,
+    colorType: 2,
+    bitDepth: 16,
+    rows: [Buffer.concat([deepColorKey, Buffer.from([1, 2, 3, 4, 5, 6])])],
+    transparency: deepColorKey,
+  });
+
+  expect(
+    [palette, grayscale, grayscaleAndAlpha, deepColor].map((png) =>
+      describePixels(decodePng(png))
+    )
+  ).toMatchInlineSnapshot(`
+    Array [
+      Array [
+        "ff000000 00ff0080 0000ffff 090909ff",
+      ],
+      Array [
+        "ffffffff 000000ff ffffffff",
+      ],
+      Array [
+        "646464ff c8c8c832",
+      ],
+      Array [
+        "12569a00 010305ff",
+      ],
+    ]
+  `);
+});
+
+test("interlaced images are put back together", () => {
+  // A 3x3 image whose pixels are numbered in reading order.
+  const pixelAt = (x: number, y: number) => [x * 80, y * 80, 0, 255];
+
+  const interlaced = makePng({
+    width: 3,
+    height: 3,
+    colorType: 6,
+    bitDepth: 8,
+    interlaced: true,
+    rows: [],
+    pixelAt,
+  });
+
+  const expected = makePng({
+    width: 3,
+    height: 3,
+    colorType: 6,
+    bitDepth: 8,
+    rows: [0, 1, 2].map((y) =>
+      Buffer.from([0, 1, 2].flatMap((x) => pixelAt(x, y)))
+    ),
+  });
+
+  expect(decodePng(interlaced)).toEqual(decodePng(expected));
+});
+
+test("files that aren't PNGs are rejected", () => {
+  expect(() => decodePng(zlib.deflateSync(Buffer.from("hello")))).toThrow(
+    "Invalid PNG: Missing PNG signature"
+  );
+});
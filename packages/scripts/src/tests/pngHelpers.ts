@@ -0,0 +1,145 @@
+import zlib from "zlib";
+import { RGBAImage } from "../png";
+
+// Starting position and spacing of the pixels in each of the 7 Adam7 interlacing passes.
+const ADAM7_PASSES = [
+  { x: 0, y: 0, xStep: 8, yStep: 8 },
+  { x: 4, y: 0, xStep: 8, yStep: 8 },
+  { x: 0, y: 4, xStep: 4, yStep: 8 },
+  { x: 2, y: 0, xStep: 4, yStep: 4 },
+  { x: 0, y: 2, xStep: 2, yStep: 4 },
+  { x: 1, y: 0, xStep: 2, yStep: 2 },
+  { x: 0, y: 1, xStep: 1, yStep: 2 },
+];
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  // The decoder doesn't check CRCs, so they're left as 0.
+  return Buffer.concat([
+    length,
+    Buffer.from(type, "ascii"),
+    data,
+    Buffer.alloc(4),
+  ]);
+}
+
+function paethPredictor(left: number, up: number, upLeft: number): number {
+  const p = left + up - upLeft;
+  const pLeft = Math.abs(p - left);
+  const pUp = Math.abs(p - up);
+  const pUpLeft = Math.abs(p - upLeft);
+  if (pLeft <= pUp && pLeft <= pUpLeft) return left;
+  if (pUp <= pUpLeft) return up;
+  return upLeft;
+}
+
+/** Filters scanlines with the specified PNG filter type, and puts the filter type before each one. */
+function filterRows(
+  rows: Array<Buffer>,
+  filter: number,
+  bytesPerPixel: number
+): Buffer {
+  return Buffer.concat(
+    rows.map((row, y) => {
+      const previous = y > 0 ? rows[y - 1] : Buffer.alloc(row.length);
+      const filtered = Buffer.alloc(row.length + 1);
+      filtered[0] = filter;
+      for (let x = 0; x < row.length; x++) {
+        const left = x >= bytesPerPixel ? row[x - bytesPerPixel] : 0;
+        const up = previous[x];
+        const upLeft = x >= bytesPerPixel ? previous[x - bytesPerPixel] : 0;
+        const prediction = [
+          0,
+          left,
+          up,
+          Math.floor((left + up) / 2),
+          paethPredictor(left, up, upLeft),
+        ][filter];
+        filtered[x + 1] = (row[x] - prediction) & 0xff;
+      }
+      return filtered;
+    })
+  );
+}
+
+/**
+ * Makes a PNG file out of raw scanlines, in any of the formats a PNG can be in.
+ *
+ * Interlaced images are always 8-bit RGBA, and their pixels come from `pixelAt` instead of `rows`.
+ */
+export function makePng({
+  width,
+  height,
+  colorType,
+  bitDepth,
+  rows,
+  filter = 0,
+  palette,
+  transparency,
+  interlaced = false,
+  pixelAt,
+}: {
+  width: number;
+  height: number;
+  colorType: number;
+  bitDepth: number;
+  rows: Array<Buffer>;
+  filter?: number;
+  palette?: Buffer;
+  transparency?: Buffer;
+  interlaced?: boolean;
+  pixelAt?: (x: number, y: number) => Array<number>;
+}): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = bitDepth;
+  header[9] = colorType;
+  header[12] = interlaced ? 1 : 0;
+
+  const channels = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[colorType as 0] || 1;
+  const bytesPerPixel = Math.max(1, (channels * bitDepth) / 8);
+
+  let data: Buffer;
+  if (interlaced) {
+    data = Buffer.concat(
+      ADAM7_PASSES.map((pass) => {
+        const passRows: Array<Buffer> = [];
+        for (let y = pass.y; y < height; y += pass.yStep) {
+          const row: Array<number> = [];
+          for (let x = pass.x; x < width; x += pass.xStep) {
+            row.push(...pixelAt!(x, y));
+          }
+          if (row.length > 0) passRows.push(Buffer.from(row));
+        }
+        return filterRows(passRows, filter, 4);
+      })
+    );
+  } else {
+    data = filterRows(rows, filter, bytesPerPixel);
+  }
+
+  return Buffer.concat([
+    Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]),
+    chunk("IHDR", header),
+    ...(palette ? [chunk("PLTE", palette)] : []),
+    ...(transparency ? [chunk("tRNS", transparency)] : []),
+    chunk("IDAT", zlib.deflateSync(data)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+/** Describes each row of an image's pixels as hex RGBA values, eg "ff0000ff 00000000". */
+export function describePixels(image: RGBAImage): Array<string> {
+  const rows: Array<string> = [];
+  for (let y = 0; y < image.height; y++) {
+    const pixels: Array<string> = [];
+    for (let x = 0; x < image.width; x++) {
+      const offset = (y * image.width + x) * 4;
+      pixels.push(image.data.slice(offset, offset + 4).toString("hex"));
+    }
+    rows.push(pixels.join(" "));
+  }
+  return rows;
+}
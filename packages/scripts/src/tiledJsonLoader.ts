@@ -0,0 +1,60 @@
+import path from "path";
+
+// Matches paths that start with a URL scheme, like "http:" or "data:".
+const URL_PATTERN = /^[a-z][a-z0-9+.-]*:/i;
+
+const requireTemplate = (source: string) => `(
+  typeof require(${source}) === "object" &&
+  require(${source}) != null &&
+  require(${source}).__esModule &&
+  {}.hasOwnProperty.call(require(${source}), "default")
+    ? require(${source}).default
+    : require(${source})
+)`;
+
+/**
+ * A webpack loader for Tiled's JSON map (.tmj) and tileset (.tsj) formats.
+ *
+ * It works like `xml-source-loader` does for Tiled's XML formats: any `image`
+ * paths, and the `source` paths of external tilesets, are wrapped with a `require`,
+ * so that they get loaded through webpack's normal loading mechanism (eg `file-loader`).
+ */
+export default function tiledJsonLoader(source: string) {
+  const requests: Array<string> = [];
+
+  const requestFor = (filePath: string) => {
+    // Tiled writes relative paths without a leading "./", but webpack would look for
+    // those in node_modules. Absolute paths and URLs are left as they are.
+    const request =
+      filePath.startsWith(".") ||
+      path.isAbsolute(filePath) ||
+      URL_PATTERN.test(filePath)
+        ? filePath
+        : "./" + filePath;
+    requests.push(request);
+    return `__TILED_JSON_REQUIRE_${requests.length - 1}__`;
+  };
+
+  const json = JSON.stringify(JSON.parse(source), function(
+    this: any,
+    key: string,
+    value: any
+  ) {
+    if (typeof value !== "string") return value;
+
+    if (key === "image") {
+      return requestFor(value);
+    }
+    // `this` is the object containing the key; only tileset references have a `firstgid`.
+    if (key === "source" && "firstgid" in this) {
+      return requestFor(value);
+    }
+    return value;
+  });
+
+  const code = json.replace(/"__TILED_JSON_REQUIRE_(\d+)__"/g, (_, index) =>
+    requireTemplate(JSON.stringify(requests[Number(index)]))
+  );
+
+  return `module.exports = ${code};`;
+}
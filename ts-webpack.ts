@@ -43,11 +43,159 @@ declare module "*.ase" {
   export default data;
 }
 
+declare module "*.atlas" {
+  const data: AtlasLoader.Data;
+  export default data;
+}
+
+declare namespace AtlasLoader {
+  interface Frame {
+    /** The position of the frame's top-left corner in the packed texture. */
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** For frames from Aseprite files, how long the frame should be shown for, in ms. */
+    duration?: number;
+  }
+  interface Data<FrameName extends string = string> {
+    /** The URL of the packed texture. */
+    url: string;
+    width: number;
+    height: number;
+    frames: { [Name in FrameName]: Frame };
+  }
+}
+
+declare namespace AsepriteLoader {
+  interface Data {
+    /** The slices in the Aseprite file. */
+    slices?: Array<Slice>;
+    /** For files that use indexed color, the palette index that is transparent. */
+    transparentIndex?: number;
+  }
+  interface Slice {
+    name: string;
+    /** The bounds of the slice, starting at the frame specified in each key and lasting until the next key. */
+    keys: Array<SliceKey>;
+  }
+  interface SliceKey {
+    frame: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** The center of a 9-patch slice, relative to the slice's bounds. */
+    center?: { x: number; y: number; width: number; height: number };
+    /** The pivot point of the slice, relative to the slice's bounds. */
+    pivot?: { x: number; y: number };
+  }
+  interface Cel {
+    /** The user data that was set on this cel in Aseprite, if any. */
+    userData?: {
+      text?: string;
+      color?: string;
+    };
+  }
+}
+
+declare namespace TiledLoader {
+  /** A custom property on an object, layer, or tile in a Tiled JSON file. */
+  interface Property {
+    name: string;
+    type: "bool" | "color" | "float" | "file" | "int" | "object" | "string";
+    value: any;
+  }
+  /**
+   * A tileset in a Tiled JSON tileset (.tsj) file, or a tileset reference within a Tiled JSON map (.tmj) file.
+   *
+   * The `source` of each external tileset is replaced with the contents of the
+   * referenced .tsj file, and `image` paths are replaced with URLs.
+   */
+  interface Tileset {
+    firstgid?: number;
+    source?: string | Tileset;
+    name?: string;
+    image?: string;
+    tilewidth?: number;
+    tileheight?: number;
+    tiles?: Array<{
+      id: number;
+      type?: string;
+      class?: string;
+      properties?: Array<Property>;
+      objectgroup?: { objects: Array<Object> };
+      animation?: Array<{ tileid: number; duration: number }>;
+      [key: string]: any;
+    }>;
+    [key: string]: any;
+  }
+  /** A rectangular chunk of tile data within a layer in an infinite map. */
+  interface Chunk {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    data: Array<number> | string;
+  }
+  /** An object within an object layer. */
+  interface Object {
+    id: number;
+    name: string;
+    x: number;
+    y: number;
+    width?: number;
+    height?: number;
+    point?: boolean;
+    ellipse?: boolean;
+    text?: { [key: string]: any };
+    rotation?: number;
+    polygon?: Array<{ x: number; y: number }>;
+    properties?: Array<Property>;
+    [key: string]: any;
+  }
+  interface Layer {
+    type: "tilelayer" | "objectgroup" | "imagelayer" | "group";
+    name: string;
+    visible: boolean;
+    width?: number;
+    height?: number;
+    data?: Array<number> | string;
+    chunks?: Array<Chunk>;
+    encoding?: "csv" | "base64";
+    compression?: "" | "zlib" | "gzip" | "zstd";
+    objects?: Array<Object>;
+    [key: string]: any;
+  }
+  /** The contents of a Tiled JSON map (.tmj) file. */
+  interface Map {
+    type: "map";
+    width: number;
+    height: number;
+    tilewidth: number;
+    tileheight: number;
+    infinite?: boolean;
+    tilesets: Array<Tileset>;
+    layers: Array<Layer>;
+    [key: string]: any;
+  }
+}
+
 declare module "*.xml" {
   const data: XMLSourceLoader.Element;
   export default data;
 }
 
+declare module "*.tmj" {
+  const data: TiledLoader.Map;
+  export default data;
+}
+
+declare module "*.tsj" {
+  const data: TiledLoader.Tileset;
+  export default data;
+}
+
 declare module "*.fnt" {
   const data: BMFontLoader.Font;
   export default data;